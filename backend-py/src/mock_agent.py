@@ -1,12 +1,15 @@
 """Mock agent for testing without the Claude API.
 
-Simulates tool calls and streaming text, matching the TS mock-agent.ts behavior.
+Simulates tool calls and streaming text, matching the TS mock-agent.ts behavior
+closely enough for backend/test/conformance.ts to hold both servers to the same
+protocol behavior.
 """
 
 from __future__ import annotations
 
 import asyncio
-from typing import Any, AsyncGenerator, Callable
+import re
+from typing import AsyncGenerator, Callable
 
 from .log import log
 from .protocol import (
@@ -15,6 +18,27 @@ from .protocol import (
 )
 from .session_store import DetachableVaultBridge
 
+MOCK_DELAY = 0.05  # Delay between streamed words (seconds), as in mock-agent.ts
+
+DEFAULT_RESPONSE = (
+    "Hello! I'm the mock Obsidian assistant. I received your message: \"{prompt}\"\n\n"
+    "I can help you with:\n"
+    "- **list files** - List vault contents\n"
+    "- **read [file.md]** - Read a note\n\n"
+    "Try one of these commands to see the mock tools in action!"
+)
+
+
+async def _stream_text(
+    text: str, cancelled: Callable[[], bool]
+) -> AsyncGenerator[AgentEvent, None]:
+    """Yield text word by word, stopping early once the session is cancelled."""
+    for word in text.split(" "):
+        if cancelled():
+            return
+        yield TextDeltaEvent(text=word + " ")
+        await asyncio.sleep(MOCK_DELAY)
+
 
 async def run_mock_agent(
     prompt: str,
@@ -24,6 +48,7 @@ async def run_mock_agent(
 ) -> AsyncGenerator[AgentEvent, None]:
     """Yield mock agent events for testing."""
     log.info(f"[mock] Processing: {prompt[:80]}")
+    is_cancelled = cancelled or (lambda: False)
 
     yield ThinkingEvent(text="")
 
@@ -42,16 +67,22 @@ async def run_mock_agent(
         yield TextDeltaEvent(text=f"Here are the files:\n{result}")
 
     elif "read" in lower or "open" in lower:
-        yield ToolStartEvent(name="vault_read", input={"path": "test.md"})
+        match = re.search(r"(?:read|open)\s+[\"']?([^\"'\s]+\.md)[\"']?", prompt, re.IGNORECASE)
+        path = match.group(1) if match else "test.md"
+        yield ToolStartEvent(name="vault_read", input={"path": path})
         await asyncio.sleep(0.3)
         try:
-            content = await bridge.read("test.md")
+            content = await bridge.read(path)
         except Exception as e:
             content = f"Error: {e}"
         yield ToolEndEvent(name="vault_read", result=content)
         yield TextDeltaEvent(text=f"Contents:\n{content}")
 
     else:
-        yield TextDeltaEvent(text="Hello! I'm the mock agent. Try asking me to list files or read a note.")
+        async for event in _stream_text(DEFAULT_RESPONSE.format(prompt=prompt), is_cancelled):
+            yield event
+        if is_cancelled():
+            yield CompleteEvent(result="Cancelled by user")
+            return
 
     yield CompleteEvent(result="")
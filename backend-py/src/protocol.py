@@ -9,6 +9,18 @@ from __future__ import annotations
 from dataclasses import dataclass, field, asdict
 from typing import Any, Literal
 
+# ============================================================================
+# Versioning (see PROTOCOL_VERSION in protocol.ts)
+# ============================================================================
+
+PROTOCOL_VERSION = 2
+MIN_PROTOCOL_VERSION = 1
+
+# Optional capabilities announced in `welcome`. This server has no asides,
+# interrupts, approvals, branching, sub-agents or jobs.
+SERVER_FEATURES = ["session_replay"]
+
+
 # ============================================================================
 # Shared types
 # ============================================================================
@@ -146,5 +158,15 @@ def session_info_msg(
     return msg
 
 
+def welcome_msg() -> dict[str, Any]:
+    return {
+        "type": "welcome",
+        "protocolVersion": PROTOCOL_VERSION,
+        "minProtocolVersion": MIN_PROTOCOL_VERSION,
+        "features": SERVER_FEATURES,
+        "server": "python",
+    }
+
+
 def pong_msg() -> dict[str, Any]:
     return {"type": "pong"}
@@ -20,7 +20,8 @@ from .protocol import (
     AgentEvent, AgentContext, CompleteEvent, ErrorEvent,
     text_delta_msg, tool_start_msg, tool_end_msg, thinking_msg,
     complete_msg, error_msg, rpc_request_msg, session_created_msg,
-    session_replay_msg, session_info_msg, pong_msg, event_to_dict,
+    session_replay_msg, session_info_msg, welcome_msg, pong_msg, event_to_dict,
+    MIN_PROTOCOL_VERSION,
 )
 from .session_store import SessionStore, Session, DetachableVaultBridge, RpcSender
 from .conversation import Conversation, get_cached_system_prompt, DEFAULT_MODEL
@@ -62,11 +63,17 @@ class ConnectionHandler:
         self._pending_rpcs: dict[str, asyncio.Future] = {}
         self._rpc_timeouts: dict[str, asyncio.TimerHandle] = {}
         self._session_unsubs: dict[str, Any] = {}
+        # Running sessions by prompt id, which is what `cancel` refers to
+        self._request_sessions: dict[str, Session] = {}
         self._warm_conversation: _ConversationEntry | None = None
+        # RPC methods the client announced in `hello`; None for clients without the handshake
+        self._client_rpc_methods: set[str] | None = None
 
     # -- RpcSender protocol --
 
     async def send_rpc(self, method: str, params: dict[str, Any]) -> Any:
+        if self._client_rpc_methods is not None and method not in self._client_rpc_methods:
+            raise RuntimeError(f"The plugin does not support {method} — update the plugin to use this tool")
         rpc_id = str(uuid.uuid4())
         loop = asyncio.get_running_loop()
         future: asyncio.Future = loop.create_future()
@@ -122,7 +129,9 @@ class ConnectionHandler:
                 msg_type = msg.get("type")
                 log.debug(f"Received: {msg_type}")
 
-                if msg_type == "prompt":
+                if msg_type == "hello":
+                    await self._handle_hello(msg)
+                elif msg_type == "prompt":
                     asyncio.create_task(self._handle_prompt(msg))
                 elif msg_type == "rpc_response":
                     self._handle_rpc_response(msg)
@@ -142,6 +151,16 @@ class ConnectionHandler:
         finally:
             self._cleanup()
 
+    # -- Handshake --
+
+    async def _handle_hello(self, msg: dict[str, Any]) -> None:
+        version = msg.get("protocolVersion", 1)
+        self._client_rpc_methods = set(msg.get("rpcMethods", []))
+        log.info(f"Client {msg.get('client', 'unknown')} speaks protocol v{version}")
+        if version < MIN_PROTOCOL_VERSION:
+            log.warning(f"Client protocol v{version} is older than v{MIN_PROTOCOL_VERSION}, the oldest supported")
+        await self._send(welcome_msg())
+
     # -- Prompt -> Conversation --
 
     async def _handle_prompt(self, msg: dict[str, Any]) -> None:
@@ -165,10 +184,14 @@ class ConnectionHandler:
 
         log.info(f"Session {session.id} started for prompt {msg['id']}")
 
-        if MOCK_MODE:
-            await self._run_mock(session, msg)
-        else:
-            await self._run_conversation_turn(conversation_id, session, msg)
+        self._request_sessions[msg["id"]] = session
+        try:
+            if MOCK_MODE:
+                await self._run_mock(session, msg)
+            else:
+                await self._run_conversation_turn(conversation_id, session, msg)
+        finally:
+            self._request_sessions.pop(msg["id"], None)
 
     async def _run_conversation_turn(
         self, conversation_id: str, session: Session, msg: dict[str, Any]
@@ -285,7 +308,9 @@ class ConnectionHandler:
     # -- Session operations --
 
     def _handle_cancel(self, msg: dict[str, Any]) -> None:
-        session = self.session_store.get(msg.get("id", ""))
+        # Cancel by prompt id; also accept a session id
+        request_id = msg.get("id", "")
+        session = self._request_sessions.get(request_id) or self.session_store.get(request_id)
         if session:
             session.cancel()
 
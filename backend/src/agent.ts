@@ -9,14 +9,20 @@
  * - Multi-turn uses SDK session resume (skips system prompt rebuild)
  */
 
+import { randomUUID } from 'crypto';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import { createVaultMcpServer } from './vault-tools.js';
+import { createVaultMcpServer, type SubAgentDelegate } from './vault-tools.js';
 import { logger, AsyncQueue } from './utils.js';
+import type { ApprovalGate } from './approval.js';
 import type {
   VaultBridge,
   AgentContext,
   AgentEvent,
+  TokenUsage,
+  ToolAccess,
 } from './protocol.js';
+import { BUILTIN_TOOLS, ToolFilter } from './tool-access.js';
+import { loadSkills, type SkillDefinition } from './skills.js';
 
 const BASE_SYSTEM_PROMPT = `You are an Obsidian note-editing assistant. You help users create, edit, search, and organize their notes in their Obsidian vault.
 
@@ -24,11 +30,15 @@ const BASE_SYSTEM_PROMPT = `You are an Obsidian note-editing assistant. You help
 - Read notes from the vault
 - Write/create notes
 - Edit notes with precise string replacement (vault_edit)
-- Search across the vault (vault_search for text, vault_grep for regex patterns)
+- Search across the vault (vault_search for text, vault_semantic_search for meaning, vault_grep for regex patterns)
 - Find files by pattern (vault_glob)
 - List files and folders
 - Rename/move notes (vault_rename)
-- Delete notes (ask for confirmation first)
+- Follow the link graph: backlinks, outgoing links and nearby notes (vault_backlinks, vault_outlinks, vault_neighbors)
+- Read and update frontmatter properties — tags, aliases, dates and other fields (vault_get_properties, vault_set_properties)
+- Delete notes (ask for confirmation first; the user may have to approve the call)
+- Remember facts across conversations (memory_add, memory_search, memory_forget)
+- Delegate research that needs many notes read to a sub-agent that returns only a summary (delegate_task)
 - Search the web for current information (WebSearch) - useful for looking up documentation, news, or any external information
 
 ## Guidelines
@@ -38,14 +48,16 @@ const BASE_SYSTEM_PROMPT = `You are an Obsidian note-editing assistant. You help
 4. Use proper Obsidian markdown:
    - [[wikilinks]] for internal links
    - #tags for categorization
-   - YAML frontmatter for metadata
+   - YAML frontmatter for metadata — change it with vault_set_properties rather than editing the YAML by hand
 5. When creating new notes, suggest appropriate folder locations
-6. For destructive operations (delete, overwrite), confirm with the user first
+6. For destructive operations (delete, overwrite, rename), confirm with the user first. The user may also be asked to approve these tool calls in the UI — if a call is denied, do not retry it; ask how they'd like to proceed
 7. If a search returns no results, suggest alternative search terms or use vault_grep with regex
+8. For requests that span many notes (e.g. "summarize all meeting notes from Q3"), use delegate_task rather than reading every note yourself, so your context holds conclusions instead of raw notes. Split large jobs into a few independent sub-tasks
 
 ## Cookbook Research Tools
 When the user asks about cooking techniques, recipes, ingredients, or food science:
 - Use search_cookbooks to find information in their cookbook collection
+- Use list_cookbook_sources to see which books are in the collection
 - ALWAYS include exact citations from the results: source book name, page numbers, and section
 - When the user asks about a specific book, use the \`sources\` parameter to filter: sources="The Professional Chef"
 - For multiple specific sources: sources="ChefSteps, Modernist Cuisine"
@@ -65,65 +77,17 @@ When the user asks about cooking techniques, recipes, ingredients, or food scien
 - For complex multi-topic research, work in batches of 5-8 tool calls at a time rather than launching dozens in parallel. Complete one batch, synthesize results, then proceed to the next batch.
 
 ## Memory Management
-You have a persistent memory file (.claude/memory.md) loaded into your context.
-- After learning user preferences, project context, or important decisions, use vault_edit or vault_write to update .claude/memory.md
-- Keep it concise (<500 words), organized with ## headings
-- Sections: ## User Preferences, ## Projects, ## Key Decisions, ## Conventions
+You have a long-term memory that persists across conversations. Memories relevant to the current message are included with it in <persistent_memory>, each with its id.
+- After learning a user preference, project context, or an important decision, save it with memory_add — one self-contained fact per entry, with a few topic tags
+- Use memory_search when you need something that wasn't included, e.g. tag:preferences
+- When a memory turns out to be wrong or outdated, remove it with memory_forget (and add the corrected fact)
 - Don't store conversation-specific details — only persistent knowledge`;
 
-interface Skill {
-  name: string;
-  description: string;
-  content: string;
-}
-
-/**
- * Load custom skills from .claude/skills/ directory
- */
-async function loadSkills(bridge: VaultBridge): Promise<Skill[]> {
-  const skills: Skill[] = [];
-
-  try {
-    const skillFiles = await bridge.glob('.claude/skills/*.md');
-
-    for (const skillPath of skillFiles) {
-      try {
-        const content = await bridge.read(skillPath);
-        const filename = skillPath.split('/').pop() || skillPath;
-        const name = filename.replace(/\.md$/, '');
-
-        let description = `Custom skill: ${name}`;
-        const lines = content.split('\n');
-        if (lines[0]?.startsWith('# ')) {
-          description = lines[0].replace('# ', '').trim();
-        } else if (lines[0]?.startsWith('---')) {
-          const frontmatterEnd = content.indexOf('---', 4);
-          if (frontmatterEnd > 0) {
-            const frontmatter = content.substring(4, frontmatterEnd);
-            const descMatch = frontmatter.match(/description:\s*(.+)/);
-            if (descMatch) {
-              description = descMatch[1].trim();
-            }
-          }
-        }
-
-        skills.push({ name, description, content });
-        logger.info(`Loaded skill: ${name}`);
-      } catch (e) {
-        logger.warn(`Failed to load skill from ${skillPath}:`, e);
-      }
-    }
-  } catch (e) {
-    logger.debug('No .claude/skills/ directory found');
-  }
-
-  return skills;
-}
-
 /**
- * Build the full system prompt, including CLAUDE.md content and custom skills
+ * Build the full system prompt, including CLAUDE.md content and the list of
+ * custom skills (their instructions are loaded by calling the skill's tool)
  */
-async function buildSystemPrompt(bridge: VaultBridge): Promise<string> {
+async function buildSystemPrompt(bridge: VaultBridge, skills: SkillDefinition[]): Promise<string> {
   let systemPrompt = BASE_SYSTEM_PROMPT;
 
   try {
@@ -146,21 +110,11 @@ async function buildSystemPrompt(bridge: VaultBridge): Promise<string> {
     // .claude/instructions.md doesn't exist, that's fine
   }
 
-  try {
-    const memory = await bridge.read('.claude/memory.md');
-    if (memory && memory.trim()) {
-      systemPrompt += `\n\n## Persistent Memory\n\nThis is your long-term memory from past conversations. Use it for context continuity:\n\n${memory}`;
-      logger.info('Loaded .claude/memory.md');
-    }
-  } catch (e) {
-    logger.debug('No .claude/memory.md found');
-  }
-
-  const skills = await loadSkills(bridge);
   if (skills.length > 0) {
-    systemPrompt += `\n\n## Custom Skills\n\nThe user has defined the following custom skills. When they reference a skill by name (e.g., "run the weekly-review skill" or "/weekly-review"), follow the instructions in that skill:\n\n`;
+    systemPrompt += `\n\n## Custom Skills\n\nThe user has defined the following custom skills, each available as a tool. When they reference a skill by name (e.g., "run the weekly-review skill" or "/weekly-review 42"), call its tool with the arguments they gave and follow the instructions it returns:\n\n`;
     for (const skill of skills) {
-      systemPrompt += `### Skill: ${skill.name}\n${skill.description}\n\n\`\`\`\n${skill.content}\n\`\`\`\n\n`;
+      const hint = skill.argumentHint ? ` — arguments: ${skill.argumentHint}` : '';
+      systemPrompt += `- ${skill.name} (tool ${skill.toolName}): ${skill.description}${hint}\n`;
     }
   }
 
@@ -172,22 +126,25 @@ async function buildSystemPrompt(bridge: VaultBridge): Promise<string> {
 // ============================================================================
 
 const SYSTEM_PROMPT_TTL_MS = 5 * 60 * 1000; // 5 minutes
-let systemPromptCache: { prompt: string; builtAt: number } | null = null;
+let systemPromptCache: { prompt: string; skills: SkillDefinition[]; builtAt: number } | null = null;
 
 /**
- * Get system prompt, using cache if fresh (within TTL).
+ * Get system prompt and skills, using cache if fresh (within TTL).
  * Avoids 4+ vault RPCs per new conversation.
  */
-async function getCachedSystemPrompt(bridge: VaultBridge): Promise<string> {
+async function getCachedSystemPrompt(
+  bridge: VaultBridge,
+): Promise<{ prompt: string; skills: SkillDefinition[] }> {
   if (systemPromptCache && (Date.now() - systemPromptCache.builtAt) < SYSTEM_PROMPT_TTL_MS) {
     logger.info('Using cached system prompt (age: ' +
       Math.round((Date.now() - systemPromptCache.builtAt) / 1000) + 's)');
-    return systemPromptCache.prompt;
+    return systemPromptCache;
   }
-  const prompt = await buildSystemPrompt(bridge);
-  systemPromptCache = { prompt, builtAt: Date.now() };
+  const skills = await loadSkills(bridge);
+  const prompt = await buildSystemPrompt(bridge, skills);
+  systemPromptCache = { prompt, skills, builtAt: Date.now() };
   logger.info('Built and cached system prompt');
-  return prompt;
+  return systemPromptCache;
 }
 
 /** Force-invalidate the cache (e.g., after the agent edits CLAUDE.md) */
@@ -204,6 +161,42 @@ const DEFAULT_MODEL = process.env.CLAUDE_MODEL || 'claude-opus-4-7';
 const MAX_TURNS = 50; // Complex research queries can use 30-40+ tool calls
 const INACTIVITY_TIMEOUT_MS = 600_000; // 10 minutes of no activity = dead
 
+/** Tools a delegated sub-agent may be given: reading and searching only */
+const SUBAGENT_TOOLS = [
+  'vault_read',
+  'vault_read_binary',
+  'vault_search',
+  'vault_semantic_search',
+  'vault_grep',
+  'vault_glob',
+  'vault_list',
+  'vault_get_properties',
+  'vault_backlinks',
+  'vault_outlinks',
+  'vault_neighbors',
+  'memory_search',
+  'search_cookbooks',
+  'list_cookbook_sources',
+  'WebSearch',
+];
+
+/**
+ * A sub-agent's whole system prompt. It replaces the main one, which
+ * advertises editing tools and delegation the sub-agent doesn't have.
+ */
+function buildSubAgentSystemPrompt(tools: string[]): string {
+  return `You are a sub-agent working on one task for another agent, which will only see your final message. You can read and search the user's Obsidian vault, but not change it, delegate further or ask the user questions.
+
+## Tools
+${tools.join(', ')}
+
+## Guidelines
+1. Paths are relative to the vault root. Notes are Obsidian markdown: [[wikilinks]] link notes, #tags and YAML frontmatter hold metadata
+2. Search before reading where you can, and read only the notes that look relevant
+3. End with a complete, self-contained answer: the findings themselves, not a description of what you did
+4. Cite the vault paths of the notes you used. Copy cookbook citations, such as [[cookbooks/book.pdf#page=N]] links, exactly as the tools return them`;
+}
+
 /**
  * Strip MCP prefix from tool names for cleaner display.
  * e.g., "mcp__vault-tools__vault_read" -> "vault_read"
@@ -214,6 +207,22 @@ function cleanToolName(name: string): string {
   return match ? match[1] : name;
 }
 
+/**
+ * Pull token counts out of an SDK result message. The SDK reports usage in
+ * Anthropic API shape; missing cache fields are treated as zero.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractUsage(result: any): TokenUsage | undefined {
+  const usage = result?.usage;
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
 /**
  * Run the agent with streaming responses using the Claude Agent SDK
  */
@@ -236,6 +245,23 @@ export async function* runAgent(
   onSdkSessionId?: (id: string) => void,
   /** If set, use streaming input for interrupts/asides; otherwise single-prompt mode */
   inputQueue?: AsyncQueue<any>,
+  /** Gate for destructive vault tools (per-prompt approval policy) */
+  approvals?: ApprovalGate,
+  /** Per-prompt tool mode and allow/deny lists */
+  toolAccess?: ToolAccess,
+  /**
+   * If set, resume `resumeSessionId` only up to this assistant message and
+   * fork it into a new SDK session (conversation branching)
+   */
+  forkAt?: string,
+  /**
+   * Receives tool events of sub-agents started with delegate_task, tagged
+   * with their subAgentId. Without it the agent can't delegate (sub-agents
+   * themselves run without one).
+   */
+  onSubAgentEvent?: (event: AgentEvent) => void,
+  /** Replaces the vault system prompt and customSystemPrompt (sub-agents) */
+  ownSystemPrompt?: string,
 ): AsyncGenerator<AgentEvent> {
   const selectedModel = model || DEFAULT_MODEL;
   logger.info(`Using model: ${selectedModel}`);
@@ -247,7 +273,11 @@ export async function* runAgent(
   const activity = { lastTs: Date.now() };
   const heartbeat = () => { activity.lastTs = Date.now(); };
 
-  const vaultServer = createVaultMcpServer(bridge, eventQueue, heartbeat);
+  // Skills are registered as tools on every turn, so they're loaded even
+  // when the system prompt itself isn't needed (resumed sessions)
+  const { prompt: vaultSystemPrompt, skills } = await getCachedSystemPrompt(bridge);
+
+  const toolFilter = new ToolFilter(toolAccess);
 
   // AbortController for the SDK (forward external signal)
   const abortController = new AbortController();
@@ -255,11 +285,68 @@ export async function* runAgent(
     signal.addEventListener('abort', () => abortController.abort());
   }
 
+  // Each sub-agent is a fresh SDK session with read-only tools; only its
+  // final answer goes back into this agent's context
+  const delegate: SubAgentDelegate | undefined = onSubAgentEvent
+    ? async (task, tools, parentToolUseId) => {
+        const subAgentId = `subagent-${randomUUID()}`;
+        const allowedTools = SUBAGENT_TOOLS.filter(
+          (name) => toolFilter.allows(name) && (!tools?.length || tools.includes(name)),
+        );
+        if (allowedTools.length === 0) {
+          throw new Error('None of the requested tools are available to a sub-agent');
+        }
+        logger.info(`Delegating to ${subAgentId} with ${allowedTools.join(', ')}`);
+
+        let text = '';
+        let result = '';
+        for await (const event of runAgent(
+          task,
+          bridge,
+          undefined,
+          abortController.signal,
+          undefined,
+          selectedModel,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { mode: 'read-only', allowedTools },
+          undefined,
+          undefined,
+          buildSubAgentSystemPrompt(allowedTools),
+        )) {
+          heartbeat(); // The parent is blocked on this tool call, not idle
+          if (event.type === 'tool_start' || event.type === 'tool_end') {
+            onSubAgentEvent({ ...event, subAgentId, parentToolUseId });
+          } else if (event.type === 'text_delta') {
+            text += event.text;
+          } else if (event.type === 'complete') {
+            result = event.result;
+          } else if (event.type === 'error') {
+            throw new Error(`Sub-agent failed: ${event.message}`);
+          }
+        }
+        return (result || text).trim() || 'The sub-agent finished without an answer.';
+      }
+    : undefined;
+
+  const vaultServer = createVaultMcpServer(
+    bridge,
+    eventQueue,
+    heartbeat,
+    approvals,
+    toolFilter,
+    skills,
+    delegate,
+  );
+
   // Build system prompt with CLAUDE.md context (only on first turn;
   // on resume, the SDK already has the system prompt from the prior session)
-  let systemPrompt: string | undefined;
-  if (!resumeSessionId) {
-    systemPrompt = await getCachedSystemPrompt(bridge);
+  let systemPrompt: string | undefined = ownSystemPrompt;
+  if (!ownSystemPrompt && !resumeSessionId) {
+    systemPrompt = vaultSystemPrompt;
     if (customSystemPrompt?.trim()) {
       systemPrompt = `${customSystemPrompt.trim()}\n\n${systemPrompt}`;
     }
@@ -273,19 +360,34 @@ export async function* runAgent(
   if (context?.selection) {
     fullPrompt = `[Selected text: "${context.selection}"]\n\n${fullPrompt}`;
   }
+  // The system prompt is fixed for the whole SDK session, so per-turn
+  // restrictions ride along with the prompt
+  const accessNote = toolFilter.describe();
+  if (accessNote) {
+    fullPrompt = `[Tool access: ${accessNote}]\n\n${fullPrompt}`;
+    logger.info(`Tool access: ${accessNote}`);
+  }
 
   // Build MCP server configs: vault tools (in-process) + external servers from env
   const mcpServers: Record<string, unknown> = { 'vault-tools': vaultServer };
   try {
-    const externalServers = JSON.parse(process.env.MCP_SERVERS || '{}');
-    Object.assign(mcpServers, externalServers);
+    const externalServers: Record<string, unknown> = JSON.parse(process.env.MCP_SERVERS || '{}');
+    for (const [name, config] of Object.entries(externalServers)) {
+      if (toolFilter.allowsServer(name)) {
+        mcpServers[name] = config;
+      }
+    }
   } catch (e) {
     logger.error('Failed to parse MCP_SERVERS env var:', e);
   }
 
-  // Build allowed tools list — all MCP tools + web search
+  // Build allowed tools list — all MCP tools + permitted built-ins (web search)
   const allowedTools: string[] = Object.keys(mcpServers).map(name => `mcp__${name}__*`);
-  allowedTools.push('WebSearch');
+  allowedTools.push(...BUILTIN_TOOLS.filter((name) => toolFilter.allows(name)));
+  // allowedTools only auto-approves; disallowedTools is what removes a tool
+  const disallowedTools = toolFilter.sdkDisallowedTools(
+    Object.keys(mcpServers).filter((name) => name !== 'vault-tools'),
+  );
 
   // Streaming input mode (required for mcpServers)
   // Build the user message. When images are present, use multimodal content blocks.
@@ -387,7 +489,11 @@ export async function* runAgent(
 
   try {
     if (resumeSessionId) {
-      logger.info(`Resuming SDK session: ${resumeSessionId}`);
+      logger.info(
+        forkAt
+          ? `Forking SDK session ${resumeSessionId} at message ${forkAt}`
+          : `Resuming SDK session: ${resumeSessionId}`,
+      );
     }
 
     const queryStream = query({
@@ -398,6 +504,7 @@ export async function* runAgent(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         mcpServers: mcpServers as Record<string, any>,
         allowedTools,
+        ...(disallowedTools.length > 0 ? { disallowedTools } : {}),
         maxTurns: MAX_TURNS,
         abortController,
         permissionMode: 'bypassPermissions' as const,
@@ -405,6 +512,8 @@ export async function* runAgent(
         thinking: { type: 'adaptive' },
         // Multi-turn: resume a prior SDK session
         ...(resumeSessionId ? { resume: resumeSessionId } : {}),
+        // Branching: keep history up to the fork point, in a new session
+        ...(resumeSessionId && forkAt ? { resumeSessionAt: forkAt, forkSession: true } : {}),
         stderr: (data: string) => {
           heartbeat(); // stderr output = activity
           logger.warn(`CLI stderr: ${data.trimEnd()}`);
@@ -417,6 +526,12 @@ export async function* runAgent(
     // the UI can show a thinking indicator during the wait for first content.
     let emittedSyntheticThinking = false;
 
+    // Last assistant message of this turn — where a branch can fork from
+    let checkpoint: string | undefined;
+
+    // tool_use blocks currently streaming their input, by content block index
+    const streamingTools = new Map<number, { id: string; name: string }>();
+
     for await (const message of queryStream) {
       heartbeat(); // SDK yielded a message = alive
 
@@ -440,6 +555,12 @@ export async function* runAgent(
             const block = (message as any).event?.content_block;
             if (block?.type === 'thinking') {
               logger.info('[Thinking] Block started');
+            } else if (block?.type === 'tool_use') {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              streamingTools.set((message as any).event.index, {
+                id: block.id,
+                name: cleanToolName(block.name),
+              });
             }
           }
 
@@ -453,8 +574,27 @@ export async function* runAgent(
             } else if (delta?.type === 'thinking_delta') {
               logger.info(`[Thinking] delta: ${(delta.thinking || '').substring(0, 80)}...`);
               yield { type: 'thinking', text: delta.thinking };
+            } else if (delta?.type === 'input_json_delta' && delta.partial_json) {
+              // Stream tool input as it is generated, so a long vault_write
+              // shows up before the whole note has been produced
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              const tool = streamingTools.get((message as any).event.index);
+              if (tool) {
+                yield {
+                  type: 'tool_input_delta',
+                  toolUseId: tool.id,
+                  name: tool.name,
+                  partialJson: delta.partial_json,
+                };
+              }
             }
           }
+
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          if ((message as any).event?.type === 'content_block_stop') {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            streamingTools.delete((message as any).event.index);
+          }
           break;
         }
 
@@ -469,6 +609,8 @@ export async function* runAgent(
             onSdkSessionId((message as any).session_id);
             onSdkSessionId = undefined; // Only capture once
           }
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          checkpoint = (message as any).uuid ?? checkpoint;
 
           // Emit tool_start for each tool_use block (with full input)
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -480,6 +622,7 @@ export async function* runAgent(
                 type: 'tool_start',
                 name,
                 input: block.input as Record<string, unknown>,
+                toolUseId: block.id,
               };
             }
           }
@@ -495,16 +638,28 @@ export async function* runAgent(
           if ((message as any).subtype === 'success') {
             completedSuccessfully = true;
             logger.info('Agent completed successfully');
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            yield { type: 'complete', result: (message as any).result || '' };
+            yield {
+              type: 'complete',
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              result: (message as any).result || '',
+              model: selectedModel,
+              usage: extractUsage(message),
+              checkpoint,
+            };
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           } else if ((message as any).subtype === 'error_max_turns') {
             completedSuccessfully = true; // Partial result is still valid
             logger.warn(`Agent hit max turns limit (${MAX_TURNS})`);
             // Send any partial result, then add a note about the truncation
             yield { type: 'text_delta', text: '\n\n---\n*Response was truncated because the query required too many steps. You can ask me to continue where I left off.*\n' };
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            yield { type: 'complete', result: (message as any).result || '' };
+            yield {
+              type: 'complete',
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              result: (message as any).result || '',
+              model: selectedModel,
+              usage: extractUsage(message),
+              checkpoint,
+            };
           } else {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const errors = 'errors' in message ? (message as any).errors : [];
@@ -0,0 +1,101 @@
+/**
+ * Tool Approval Gate
+ *
+ * Human-in-the-loop approval for destructive vault tools. The plugin sends a
+ * per-tool policy with each prompt; tools whose policy is "ask" block until
+ * the user answers an approval_request (or the request times out).
+ *
+ * Approval requests travel as session events, so they are buffered and
+ * replayed like everything else — a client that reconnects mid-approval
+ * still sees the pending request and can answer it.
+ */
+
+import { randomUUID } from 'crypto';
+import type { AgentEvent, ApprovalDecision, ApprovalPolicy, ToolPolicies } from './protocol.js';
+import { logger } from './utils.js';
+
+/** Tools that can be gated. Everything else always runs. */
+export const APPROVAL_TOOLS = ['vault_write', 'vault_rename', 'vault_delete'] as const;
+
+/** Unanswered requests are denied after this long (below the agent inactivity timeout) */
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class ApprovalDeniedError extends Error {
+  constructor(toolName: string, reason?: string) {
+    super(
+      `The user denied ${toolName}${reason ? `: ${reason}` : ''}. ` +
+        'Do not retry this operation — ask the user how they would like to proceed.',
+    );
+    this.name = 'ApprovalDeniedError';
+  }
+}
+
+interface PendingApproval {
+  toolName: string;
+  resolve: (result: { decision: ApprovalDecision; reason?: string }) => void;
+  timeout: NodeJS.Timeout;
+}
+
+export class ApprovalGate {
+  private pending = new Map<string, PendingApproval>();
+
+  constructor(
+    private policies: ToolPolicies,
+    private emit: (event: AgentEvent) => void,
+  ) {}
+
+  policyFor(toolName: string): ApprovalPolicy {
+    if (!(APPROVAL_TOOLS as readonly string[]).includes(toolName)) return 'allow';
+    return this.policies[toolName as keyof ToolPolicies] ?? 'allow';
+  }
+
+  /**
+   * Resolve once the tool may run; throws ApprovalDeniedError otherwise.
+   */
+  async check(toolName: string, input: Record<string, unknown>): Promise<void> {
+    const policy = this.policyFor(toolName);
+    if (policy === 'allow') return;
+    if (policy === 'deny') {
+      throw new ApprovalDeniedError(toolName, 'this tool is disabled in the plugin settings');
+    }
+
+    const approvalId = randomUUID();
+    logger.info(`Waiting for approval ${approvalId} (${toolName})`);
+
+    const result = await new Promise<{ decision: ApprovalDecision; reason?: string }>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.settle(approvalId, 'deny', 'no response from the user');
+      }, APPROVAL_TIMEOUT_MS);
+      this.pending.set(approvalId, { toolName, resolve, timeout });
+      this.emit({ type: 'approval_request', approvalId, name: toolName, input });
+    });
+
+    if (result.decision !== 'approve') {
+      throw new ApprovalDeniedError(toolName, result.reason);
+    }
+  }
+
+  /** Answer a pending request. Returns false if the id is unknown. */
+  settle(approvalId: string, decision: ApprovalDecision, reason?: string): boolean {
+    const pending = this.pending.get(approvalId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timeout);
+    this.pending.delete(approvalId);
+    logger.info(`Approval ${approvalId} (${pending.toolName}): ${decision}`);
+    this.emit({ type: 'approval_resolved', approvalId, decision, ...(reason ? { reason } : {}) });
+    pending.resolve({ decision, reason });
+    return true;
+  }
+
+  has(approvalId: string): boolean {
+    return this.pending.has(approvalId);
+  }
+
+  /** Deny everything still waiting (session cancelled) */
+  denyAll(reason: string): void {
+    for (const approvalId of Array.from(this.pending.keys())) {
+      this.settle(approvalId, 'deny', reason);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Attachments
+ *
+ * Turns images and PDFs from the vault into tool result content. Images go
+ * to the model as image blocks it can look at; PDFs can't be sent as tool
+ * results, so their text is extracted page by page. vault_read attaches the
+ * images and PDFs a note embeds (`![[diagram.png]]`) the same way.
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf';
+import { logger } from './utils.js';
+import type { BinaryFile, NoteEmbed, VaultBridge } from './protocol.js';
+
+/** Largest image sent to the model (the API's per-image limit) */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Largest PDF whose text is extracted */
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+/** Extracted PDF text is cut off after this many characters */
+const MAX_PDF_TEXT_CHARS = 60_000;
+
+/** Embeds attached per vault_read; the rest are listed by path only */
+const MAX_EMBEDS_PER_READ = 5;
+
+export type AttachmentContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export function isPdfPath(path: string): boolean {
+  return path.toLowerCase().endsWith('.pdf');
+}
+
+function maxBytesFor(path: string): number {
+  return isPdfPath(path) ? MAX_PDF_BYTES : MAX_IMAGE_BYTES;
+}
+
+/** Text of a PDF with page markers, cut off at MAX_PDF_TEXT_CHARS */
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(data);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  let result = '';
+  for (const [index, pageText] of text.entries()) {
+    const page = `--- Page ${index + 1} ---\n${pageText.trim()}\n\n`;
+    if (result.length + page.length > MAX_PDF_TEXT_CHARS) {
+      result += `[Truncated after page ${index} of ${totalPages}]`;
+      return result;
+    }
+    result += page;
+  }
+  return result.trim() || '(No extractable text — the PDF may be scanned images)';
+}
+
+/** Tool result content for a binary file read from the vault */
+export async function toAttachmentContent(file: BinaryFile): Promise<AttachmentContent[]> {
+  if (!isPdfPath(file.path)) {
+    return [
+      { type: 'text', text: `Image ${file.path} (${file.mimeType}, ${file.size} bytes):` },
+      { type: 'image', data: file.data, mimeType: file.mimeType },
+    ];
+  }
+  const text = await extractPdfText(new Uint8Array(Buffer.from(file.data, 'base64')));
+  return [{ type: 'text', text: `<pdf path="${file.path}">\n${text}\n</pdf>` }];
+}
+
+/** Read an image or PDF and turn it into tool result content */
+export async function readAttachment(bridge: VaultBridge, path: string): Promise<AttachmentContent[]> {
+  return toAttachmentContent(await bridge.readBinary(path, maxBytesFor(path)));
+}
+
+/**
+ * Content for the attachments a note embeds. Attachments that can't be read
+ * (too large, missing) are noted instead, so the note itself still comes back.
+ */
+export async function readEmbeds(bridge: VaultBridge, embeds: NoteEmbed[]): Promise<AttachmentContent[]> {
+  const content: AttachmentContent[] = [];
+  for (const embed of embeds.slice(0, MAX_EMBEDS_PER_READ)) {
+    try {
+      content.push(...(await readAttachment(bridge, embed.path)));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Could not read';
+      logger.warn(`Skipping embed ${embed.path}: ${message}`);
+      content.push({ type: 'text', text: `Embedded ${embed.path} not attached: ${message}` });
+    }
+  }
+  const skipped = embeds.slice(MAX_EMBEDS_PER_READ);
+  if (skipped.length > 0) {
+    content.push({
+      type: 'text',
+      text: `${skipped.length} more embed(s) not attached (use vault_read_binary): ${skipped.map((e) => e.path).join(', ')}`,
+    });
+  }
+  return content;
+}
@@ -0,0 +1,202 @@
+/**
+ * Client Authentication
+ *
+ * Maps the token a connection presents to the principal that owns it.
+ *
+ * - Shared token (AUTH_TOKEN, default `dev-token`): one principal with access
+ *   to every vault. This is the original single-user behaviour.
+ * - Key file (AUTH_KEYS_FILE): per-client API keys, each scoped to a set of
+ *   vault IDs (the plugin's persistent clientId). The file is polled for
+ *   changes, so keys can be rotated or revoked without a redeploy.
+ *
+ * Key file format:
+ *
+ *   {
+ *     "clients": [
+ *       {
+ *         "id": "alice",
+ *         "vaults": ["3f2c9e0a-...", "9a1b44d2-..."],   // or ["*"]
+ *         "keys": [
+ *           { "key": "new-secret" },
+ *           { "key": "old-secret", "expiresAt": "2026-11-01T00:00:00Z" }
+ *         ]
+ *       },
+ *       { "id": "bob", "vaults": ["..."], "keys": [...], "revoked": true }
+ *     ]
+ *   }
+ *
+ * Sessions are owned by the client `id`, not the key, so rotating a key keeps
+ * access to existing sessions. Live connections are re-checked on every
+ * heartbeat, so an expired or revoked key is disconnected within a minute.
+ */
+
+import { readFileSync, unwatchFile, watchFile } from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { logger } from './utils.js';
+
+/** Vault wildcard: the principal may use any vault */
+export const ANY_VAULT = '*';
+
+/**
+ * Principal behind the shared token. Name a key-file client `default` to keep
+ * access to sessions created before switching to per-client keys.
+ */
+export const DEFAULT_OWNER_ID = 'default';
+
+const RELOAD_INTERVAL_MS = 5000;
+
+export interface AuthPrincipal {
+  /** Stable owner ID that sessions are scoped to */
+  id: string;
+  /** Vault IDs (plugin clientIds) this principal may use */
+  vaults: string[];
+}
+
+export interface Authenticator {
+  /** Resolve a connection token, or null if it is unknown, expired or revoked */
+  authenticate(token: string | null): AuthPrincipal | null;
+  /** Stop watching for changes */
+  close(): void;
+}
+
+export function canAccessVault(principal: AuthPrincipal, vaultId: string): boolean {
+  return principal.vaults.includes(ANY_VAULT) || principal.vaults.includes(vaultId);
+}
+
+/** Constant-time token comparison (hashing first equalises lengths) */
+function tokensMatch(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+// ============================================================================
+// Shared token
+// ============================================================================
+
+export class SharedTokenAuthenticator implements Authenticator {
+  private principal: AuthPrincipal = { id: DEFAULT_OWNER_ID, vaults: [ANY_VAULT] };
+
+  constructor(private token: string) {}
+
+  authenticate(token: string | null): AuthPrincipal | null {
+    return token !== null && tokensMatch(token, this.token) ? this.principal : null;
+  }
+
+  close(): void {}
+}
+
+// ============================================================================
+// Key file
+// ============================================================================
+
+const keyFileSchema = z.object({
+  clients: z.array(
+    z.object({
+      id: z.string().min(1),
+      vaults: z.array(z.string().min(1)),
+      revoked: z.boolean().optional(),
+      keys: z.array(
+        z.object({
+          key: z.string().min(16, 'keys must be at least 16 characters'),
+          expiresAt: z.string().datetime({ offset: true }).optional(),
+          revoked: z.boolean().optional(),
+        }),
+      ),
+    }),
+  ),
+});
+
+type KeyFile = z.infer<typeof keyFileSchema>;
+
+interface KeyEntry {
+  key: string;
+  expiresAt?: number;
+  principal: AuthPrincipal;
+}
+
+export class KeyFileAuthenticator implements Authenticator {
+  private entries: KeyEntry[] = [];
+  private watching = false;
+
+  constructor(private path: string) {
+    // A broken file at startup is fatal; later bad edits keep the last good keys
+    this.entries = KeyFileAuthenticator.parse(path);
+    logger.info(`Auth: loaded ${this.entries.length} keys from ${path}`);
+
+    watchFile(path, { interval: RELOAD_INTERVAL_MS }, () => this.reload());
+    this.watching = true;
+  }
+
+  authenticate(token: string | null): AuthPrincipal | null {
+    if (token === null) return null;
+    const now = Date.now();
+    // Check every entry so timing doesn't reveal which key matched
+    let match: AuthPrincipal | null = null;
+    for (const entry of this.entries) {
+      if (tokensMatch(token, entry.key) && (entry.expiresAt === undefined || entry.expiresAt > now)) {
+        match = entry.principal;
+      }
+    }
+    return match;
+  }
+
+  close(): void {
+    if (this.watching) {
+      unwatchFile(this.path);
+      this.watching = false;
+    }
+  }
+
+  private reload(): void {
+    try {
+      this.entries = KeyFileAuthenticator.parse(this.path);
+      logger.info(`Auth: reloaded ${this.entries.length} keys from ${this.path}`);
+    } catch (err) {
+      logger.error(`Auth: failed to reload ${this.path}, keeping previous keys:`, err);
+    }
+  }
+
+  /** Read and validate the key file, dropping revoked clients and keys */
+  private static parse(path: string): KeyEntry[] {
+    const file: KeyFile = keyFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8')));
+
+    const ids = new Set<string>();
+    const keys = new Set<string>();
+    const entries: KeyEntry[] = [];
+    for (const client of file.clients) {
+      if (ids.has(client.id)) {
+        throw new Error(`Duplicate client id "${client.id}"`);
+      }
+      ids.add(client.id);
+      if (client.revoked) continue;
+
+      const principal: AuthPrincipal = { id: client.id, vaults: client.vaults };
+      for (const key of client.keys) {
+        if (keys.has(key.key)) {
+          throw new Error(`Client "${client.id}" reuses a key that is already assigned`);
+        }
+        keys.add(key.key);
+        if (key.revoked) continue;
+        entries.push({
+          key: key.key,
+          expiresAt: key.expiresAt ? Date.parse(key.expiresAt) : undefined,
+          principal,
+        });
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * Create the authenticator selected by environment variables
+ */
+export function createAuthenticator(): Authenticator {
+  const keysFile = process.env.AUTH_KEYS_FILE;
+  if (keysFile) {
+    return new KeyFileAuthenticator(keysFile);
+  }
+  return new SharedTokenAuthenticator(process.env.AUTH_TOKEN || 'dev-token');
+}
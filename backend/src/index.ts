@@ -28,7 +28,11 @@ function checkEnv() {
   logger.info('Configuration:');
   logger.info(`  MOCK_MODE: ${MOCK_MODE}`);
   logger.info(`  PORT: ${process.env.PORT || 3001}`);
-  logger.info(`  AUTH_TOKEN: ${process.env.AUTH_TOKEN ? '***' : 'dev-token (default)'}`);
+  if (process.env.AUTH_KEYS_FILE) {
+    logger.info(`  AUTH_KEYS_FILE: ${process.env.AUTH_KEYS_FILE}`);
+  } else {
+    logger.info(`  AUTH_TOKEN: ${process.env.AUTH_TOKEN ? '***' : 'dev-token (default)'}`);
+  }
   if (!MOCK_MODE) {
     logger.info(`  CLAUDE_MODEL: ${process.env.CLAUDE_MODEL || 'claude-opus-4-6'}`);
   }
@@ -0,0 +1,321 @@
+/**
+ * Scheduled Jobs
+ *
+ * Runs agents on a schedule instead of in response to a prompt. Jobs are
+ * defined per vault as markdown files in `.claude/jobs/`:
+ *
+ *   ---
+ *   cron: "0 7 * * *"
+ *   name: Inbox triage
+ *   mode: edit
+ *   ---
+ *   Sort the notes in Inbox/ into their project folders...
+ *
+ * Definitions are read through the vault bridge, so a vault's jobs only run
+ * while a plugin client for it is connected. Each run is an ordinary session
+ * tagged with its job, which the plugin lists and replays like any other.
+ */
+
+import { DetachableVaultBridge, type RpcSender, type Session } from './session-store.js';
+import { TOOL_MODES } from './tool-access.js';
+import { logger, parseFrontmatter } from './utils.js';
+import type { ToolMode } from './protocol.js';
+
+const JOBS_GLOB = '.claude/jobs/*.md';
+
+/** How long loaded job definitions are reused before re-reading the vault */
+const JOB_REFRESH_MS = 5 * 60 * 1000;
+
+/** Jobs without a `mode` can edit notes but not rename or delete them */
+const DEFAULT_JOB_MODE: ToolMode = 'edit';
+
+// ============================================================================
+// Cron expressions
+// ============================================================================
+
+/**
+ * A parsed five-field cron expression (minute hour day-of-month month
+ * day-of-week), evaluated in the server's local time zone.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** As in standard cron, a run matches either day field when both are restricted */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+function parseCronNumber(value: string, field: (typeof CRON_FIELDS)[number]): number {
+  const n = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(n) || n < field.min || n > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}" (expected ${field.min}-${field.max})`);
+  }
+  return n;
+}
+
+/** Expand one field, e.g. "*", "5", "1-5", "*\/15", "0-30/10" or "1,15" */
+function parseCronField(value: string, field: (typeof CRON_FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid step "${stepText}" in ${field.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseCronNumber(from, field);
+      end = parseCronNumber(to, field);
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${field.name}`);
+      }
+    } else {
+      start = parseCronNumber(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+
+  return values;
+}
+
+/** Parse a cron expression; throws with a readable message if it's invalid */
+export function parseCron(expression: string): CronSchedule {
+  const expanded = CRON_ALIASES[expression.trim()] ?? expression;
+  const parts = expanded.trim().split(/\s+/);
+  if (parts.length !== CRON_FIELDS.length) {
+    throw new Error(`Expected 5 fields (minute hour day month weekday), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseCronField(part, CRON_FIELDS[i]),
+  );
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (
+    !schedule.minutes.has(date.getMinutes()) ||
+    !schedule.hours.has(date.getHours()) ||
+    !schedule.months.has(date.getMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// ============================================================================
+// Job definitions
+// ============================================================================
+
+export interface JobDefinition {
+  /** File name without extension, e.g. "inbox-triage" */
+  id: string;
+  name: string;
+  cron: string;
+  schedule: CronSchedule;
+  prompt: string;
+  model?: string;
+  mode: ToolMode;
+  enabled: boolean;
+}
+
+/** Parse a job file; throws with a readable message if it's invalid */
+export function parseJobFile(path: string, content: string): JobDefinition {
+  const id = (path.split('/').pop() || path).replace(/\.md$/, '');
+  const { fields, body } = parseFrontmatter(content);
+
+  if (!fields.cron) {
+    throw new Error('Missing "cron" in frontmatter');
+  }
+  const prompt = body.trim();
+  if (!prompt) {
+    throw new Error('Missing prompt (the note body below the frontmatter)');
+  }
+  const mode = (fields.mode || DEFAULT_JOB_MODE) as ToolMode;
+  if (!TOOL_MODES.includes(mode)) {
+    throw new Error(`Unknown mode "${fields.mode}" (expected ${TOOL_MODES.join(', ')})`);
+  }
+
+  return {
+    id,
+    name: fields.name || id,
+    cron: fields.cron,
+    schedule: parseCron(fields.cron),
+    prompt,
+    model: fields.model || undefined,
+    mode,
+    enabled: fields.enabled !== 'false',
+  };
+}
+
+/** Load every valid job definition from the vault; invalid files are logged and skipped */
+export async function loadJobs(sender: RpcSender): Promise<JobDefinition[]> {
+  const bridge = new DetachableVaultBridge(sender);
+  const jobs: JobDefinition[] = [];
+
+  for (const path of await bridge.glob(JOBS_GLOB)) {
+    try {
+      jobs.push(parseJobFile(path, await bridge.read(path)));
+    } catch (err) {
+      logger.warn(`Skipping job ${path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return jobs;
+}
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/** A connection that can run jobs for the vaults it serves */
+export interface JobHost extends RpcSender {
+  runJob(clientId: string, job: JobDefinition): Session;
+}
+
+export class JobScheduler {
+  /** clientId -> connections currently serving that vault */
+  private hosts = new Map<string, Set<JobHost>>();
+  private jobs = new Map<string, { definitions: JobDefinition[]; loadedAt: number }>();
+  /** `${clientId}:${jobId}` -> latest run, so a slow job isn't started twice */
+  private lastRuns = new Map<string, Session>();
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    this.scheduleTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Record that `host` serves a vault; the first host loads its job definitions */
+  register(clientId: string, host: JobHost): void {
+    let hosts = this.hosts.get(clientId);
+    if (!hosts) {
+      hosts = new Set();
+      this.hosts.set(clientId, hosts);
+    }
+    if (hosts.has(host)) return;
+    hosts.add(host);
+
+    if (!this.jobs.has(clientId)) {
+      this.refresh(clientId, host).catch((err) => {
+        logger.warn(`Failed to load jobs for vault ${clientId}:`, err);
+      });
+    }
+  }
+
+  unregister(host: JobHost): void {
+    for (const [clientId, hosts] of this.hosts) {
+      hosts.delete(host);
+      if (hosts.size === 0) {
+        this.hosts.delete(clientId);
+        this.jobs.delete(clientId);
+      }
+    }
+  }
+
+  private scheduleTick(): void {
+    // Fire just after each minute boundary
+    const delay = 60_000 - (Date.now() % 60_000) + 50;
+    this.timer = setTimeout(() => {
+      this.tick(new Date()).catch((err) => logger.error('Job scheduler tick failed:', err));
+      this.scheduleTick();
+    }, delay);
+    this.timer.unref();
+  }
+
+  private async refresh(clientId: string, host: JobHost): Promise<JobDefinition[]> {
+    const definitions = await loadJobs(host);
+    this.jobs.set(clientId, { definitions, loadedAt: Date.now() });
+    if (definitions.length > 0) {
+      logger.info(`Loaded ${definitions.length} jobs for vault ${clientId}`);
+    }
+    return definitions;
+  }
+
+  private async tick(now: Date): Promise<void> {
+    for (const [clientId, hosts] of this.hosts) {
+      const host = hosts.values().next().value;
+      if (!host) continue;
+
+      let definitions: JobDefinition[];
+      try {
+        const cached = this.jobs.get(clientId);
+        definitions =
+          cached && Date.now() - cached.loadedAt < JOB_REFRESH_MS
+            ? cached.definitions
+            : await this.refresh(clientId, host);
+      } catch (err) {
+        logger.warn(`Failed to load jobs for vault ${clientId}:`, err);
+        continue;
+      }
+
+      for (const job of definitions) {
+        if (!job.enabled || !cronMatches(job.schedule, now)) continue;
+
+        const key = `${clientId}:${job.id}`;
+        if (this.lastRuns.get(key)?.status === 'running') {
+          logger.warn(`Job ${job.id} for vault ${clientId} is still running, skipping this run`);
+          continue;
+        }
+
+        logger.info(`Running job ${job.id} (${job.cron}) for vault ${clientId}`);
+        this.lastRuns.set(key, host.runJob(clientId, job));
+      }
+    }
+  }
+}
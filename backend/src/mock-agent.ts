@@ -10,8 +10,11 @@ import type {
   VaultBridge,
   AgentContext,
   AgentEvent,
+  ToolAccess,
 } from './protocol.js';
 import { executeVaultTool } from './vault-tools.js';
+import type { ApprovalGate } from './approval.js';
+import { ToolFilter } from './tool-access.js';
 
 const MOCK_DELAY_MS = 50; // Delay between streaming chunks
 
@@ -61,6 +64,47 @@ function getMockScenario(prompt: string): MockScenario {
     };
   }
 
+  // Test tools: vault_get_properties / vault_set_properties
+  if (promptLower.includes('properties') || promptLower.includes('tag ')) {
+    const match = prompt.match(/["']?([^"'\s]+\.md)["']?/i);
+    const path = match?.[1] || 'test.md';
+    return {
+      response: `I'll check the properties of "${path}" and tag it.`,
+      tools: [
+        { name: 'vault_get_properties', input: { path } },
+        { name: 'vault_set_properties', input: { path, tags: ['mock'], dates: { reviewed: new Date().toISOString().slice(0, 10) } } },
+      ],
+      followUp: `Tagged "${path}" with #mock.`,
+    };
+  }
+
+  // Test tools: vault_backlinks / vault_neighbors
+  if (promptLower.includes('backlinks') || promptLower.includes('links to')) {
+    const match = prompt.match(/["']?([^"'\s]+\.md)["']?/i);
+    const path = match?.[1] || 'test.md';
+    return {
+      response: `I'll look at how "${path}" connects to your other notes.`,
+      tools: [
+        { name: 'vault_backlinks', input: { path } },
+        { name: 'vault_neighbors', input: { path, depth: 2 } },
+      ],
+      followUp: `Those are the notes around "${path}".`,
+    };
+  }
+
+  // Test tools: memory_add / memory_search
+  if (promptLower.startsWith('remember')) {
+    const content = prompt.replace(/^remember\s+(that\s+)?/i, '').trim() || 'Test memory';
+    return {
+      response: "I'll save that to memory.",
+      tools: [
+        { name: 'memory_add', input: { content, tags: ['test'] } },
+        { name: 'memory_search', input: { query: 'tag:test' } },
+      ],
+      followUp: 'Saved. Those are the test memories I have.',
+    };
+  }
+
   // Test tool: vault_search
   if (promptLower.includes('search') || promptLower.includes('find')) {
     const match = prompt.match(/(?:search|find)\s+(?:for\s+)?["']?([^"']+)["']?/i);
@@ -125,7 +169,7 @@ function getMockScenario(prompt: string): MockScenario {
 
   // Default: simple response without tools
   return {
-    response: `Hello! I'm the mock Obsidian assistant. I received your message: "${prompt}"\n\nI can help you with:\n- **list files** - List vault contents\n- **search [query]** - Search your notes\n- **read [file.md]** - Read a note\n- **create [file.md]** - Create a new note\n- **delete [file.md]** - Delete a note\n- **multi** - Test multiple tools\n\nTry one of these commands to see the mock tools in action!`,
+    response: `Hello! I'm the mock Obsidian assistant. I received your message: "${prompt}"\n\nI can help you with:\n- **list files** - List vault contents\n- **search [query]** - Search your notes\n- **read [file.md]** - Read a note\n- **create [file.md]** - Create a new note\n- **delete [file.md]** - Delete a note\n- **properties [file.md]** - Read and update frontmatter\n- **backlinks [file.md]** - Explore the link graph\n- **multi** - Test multiple tools\n\nTry one of these commands to see the mock tools in action!`,
   };
 }
 
@@ -173,6 +217,8 @@ export async function* runMockAgent(
   _onSdkSessionId?: (id: string) => void,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   inputQueue?: AsyncQueue<any>,
+  approvals?: ApprovalGate,
+  toolAccess?: ToolAccess,
 ): AsyncGenerator<AgentEvent> {
   logger.info('[MOCK] Running mock agent');
 
@@ -203,20 +249,41 @@ export async function* runMockAgent(
 
   // Execute tools if any
   if (scenario.tools && scenario.tools.length > 0) {
+    const toolFilter = new ToolFilter(toolAccess);
     for (const tool of scenario.tools) {
       if (signal?.aborted) {
         yield { type: 'complete', result: 'Cancelled by user' };
         return;
       }
 
+      // The real agent never sees tools outside this turn's access
+      if (!toolFilter.allows(tool.name)) {
+        logger.info(`[MOCK] Skipping ${tool.name} (not allowed this turn)`);
+        continue;
+      }
+
+      // Stream the input JSON in chunks, like the model generating it
+      const toolUseId = `mock_tool_${Date.now()}`;
+      const inputJson = JSON.stringify(tool.input);
+      for (let i = 0; i < inputJson.length; i += 40) {
+        yield {
+          type: 'tool_input_delta',
+          toolUseId,
+          name: tool.name,
+          partialJson: inputJson.slice(i, i + 40),
+        };
+        await sleep(MOCK_DELAY_MS);
+      }
+
       yield {
         type: 'tool_start',
         name: tool.name,
         input: tool.input,
+        toolUseId,
       };
 
       // Actually execute the tool via RPC to the plugin
-      const result = await executeVaultTool(tool.name, tool.input, bridge);
+      const result = await executeVaultTool(tool.name, tool.input, bridge, approvals);
 
       yield {
         type: 'tool_end',
@@ -254,5 +321,16 @@ export async function* runMockAgent(
   const finalText = scenario.followUp
     ? `${scenario.response}\n\n${scenario.followUp}`
     : scenario.response;
-  yield { type: 'complete', result: finalText };
+  yield {
+    type: 'complete',
+    result: finalText,
+    model: 'mock',
+    // Rough 4-chars-per-token estimate so the client's usage display has data
+    usage: {
+      inputTokens: Math.ceil(fullPrompt.length / 4),
+      outputTokens: Math.ceil(finalText.length / 4),
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    },
+  };
 }
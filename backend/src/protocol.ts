@@ -5,6 +5,42 @@
  * the backend server and the Obsidian plugin.
  */
 
+// ============================================================================
+// Versioning
+// ============================================================================
+
+/**
+ * Version of this protocol. Bump it when a change needs both sides updated,
+ * and add a feature flag for anything a client can do without. Version 1 is
+ * everything before the hello/welcome handshake.
+ */
+export const PROTOCOL_VERSION = 2;
+
+/** Oldest client protocol version this server still serves */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Optional capabilities a server announces in `welcome` */
+export type ProtocolFeature =
+  | 'aside'
+  | 'interrupt'
+  | 'session_replay'
+  | 'approvals'
+  | 'fork'
+  | 'tool_access'
+  | 'sub_agents'
+  | 'jobs';
+
+export const SERVER_FEATURES: ProtocolFeature[] = [
+  'aside',
+  'interrupt',
+  'session_replay',
+  'approvals',
+  'fork',
+  'tool_access',
+  'sub_agents',
+  'jobs',
+];
+
 // ============================================================================
 // Shared Types
 // ============================================================================
@@ -21,15 +57,181 @@ export interface FileInfo {
   type: 'file' | 'folder';
 }
 
+/** A vault_semantic_search hit */
+export interface SemanticSearchResult {
+  path: string;
+  /** Chunk text (or the keyword snippet for keyword-only hybrid hits) */
+  content: string;
+  /** 1-based line range of the chunk; absent for keyword-only hits */
+  startLine?: number;
+  endLine?: number;
+  /** Cosine similarity to the query; absent for keyword-only hits */
+  similarity?: number;
+  /** Ranking score: similarity in semantic mode, RRF score in hybrid mode */
+  score: number;
+  sources: Array<'semantic' | 'keyword'>;
+}
+
+export type SemanticSearchMode = 'semantic' | 'hybrid';
+
+/** A linked note and how many times the link occurs */
+export interface LinkInfo {
+  path: string;
+  count: number;
+}
+
+/** vault_outlinks result */
+export interface OutlinksResult {
+  links: LinkInfo[];
+  /** Link targets that don't exist (yet) in the vault */
+  unresolved: LinkInfo[];
+}
+
+/** A note reachable from the queried note (vault_neighbors) */
+export interface NeighborInfo {
+  path: string;
+  /** Number of hops from the queried note */
+  depth: number;
+  /** For direct neighbours: 'out' = queried note links to it, 'in' = it links back */
+  direction?: 'in' | 'out' | 'both';
+  /** For farther notes: the note one hop closer that leads here */
+  via?: string;
+}
+
+/** Typed frontmatter of a note (vault_get_properties) */
+export interface NoteProperties {
+  /** Tags without the leading '#' */
+  tags: string[];
+  aliases: string[];
+  /** Date-valued properties as ISO 8601 strings */
+  dates: Record<string, string>;
+  /** Every other property, as parsed from YAML */
+  properties: Record<string, unknown>;
+}
+
+/** Changes for vault_set_properties. Omitted fields are left untouched. */
+export interface NotePropertiesUpdate {
+  /** Replaces the tag list */
+  tags?: string[];
+  /** Replaces the alias list */
+  aliases?: string[];
+  /** Merged into existing date properties */
+  dates?: Record<string, string>;
+  /** Merged into existing properties */
+  properties?: Record<string, unknown>;
+  /** Property keys to delete */
+  remove?: string[];
+}
+
+/** One entry of the agent's long-term memory (.claude/memory/<id>.md) */
+export interface MemoryEntry {
+  id: string;
+  content: string;
+  /** Lowercase, without the leading '#' */
+  tags: string[];
+  /** ISO 8601 timestamp */
+  created: string;
+}
+
+/** A passage of a cookbook PDF in the plugin's external resource folder */
+export interface CookbookSearchResult {
+  path: string;
+  /** Cookbook name: the file name without extension */
+  source: string;
+  /** 1-based PDF page the passage is on */
+  page: number;
+  content: string;
+  similarity: number;
+}
+
+export interface CookbookSource {
+  path: string;
+  source: string;
+}
+
+/** An attachment embedded in a note (`![[photo.png]]`), resolved to its vault path */
+export interface NoteEmbed {
+  /** The link as written, e.g. "photo.png|300" */
+  link: string;
+  path: string;
+}
+
+/** vault_read result */
+export interface NoteContent {
+  content: string;
+  /** Image and PDF embeds of the note */
+  embeds?: NoteEmbed[];
+}
+
+/** vault_read_binary result */
+export interface BinaryFile {
+  path: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** Base64-encoded content */
+  data: string;
+}
+
 export interface AgentContext {
   currentFile?: string;
   selection?: string;
 }
 
+/** How a destructive tool call is handled: run, ask the user first, or refuse */
+export type ApprovalPolicy = 'allow' | 'ask' | 'deny';
+
+export type ApprovalDecision = 'approve' | 'deny';
+
+/** Per-tool approval policy. Tools not listed default to 'allow'. */
+export interface ToolPolicies {
+  vault_write?: ApprovalPolicy;
+  vault_rename?: ApprovalPolicy;
+  vault_delete?: ApprovalPolicy;
+}
+
+/** How much the agent may change the vault this turn */
+export type ToolMode = 'read-only' | 'edit' | 'full';
+
+/** Per-prompt tool restrictions (see tool-access.ts for the name syntax) */
+export interface ToolAccess {
+  mode?: ToolMode;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+}
+
+/**
+ * Where a conversation branch splits off: the parent branch's conversation
+ * and the checkpoint (from its `complete` message) of the last turn to keep.
+ */
+export interface ForkPoint {
+  conversationId: string;
+  checkpoint: string;
+}
+
+/** Scheduled job (`.claude/jobs/<id>.md`) that started a session */
+export interface JobRef {
+  id: string;
+  name: string;
+}
+
 // ============================================================================
 // Client → Server Messages
 // ============================================================================
 
+/**
+ * First message on a connection: the client's protocol version and the RPC
+ * methods it serves. Older clients don't send it.
+ */
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  /** RPC methods the client handles, e.g. vault_read */
+  rpcMethods: string[];
+  /** Client name and version, for logs */
+  client?: string;
+}
+
 /** Send a prompt to the agent */
 export interface PromptMessage {
   type: 'prompt';
@@ -46,6 +248,19 @@ export interface PromptMessage {
   clientId?: string;
   /** Conversation ID in client's chat history */
   conversationId?: string;
+  /** Approval policy for destructive vault tools */
+  toolPolicies?: ToolPolicies;
+  /** Vault change level for this turn (default 'full') */
+  mode?: ToolMode;
+  /** If set, only these tools are available */
+  allowedTools?: string[];
+  /** Tools to remove for this turn */
+  disallowedTools?: string[];
+  /**
+   * Start `conversationId` as a branch of another conversation, keeping its
+   * history up to the fork point. Ignored once the branch has its own history.
+   */
+  forkFrom?: ForkPoint;
 }
 
 /** Response to an RPC request from server */
@@ -79,6 +294,15 @@ export interface AsideMessage {
   message: string;  // Message to inject mid-turn
 }
 
+/** User's answer to an approval_request */
+export interface ApprovalResponseMessage {
+  type: 'approval_response';
+  /** approvalId from the approval_request */
+  id: string;
+  decision: ApprovalDecision;
+  reason?: string;
+}
+
 /** Keepalive ping */
 export interface PingMessage {
   type: 'ping';
@@ -91,7 +315,10 @@ export interface SessionResumeMessage {
   clientId: string;
 }
 
-/** List sessions for a client */
+/**
+ * List sessions for a client. Also marks the connection as serving that
+ * vault, so its scheduled jobs can run (see jobs.ts).
+ */
 export interface SessionListMessage {
   type: 'session_list';
   clientId: string;
@@ -104,11 +331,13 @@ export interface SessionCancelMessage {
 }
 
 export type ClientMessage =
+  | HelloMessage
   | PromptMessage
   | RpcResponseMessage
   | CancelMessage
   | InterruptMessage
   | AsideMessage
+  | ApprovalResponseMessage
   | PingMessage
   | SessionResumeMessage
   | SessionListMessage
@@ -129,14 +358,42 @@ export interface TextDeltaMessage {
 export interface ToolStartMessage {
   type: 'tool_start';
   requestId: string;
+  /**
+   * Set when a sub-agent (delegate_task) is using the tool: `requestId` is
+   * then the sub-agent's own id and this is the prompt it works for
+   */
+  parentRequestId?: string;
+  /**
+   * Set with parentRequestId: the toolUseId of the delegate_task call that
+   * started the sub-agent, so parallel sub-agents nest under the right call
+   */
+  parentToolUseId?: string;
   toolName: string;
   toolInput: Record<string, unknown>;
+  /** Matches the toolUseId of earlier tool_input_delta messages */
+  toolUseId?: string;
+}
+
+/**
+ * Partial tool input while the model is still generating it. `partialJson`
+ * is the next chunk of the input's JSON text; concatenate chunks with the
+ * same toolUseId to get the input so far. Not buffered or replayed — the
+ * tool_start that follows carries the full input.
+ */
+export interface ToolInputDeltaMessage {
+  type: 'tool_input_delta';
+  requestId: string;
+  toolUseId: string;
+  toolName: string;
+  partialJson: string;
 }
 
 /** Tool finished */
 export interface ToolEndMessage {
   type: 'tool_end';
   requestId: string;
+  /** As in ToolStartMessage */
+  parentRequestId?: string;
   toolName: string;
   result: string;
 }
@@ -148,11 +405,24 @@ export interface ThinkingMessage {
   text: string;
 }
 
+/** Token counts for one agent run, as reported by the Agent SDK */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
 /** Agent finished */
 export interface CompleteMessage {
   type: 'complete';
   requestId: string;
   result: string;
+  /** Model that actually ran (resolves the server default) */
+  model?: string;
+  usage?: TokenUsage;
+  /** Resume point after this turn, for forking the conversation here later */
+  checkpoint?: string;
 }
 
 /** Error occurred */
@@ -167,10 +437,49 @@ export interface ErrorMessage {
 export interface RpcRequestMessage {
   type: 'rpc_request';
   id: string;
-  method: 'vault_read' | 'vault_write' | 'vault_edit' | 'vault_search' | 'vault_grep' | 'vault_glob' | 'vault_list' | 'vault_rename' | 'vault_delete';
+  method:
+    | 'vault_read'
+    | 'vault_read_binary'
+    | 'vault_write'
+    | 'vault_edit'
+    | 'vault_search'
+    | 'vault_grep'
+    | 'vault_glob'
+    | 'vault_list'
+    | 'vault_rename'
+    | 'vault_delete'
+    | 'vault_get_properties'
+    | 'vault_set_properties'
+    | 'vault_backlinks'
+    | 'vault_outlinks'
+    | 'vault_neighbors'
+    | 'vault_semantic_search'
+    | 'cookbook_search'
+    | 'cookbook_list_sources'
+    | 'memory_add'
+    | 'memory_search'
+    | 'memory_forget';
   params: Record<string, unknown>;
 }
 
+/** A gated tool is waiting for the user's approval */
+export interface ApprovalRequestMessage {
+  type: 'approval_request';
+  requestId: string;
+  approvalId: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+}
+
+/** An approval request was answered (or timed out) */
+export interface ApprovalResolvedMessage {
+  type: 'approval_resolved';
+  requestId: string;
+  approvalId: string;
+  decision: ApprovalDecision;
+  reason?: string;
+}
+
 /** Session was created for a prompt */
 export interface SessionCreatedMessage {
   type: 'session_created';
@@ -196,6 +505,19 @@ export interface SessionInfoMessage {
   createdAt: number;
   completedAt?: number;
   eventCount: number;
+  /** Set for sessions started by a scheduled job rather than a prompt */
+  job?: JobRef;
+}
+
+/** Reply to `hello` */
+export interface WelcomeMessage {
+  type: 'welcome';
+  protocolVersion: number;
+  /** Clients older than this should be updated */
+  minProtocolVersion: number;
+  features: ProtocolFeature[];
+  /** Server implementation, e.g. "typescript" */
+  server: string;
 }
 
 /** Keepalive response */
@@ -206,11 +528,15 @@ export interface PongMessage {
 export type ServerMessage =
   | TextDeltaMessage
   | ToolStartMessage
+  | ToolInputDeltaMessage
   | ToolEndMessage
   | ThinkingMessage
   | CompleteMessage
   | ErrorMessage
   | RpcRequestMessage
+  | ApprovalRequestMessage
+  | ApprovalResolvedMessage
+  | WelcomeMessage
   | PongMessage
   | SessionCreatedMessage
   | SessionReplayMessage
@@ -223,13 +549,20 @@ export type ServerMessage =
 export type AgentEventType =
   | 'text_delta'
   | 'tool_start'
+  | 'tool_input_delta'
   | 'tool_end'
   | 'thinking'
   | 'complete'
-  | 'error';
+  | 'error'
+  | 'approval_request'
+  | 'approval_resolved';
 
 export interface BaseAgentEvent {
   type: AgentEventType;
+  /** Set on tool events of a delegated sub-agent: the sub-agent's id */
+  subAgentId?: string;
+  /** Set with subAgentId: the toolUseId of the delegate_task call that started the sub-agent */
+  parentToolUseId?: string;
 }
 
 export interface TextDeltaEvent extends BaseAgentEvent {
@@ -241,6 +574,15 @@ export interface ToolStartEvent extends BaseAgentEvent {
   type: 'tool_start';
   name: string;
   input: Record<string, unknown>;
+  toolUseId?: string;
+}
+
+/** Transient: delivered to live subscribers only, never buffered */
+export interface ToolInputDeltaEvent extends BaseAgentEvent {
+  type: 'tool_input_delta';
+  toolUseId: string;
+  name: string;
+  partialJson: string;
 }
 
 export interface ToolEndEvent extends BaseAgentEvent {
@@ -257,6 +599,9 @@ export interface ThinkingEvent extends BaseAgentEvent {
 export interface CompleteEvent extends BaseAgentEvent {
   type: 'complete';
   result: string;
+  model?: string;
+  usage?: TokenUsage;
+  checkpoint?: string;
 }
 
 export interface ErrorEvent extends BaseAgentEvent {
@@ -265,13 +610,30 @@ export interface ErrorEvent extends BaseAgentEvent {
   message: string;
 }
 
+export interface ApprovalRequestEvent extends BaseAgentEvent {
+  type: 'approval_request';
+  approvalId: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ApprovalResolvedEvent extends BaseAgentEvent {
+  type: 'approval_resolved';
+  approvalId: string;
+  decision: ApprovalDecision;
+  reason?: string;
+}
+
 export type AgentEvent =
   | TextDeltaEvent
   | ToolStartEvent
+  | ToolInputDeltaEvent
   | ToolEndEvent
   | ThinkingEvent
   | CompleteEvent
-  | ErrorEvent;
+  | ErrorEvent
+  | ApprovalRequestEvent
+  | ApprovalResolvedEvent;
 
 // ============================================================================
 // Vault Bridge Interface
@@ -286,12 +648,30 @@ export interface GrepResult {
 
 export interface VaultBridge {
   read(path: string): Promise<string>;
+  /** Read a note along with the attachments it embeds */
+  readNote(path: string): Promise<NoteContent>;
+  /** Read an image or PDF; rejects files larger than maxBytes */
+  readBinary(path: string, maxBytes?: number): Promise<BinaryFile>;
   write(path: string, content: string): Promise<void>;
   edit(path: string, oldString: string, newString: string): Promise<void>;
   search(query: string, limit?: number): Promise<SearchResult[]>;
+  semanticSearch(
+    query: string,
+    options?: { limit?: number; mode?: SemanticSearchMode; folder?: string },
+  ): Promise<SemanticSearchResult[]>;
   grep(pattern: string, folder?: string, filePattern?: string, limit?: number): Promise<GrepResult[]>;
   glob(pattern: string): Promise<string[]>;
   list(folder: string): Promise<FileInfo[]>;
   rename(oldPath: string, newPath: string): Promise<void>;
   delete(path: string): Promise<void>;
+  getProperties(path: string): Promise<NoteProperties>;
+  setProperties(path: string, update: NotePropertiesUpdate): Promise<NoteProperties>;
+  backlinks(path: string): Promise<LinkInfo[]>;
+  outlinks(path: string): Promise<OutlinksResult>;
+  neighbors(path: string, depth?: number, limit?: number): Promise<NeighborInfo[]>;
+  searchCookbooks(query: string, options?: { sources?: string[]; limit?: number }): Promise<CookbookSearchResult[]>;
+  listCookbookSources(): Promise<CookbookSource[]>;
+  memoryAdd(content: string, tags?: string[]): Promise<MemoryEntry>;
+  memorySearch(query: string, limit?: number): Promise<MemoryEntry[]>;
+  memoryForget(id: string): Promise<void>;
 }
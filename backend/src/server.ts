@@ -18,6 +18,10 @@ import { runAgent } from './agent.js';
 import { runMockAgent } from './mock-agent.js';
 import { logger, AsyncQueue } from './utils.js';
 import { SessionStore, Session, type RpcSender } from './session-store.js';
+import { createSessionPersistence } from './session-persistence.js';
+import { TOOL_MODES } from './tool-access.js';
+import { createAuthenticator, canAccessVault, type Authenticator, type AuthPrincipal } from './auth.js';
+import { JobScheduler, type JobDefinition, type JobHost } from './jobs.js';
 
 const MOCK_MODE = process.env.MOCK_MODE === 'true';
 import type {
@@ -32,9 +36,11 @@ import type {
   SessionResumeMessage,
   SessionListMessage,
   SessionCancelMessage,
+  ApprovalResponseMessage,
+  HelloMessage,
 } from './protocol.js';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, SERVER_FEATURES } from './protocol.js';
 
-const AUTH_TOKEN = process.env.AUTH_TOKEN || 'dev-token';
 const PORT = parseInt(process.env.PORT || '3001', 10);
 
 interface PendingRpc {
@@ -49,15 +55,15 @@ interface PendingRpc {
  * A connection may subscribe to multiple sessions. When the connection
  * closes, sessions continue running — only the live-streaming link is severed.
  */
-class ConnectionHandler implements RpcSender {
+class ConnectionHandler implements RpcSender, JobHost {
   private pendingRpcs = new Map<string, PendingRpc>();
   private lastActivity = Date.now();
 
   /** sessionId -> unsubscribe function for live event streaming */
   private sessionSubs = new Map<string, () => void>();
 
-  /** conversationId -> SDK session ID for multi-turn context */
-  private static sdkSessions = new Map<string, string>();
+  /** conversationId -> SDK session for multi-turn context and forking */
+  private static sdkSessions = new Map<string, { sdkSessionId: string; ownerId: string }>();
 
   /** requestId -> input queue for streaming user messages (interrupts/asides) */
   private activeInputQueues = new Map<string, AsyncQueue<any>>();
@@ -66,9 +72,18 @@ class ConnectionHandler implements RpcSender {
    * id the client knows about (the prompt's `id`, not the server's session.id). */
   private requestSessions = new Map<string, Session>();
 
+  /** Scheduled job runs started on this connection */
+  private jobSessions = new Set<Session>();
+
+  /** RPC methods the client announced in `hello`; null for clients without the handshake */
+  private clientRpcMethods: Set<string> | null = null;
+
   constructor(
     private ws: WebSocket,
     private sessionStore: SessionStore,
+    private jobScheduler: JobScheduler,
+    private token: string,
+    private principal: AuthPrincipal,
   ) {
     ws.on('message', (data) => {
       this.lastActivity = Date.now();
@@ -78,6 +93,21 @@ class ConnectionHandler implements RpcSender {
     ws.on('error', (err) => logger.error('WebSocket error:', err));
   }
 
+  /**
+   * Re-check this connection's token so rotated-out, expired or revoked keys
+   * lose access, and vault scope changes apply to live connections.
+   */
+  reauthenticate(authenticator: Authenticator): boolean {
+    const principal = authenticator.authenticate(this.token);
+    if (!principal || principal.id !== this.principal.id) {
+      logger.warn(`Credentials for ${this.principal.id} are no longer valid, disconnecting`);
+      this.ws.close(4001, 'Unauthorized');
+      return false;
+    }
+    this.principal = principal;
+    return true;
+  }
+
   checkAlive(): boolean {
     const inactiveMs = Date.now() - this.lastActivity;
     if (inactiveMs > 90000) {
@@ -100,6 +130,9 @@ class ConnectionHandler implements RpcSender {
     logger.debug('Received message:', msg.type);
 
     switch (msg.type) {
+      case 'hello':
+        this.handleHello(msg);
+        break;
       case 'prompt':
         this.handlePrompt(msg);
         break;
@@ -124,12 +157,34 @@ class ConnectionHandler implements RpcSender {
       case 'session_cancel':
         this.handleSessionCancel(msg);
         break;
+      case 'approval_response':
+        this.handleApprovalResponse(msg);
+        break;
       case 'ping':
         this.send({ type: 'pong' });
         break;
     }
   }
 
+  // --------------------------------------------------------------------------
+  // Handshake
+  // --------------------------------------------------------------------------
+
+  private handleHello(msg: HelloMessage) {
+    this.clientRpcMethods = new Set(msg.rpcMethods);
+    logger.info(`Client ${msg.client || 'unknown'} speaks protocol v${msg.protocolVersion}`);
+    if (msg.protocolVersion < MIN_PROTOCOL_VERSION) {
+      logger.warn(`Client protocol v${msg.protocolVersion} is older than v${MIN_PROTOCOL_VERSION}, the oldest supported`);
+    }
+    this.send({
+      type: 'welcome',
+      protocolVersion: PROTOCOL_VERSION,
+      minProtocolVersion: MIN_PROTOCOL_VERSION,
+      features: SERVER_FEATURES,
+      server: 'typescript',
+    });
+  }
+
   // --------------------------------------------------------------------------
   // Prompt → Session creation
   // --------------------------------------------------------------------------
@@ -138,13 +193,43 @@ class ConnectionHandler implements RpcSender {
     const clientId = msg.clientId || 'anonymous';
     const conversationId = msg.conversationId || msg.id;
 
+    if (!canAccessVault(this.principal, clientId)) {
+      logger.warn(`Prompt from ${this.principal.id} rejected: vault ${clientId} is out of scope`);
+      this.send({
+        type: 'error',
+        requestId: msg.id,
+        code: 'FORBIDDEN',
+        message: 'This API key is not authorized for this vault',
+      });
+      return;
+    }
+    this.jobScheduler.register(clientId, this);
+
+    if (msg.mode && !TOOL_MODES.includes(msg.mode)) {
+      this.send({
+        type: 'error',
+        requestId: msg.id,
+        code: 'INVALID_MODE',
+        message: `Unknown tool mode "${msg.mode}" (expected ${TOOL_MODES.join(', ')})`,
+      });
+      return;
+    }
+
     // Create a session that outlives this connection
     const session = this.sessionStore.create({
       conversationId,
       clientId,
+      ownerId: this.principal.id,
       prompt: msg.prompt,
       model: msg.model || '',
       sender: this,
+      toolPolicies: msg.toolPolicies,
+      toolAccess: {
+        mode: msg.mode,
+        allowedTools: msg.allowedTools,
+        disallowedTools: msg.disallowedTools,
+      },
+      forkFrom: msg.forkFrom,
     });
 
     // Tell the client about the session ID
@@ -183,11 +268,24 @@ class ConnectionHandler implements RpcSender {
     const inputQueue = new AsyncQueue<any>();
     this.activeInputQueues.set(msg.id, inputQueue);
 
-    // Check for existing SDK session (multi-turn follow-up)
-    const existingSdkSession = ConnectionHandler.sdkSessions.get(conversationId);
-
-    if (existingSdkSession) {
-      logger.info(`Multi-turn: resuming SDK session ${existingSdkSession} for conversation ${conversationId}`);
+    // Check for existing SDK session (multi-turn follow-up). Conversations
+    // are only resumable by the principal that started them.
+    const existing = ConnectionHandler.sdkSessions.get(conversationId);
+    let resumeSessionId = existing?.ownerId === session.ownerId ? existing.sdkSessionId : undefined;
+    let forkAt: string | undefined;
+
+    if (resumeSessionId) {
+      logger.info(`Multi-turn: resuming SDK session ${resumeSessionId} for conversation ${conversationId}`);
+    } else if (session.forkFrom) {
+      // First turn of a branch: copy the parent's history up to the fork point
+      const parent = ConnectionHandler.sdkSessions.get(session.forkFrom.conversationId);
+      if (parent?.ownerId === session.ownerId) {
+        resumeSessionId = parent.sdkSessionId;
+        forkAt = session.forkFrom.checkpoint;
+        logger.info(`Fork: conversation ${conversationId} branches from ${session.forkFrom.conversationId} at ${forkAt}`);
+      } else {
+        logger.warn(`Fork: no SDK session for conversation ${session.forkFrom.conversationId}, starting fresh`);
+      }
     }
 
     try {
@@ -199,13 +297,18 @@ class ConnectionHandler implements RpcSender {
         msg.systemPrompt,
         msg.model,
         msg.images,
-        existingSdkSession,  // resumeSessionId (undefined on first turn)
+        resumeSessionId,  // undefined on first turn
         (sdkId: string) => {
           // Capture SDK session ID from first assistant message
-          ConnectionHandler.sdkSessions.set(conversationId, sdkId);
+          ConnectionHandler.sdkSessions.set(conversationId, { sdkSessionId: sdkId, ownerId: session.ownerId });
           logger.info(`Captured SDK session ${sdkId} for conversation ${conversationId}`);
         },
         inputQueue,  // Pass input queue for streaming input (interrupts/asides)
+        session.approvals,
+        session.toolAccess,
+        forkAt,
+        // Sub-agent tool events go into the same buffer, so they replay on reconnect
+        (event) => session.pushEvent(event),
       )) {
         if (session.signal.aborted) {
           logger.info(`Session ${session.id} was cancelled`);
@@ -237,8 +340,25 @@ class ConnectionHandler implements RpcSender {
   // Session resume / list / cancel
   // --------------------------------------------------------------------------
 
+  /**
+   * Look up a session the caller owns. Sessions owned by other principals,
+   * or in vaults outside the caller's scope, are treated as missing so their
+   * existence isn't revealed.
+   */
+  private getOwnedSession(sessionId: string): Session | null {
+    const session = this.sessionStore.get(sessionId);
+    if (
+      !session ||
+      session.ownerId !== this.principal.id ||
+      !canAccessVault(this.principal, session.clientId)
+    ) {
+      return null;
+    }
+    return session;
+  }
+
   private handleSessionResume(msg: SessionResumeMessage) {
-    const session = this.sessionStore.get(msg.sessionId);
+    const session = this.getOwnedSession(msg.sessionId);
     if (!session) {
       this.send({ type: 'error', code: 'SESSION_NOT_FOUND', message: `Session ${msg.sessionId} not found or expired` });
       return;
@@ -272,7 +392,12 @@ class ConnectionHandler implements RpcSender {
   }
 
   private handleSessionList(msg: SessionListMessage) {
-    const sessions = this.sessionStore.getByClientId(msg.clientId);
+    if (!canAccessVault(this.principal, msg.clientId)) {
+      logger.warn(`Session list from ${this.principal.id} rejected: vault ${msg.clientId} is out of scope`);
+      return;
+    }
+    this.jobScheduler.register(msg.clientId, this);
+    const sessions = this.sessionStore.getByClientId(msg.clientId, this.principal.id);
     for (const session of sessions) {
       const info = session.toInfo();
       this.send({
@@ -283,13 +408,63 @@ class ConnectionHandler implements RpcSender {
   }
 
   private handleSessionCancel(msg: SessionCancelMessage) {
-    const session = this.sessionStore.get(msg.sessionId);
+    const session = this.getOwnedSession(msg.sessionId);
     if (session) {
       logger.info(`Cancelling session ${session.id}`);
       session.cancel();
     }
   }
 
+  // --------------------------------------------------------------------------
+  // Scheduled jobs
+  // --------------------------------------------------------------------------
+
+  /**
+   * Start a scheduled job as a session on this connection's vault bridge.
+   * Nobody is watching the run live, so the client only gets session_info
+   * when it starts and ends, and replays it when the user opens it.
+   */
+  runJob(clientId: string, job: JobDefinition): Session {
+    const msg: PromptMessage = {
+      type: 'prompt',
+      id: randomUUID(),
+      prompt: job.prompt,
+      model: job.model,
+      clientId,
+      mode: job.mode,
+    };
+
+    const session = this.sessionStore.create({
+      conversationId: msg.id,
+      clientId,
+      ownerId: this.principal.id,
+      prompt: msg.prompt,
+      model: msg.model || '',
+      sender: this,
+      toolAccess: { mode: job.mode },
+      job: { id: job.id, name: job.name },
+    });
+    this.jobSessions.add(session);
+    this.send({ type: 'session_info', ...session.toInfo() });
+
+    this.runAgentForSession(session, msg)
+      .catch((err) => {
+        logger.error(`Agent runner failed for job session ${session.id}:`, err);
+      })
+      .finally(() => {
+        this.jobSessions.delete(session);
+        this.send({ type: 'session_info', ...session.toInfo() });
+      });
+
+    return session;
+  }
+
+  private handleApprovalResponse(msg: ApprovalResponseMessage) {
+    if (!this.sessionStore.resolveApproval(this.principal.id, msg.id, msg.decision, msg.reason)) {
+      logger.warn(`Approval response for unknown or already-settled request: ${msg.id}`);
+    }
+  }
+
   // --------------------------------------------------------------------------
   // RPC handling (vault bridge)
   // --------------------------------------------------------------------------
@@ -314,7 +489,7 @@ class ConnectionHandler implements RpcSender {
   private handleCancel(msg: CancelMessage) {
     // Legacy cancel by requestId — find session and cancel it
     // Also check if it matches a session ID directly
-    const session = this.sessionStore.get(msg.id);
+    const session = this.requestSessions.get(msg.id) ?? this.getOwnedSession(msg.id);
     if (session) {
       session.cancel();
     }
@@ -342,6 +517,10 @@ class ConnectionHandler implements RpcSender {
           prompt: msg.prompt,
           clientId: session.clientId,
           conversationId: session.conversationId,
+          toolPolicies: session.toolPolicies,
+          ...session.toolAccess,
+          // Still needed if the branch's first turn was interrupted early
+          ...(session.forkFrom ? { forkFrom: session.forkFrom } : {}),
         };
         this.handlePrompt(newPromptMsg);
       }
@@ -381,6 +560,9 @@ class ConnectionHandler implements RpcSender {
     if (this.ws.readyState !== WebSocket.OPEN) {
       throw new Error('Client disconnected — vault operations unavailable');
     }
+    if (this.clientRpcMethods && !this.clientRpcMethods.has(method)) {
+      throw new Error(`The plugin does not support ${method} — update the plugin to use this tool`);
+    }
 
     const id = randomUUID();
     const RPC_TIMEOUT = 60000;
@@ -408,12 +590,45 @@ class ConnectionHandler implements RpcSender {
 
   /** Convert an AgentEvent to a ServerMessage and send it */
   private sendAgentEvent(requestId: string, event: AgentEvent) {
+    // A sub-agent's tool events carry its own id, linked to the prompt that
+    // started it; its other events stay inside the delegate_task result
+    if (event.subAgentId) {
+      const ids = { requestId: event.subAgentId, parentRequestId: requestId };
+      if (event.type === 'tool_start') {
+        this.send({
+          type: 'tool_start',
+          ...ids,
+          ...(event.parentToolUseId ? { parentToolUseId: event.parentToolUseId } : {}),
+          toolName: event.name,
+          toolInput: event.input,
+        });
+      } else if (event.type === 'tool_end') {
+        this.send({ type: 'tool_end', ...ids, toolName: event.name, result: event.result });
+      }
+      return;
+    }
+
     switch (event.type) {
       case 'text_delta':
         this.send({ type: 'text_delta', requestId, text: event.text });
         break;
       case 'tool_start':
-        this.send({ type: 'tool_start', requestId, toolName: event.name, toolInput: event.input });
+        this.send({
+          type: 'tool_start',
+          requestId,
+          toolName: event.name,
+          toolInput: event.input,
+          ...(event.toolUseId ? { toolUseId: event.toolUseId } : {}),
+        });
+        break;
+      case 'tool_input_delta':
+        this.send({
+          type: 'tool_input_delta',
+          requestId,
+          toolUseId: event.toolUseId,
+          toolName: event.name,
+          partialJson: event.partialJson,
+        });
         break;
       case 'tool_end':
         this.send({ type: 'tool_end', requestId, toolName: event.name, result: event.result });
@@ -422,11 +637,36 @@ class ConnectionHandler implements RpcSender {
         this.send({ type: 'thinking', requestId, text: event.text });
         break;
       case 'complete':
-        this.send({ type: 'complete', requestId, result: event.result });
+        this.send({
+          type: 'complete',
+          requestId,
+          result: event.result,
+          ...(event.model ? { model: event.model } : {}),
+          ...(event.usage ? { usage: event.usage } : {}),
+          ...(event.checkpoint ? { checkpoint: event.checkpoint } : {}),
+        });
         break;
       case 'error':
         this.send({ type: 'error', requestId, code: event.code, message: event.message });
         break;
+      case 'approval_request':
+        this.send({
+          type: 'approval_request',
+          requestId,
+          approvalId: event.approvalId,
+          toolName: event.name,
+          toolInput: event.input,
+        });
+        break;
+      case 'approval_resolved':
+        this.send({
+          type: 'approval_resolved',
+          requestId,
+          approvalId: event.approvalId,
+          decision: event.decision,
+          ...(event.reason ? { reason: event.reason } : {}),
+        });
+        break;
     }
   }
 
@@ -461,6 +701,13 @@ class ConnectionHandler implements RpcSender {
       }
     }
     this.sessionSubs.clear();
+
+    for (const session of this.jobSessions) {
+      session.detachBridge();
+      logger.info(`Job session ${session.id} detached from connection (still running)`);
+    }
+    this.jobSessions.clear();
+    this.jobScheduler.unregister(this);
   }
 }
 
@@ -469,7 +716,9 @@ class ConnectionHandler implements RpcSender {
  */
 export function startServer(): Server {
   const connections = new Map<WebSocket, ConnectionHandler>();
-  const sessionStore = new SessionStore();
+  const sessionStore = new SessionStore(createSessionPersistence());
+  const authenticator = createAuthenticator();
+  const jobScheduler = new JobScheduler();
 
   const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
     if (req.url === '/health' || req.url === '/') {
@@ -490,7 +739,7 @@ export function startServer(): Server {
 
   const heartbeatInterval = setInterval(() => {
     for (const [ws, handler] of connections) {
-      if (!handler.checkAlive()) {
+      if (!handler.checkAlive() || !handler.reauthenticate(authenticator)) {
         connections.delete(ws);
       }
     }
@@ -499,15 +748,16 @@ export function startServer(): Server {
   wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
     const url = new URL(req.url || '', `http://localhost:${PORT}`);
     const token = url.searchParams.get('token');
+    const principal = authenticator.authenticate(token);
 
-    if (token !== AUTH_TOKEN) {
+    if (!token || !principal) {
       logger.warn('Unauthorized connection attempt');
       ws.close(4001, 'Unauthorized');
       return;
     }
 
-    logger.info('Client connected');
-    const handler = new ConnectionHandler(ws, sessionStore);
+    logger.info(`Client connected (${principal.id})`);
+    const handler = new ConnectionHandler(ws, sessionStore, jobScheduler, token, principal);
     connections.set(ws, handler);
 
     ws.on('close', () => {
@@ -518,12 +768,22 @@ export function startServer(): Server {
 
   wss.on('close', () => {
     clearInterval(heartbeatInterval);
+    jobScheduler.stop();
     sessionStore.destroy();
+    authenticator.close();
   });
 
-  httpServer.listen(PORT, () => {
-    logger.info(`Server running on port ${PORT}`);
-  });
+  // Restore persisted sessions before accepting connections so an early
+  // session_resume after a redeploy finds its session.
+  sessionStore
+    .restore()
+    .catch((err) => logger.error('Failed to restore persisted sessions:', err))
+    .finally(() => {
+      httpServer.listen(PORT, () => {
+        logger.info(`Server running on port ${PORT}`);
+      });
+      jobScheduler.start();
+    });
 
   return httpServer;
 }
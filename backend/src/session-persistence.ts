@@ -0,0 +1,209 @@
+/**
+ * Session Persistence
+ *
+ * Pluggable storage for sessions so they survive server restarts.
+ * The default implementation keeps an append-only JSONL log per session:
+ *
+ *   <dir>/<sessionId>.jsonl
+ *     {"kind":"meta", ...}            first line — session identity
+ *     {"kind":"event","event":{...}}  one line per buffered AgentEvent
+ *     {"kind":"status", ...}          written when the session finishes
+ *
+ * A truncated last line (process killed mid-write) is ignored on load.
+ */
+
+import { createWriteStream, existsSync, mkdirSync, type WriteStream } from 'fs';
+import { readdir, readFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import type { AgentEvent, JobRef } from './protocol.js';
+import { logger } from './utils.js';
+
+export type PersistedSessionStatus = 'running' | 'complete' | 'error';
+
+export interface PersistedSessionMeta {
+  id: string;
+  conversationId: string;
+  clientId: string;
+  /** Auth principal that created the session (absent in logs written before per-client keys) */
+  ownerId?: string;
+  prompt: string;
+  model: string;
+  createdAt: number;
+  /** Scheduled job that started the session */
+  job?: JobRef;
+}
+
+export interface PersistedSessionStatusUpdate {
+  status: PersistedSessionStatus;
+  completedAt?: number;
+  error?: string;
+}
+
+export interface PersistedSession extends PersistedSessionMeta, PersistedSessionStatusUpdate {
+  events: AgentEvent[];
+}
+
+export interface SessionPersistence {
+  /** Record a newly created session */
+  create(meta: PersistedSessionMeta): void;
+  /** Append one buffered event */
+  appendEvent(sessionId: string, event: AgentEvent): void;
+  /** Record a status transition (complete / error) */
+  updateStatus(sessionId: string, update: PersistedSessionStatusUpdate): void;
+  /** Load every persisted session (called once at startup) */
+  loadAll(): Promise<PersistedSession[]>;
+  /** Delete a session's log (TTL expiry) */
+  remove(sessionId: string): void;
+  /** Flush and release any open handles */
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// In-memory (no-op) persistence — the pre-persistence behaviour
+// ============================================================================
+
+export class MemorySessionPersistence implements SessionPersistence {
+  create(): void {}
+  appendEvent(): void {}
+  updateStatus(): void {}
+  async loadAll(): Promise<PersistedSession[]> {
+    return [];
+  }
+  remove(): void {}
+  async close(): Promise<void> {}
+}
+
+// ============================================================================
+// JSONL file persistence
+// ============================================================================
+
+type LogRecord =
+  | ({ kind: 'meta' } & PersistedSessionMeta)
+  | { kind: 'event'; event: AgentEvent }
+  | ({ kind: 'status' } & PersistedSessionStatusUpdate);
+
+export class JsonlSessionPersistence implements SessionPersistence {
+  /** sessionId -> open append stream (only while the session is running) */
+  private streams = new Map<string, WriteStream>();
+
+  constructor(private dir: string) {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private pathFor(sessionId: string): string {
+    return join(this.dir, `${sessionId}.jsonl`);
+  }
+
+  private write(sessionId: string, record: LogRecord): void {
+    let stream = this.streams.get(sessionId);
+    if (!stream) {
+      stream = createWriteStream(this.pathFor(sessionId), { flags: 'a' });
+      stream.on('error', (err) => logger.error(`Session log ${sessionId} write failed:`, err));
+      this.streams.set(sessionId, stream);
+    }
+    stream.write(JSON.stringify(record) + '\n');
+  }
+
+  create(meta: PersistedSessionMeta): void {
+    this.write(meta.id, { kind: 'meta', ...meta });
+  }
+
+  appendEvent(sessionId: string, event: AgentEvent): void {
+    this.write(sessionId, { kind: 'event', event });
+  }
+
+  updateStatus(sessionId: string, update: PersistedSessionStatusUpdate): void {
+    this.write(sessionId, { kind: 'status', ...update });
+    // Finished sessions are never appended to again
+    if (update.status !== 'running') {
+      this.streams.get(sessionId)?.end();
+      this.streams.delete(sessionId);
+    }
+  }
+
+  async loadAll(): Promise<PersistedSession[]> {
+    const sessions: PersistedSession[] = [];
+    const files = (await readdir(this.dir)).filter((f) => f.endsWith('.jsonl'));
+
+    for (const file of files) {
+      try {
+        const session = this.parse(await readFile(join(this.dir, file), 'utf8'));
+        if (session) {
+          sessions.push(session);
+        } else {
+          logger.warn(`Session log ${file} has no metadata, skipping`);
+        }
+      } catch (err) {
+        logger.error(`Failed to load session log ${file}:`, err);
+      }
+    }
+
+    return sessions;
+  }
+
+  private parse(raw: string): PersistedSession | null {
+    let session: PersistedSession | null = null;
+
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // Truncated write from a crash — everything before it is still valid
+        logger.warn('Ignoring malformed session log line');
+        continue;
+      }
+
+      if (record.kind === 'meta') {
+        const { kind: _kind, ...meta } = record;
+        session = { ...meta, status: 'running', events: [] };
+      } else if (session && record.kind === 'event') {
+        session.events.push(record.event);
+      } else if (session && record.kind === 'status') {
+        session.status = record.status;
+        session.completedAt = record.completedAt;
+        session.error = record.error;
+      }
+    }
+
+    return session;
+  }
+
+  remove(sessionId: string): void {
+    this.streams.get(sessionId)?.end();
+    this.streams.delete(sessionId);
+    unlink(this.pathFor(sessionId)).catch((err) => {
+      if (err.code !== 'ENOENT') {
+        logger.warn(`Failed to delete session log ${sessionId}:`, err);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    const pending = Array.from(this.streams.values()).map(
+      (stream) => new Promise<void>((resolve) => stream.end(resolve)),
+    );
+    this.streams.clear();
+    await Promise.all(pending);
+  }
+}
+
+/**
+ * Build the persistence layer from env:
+ * - SESSION_PERSISTENCE=memory disables persistence
+ * - SESSION_DIR sets the log directory (default ./data/sessions)
+ */
+export function createSessionPersistence(): SessionPersistence {
+  if (process.env.SESSION_PERSISTENCE === 'memory') {
+    logger.info('Session persistence: memory (sessions are lost on restart)');
+    return new MemorySessionPersistence();
+  }
+
+  const dir = process.env.SESSION_DIR || join(process.cwd(), 'data', 'sessions');
+  logger.info(`Session persistence: jsonl (${dir})`);
+  return new JsonlSessionPersistence(dir);
+}
@@ -3,12 +3,43 @@
  *
  * Manages server-side sessions that outlive WebSocket connections.
  * Each prompt creates a session that buffers all agent events.
- * Sessions persist in memory with a 24h TTL.
+ * Sessions live in memory with a 24h TTL and are mirrored to a
+ * SessionPersistence backend so they survive server restarts.
  */
 
 import { randomUUID } from 'crypto';
-import type { AgentEvent, VaultBridge, SearchResult, FileInfo, GrepResult } from './protocol.js';
+import type {
+  AgentEvent,
+  ApprovalDecision,
+  BinaryFile,
+  CookbookSearchResult,
+  CookbookSource,
+  VaultBridge,
+  SearchResult,
+  FileInfo,
+  ForkPoint,
+  GrepResult,
+  JobRef,
+  LinkInfo,
+  MemoryEntry,
+  NeighborInfo,
+  NoteContent,
+  NoteProperties,
+  NotePropertiesUpdate,
+  OutlinksResult,
+  SemanticSearchMode,
+  SemanticSearchResult,
+  ToolAccess,
+  ToolPolicies,
+} from './protocol.js';
+import { ApprovalGate } from './approval.js';
+import { DEFAULT_OWNER_ID } from './auth.js';
 import { logger } from './utils.js';
+import {
+  MemorySessionPersistence,
+  type PersistedSession,
+  type SessionPersistence,
+} from './session-persistence.js';
 
 // ============================================================================
 // RPC Sender interface — connection-agnostic way to send vault RPCs
@@ -25,7 +56,7 @@ export interface RpcSender {
 export class DetachableVaultBridge implements VaultBridge {
   private sender: RpcSender | null;
 
-  constructor(sender: RpcSender) {
+  constructor(sender: RpcSender | null) {
     this.sender = sender;
   }
 
@@ -49,9 +80,17 @@ export class DetachableVaultBridge implements VaultBridge {
   }
 
   async read(path: string): Promise<string> {
+    return (await this.readNote(path)).content;
+  }
+
+  async readNote(path: string): Promise<NoteContent> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<NoteContent>('vault_read', { path });
+  }
+
+  async readBinary(path: string, maxBytes?: number): Promise<BinaryFile> {
     const sender = this.ensureConnected();
-    const result = await sender.sendRpc<{ content: string }>('vault_read', { path });
-    return result.content;
+    return sender.sendRpc<BinaryFile>('vault_read_binary', { path, max_bytes: maxBytes });
   }
 
   async write(path: string, content: string): Promise<void> {
@@ -69,6 +108,19 @@ export class DetachableVaultBridge implements VaultBridge {
     return sender.sendRpc<SearchResult[]>('vault_search', { query, limit });
   }
 
+  async semanticSearch(
+    query: string,
+    options: { limit?: number; mode?: SemanticSearchMode; folder?: string } = {},
+  ): Promise<SemanticSearchResult[]> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<SemanticSearchResult[]>('vault_semantic_search', {
+      query,
+      limit: options.limit ?? 10,
+      mode: options.mode ?? 'semantic',
+      folder: options.folder || '',
+    });
+  }
+
   async grep(pattern: string, folder?: string, filePattern?: string, limit: number = 50): Promise<GrepResult[]> {
     const sender = this.ensureConnected();
     return sender.sendRpc<GrepResult[]>('vault_grep', {
@@ -98,6 +150,63 @@ export class DetachableVaultBridge implements VaultBridge {
     const sender = this.ensureConnected();
     await sender.sendRpc('vault_delete', { path });
   }
+
+  async getProperties(path: string): Promise<NoteProperties> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<NoteProperties>('vault_get_properties', { path });
+  }
+
+  async setProperties(path: string, update: NotePropertiesUpdate): Promise<NoteProperties> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<NoteProperties>('vault_set_properties', { path, ...update });
+  }
+
+  async backlinks(path: string): Promise<LinkInfo[]> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<LinkInfo[]>('vault_backlinks', { path });
+  }
+
+  async outlinks(path: string): Promise<OutlinksResult> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<OutlinksResult>('vault_outlinks', { path });
+  }
+
+  async neighbors(path: string, depth: number = 1, limit: number = 100): Promise<NeighborInfo[]> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<NeighborInfo[]>('vault_neighbors', { path, depth, limit });
+  }
+
+  async searchCookbooks(
+    query: string,
+    options: { sources?: string[]; limit?: number } = {},
+  ): Promise<CookbookSearchResult[]> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<CookbookSearchResult[]>('cookbook_search', {
+      query,
+      sources: options.sources ?? [],
+      limit: options.limit ?? 10,
+    });
+  }
+
+  async listCookbookSources(): Promise<CookbookSource[]> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<CookbookSource[]>('cookbook_list_sources', {});
+  }
+
+  async memoryAdd(content: string, tags: string[] = []): Promise<MemoryEntry> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<MemoryEntry>('memory_add', { content, tags });
+  }
+
+  async memorySearch(query: string, limit: number = 10): Promise<MemoryEntry[]> {
+    const sender = this.ensureConnected();
+    return sender.sendRpc<MemoryEntry[]>('memory_search', { query, limit });
+  }
+
+  async memoryForget(id: string): Promise<void> {
+    const sender = this.ensureConnected();
+    await sender.sendRpc('memory_forget', { id });
+  }
 }
 
 // ============================================================================
@@ -112,6 +221,8 @@ export class Session {
   readonly id: string;
   readonly conversationId: string;
   readonly clientId: string;
+  /** Auth principal that created the session; only it may list or resume it */
+  readonly ownerId: string;
   readonly prompt: string;
   readonly model: string;
   readonly createdAt: number;
@@ -122,32 +233,109 @@ export class Session {
   error?: string;
 
   readonly bridge: DetachableVaultBridge;
+  readonly toolPolicies: ToolPolicies;
+  readonly toolAccess: ToolAccess;
+  /** Parent conversation this session's conversation branches from */
+  readonly forkFrom?: ForkPoint;
+  /** Scheduled job that started this session, if it wasn't a prompt */
+  readonly job?: JobRef;
+  readonly approvals: ApprovalGate;
   private subscribers = new Set<SessionEventCallback>();
   private abortController = new AbortController();
+  private persistence: SessionPersistence;
 
   constructor(params: {
     conversationId: string;
     clientId: string;
+    ownerId: string;
     prompt: string;
     model: string;
-    sender: RpcSender;
+    sender: RpcSender | null;
+    persistence?: SessionPersistence;
+    toolPolicies?: ToolPolicies;
+    toolAccess?: ToolAccess;
+    forkFrom?: ForkPoint;
+    job?: JobRef;
+    /** Rebuild from a persisted log instead of starting a new session */
+    restored?: PersistedSession;
   }) {
-    this.id = randomUUID();
+    const restored = params.restored;
+    this.id = restored?.id ?? randomUUID();
     this.conversationId = params.conversationId;
     this.clientId = params.clientId;
+    this.ownerId = params.ownerId;
     this.prompt = params.prompt;
     this.model = params.model;
-    this.createdAt = Date.now();
+    this.createdAt = restored?.createdAt ?? Date.now();
     this.bridge = new DetachableVaultBridge(params.sender);
+    this.toolPolicies = params.toolPolicies ?? {};
+    this.toolAccess = params.toolAccess ?? {};
+    this.forkFrom = params.forkFrom;
+    this.job = params.job;
+    this.approvals = new ApprovalGate(this.toolPolicies, (event) => this.pushEvent(event));
+    this.persistence = params.persistence ?? new MemorySessionPersistence();
+
+    if (restored) {
+      this.status = restored.status;
+      this.events = restored.events;
+      this.completedAt = restored.completedAt;
+      this.error = restored.error;
+    } else {
+      this.persistence.create({
+        id: this.id,
+        conversationId: this.conversationId,
+        clientId: this.clientId,
+        ownerId: this.ownerId,
+        prompt: this.prompt,
+        model: this.model,
+        createdAt: this.createdAt,
+        ...(this.job ? { job: this.job } : {}),
+      });
+    }
+  }
+
+  /**
+   * Rebuild a session from its persisted log. Restored sessions have no
+   * agent behind them: a session that was still running when the server
+   * went down is closed out with an error event explaining why.
+   */
+  static restore(data: PersistedSession, persistence: SessionPersistence): Session {
+    const session = new Session({
+      conversationId: data.conversationId,
+      clientId: data.clientId,
+      // Sessions from before per-client keys belong to the shared-token principal
+      ownerId: data.ownerId ?? DEFAULT_OWNER_ID,
+      prompt: data.prompt,
+      model: data.model,
+      job: data.job,
+      sender: null,
+      persistence,
+      restored: data,
+    });
+
+    if (session.status === 'running') {
+      const message = 'Server restarted while this session was running. The response may be incomplete.';
+      session.pushEvent({ type: 'error', code: 'SERVER_RESTARTED', message });
+      session.markError(message);
+    }
+
+    return session;
   }
 
   get signal(): AbortSignal {
     return this.abortController.signal;
   }
 
-  /** Push an event — buffers it AND notifies subscribers */
+  /**
+   * Push an event — buffers it AND notifies subscribers. Partial tool input
+   * is only forwarded: the tool_start that follows makes it redundant, and
+   * buffering every chunk of a long note would bloat replays.
+   */
   pushEvent(event: AgentEvent): void {
-    this.events.push(event);
+    if (event.type !== 'tool_input_delta') {
+      this.events.push(event);
+      this.persistence.appendEvent(this.id, event);
+    }
     for (const cb of this.subscribers) {
       try {
         cb(event);
@@ -166,6 +354,7 @@ export class Session {
   markComplete(): void {
     this.status = 'complete';
     this.completedAt = Date.now();
+    this.persistence.updateStatus(this.id, { status: 'complete', completedAt: this.completedAt });
     logger.info(`Session ${this.id} completed (${this.events.length} events)`);
   }
 
@@ -173,10 +362,12 @@ export class Session {
     this.status = 'error';
     this.completedAt = Date.now();
     this.error = message;
+    this.persistence.updateStatus(this.id, { status: 'error', completedAt: this.completedAt, error: message });
     logger.error(`Session ${this.id} error: ${message}`);
   }
 
   cancel(): void {
+    this.approvals.denyAll('session cancelled');
     this.abortController.abort();
   }
 
@@ -196,6 +387,7 @@ export class Session {
       createdAt: this.createdAt,
       completedAt: this.completedAt,
       eventCount: this.events.length,
+      ...(this.job ? { job: this.job } : {}),
     };
   }
 }
@@ -207,6 +399,7 @@ export interface SessionInfo {
   createdAt: number;
   completedAt?: number;
   eventCount: number;
+  job?: JobRef;
 }
 
 // ============================================================================
@@ -220,7 +413,7 @@ export class SessionStore {
   private sessions = new Map<string, Session>();
   private cleanupTimer: ReturnType<typeof setInterval>;
 
-  constructor() {
+  constructor(private persistence: SessionPersistence = new MemorySessionPersistence()) {
     this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL);
     // Allow the timer to not block process exit
     if (typeof this.cleanupTimer === 'object' && 'unref' in this.cleanupTimer) {
@@ -231,22 +424,62 @@ export class SessionStore {
   create(params: {
     conversationId: string;
     clientId: string;
+    ownerId: string;
     prompt: string;
     model: string;
     sender: RpcSender;
+    toolPolicies?: ToolPolicies;
+    toolAccess?: ToolAccess;
+    forkFrom?: ForkPoint;
+    job?: JobRef;
   }): Session {
-    const session = new Session(params);
+    const session = new Session({ ...params, persistence: this.persistence });
     this.sessions.set(session.id, session);
     logger.info(`Session ${session.id} created for client ${params.clientId}, conversation ${params.conversationId}`);
     return session;
   }
 
+  /**
+   * Load persisted sessions from a previous process. Expired logs are
+   * deleted instead of restored.
+   */
+  async restore(): Promise<void> {
+    const persisted = await this.persistence.loadAll();
+    const now = Date.now();
+    let restored = 0;
+
+    for (const data of persisted) {
+      if (now - data.createdAt > SESSION_TTL) {
+        this.persistence.remove(data.id);
+        continue;
+      }
+      this.sessions.set(data.id, Session.restore(data, this.persistence));
+      restored++;
+    }
+
+    if (restored > 0) {
+      logger.info(`Restored ${restored} persisted sessions`);
+    }
+  }
+
   get(id: string): Session | null {
     return this.sessions.get(id) || null;
   }
 
-  getByClientId(clientId: string): Session[] {
-    return Array.from(this.sessions.values()).filter(s => s.clientId === clientId);
+  getByClientId(clientId: string, ownerId: string): Session[] {
+    return Array.from(this.sessions.values()).filter(
+      s => s.clientId === clientId && s.ownerId === ownerId,
+    );
+  }
+
+  /** Answer a pending approval request in whichever of the owner's sessions holds it */
+  resolveApproval(ownerId: string, approvalId: string, decision: ApprovalDecision, reason?: string): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.ownerId === ownerId && session.approvals.has(approvalId)) {
+        return session.approvals.settle(approvalId, decision, reason);
+      }
+    }
+    return false;
   }
 
   remove(id: string): void {
@@ -254,6 +487,7 @@ export class SessionStore {
     if (session) {
       session.cancel();
       this.sessions.delete(id);
+      this.persistence.remove(id);
     }
   }
 
@@ -266,6 +500,7 @@ export class SessionStore {
       if (age > SESSION_TTL) {
         session.cancel();
         this.sessions.delete(id);
+        this.persistence.remove(id);
         removed++;
       }
     }
@@ -280,6 +515,7 @@ export class SessionStore {
       session.cancel();
     }
     this.sessions.clear();
+    void this.persistence.close();
   }
 
   get size(): number {
@@ -0,0 +1,233 @@
+/**
+ * Skills
+ *
+ * A skill is a markdown file in the vault's `.claude/skills/` folder with
+ * instructions the agent follows on request. Each skill is exposed to the
+ * agent as a tool (`skill_<name>`) that returns its full instructions only
+ * when called, so the system prompt carries just names and descriptions:
+ *
+ *   ---
+ *   description: Weekly review of project notes
+ *   argument-hint: <week:number> [focus]
+ *   allowed-tools: vault_read, vault_glob, vault_edit
+ *   resources: Templates/Weekly review.md, ./review-checklist.md
+ *   ---
+ *   Review week {{week}} of the daily notes, paying attention to {{focus}}...
+ *
+ * - `argument-hint` declares the tool's arguments: `<name>` is required,
+ *   `[name]` optional, and `:number` or `:boolean` types them (default
+ *   string). The body refers to them as `{{name}}`, or to all of them as
+ *   `$ARGUMENTS`.
+ * - `allowed-tools` limits which vault tools may run while the skill is
+ *   being followed, until another skill is called or the turn ends.
+ * - `resources` are notes sent along with the instructions. Paths starting
+ *   with `./` are relative to the skill file.
+ */
+
+import { z } from 'zod';
+import { logger, parseFrontmatter, parseFrontmatterList } from './utils.js';
+import type { VaultBridge } from './protocol.js';
+
+const SKILLS_GLOB = '.claude/skills/*.md';
+
+/** Tool names are limited to 64 characters */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export type SkillArgumentType = 'string' | 'number' | 'boolean';
+
+export interface SkillArgument {
+  name: string;
+  type: SkillArgumentType;
+  required: boolean;
+}
+
+export interface SkillDefinition {
+  name: string;
+  /** Name of the tool that runs the skill, e.g. skill_weekly-review */
+  toolName: string;
+  description: string;
+  path: string;
+  argumentHint?: string;
+  arguments: SkillArgument[];
+  /** Vault tools the skill may use; undefined means no restriction */
+  allowedTools?: string[];
+  /** Vault paths of notes attached to the instructions */
+  resources: string[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const ARGUMENT_TYPES: SkillArgumentType[] = ['string', 'number', 'boolean'];
+
+/**
+ * Read typed arguments from an argument hint like `<week:number> [focus]`.
+ * Free-form hints without <> or [] placeholders declare no arguments. The
+ * plugin parses hints the same way; both run test/argument-hint-cases.json.
+ */
+export function parseArgumentHint(hint: string | undefined): SkillArgument[] {
+  if (!hint) return [];
+
+  const args: SkillArgument[] = [];
+  for (const match of hint.matchAll(/<([^<>]+)>|\[([^[\]]+)\]/g)) {
+    const required = match[1] !== undefined;
+    const [name, type = 'string'] = (match[1] ?? match[2]).split(':').map((part) => part.trim());
+    if (!/^[\w-]+$/.test(name)) {
+      throw new Error(`Invalid argument name "${name}" in argument-hint`);
+    }
+    if (!ARGUMENT_TYPES.includes(type as SkillArgumentType)) {
+      throw new Error(`Unknown type "${type}" for argument "${name}" (expected ${ARGUMENT_TYPES.join(', ')})`);
+    }
+    args.push({ name, type: type as SkillArgumentType, required });
+  }
+  return args;
+}
+
+export function skillToolName(name: string): string {
+  const slug = name.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `skill_${slug}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+function resolveResourcePath(skillPath: string, resource: string): string {
+  if (!resource.startsWith('./')) return resource;
+  const folder = skillPath.split('/').slice(0, -1).join('/');
+  return `${folder}/${resource.slice(2)}`;
+}
+
+/** Parse a skill file; throws with a readable message if it's invalid */
+export function parseSkillFile(path: string, content: string): SkillDefinition {
+  const name = (path.split('/').pop() || path).replace(/\.md$/, '');
+  const { fields, body } = parseFrontmatter(content);
+
+  // Without a description, fall back to the first heading
+  const heading = body.trimStart().match(/^# (.+)/);
+  const description = fields.description || heading?.[1].trim() || `Custom skill: ${name}`;
+
+  return {
+    name,
+    toolName: skillToolName(name),
+    description,
+    path,
+    argumentHint: fields['argument-hint'] || undefined,
+    arguments: parseArgumentHint(fields['argument-hint']),
+    allowedTools: fields['allowed-tools'] !== undefined
+      ? parseFrontmatterList(fields['allowed-tools'])
+      : undefined,
+    resources: parseFrontmatterList(fields.resources).map((r) => resolveResourcePath(path, r)),
+  };
+}
+
+/** Load every valid skill from the vault; invalid files are logged and skipped */
+export async function loadSkills(bridge: VaultBridge): Promise<SkillDefinition[]> {
+  const skills: SkillDefinition[] = [];
+  const toolNames = new Set<string>();
+
+  let paths: string[];
+  try {
+    paths = await bridge.glob(SKILLS_GLOB);
+  } catch (e) {
+    logger.debug('No .claude/skills/ directory found');
+    return skills;
+  }
+
+  for (const path of paths) {
+    try {
+      const skill = parseSkillFile(path, await bridge.read(path));
+      if (toolNames.has(skill.toolName)) {
+        throw new Error(`Another skill already uses the tool name ${skill.toolName}`);
+      }
+      toolNames.add(skill.toolName);
+      skills.push(skill);
+      logger.info(`Loaded skill: ${skill.name}`);
+    } catch (e) {
+      logger.warn(`Skipping skill ${path}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  return skills;
+}
+
+// ============================================================================
+// Invocation
+// ============================================================================
+
+/** Zod input schema for a skill's tool */
+export function skillInputSchema(skill: SkillDefinition): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const arg of skill.arguments) {
+    const base = arg.type === 'number' ? z.number() : arg.type === 'boolean' ? z.boolean() : z.string();
+    shape[arg.name] = arg.required ? base : base.optional();
+  }
+  return shape;
+}
+
+export function skillToolDescription(skill: SkillDefinition): string {
+  const parts = [
+    `Run the user's "${skill.name}" skill: ${skill.description}.`,
+    'Returns the skill\'s full instructions — follow them.',
+  ];
+  if (skill.allowedTools) {
+    parts.push(`While following it, only these vault tools may be used: ${skill.allowedTools.join(', ') || '(none)'}.`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Load a skill's instructions with its arguments filled in and its
+ * resources attached. The file is read fresh so edits apply immediately.
+ */
+export async function renderSkill(
+  skill: SkillDefinition,
+  args: Record<string, unknown>,
+  bridge: VaultBridge,
+): Promise<string> {
+  const { body } = parseFrontmatter(await bridge.read(skill.path));
+
+  const values = skill.arguments
+    .map((arg) => args[arg.name])
+    .filter((value) => value !== undefined && value !== '')
+    .map(String);
+  let instructions = body
+    .replace(/\{\{\s*([\w-]+)\s*\}\}/g, (placeholder, name: string) =>
+      skill.arguments.some((arg) => arg.name === name) ? String(args[name] ?? '') : placeholder,
+    )
+    .replace(/\$ARGUMENTS/g, values.join(' '))
+    .trim();
+
+  if (skill.allowedTools) {
+    instructions += `\n\nWhile following this skill, only use these vault tools: ${skill.allowedTools.join(', ') || '(none)'}.`;
+  }
+
+  const sections = [`<skill name="${skill.name}">\n${instructions}\n</skill>`];
+  for (const path of skill.resources) {
+    try {
+      sections.push(`<resource path="${path}">\n${await bridge.read(path)}\n</resource>`);
+    } catch (e) {
+      sections.push(`<resource path="${path}" error="${e instanceof Error ? e.message : 'Could not read'}" />`);
+    }
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * The skill the agent is currently following, and which vault tools it may
+ * use meanwhile. Lives for one agent turn.
+ */
+export class SkillScope {
+  private active: SkillDefinition | null = null;
+
+  enter(skill: SkillDefinition): void {
+    this.active = skill;
+  }
+
+  /** An error message if the active skill doesn't allow the tool, otherwise null */
+  check(toolName: string): string | null {
+    const allowed = this.active?.allowedTools;
+    if (!allowed || allowed.includes(toolName)) return null;
+    return (
+      `${toolName} is not allowed while following the "${this.active!.name}" skill ` +
+      `(allowed: ${allowed.join(', ') || 'none'})`
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Tool Access
+ *
+ * Per-prompt restrictions on which tools the agent may use. The plugin sends
+ * a mode and optional allow/deny lists with each prompt:
+ *
+ *   mode: 'read-only'   no vault changes at all
+ *         'edit'        may change note contents, but not rename or delete
+ *         'full'        everything (default)
+ *
+ *   allowedTools / disallowedTools name tools the way the UI shows them:
+ *     vault_read, WebSearch          a single tool
+ *     vault_*                        trailing wildcard
+ *     cookbook-research__*           every tool of an external MCP server
+ *     cookbook-research__search      one external tool (disallowedTools only)
+ *
+ * Vault tools that are not allowed are never registered, so the model can't
+ * see them. External MCP servers outside the allowlist are not mounted, and
+ * denied built-in or external tools go to the SDK's disallowedTools.
+ */
+
+import type { ToolAccess, ToolMode } from './protocol.js';
+
+/** Vault tools that change note contents */
+const CONTENT_WRITE_TOOLS = ['vault_write', 'vault_edit', 'vault_set_properties'];
+
+/** Vault tools that move or remove notes */
+const STRUCTURE_WRITE_TOOLS = ['vault_rename', 'vault_delete'];
+
+/** Tools that change the agent's memory entries (stored in the vault) */
+const MEMORY_WRITE_TOOLS = ['memory_add', 'memory_forget'];
+
+const MODE_BLOCKED_TOOLS: Record<ToolMode, string[]> = {
+  'read-only': [...CONTENT_WRITE_TOOLS, ...STRUCTURE_WRITE_TOOLS, ...MEMORY_WRITE_TOOLS],
+  edit: STRUCTURE_WRITE_TOOLS,
+  full: [],
+};
+
+export const TOOL_MODES = Object.keys(MODE_BLOCKED_TOOLS) as ToolMode[];
+
+/** Built-in SDK tools the agent is given */
+export const BUILTIN_TOOLS = ['WebSearch'];
+
+function matches(pattern: string, name: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : pattern === name;
+}
+
+export class ToolFilter {
+  readonly mode: ToolMode;
+  private allowed?: string[];
+  private disallowed: string[];
+
+  constructor(access: ToolAccess = {}) {
+    this.mode = access.mode ?? 'full';
+    // An empty allowlist means "no allowlist", not "no tools"
+    this.allowed = access.allowedTools?.length ? access.allowedTools : undefined;
+    this.disallowed = access.disallowedTools ?? [];
+  }
+
+  /**
+   * Whether a tool may be used. Vault and built-in tools go by their plain
+   * name; external MCP tools as `<server>__<tool>`.
+   */
+  allows(name: string): boolean {
+    if (MODE_BLOCKED_TOOLS[this.mode].includes(name)) return false;
+    if (this.disallowed.some((pattern) => matches(pattern, name))) return false;
+    return !this.allowed || this.allowed.some((pattern) => matches(pattern, name));
+  }
+
+  /** Whether any tool of an external MCP server may be used */
+  allowsServer(server: string): boolean {
+    const wildcard = `${server}__*`;
+    if (this.disallowed.some((pattern) => pattern === wildcard || pattern === server)) return false;
+    return (
+      !this.allowed ||
+      this.allowed.some((pattern) => pattern === server || pattern.startsWith(`${server}__`))
+    );
+  }
+
+  /**
+   * SDK-level tool names to remove: denied built-ins, plus individually
+   * disallowed tools on mounted external servers.
+   */
+  sdkDisallowedTools(externalServers: string[]): string[] {
+    const names = BUILTIN_TOOLS.filter((name) => !this.allows(name));
+    for (const server of externalServers) {
+      const prefix = `${server}__`;
+      for (const pattern of this.disallowed) {
+        if (pattern.startsWith(prefix) && !pattern.endsWith('*')) {
+          names.push(`mcp__${server}__${pattern.slice(prefix.length)}`);
+        }
+      }
+    }
+    return names;
+  }
+
+  /** One-line summary for the system prompt and logs */
+  describe(): string | null {
+    const parts: string[] = [];
+    if (this.mode === 'read-only') {
+      parts.push('This turn is read-only: do not try to create, edit, rename or delete notes.');
+    } else if (this.mode === 'edit') {
+      parts.push('This turn may edit notes but not rename or delete them.');
+    }
+    if (this.allowed) {
+      parts.push(`Only these tools are available: ${this.allowed.join(', ')}.`);
+    }
+    if (this.disallowed.length > 0) {
+      parts.push(`These tools are disabled: ${this.disallowed.join(', ')}.`);
+    }
+    return parts.length > 0 ? parts.join(' ') : null;
+  }
+}
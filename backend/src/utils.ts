@@ -111,6 +111,38 @@ export function truncate(str: string, maxLength: number): string {
   return str.substring(0, maxLength - 3) + '...';
 }
 
+/**
+ * Read `key: value` lines from a note's frontmatter block (no nesting).
+ * Surrounding quotes are stripped from values.
+ */
+export function parseFrontmatter(content: string): { fields: Record<string, string>; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    return { fields: {}, body: content };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return { fields, body: match[2] };
+}
+
+/**
+ * Parse a frontmatter list written inline, either `a, b` or `[a, b]`
+ */
+export function parseFrontmatterList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((item) => item.trim().replace(/^(["'])(.*)\1$/, '$2'))
+    .filter(Boolean);
+}
+
 /**
  * Async queue for streaming input to the agent
  *
@@ -5,10 +5,45 @@
  * pattern with Zod schemas for input validation.
  */
 
-import { tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
+import { tool, createSdkMcpServer, type SdkMcpToolDefinition } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
 import { logger, truncate } from './utils.js';
-import type { VaultBridge, AgentEvent } from './protocol.js';
+import type {
+  VaultBridge,
+  AgentEvent,
+  CookbookSearchResult,
+  CookbookSource,
+  LinkInfo,
+  MemoryEntry,
+  NeighborInfo,
+  NoteProperties,
+  OutlinksResult,
+  SemanticSearchResult,
+} from './protocol.js';
+import type { ApprovalGate } from './approval.js';
+import { ToolFilter } from './tool-access.js';
+import { readAttachment, readEmbeds, type AttachmentContent } from './attachments.js';
+import {
+  SkillScope,
+  renderSkill,
+  skillInputSchema,
+  skillToolDescription,
+  type SkillDefinition,
+} from './skills.js';
+
+/**
+ * Runs a task in a sub-agent restricted to the given tools (all read-only
+ * tools if omitted) and resolves with its final summary
+ */
+/** `toolUseId` is the delegate_task call's, which the sub-agent's tool events are tagged with */
+export type SubAgentDelegate = (task: string, tools?: string[], toolUseId?: string) => Promise<string>;
+
+/** The SDK passes the id of the tool call to in-process MCP tools in `_meta` */
+function getToolUseId(extra: unknown): string | undefined {
+  const meta = (extra as { _meta?: Record<string, unknown> } | undefined)?._meta;
+  const toolUseId = meta?.['claudecode/toolUseId'];
+  return typeof toolUseId === 'string' ? toolUseId : undefined;
+}
 
 /**
  * Tool execution result (kept for mock-agent.ts compatibility)
@@ -18,17 +53,119 @@ export interface ToolResult {
   isError?: boolean;
 }
 
+/** Text parts of attachment content; images are described by their caption */
+function attachmentText(content: AttachmentContent[]): string {
+  return content.flatMap((c) => (c.type === 'text' ? [c.text] : [])).join('\n');
+}
+
+/**
+ * Render typed note properties for the model
+ */
+function formatProperties(path: string, props: NoteProperties): string {
+  const lines = [`Properties of ${path}:`];
+  lines.push(`tags: ${props.tags.length > 0 ? props.tags.join(', ') : '(none)'}`);
+  lines.push(`aliases: ${props.aliases.length > 0 ? props.aliases.join(', ') : '(none)'}`);
+  for (const [key, value] of Object.entries(props.dates)) {
+    lines.push(`${key} (date): ${value}`);
+  }
+  for (const [key, value] of Object.entries(props.properties)) {
+    lines.push(`${key}: ${JSON.stringify(value)}`);
+  }
+  return lines.join('\n');
+}
+
+function formatSemanticResults(results: SemanticSearchResult[]): string {
+  if (results.length === 0) return 'No matching passages found.';
+  const formatted = results
+    .map((r) => {
+      const where = r.startLine !== undefined ? `lines ${r.startLine}-${r.endLine}, ` : '';
+      const how = r.similarity !== undefined ? `similarity ${r.similarity}` : 'keyword match';
+      return `- ${r.path} (${where}${how})\n  ${truncate(r.content.replace(/\s+/g, ' '), 300)}`;
+    })
+    .join('\n');
+  return `Found ${results.length} passage(s):\n${formatted}`;
+}
+
+function formatLinkList(links: LinkInfo[]): string {
+  return links.map((l) => `- ${l.path} (${l.count} link${l.count === 1 ? '' : 's'})`).join('\n');
+}
+
+function formatBacklinks(path: string, links: LinkInfo[]): string {
+  if (links.length === 0) return `No notes link to ${path}.`;
+  return `${links.length} note(s) link to ${path}:\n${formatLinkList(links)}`;
+}
+
+function formatOutlinks(path: string, result: OutlinksResult): string {
+  const parts: string[] = [];
+  parts.push(
+    result.links.length === 0
+      ? `${path} links to no existing notes.`
+      : `${path} links to ${result.links.length} note(s):\n${formatLinkList(result.links)}`,
+  );
+  if (result.unresolved.length > 0) {
+    parts.push(`Unresolved links (notes that don't exist yet):\n${formatLinkList(result.unresolved)}`);
+  }
+  return parts.join('\n\n');
+}
+
+function formatNeighbors(path: string, neighbors: NeighborInfo[]): string {
+  if (neighbors.length === 0) return `${path} has no linked notes.`;
+  const formatted = neighbors
+    .map((n) => {
+      const detail = n.direction
+        ? { out: 'linked from this note', in: 'links to this note', both: 'linked both ways' }[n.direction]
+        : `via ${n.via}`;
+      return `- ${n.path} [depth ${n.depth}, ${detail}]`;
+    })
+    .join('\n');
+  return `${neighbors.length} note(s) near ${path}:\n${formatted}`;
+}
+
+/** Passages with the page wikilinks the system prompt tells the agent to cite */
+function formatCookbookResults(results: CookbookSearchResult[]): string {
+  if (results.length === 0) return 'No matching cookbook passages found.';
+  const formatted = results
+    .map((r) => `[[${r.path}#page=${r.page}]] ${r.source}, p. ${r.page} (similarity ${r.similarity})\n${r.content.trim()}`)
+    .join('\n\n');
+  return `Found ${results.length} passage(s):\n\n${formatted}`;
+}
+
+function formatCookbookSources(sources: CookbookSource[]): string {
+  if (sources.length === 0) return 'The cookbook folder has no PDFs.';
+  return `${sources.length} cookbook(s):\n${sources.map((s) => `- ${s.source} (${s.path})`).join('\n')}`;
+}
+
+/** Split a comma-separated sources filter, e.g. "ChefSteps, Modernist Cuisine" */
+function parseSources(sources: unknown): string[] {
+  if (typeof sources !== 'string') return [];
+  return sources.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function formatMemories(entries: MemoryEntry[]): string {
+  if (entries.length === 0) return 'No matching memories.';
+  const formatted = entries
+    .map((e) => {
+      const tags = e.tags.length > 0 ? `, tags: ${e.tags.join(', ')}` : '';
+      return `- ${e.content} (id: ${e.id}${tags})`;
+    })
+    .join('\n');
+  return `Found ${entries.length} memory entr${entries.length === 1 ? 'y' : 'ies'}:\n${formatted}`;
+}
+
 /**
  * Execute a vault tool by name (used by mock-agent.ts)
  */
 export async function executeVaultTool(
   toolName: string,
   input: Record<string, unknown>,
-  bridge: VaultBridge
+  bridge: VaultBridge,
+  approvals?: ApprovalGate
 ): Promise<ToolResult> {
   logger.debug(`Executing tool: ${toolName}`, input);
 
   try {
+    await approvals?.check(toolName, input);
+
     switch (toolName) {
       case 'vault_read': {
         const path = input.path as string;
@@ -36,6 +173,11 @@ export async function executeVaultTool(
         return { content };
       }
 
+      case 'vault_read_binary': {
+        const path = input.path as string;
+        return { content: attachmentText(await readAttachment(bridge, path)) };
+      }
+
       case 'vault_write': {
         const path = input.path as string;
         const content = input.content as string;
@@ -62,6 +204,15 @@ export async function executeVaultTool(
         return { content: `Found ${results.length} result(s):\n${formatted}` };
       }
 
+      case 'vault_semantic_search': {
+        const results = await bridge.semanticSearch(input.query as string, {
+          limit: (input.limit as number) || 10,
+          mode: input.mode === 'hybrid' ? 'hybrid' : 'semantic',
+          folder: (input.folder as string) || '',
+        });
+        return { content: formatSemanticResults(results) };
+      }
+
       case 'vault_grep': {
         const pattern = input.pattern as string;
         const folder = (input.folder as string) || '';
@@ -108,6 +259,63 @@ export async function executeVaultTool(
         return { content: `Deleted ${path}` };
       }
 
+      case 'vault_get_properties': {
+        const path = input.path as string;
+        const props = await bridge.getProperties(path);
+        return { content: formatProperties(path, props) };
+      }
+
+      case 'vault_set_properties': {
+        const { path, ...update } = input as { path: string } & Record<string, unknown>;
+        const props = await bridge.setProperties(path, update);
+        return { content: `Updated properties.\n${formatProperties(path, props)}` };
+      }
+
+      case 'vault_backlinks': {
+        const path = input.path as string;
+        return { content: formatBacklinks(path, await bridge.backlinks(path)) };
+      }
+
+      case 'vault_outlinks': {
+        const path = input.path as string;
+        return { content: formatOutlinks(path, await bridge.outlinks(path)) };
+      }
+
+      case 'vault_neighbors': {
+        const path = input.path as string;
+        const depth = (input.depth as number) || 1;
+        const limit = (input.limit as number) || 100;
+        return { content: formatNeighbors(path, await bridge.neighbors(path, depth, limit)) };
+      }
+
+      case 'search_cookbooks': {
+        const results = await bridge.searchCookbooks(input.query as string, {
+          sources: parseSources(input.sources),
+          limit: (input.limit as number) || 10,
+        });
+        return { content: formatCookbookResults(results) };
+      }
+
+      case 'list_cookbook_sources':
+        return { content: formatCookbookSources(await bridge.listCookbookSources()) };
+
+      case 'memory_add': {
+        const entry = await bridge.memoryAdd(input.content as string, (input.tags as string[]) || []);
+        return { content: `Saved memory ${entry.id}` };
+      }
+
+      case 'memory_search': {
+        const query = input.query as string;
+        const limit = (input.limit as number) || 10;
+        return { content: formatMemories(await bridge.memorySearch(query, limit)) };
+      }
+
+      case 'memory_forget': {
+        const id = input.id as string;
+        await bridge.memoryForget(id);
+        return { content: `Forgot memory ${id}` };
+      }
+
       default:
         return { content: `Unknown tool: ${toolName}`, isError: true };
     }
@@ -121,23 +329,121 @@ export async function executeVaultTool(
 /**
  * Create an SDK MCP server with all vault tools bound to a VaultBridge.
  * Tool handlers push tool_end events to the shared queue for the agent generator.
+ * Destructive tools wait on the approval gate (if any) before touching the vault.
+ * Each skill becomes a tool too; while one is being followed, vault tools
+ * outside its allowed-tools return an error.
  */
-export function createVaultMcpServer(bridge: VaultBridge, eventQueue: AgentEvent[], heartbeat?: () => void) {
+export function createVaultMcpServer(
+  bridge: VaultBridge,
+  eventQueue: AgentEvent[],
+  heartbeat?: () => void,
+  approvals?: ApprovalGate,
+  toolFilter: ToolFilter = new ToolFilter(),
+  skills: SkillDefinition[] = [],
+  delegate?: SubAgentDelegate,
+) {
+  /** Returns an error tool result if the user denies the call, null if it may proceed */
+  async function checkApproval(name: string, args: Record<string, unknown>) {
+    if (!approvals) return null;
+    try {
+      await approvals.check(name, args);
+      return null;
+    } catch (err) {
+      const result = `Error: ${err instanceof Error ? err.message : 'Approval failed'}`;
+      eventQueue.push({ type: 'tool_end', name, result });
+      return { content: [{ type: 'text' as const, text: result }], isError: true };
+    } finally {
+      heartbeat?.();
+    }
+  }
+
+  const skillScope = new SkillScope();
+  const skillToolNames = new Set(skills.map((skill) => skill.toolName));
+
+  /** Wrap a vault tool so it refuses to run outside the active skill's allowed-tools */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function scoped(t: SdkMcpToolDefinition<any>): SdkMcpToolDefinition<any> {
+    if (skillToolNames.has(t.name)) return t;
+    return {
+      ...t,
+      handler: async (args, extra) => {
+        const denied = skillScope.check(t.name);
+        if (!denied) return t.handler(args, extra);
+        const result = `Error: ${denied}`;
+        eventQueue.push({ type: 'tool_end', name: t.name, result });
+        return { content: [{ type: 'text' as const, text: result }], isError: true };
+      },
+    };
+  }
+
+  const skillTools = skills.map((skill) =>
+    tool(
+      skill.toolName,
+      skillToolDescription(skill),
+      skillInputSchema(skill),
+      async (args) => {
+        heartbeat?.();
+        skillScope.enter(skill);
+        const result = await renderSkill(skill, args, bridge);
+        eventQueue.push({ type: 'tool_end', name: skill.toolName, result });
+        return { content: [{ type: 'text' as const, text: result }] };
+      }
+    )
+  );
+
+  const delegateTools = delegate
+    ? [
+        tool(
+          'delegate_task',
+          'Hand a self-contained research task to a sub-agent with its own context, e.g. "Summarize the decisions in every meeting note from Q3". The sub-agent can only read the vault, and only its final summary comes back — use this when a task needs many notes read but you only need the conclusions. Say exactly what the summary should contain (including note paths to cite). Independent tasks can be delegated in parallel.',
+          {
+            task: z.string().describe('Complete instructions for the sub-agent; it does not see this conversation'),
+            tools: z
+              .array(z.string())
+              .optional()
+              .describe('Restrict the sub-agent to these read-only tools, e.g. ["vault_glob", "vault_read"] (default: all read-only tools)'),
+          },
+          async (args, extra) => {
+            heartbeat?.();
+            const result = await delegate(args.task, args.tools, getToolUseId(extra));
+            eventQueue.push({ type: 'tool_end', name: 'delegate_task', result });
+            return { content: [{ type: 'text' as const, text: result }] };
+          }
+        ),
+      ]
+    : [];
+
   return createSdkMcpServer({
     name: 'vault-tools',
     version: '1.0.0',
+    // Tools outside this turn's mode or allowlist are dropped, so the model never sees them
     tools: [
       tool(
         'vault_read',
-        'Read the content of a note from the vault. Returns the full markdown content including frontmatter. Use this before editing any existing note.',
+        'Read the content of a note from the vault. Returns the full markdown content including frontmatter, followed by the images and PDFs the note embeds with ![[...]]. Use this before editing any existing note.',
         {
           path: z.string().describe('Path relative to vault root, e.g. "folder/note.md" or "note.md"'),
         },
         async (args) => {
           heartbeat?.();
-          const content = await bridge.read(args.path);
-          eventQueue.push({ type: 'tool_end', name: 'vault_read', result: content });
-          return { content: [{ type: 'text' as const, text: content }] };
+          const note = await bridge.readNote(args.path);
+          const attachments = note.embeds?.length ? await readEmbeds(bridge, note.embeds) : [];
+          eventQueue.push({ type: 'tool_end', name: 'vault_read', result: note.content });
+          return { content: [{ type: 'text' as const, text: note.content }, ...attachments] };
+        }
+      ),
+
+      tool(
+        'vault_read_binary',
+        'Look at an image (png, jpg, gif, webp) or read the text of a PDF in the vault, e.g. a scanned receipt or a paper in an attachments folder. Images up to 5 MB, PDFs up to 20 MB. Embeds in notes are attached by vault_read automatically.',
+        {
+          path: z.string().describe('Path relative to vault root, e.g. "Attachments/diagram.png"'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const content = await readAttachment(bridge, args.path);
+          eventQueue.push({ type: 'tool_end', name: 'vault_read_binary', result: attachmentText(content) });
+          return { content };
         }
       ),
 
@@ -150,6 +456,8 @@ export function createVaultMcpServer(bridge: VaultBridge, eventQueue: AgentEvent
         },
         async (args) => {
           heartbeat?.();
+          const denied = await checkApproval('vault_write', args);
+          if (denied) return denied;
           await bridge.write(args.path, args.content);
           const result = `Successfully wrote ${args.content.length} characters to ${args.path}`;
           eventQueue.push({ type: 'tool_end', name: 'vault_write', result });
@@ -176,9 +484,9 @@ export function createVaultMcpServer(bridge: VaultBridge, eventQueue: AgentEvent
 
       tool(
         'vault_search',
-        'Search for notes by content or filename. Returns matching file paths with content snippets. Useful for finding relevant notes before reading them.',
+        'Ranked full-text search over note contents and filenames (best matches first). Supports "quoted phrases", path:folder/ and tag:name filters, e.g. `braise "short ribs" path:recipes/ tag:dinner`. Returns matching file paths with content snippets. Useful for finding relevant notes before reading them.',
         {
-          query: z.string().describe('Search query - matches against filenames and content'),
+          query: z.string().describe('Search terms, optionally with "exact phrases", path: and tag: filters'),
           limit: z.number().optional().describe('Maximum results to return (default: 20)'),
         },
         async (args) => {
@@ -199,6 +507,31 @@ export function createVaultMcpServer(bridge: VaultBridge, eventQueue: AgentEvent
         }
       ),
 
+      tool(
+        'vault_semantic_search',
+        'Search notes by meaning using the local embedding index. Finds relevant passages even when they use different words than the query. Returns passages with file paths and line ranges. Use mode "hybrid" to also rank by keyword matches.',
+        {
+          query: z.string().describe('Natural-language description of what you are looking for'),
+          limit: z.number().optional().describe('Maximum passages to return (default: 10)'),
+          mode: z
+            .enum(['semantic', 'hybrid'])
+            .optional()
+            .describe('"semantic" (default) or "hybrid" to fuse with keyword search'),
+          folder: z.string().optional().describe('Only search within this folder'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const results = await bridge.semanticSearch(args.query, {
+            limit: args.limit ?? 10,
+            mode: args.mode ?? 'semantic',
+            folder: args.folder || '',
+          });
+          const result = formatSemanticResults(results);
+          eventQueue.push({ type: 'tool_end', name: 'vault_semantic_search', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
       tool(
         'vault_grep',
         'Search file contents using a regex pattern. More powerful than vault_search for pattern matching. Returns matching lines with context.',
@@ -282,6 +615,8 @@ export function createVaultMcpServer(bridge: VaultBridge, eventQueue: AgentEvent
         },
         async (args) => {
           heartbeat?.();
+          const denied = await checkApproval('vault_rename', args);
+          if (denied) return denied;
           await bridge.rename(args.old_path, args.new_path);
           const result = `Renamed ${args.old_path} → ${args.new_path}`;
           eventQueue.push({ type: 'tool_end', name: 'vault_rename', result });
@@ -297,12 +632,187 @@ export function createVaultMcpServer(bridge: VaultBridge, eventQueue: AgentEvent
         },
         async (args) => {
           heartbeat?.();
+          const denied = await checkApproval('vault_delete', args);
+          if (denied) return denied;
           await bridge.delete(args.path);
           const result = `Deleted ${args.path}`;
           eventQueue.push({ type: 'tool_end', name: 'vault_delete', result });
           return { content: [{ type: 'text' as const, text: result }] };
         }
       ),
-    ],
+
+      tool(
+        'vault_get_properties',
+        'Read the frontmatter properties of a note. Returns tags, aliases, date properties and all other properties as typed fields.',
+        {
+          path: z.string().describe('Path of the note'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const props = await bridge.getProperties(args.path);
+          const result = formatProperties(args.path, props);
+          eventQueue.push({ type: 'tool_end', name: 'vault_get_properties', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'vault_set_properties',
+        'Update the frontmatter properties of a note without touching its body. Prefer this over vault_edit for anything in the YAML frontmatter. Only the fields you pass are changed.',
+        {
+          path: z.string().describe('Path of the note'),
+          tags: z.array(z.string()).optional().describe('Full tag list (replaces existing tags), without the leading #'),
+          aliases: z.array(z.string()).optional().describe('Full alias list (replaces existing aliases)'),
+          dates: z
+            .record(z.string(), z.string())
+            .optional()
+            .describe('Date properties to set, as YYYY-MM-DD or ISO 8601 timestamps, e.g. {"due": "2025-01-31"}'),
+          properties: z
+            .record(z.string(), z.unknown())
+            .optional()
+            .describe('Other properties to set (strings, numbers, booleans or lists)'),
+          remove: z.array(z.string()).optional().describe('Property names to delete'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const { path, ...update } = args;
+          const props = await bridge.setProperties(path, update);
+          const result = `Updated properties.\n${formatProperties(path, props)}`;
+          eventQueue.push({ type: 'tool_end', name: 'vault_set_properties', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'vault_backlinks',
+        'List the notes that link to a note. Use this to answer "what references X" instead of grepping for [[X]].',
+        {
+          path: z.string().describe('Path of the note'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const result = formatBacklinks(args.path, await bridge.backlinks(args.path));
+          eventQueue.push({ type: 'tool_end', name: 'vault_backlinks', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'vault_outlinks',
+        'List the notes a note links to, including links to notes that do not exist yet.',
+        {
+          path: z.string().describe('Path of the note'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const result = formatOutlinks(args.path, await bridge.outlinks(args.path));
+          eventQueue.push({ type: 'tool_end', name: 'vault_outlinks', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'vault_neighbors',
+        'Explore the link graph around a note: every note within `depth` links of it, following links in both directions. Good for gathering context on a topic or project.',
+        {
+          path: z.string().describe('Path of the note'),
+          depth: z.number().optional().describe('How many links away to look, 1-3 (default: 1)'),
+          limit: z.number().optional().describe('Maximum notes to return (default: 100)'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const neighbors = await bridge.neighbors(args.path, args.depth ?? 1, args.limit ?? 100);
+          const result = formatNeighbors(args.path, neighbors);
+          eventQueue.push({ type: 'tool_end', name: 'vault_neighbors', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'memory_add',
+        'Save one fact to long-term memory so it is available in future conversations: a user preference, a decision, a recurring name or convention. Keep each entry to a single self-contained fact; call this once per fact.',
+        {
+          content: z.string().describe('The fact to remember, written so it makes sense on its own'),
+          tags: z.array(z.string()).optional().describe('Short topic tags, e.g. ["preferences", "cooking"]'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const entry = await bridge.memoryAdd(args.content, args.tags ?? []);
+          const result = `Saved memory ${entry.id}`;
+          eventQueue.push({ type: 'tool_end', name: 'memory_add', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'memory_search',
+        'Search long-term memory. Supports the same syntax as vault_search: words, "exact phrases" and tag:topic. Use this when the memories included with the prompt do not cover what you need.',
+        {
+          query: z.string().describe('Search query'),
+          limit: z.number().optional().describe('Maximum entries to return (default: 10)'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const result = formatMemories(await bridge.memorySearch(args.query, args.limit ?? 10));
+          eventQueue.push({ type: 'tool_end', name: 'memory_search', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'memory_forget',
+        'Delete a memory entry that is wrong or no longer true. To correct a fact, forget the old entry and add the new one.',
+        {
+          id: z.string().describe('Id of the entry, as shown in memory listings'),
+        },
+        async (args) => {
+          heartbeat?.();
+          await bridge.memoryForget(args.id);
+          const result = `Forgot memory ${args.id}`;
+          eventQueue.push({ type: 'tool_end', name: 'memory_forget', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'search_cookbooks',
+        'Semantic search over the user\'s cookbook PDFs (the external resource folder set in the plugin). Returns passages with their book and page; each starts with a [[path#page=N]] wikilink to cite. PDFs added or changed since the last search are indexed in the background and found by later searches.',
+        {
+          query: z.string().describe('What to look for, e.g. "how long to braise short ribs"'),
+          sources: z
+            .string()
+            .optional()
+            .describe('Comma-separated book names to search, e.g. "The Professional Chef, Modernist Cuisine" (default: all books)'),
+          limit: z.number().optional().describe('Maximum passages to return (default: 10)'),
+        },
+        async (args) => {
+          heartbeat?.();
+          const results = await bridge.searchCookbooks(args.query, {
+            sources: parseSources(args.sources),
+            limit: args.limit ?? 10,
+          });
+          const result = formatCookbookResults(results);
+          eventQueue.push({ type: 'tool_end', name: 'search_cookbooks', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      tool(
+        'list_cookbook_sources',
+        'List the cookbook PDFs that search_cookbooks can search, by the names its sources filter accepts.',
+        {},
+        async () => {
+          heartbeat?.();
+          const result = formatCookbookSources(await bridge.listCookbookSources());
+          eventQueue.push({ type: 'tool_end', name: 'list_cookbook_sources', result });
+          return { content: [{ type: 'text' as const, text: result }] };
+        }
+      ),
+
+      ...delegateTools,
+      ...skillTools,
+    ]
+      .filter((t) => toolFilter.allows(t.name))
+      .map(scoped),
   });
 }
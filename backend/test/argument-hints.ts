@@ -0,0 +1,45 @@
+/**
+ * Argument Hint Cases
+ *
+ * Runs the backend's argument-hint parser over argument-hint-cases.json. The
+ * plugin's parser (src/utils/chat/slash-command-arguments.ts) is tested
+ * against the same file, so a hint renders in the chat input only if the
+ * backend accepts the skill too:
+ *
+ *   npm run test:argument-hints
+ */
+
+import { readFileSync } from 'fs';
+import { parseArgumentHint, type SkillArgument } from '../src/skills.js';
+
+type HintCase = { hint: string; arguments: SkillArgument[] } | { hint: string; error: string };
+
+const cases = JSON.parse(
+  readFileSync(new URL('./argument-hint-cases.json', import.meta.url), 'utf8'),
+) as HintCase[];
+
+function check(c: HintCase): string | null {
+  let parsed: SkillArgument[];
+  try {
+    parsed = parseArgumentHint(c.hint);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if ('error' in c && message.includes(c.error)) return null;
+    return `threw "${message}"`;
+  }
+  if ('error' in c) return `expected an error containing "${c.error}"`;
+  return JSON.stringify(parsed) === JSON.stringify(c.arguments) ? null : `got ${JSON.stringify(parsed)}`;
+}
+
+let failed = 0;
+for (const c of cases) {
+  const failure = check(c);
+  if (failure) {
+    failed++;
+    console.log(`\x1b[31m✗\x1b[0m "${c.hint}": ${failure}`);
+  } else {
+    console.log(`\x1b[32m✓\x1b[0m "${c.hint}"`);
+  }
+}
+console.log(`\nPassed: ${cases.length - failed}  Failed: ${failed}`);
+process.exit(failed > 0 ? 1 : 0);
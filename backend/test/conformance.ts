@@ -0,0 +1,297 @@
+/**
+ * Protocol Conformance Suite
+ *
+ * Scripts the plugin's side of the protocol against any backend running its
+ * deterministic mock agent (MOCK_MODE=true), so the TypeScript and Python
+ * servers are held to the same behaviour:
+ *
+ *   MOCK_MODE=true npm run dev                        # or: MOCK_MODE=true python -m src.main
+ *   npm run test:conformance -- ws://localhost:3001
+ *
+ * The URL defaults to SERVER_URL, the token to AUTH_TOKEN. Scenarios that
+ * need a feature the server doesn't announce in `welcome` are skipped, not
+ * failed. Every prompt uses one fresh clientId, so session_list only sees
+ * sessions from this run.
+ */
+
+import { randomUUID } from 'crypto';
+import { TestClient } from './test-client.js';
+import type { ProtocolFeature } from '../src/protocol.js';
+
+const SERVER_URL = process.argv[2] || process.env.SERVER_URL || 'ws://localhost:3001';
+const AUTH_TOKEN = process.env.AUTH_TOKEN || 'dev-token';
+
+/** Scopes session_list to this run */
+const CLIENT_ID = `conformance-${randomUUID()}`;
+
+/** Gets the mock agents' long default reply, which streams for a few seconds */
+const SLOW_PROMPT = 'Hello, how are you?';
+
+/** A cancelled or interrupted turn must stop within this long */
+const STOP_TIMEOUT_MS = 2000;
+
+interface Scenario {
+  name: string;
+  /** Skipped unless the server announces this feature */
+  feature?: ProtocolFeature;
+  run: () => Promise<void>;
+}
+
+interface ScenarioResult {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  detail?: string;
+  duration: number;
+}
+
+/** Features from the handshake scenario; everything else is gated on them */
+let features: string[] = [];
+
+/** Sessions created by earlier scenarios, expected in session_list */
+const createdSessions = new Set<string>();
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Connect and complete the handshake; the handshake scenario checks the welcome itself */
+async function connect(): Promise<TestClient> {
+  const client = await TestClient.connect(SERVER_URL, AUTH_TOKEN);
+  await client.hello();
+  return client;
+}
+
+/** Run a scenario against a fresh connection that is always closed afterwards */
+async function withClient(run: (client: TestClient) => Promise<void>): Promise<void> {
+  const client = await connect();
+  try {
+    await run(client);
+  } finally {
+    await client.close();
+  }
+}
+
+/** Wait for session_created and record the session for the session_list scenario */
+async function sessionFor(client: TestClient, requestId: string): Promise<string> {
+  const { sessionId } = await client.waitFor('session_created', (m) => m.requestId === requestId);
+  createdSessions.add(sessionId);
+  return sessionId;
+}
+
+/** Send a tool prompt and check the RPC, tool events and completion it causes */
+async function expectRoundTrip(
+  client: TestClient,
+  prompt: string,
+  rpc: { method: string; params: Record<string, unknown> },
+  resultIncludes: string,
+): Promise<void> {
+  const requestId = client.prompt(prompt, { clientId: CLIENT_ID });
+  await sessionFor(client, requestId);
+
+  const request = await client.waitFor('rpc_request', (m) => m.method === rpc.method);
+  for (const [key, value] of Object.entries(rpc.params)) {
+    assert(request.params[key] === value, `${rpc.method} ${key} was ${JSON.stringify(request.params[key])}, expected ${JSON.stringify(value)}`);
+  }
+
+  await client.waitFor('tool_start', (m) => m.requestId === requestId && m.toolName === rpc.method);
+  const toolEnd = await client.waitFor('tool_end', (m) => m.requestId === requestId && m.toolName === rpc.method);
+  assert(
+    toolEnd.result.toLowerCase().includes(resultIncludes.toLowerCase()),
+    `${rpc.method} result doesn't mention "${resultIncludes}": ${toolEnd.result.slice(0, 200)}`,
+  );
+  await client.waitFor('complete', (m) => m.requestId === requestId);
+}
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+const scenarios: Scenario[] = [
+  {
+    name: 'hello is answered with welcome',
+    run: async () => {
+      const client = await TestClient.connect(SERVER_URL, AUTH_TOKEN);
+      try {
+        const welcome = await client.hello();
+        assert(welcome, 'No welcome within 5s');
+        assert(Number.isInteger(welcome.protocolVersion) && welcome.protocolVersion >= 2, `Bad protocolVersion ${welcome.protocolVersion}`);
+        assert(welcome.minProtocolVersion <= welcome.protocolVersion, 'minProtocolVersion is newer than protocolVersion');
+        assert(Array.isArray(welcome.features), 'features is not a list');
+        assert(typeof welcome.server === 'string' && welcome.server, 'server is missing');
+        features = welcome.features;
+      } finally {
+        await client.close();
+      }
+    },
+  },
+  {
+    name: 'prompt streams text and completes',
+    run: () => withClient(async (client) => {
+      const requestId = client.prompt('Hello', { clientId: CLIENT_ID });
+      await sessionFor(client, requestId);
+      await client.waitFor('text_delta', (m) => m.requestId === requestId);
+      await client.waitFor('complete', (m) => m.requestId === requestId);
+      assert(client.textFor(requestId).includes('mock'), 'Reply is not from the mock agent — is MOCK_MODE=true?');
+    }),
+  },
+  {
+    name: 'vault_read round-trips through the client',
+    run: () => withClient((client) =>
+      expectRoundTrip(client, 'read welcome.md', { method: 'vault_read', params: { path: 'welcome.md' } }, 'Welcome to My Vault'),
+    ),
+  },
+  {
+    name: 'vault_list round-trips through the client',
+    run: () => withClient((client) =>
+      expectRoundTrip(client, 'list files', { method: 'vault_list', params: { folder: '' } }, 'welcome.md'),
+    ),
+  },
+  {
+    name: 'RPC errors reach the agent as tool results',
+    run: () => withClient((client) =>
+      expectRoundTrip(client, 'read missing.md', { method: 'vault_read', params: { path: 'missing.md' } }, 'not found'),
+    ),
+  },
+  {
+    name: 'cancel stops the turn',
+    run: () => withClient(async (client) => {
+      const requestId = client.prompt(SLOW_PROMPT, { clientId: CLIENT_ID });
+      await sessionFor(client, requestId);
+      await client.waitFor('text_delta', (m) => m.requestId === requestId);
+
+      client.send({ type: 'cancel', id: requestId });
+      await client.waitFor('complete', (m) => m.requestId === requestId, STOP_TIMEOUT_MS);
+
+      const textAtComplete = client.textFor(requestId);
+      await sleep(500);
+      assert(client.textFor(requestId) === textAtComplete, 'Text kept streaming after complete');
+    }),
+  },
+  {
+    name: 'interrupt stops the turn and starts the new prompt',
+    feature: 'interrupt',
+    run: () => withClient(async (client) => {
+      const requestId = client.prompt(SLOW_PROMPT, { clientId: CLIENT_ID });
+      const sessionId = await sessionFor(client, requestId);
+      await client.waitFor('text_delta', (m) => m.requestId === requestId);
+
+      client.send({ type: 'interrupt', id: requestId, prompt: 'list files' });
+      await client.waitFor('complete', (m) => m.requestId === requestId, STOP_TIMEOUT_MS);
+
+      // The follow-up runs under a request id the server picks
+      const next = await client.waitFor('session_created', (m) => m.requestId !== requestId);
+      assert(next.sessionId !== sessionId, 'The interrupting prompt reused the interrupted session');
+      createdSessions.add(next.sessionId);
+      await client.waitFor('tool_start', (m) => m.requestId === next.requestId && m.toolName === 'vault_list');
+      await client.waitFor('complete', (m) => m.requestId === next.requestId);
+    }),
+  },
+  {
+    name: 'aside reaches the running turn',
+    feature: 'aside',
+    run: () => withClient(async (client) => {
+      const requestId = client.prompt(SLOW_PROMPT, { clientId: CLIENT_ID });
+      await sessionFor(client, requestId);
+      await client.waitFor('text_delta', (m) => m.requestId === requestId);
+
+      const aside = `aside ${randomUUID().slice(0, 8)}`;
+      client.send({ type: 'aside', id: requestId, message: aside });
+      await client.waitFor('complete', (m) => m.requestId === requestId);
+      assert(client.textFor(requestId).includes(aside), 'The mock agent never saw the aside');
+    }),
+  },
+  {
+    name: 'session_resume after disconnect replays and continues',
+    feature: 'session_replay',
+    run: async () => {
+      const first = await connect();
+      const requestId = first.prompt(SLOW_PROMPT, { clientId: CLIENT_ID });
+      const sessionId = await sessionFor(first, requestId);
+      await first.waitFor('text_delta', (m) => m.requestId === requestId);
+      await first.close();
+
+      await withClient(async (client) => {
+        client.send({ type: 'session_resume', sessionId, clientId: CLIENT_ID });
+        const replay = await client.waitFor('session_replay', (m) => m.sessionId === sessionId);
+        assert(replay.events.some((e) => e.type === 'text_delta'), 'Replay is missing the text streamed before the disconnect');
+
+        if (!replay.isComplete) {
+          // Live events for a resumed session carry the session id as requestId
+          await client.waitFor('complete', (m) => m.requestId === sessionId);
+        } else {
+          assert(replay.events.some((e) => e.type === 'complete'), 'Replay of a finished session has no complete event');
+        }
+      });
+    },
+  },
+  {
+    name: 'session_resume of an unknown session fails',
+    feature: 'session_replay',
+    run: () => withClient(async (client) => {
+      client.send({ type: 'session_resume', sessionId: randomUUID(), clientId: CLIENT_ID });
+      const error = await client.waitFor('error');
+      assert(error.code === 'SESSION_NOT_FOUND', `Expected SESSION_NOT_FOUND, got ${error.code}`);
+    }),
+  },
+  {
+    name: 'session_list reports this run\'s sessions',
+    run: () => withClient(async (client) => {
+      client.send({ type: 'session_list', clientId: CLIENT_ID });
+      // session_list has no terminator; give the server a moment to answer
+      await sleep(500);
+
+      const listed = new Map(
+        client.history.flatMap((m) => (m.type === 'session_info' ? [[m.sessionId, m] as const] : [])),
+      );
+      for (const sessionId of createdSessions) {
+        const info = listed.get(sessionId);
+        assert(info, `Session ${sessionId} is missing from session_list`);
+        assert(['running', 'complete', 'error'].includes(info.status), `Session ${sessionId} has unknown status ${info.status}`);
+      }
+      assert(listed.size === createdSessions.size, `session_list returned ${listed.size} sessions, expected ${createdSessions.size}`);
+    }),
+  },
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+async function main() {
+  console.log(`[CONFORMANCE] ${SERVER_URL} (clientId ${CLIENT_ID})\n`);
+
+  const results: ScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    const startTime = Date.now();
+    if (scenario.feature && !features.includes(scenario.feature)) {
+      results.push({ name: scenario.name, status: 'skipped', detail: `server lacks "${scenario.feature}"`, duration: 0 });
+      console.log(`\x1b[33m-\x1b[0m ${scenario.name} (skipped: server lacks "${scenario.feature}")`);
+      continue;
+    }
+    try {
+      await scenario.run();
+      results.push({ name: scenario.name, status: 'passed', duration: Date.now() - startTime });
+      console.log(`\x1b[32m✓\x1b[0m ${scenario.name}`);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      results.push({ name: scenario.name, status: 'failed', detail, duration: Date.now() - startTime });
+      console.log(`\x1b[31m✗\x1b[0m ${scenario.name}: ${detail}`);
+    }
+  }
+
+  const count = (status: ScenarioResult['status']) => results.filter((r) => r.status === status).length;
+  console.log('\n' + '='.repeat(50));
+  console.log(`Passed: ${count('passed')}  Failed: ${count('failed')}  Skipped: ${count('skipped')}`);
+  console.log(`Total time: ${results.reduce((sum, r) => sum + r.duration, 0)}ms`);
+
+  process.exit(count('failed') > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Conformance run failed with error:', err);
+  process.exit(1);
+});
@@ -3,11 +3,17 @@
  *
  * Simulates the Obsidian plugin to test the backend server.
  * Connects to the server, sends prompts, and responds to RPC requests.
+ *
+ * Run directly for an interactive REPL, or import TestClient to script a
+ * session (see conformance.ts).
  */
 
 import WebSocket from 'ws';
 import { randomUUID } from 'crypto';
 import * as readline from 'readline';
+import { fileURLToPath } from 'url';
+import { PROTOCOL_VERSION } from '../src/protocol.js';
+import type { ClientMessage, ServerMessage, WelcomeMessage } from '../src/protocol.js';
 
 const SERVER_URL = process.env.SERVER_URL || 'ws://localhost:3001';
 const AUTH_TOKEN = process.env.AUTH_TOKEN || 'dev-token';
@@ -199,29 +205,188 @@ function handleRpcRequest(ws: WebSocket, request: RpcRequest) {
   ws.send(JSON.stringify(response));
 }
 
-function runTestClient() {
-  const wsUrl = `${SERVER_URL}?token=${encodeURIComponent(AUTH_TOKEN)}`;
+
+/** Vault RPC methods the mock vault answers, announced in `hello` */
+export const MOCK_RPC_METHODS = ['vault_read', 'vault_write', 'vault_search', 'vault_list', 'vault_delete'];
+
+type ServerMessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+interface Waiter {
+  matches: (msg: ServerMessage) => boolean;
+  resolve: (msg: ServerMessage) => void;
+}
+
+/**
+ * A scripted plugin connection. Answers vault RPCs from the mock vault and
+ * keeps every server message, so a script can wait for the messages it
+ * expects no matter whether they arrived before or after it asked.
+ */
+export class TestClient {
+  /** Every message received, in order */
+  readonly history: ServerMessage[] = [];
+  /** Messages no waitFor has returned yet */
+  private readonly unclaimed: ServerMessage[] = [];
+  private readonly waiters = new Set<Waiter>();
+  private readonly listeners: Array<(msg: ServerMessage) => void> = [];
+
+  private constructor(private readonly ws: WebSocket) {
+    ws.on('message', (data) => {
+      const msg = JSON.parse(data.toString()) as ServerMessage;
+      this.history.push(msg);
+      if (msg.type === 'rpc_request') handleRpcRequest(ws, msg);
+      for (const listener of this.listeners) listener(msg);
+
+      for (const waiter of this.waiters) {
+        if (waiter.matches(msg)) {
+          this.waiters.delete(waiter);
+          waiter.resolve(msg);
+          return;
+        }
+      }
+      this.unclaimed.push(msg);
+    });
+    ws.on('error', (err) => {
+      log('CLIENT', colors.red, `Error: ${err.message}`);
+    });
+  }
+
+  static connect(url = SERVER_URL, token = AUTH_TOKEN): Promise<TestClient> {
+    const ws = new WebSocket(`${url}?token=${encodeURIComponent(token)}`);
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => {
+        ws.off('error', reject);
+        resolve(new TestClient(ws));
+      });
+      ws.once('error', reject);
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  send(message: ClientMessage): void {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /** Introduce ourselves like the plugin does; null if the server doesn't answer (protocol v1) */
+  async hello(timeoutMs = 5000): Promise<WelcomeMessage | null> {
+    this.send({
+      type: 'hello',
+      protocolVersion: PROTOCOL_VERSION,
+      rpcMethods: MOCK_RPC_METHODS,
+      client: 'test-client',
+    });
+    try {
+      return await this.waitFor('welcome', () => true, timeoutMs);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Send a prompt and return its request id */
+  prompt(prompt: string, options: { clientId?: string; conversationId?: string } = {}): string {
+    const id = randomUUID();
+    this.send({ type: 'prompt', id, prompt, ...options });
+    return id;
+  }
+
+  /**
+   * Resolve with the first message of this type that matches and hasn't been
+   * returned by an earlier call, waiting for it if it hasn't arrived yet.
+   */
+  waitFor<T extends ServerMessage['type']>(
+    type: T,
+    matches: (msg: ServerMessageOf<T>) => boolean = () => true,
+    timeoutMs = 10000,
+  ): Promise<ServerMessageOf<T>> {
+    const isMatch = (msg: ServerMessage): boolean => msg.type === type && matches(msg as ServerMessageOf<T>);
+
+    const index = this.unclaimed.findIndex(isMatch);
+    if (index !== -1) {
+      return Promise.resolve(this.unclaimed.splice(index, 1)[0] as ServerMessageOf<T>);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(new Error(`Timed out after ${timeoutMs}ms waiting for ${type}`));
+      }, timeoutMs);
+      const waiter: Waiter = {
+        matches: isMatch,
+        resolve: (msg) => {
+          clearTimeout(timer);
+          resolve(msg as ServerMessageOf<T>);
+        },
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  /** Streamed text received so far for a request */
+  textFor(requestId: string): string {
+    return this.history
+      .map((msg) => (msg.type === 'text_delta' && msg.requestId === requestId ? msg.text : ''))
+      .join('');
+  }
+
+  onMessage(listener: (msg: ServerMessage) => void): void {
+    this.listeners.push(listener);
+  }
+
+  onClose(listener: (code: number, reason: string) => void): void {
+    this.ws.on('close', (code, reason) => listener(code, reason.toString()));
+  }
+
+  close(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.ws.once('close', () => resolve());
+      this.ws.close();
+    });
+  }
+}
+
+async function runTestClient() {
   log('CLIENT', colors.cyan, `Connecting to ${SERVER_URL}...`);
 
-  const ws = new WebSocket(wsUrl);
+  let client: TestClient;
+  try {
+    client = await TestClient.connect();
+  } catch (err) {
+    log('CLIENT', colors.red, `Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
   let currentRequestId: string | null = null;
-  let responseBuffer = '';
 
-  ws.on('open', () => {
-    log('CLIENT', colors.green, 'Connected!');
-    log('CLIENT', colors.dim, 'Type a message and press Enter to send. Type "quit" to exit.');
-    log('CLIENT', colors.dim, 'Try: "list files", "search project", "read welcome.md", "create test.md"');
-    console.log('');
-    startRepl();
+  // Ping interval
+  const pingInterval = setInterval(() => {
+    if (client.isOpen) {
+      client.send({ type: 'ping' });
+    }
+  }, 25000);
+
+  client.onClose((code, reason) => {
+    clearInterval(pingInterval);
+    log('CLIENT', colors.yellow, `Disconnected: ${code} ${reason}`);
+    process.exit(0);
   });
 
-  ws.on('message', (data) => {
-    const msg = JSON.parse(data.toString());
+  const welcome = await client.hello();
+  if (welcome) {
+    log('CLIENT', colors.green, `Connected! ${welcome.server} backend, protocol v${welcome.protocolVersion}`);
+    log('CLIENT', colors.dim, `Features: ${welcome.features.join(', ') || 'none'}`);
+  } else {
+    log('CLIENT', colors.green, 'Connected! (no answer to hello, assuming protocol v1)');
+  }
+  log('CLIENT', colors.dim, 'Type a message and press Enter to send. Type "quit" to exit.');
+  log('CLIENT', colors.dim, 'Try: "list files", "search project", "read welcome.md", "create test.md"');
+  console.log('');
 
+  client.onMessage((msg) => {
     switch (msg.type) {
       case 'text_delta':
         process.stdout.write(`${colors.bright}${msg.text}${colors.reset}`);
-        responseBuffer += msg.text;
         break;
 
       case 'tool_start':
@@ -241,22 +406,17 @@ function runTestClient() {
         console.log('');
         log('DONE', colors.green, `Request completed`);
         currentRequestId = null;
-        responseBuffer = '';
         break;
 
       case 'error':
         console.log('');
         log('ERROR', colors.red, `${msg.code}: ${msg.message}`);
         currentRequestId = null;
-        responseBuffer = '';
         break;
 
       case 'rpc_request':
-        handleRpcRequest(ws, msg);
-        break;
-
       case 'pong':
-        // Ignore pong
+        // Answered by TestClient / ignored
         break;
 
       default:
@@ -264,106 +424,76 @@ function runTestClient() {
     }
   });
 
-  ws.on('close', (code, reason) => {
-    log('CLIENT', colors.yellow, `Disconnected: ${code} ${reason}`);
-    process.exit(0);
-  });
-
-  ws.on('error', (err) => {
-    log('CLIENT', colors.red, `Error: ${err.message}`);
-    process.exit(1);
-  });
-
   // Interactive REPL
-  function startRepl() {
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-      prompt: `${colors.cyan}> ${colors.reset}`,
-    });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: `${colors.cyan}> ${colors.reset}`,
+  });
 
-    rl.prompt();
+  rl.prompt();
 
-    rl.on('line', (line) => {
-      const input = line.trim();
+  rl.on('line', (line) => {
+    const input = line.trim();
 
-      if (!input) {
-        rl.prompt();
-        return;
-      }
+    if (!input) {
+      rl.prompt();
+      return;
+    }
 
-      if (input.toLowerCase() === 'quit' || input.toLowerCase() === 'exit') {
-        log('CLIENT', colors.yellow, 'Goodbye!');
-        ws.close();
-        rl.close();
-        return;
-      }
+    if (input.toLowerCase() === 'quit' || input.toLowerCase() === 'exit') {
+      log('CLIENT', colors.yellow, 'Goodbye!');
+      void client.close();
+      rl.close();
+      return;
+    }
 
-      if (input.toLowerCase() === 'cancel' && currentRequestId) {
-        log('CLIENT', colors.yellow, 'Cancelling request...');
-        ws.send(JSON.stringify({ type: 'cancel', id: currentRequestId }));
-        rl.prompt();
-        return;
-      }
+    if (input.toLowerCase() === 'cancel' && currentRequestId) {
+      log('CLIENT', colors.yellow, 'Cancelling request...');
+      client.send({ type: 'cancel', id: currentRequestId });
+      rl.prompt();
+      return;
+    }
 
-      if (input.toLowerCase() === 'ping') {
-        ws.send(JSON.stringify({ type: 'ping' }));
-        rl.prompt();
-        return;
-      }
+    if (input.toLowerCase() === 'ping') {
+      client.send({ type: 'ping' });
+      rl.prompt();
+      return;
+    }
 
-      if (input.toLowerCase() === 'vault') {
-        log('VAULT', colors.cyan, 'Current mock vault contents:');
-        for (const [path, content] of Object.entries(mockVault)) {
-          console.log(`  ${colors.dim}${path}${colors.reset} (${content.length} chars)`);
-        }
-        rl.prompt();
-        return;
+    if (input.toLowerCase() === 'vault') {
+      log('VAULT', colors.cyan, 'Current mock vault contents:');
+      for (const [path, content] of Object.entries(mockVault)) {
+        console.log(`  ${colors.dim}${path}${colors.reset} (${content.length} chars)`);
       }
+      rl.prompt();
+      return;
+    }
 
-      // Send prompt
-      currentRequestId = randomUUID();
-      const message = {
-        type: 'prompt',
-        id: currentRequestId,
-        prompt: input,
-        context: {
-          currentFile: 'welcome.md', // Simulate having a file open
-        },
-      };
-
-      log('SEND', colors.blue, `Prompt: "${input}"`);
-      console.log('');
-      ws.send(JSON.stringify(message));
-
-      // Don't prompt until response is complete
-      rl.on('close', () => {
-        // Cleanup
-      });
-    });
-
-    // Re-prompt after complete messages
-    const originalPrompt = rl.prompt.bind(rl);
-    ws.on('message', (data) => {
-      const msg = JSON.parse(data.toString());
-      if (msg.type === 'complete' || msg.type === 'error') {
-        console.log('');
-        originalPrompt();
-      }
+    // Send prompt
+    currentRequestId = randomUUID();
+    log('SEND', colors.blue, `Prompt: "${input}"`);
+    console.log('');
+    client.send({
+      type: 'prompt',
+      id: currentRequestId,
+      prompt: input,
+      context: {
+        currentFile: 'welcome.md', // Simulate having a file open
+      },
     });
-  }
+  });
 
-  // Ping interval
-  const pingInterval = setInterval(() => {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'ping' }));
+  // Re-prompt after complete messages
+  client.onMessage((msg) => {
+    if (msg.type === 'complete' || msg.type === 'error') {
+      console.log('');
+      rl.prompt();
     }
-  }, 25000);
-
-  ws.on('close', () => {
-    clearInterval(pingInterval);
   });
 }
 
-// Run the client
-runTestClient();
+// Run the REPL when started directly rather than imported
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+  runTestClient();
+}
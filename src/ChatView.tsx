@@ -14,6 +14,7 @@ import { McpProvider } from './contexts/mcp-context'
 import { PluginProvider } from './contexts/plugin-context'
 import { RAGProvider } from './contexts/rag-context'
 import { SettingsProvider } from './contexts/settings-context'
+import { SkillsProvider } from './contexts/skills-context'
 import SmartComposerPlugin from './main'
 import { MentionableBlockData } from './types/mentionable'
 
@@ -98,10 +99,12 @@ export class ChatView extends ItemView {
                               this.containerEl.children[1] as HTMLElement
                             }
                           >
-                            <Chat
-                              ref={this.chatRef}
-                              {...this.initialChatProps}
-                            />
+                            <SkillsProvider>
+                              <Chat
+                                ref={this.chatRef}
+                                {...this.initialChatProps}
+                              />
+                            </SkillsProvider>
                           </DialogContainerProvider>
                         </React.StrictMode>
                       </QueryClientProvider>
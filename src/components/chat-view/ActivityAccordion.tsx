@@ -5,12 +5,15 @@
  * - Auto-expand during streaming
  * - Live elapsed time counter for running activities
  * - Collapsed summary after completion
+ * - Sub-agents (delegate_task) as nested groups of their own tool calls
  */
 
+import clsx from 'clsx'
 import {
   ChevronDown,
   ChevronRight,
   FileText,
+  FileImage,
   FilePlus,
   FileEdit,
   Search,
@@ -24,6 +27,14 @@ import {
   Wrench,
   BookOpen,
   Library,
+  Link,
+  Network,
+  Sparkles,
+  Tags,
+  BookmarkPlus,
+  BookmarkMinus,
+  Bookmark,
+  Bot,
 } from 'lucide-react'
 import { memo, useEffect, useMemo, useState } from 'react'
 
@@ -43,12 +54,16 @@ export function getActivityIcon(type: ActivityEvent['type']) {
   switch (type) {
     case 'vault_read':
       return FileText
+    case 'vault_read_binary':
+      return FileImage
     case 'vault_write':
       return FilePlus
     case 'vault_edit':
       return FileEdit
     case 'vault_search':
       return Search
+    case 'vault_semantic_search':
+      return Sparkles
     case 'vault_grep':
       return Code
     case 'vault_glob':
@@ -59,12 +74,28 @@ export function getActivityIcon(type: ActivityEvent['type']) {
       return FileSymlink
     case 'vault_delete':
       return Trash2
+    case 'vault_get_properties':
+    case 'vault_set_properties':
+      return Tags
+    case 'vault_backlinks':
+    case 'vault_outlinks':
+      return Link
+    case 'vault_neighbors':
+      return Network
+    case 'memory_add':
+      return BookmarkPlus
+    case 'memory_search':
+      return Bookmark
+    case 'memory_forget':
+      return BookmarkMinus
     case 'web_search':
       return Globe
     case 'search_cookbooks':
       return BookOpen
     case 'list_cookbook_sources':
       return Library
+    case 'delegate_task':
+      return Bot
     case 'thinking':
       return Brain
     case 'tool_call':
@@ -82,12 +113,16 @@ function getActivityLabel(activity: ActivityEvent): string {
   switch (activity.type) {
     case 'vault_read':
       return `Read ${displayName}`
+    case 'vault_read_binary':
+      return `Viewed ${displayName}`
     case 'vault_write':
       return `Created ${displayName}`
     case 'vault_edit':
       return `Edited ${displayName}`
     case 'vault_search':
       return `Searched "${activity.toolInput?.query || ''}"`
+    case 'vault_semantic_search':
+      return `Semantic search "${activity.toolInput?.query || ''}"`
     case 'vault_grep':
       return `Grep /${activity.toolInput?.pattern || ''}/`
     case 'vault_glob':
@@ -98,12 +133,30 @@ function getActivityLabel(activity: ActivityEvent): string {
       return `Moved ${activity.oldPath?.split('/').pop()} → ${activity.newPath?.split('/').pop()}`
     case 'vault_delete':
       return `Deleted ${displayName}`
+    case 'vault_get_properties':
+      return `Read properties of ${displayName}`
+    case 'vault_set_properties':
+      return `Updated properties of ${displayName}`
+    case 'vault_backlinks':
+      return `Backlinks to ${displayName}`
+    case 'vault_outlinks':
+      return `Links from ${displayName}`
+    case 'vault_neighbors':
+      return `Explored links around ${displayName}`
+    case 'memory_add':
+      return 'Saved a memory'
+    case 'memory_search':
+      return `Searched memory "${activity.toolInput?.query || ''}"`
+    case 'memory_forget':
+      return `Forgot ${activity.toolInput?.id || 'a memory'}`
     case 'web_search':
       return `Web search: "${activity.toolInput?.query || ''}"`
     case 'search_cookbooks':
       return `Cookbook search: "${activity.toolInput?.query || ''}"`
     case 'list_cookbook_sources':
       return 'Listed cookbook sources'
+    case 'delegate_task':
+      return `Sub-agent: ${String(activity.toolInput?.task ?? '')}`
     case 'thinking':
       return 'Thinking'
     case 'tool_call':
@@ -121,31 +174,45 @@ function generateSummary(activities: ActivityEvent[]): string {
     searches: 0,
     edits: 0,
     thinking: 0,
+    subAgents: 0,
   }
 
   for (const activity of activities) {
     switch (activity.type) {
       case 'vault_read':
+      case 'vault_read_binary':
       case 'vault_list':
       case 'vault_glob':
+      case 'vault_get_properties':
         counts.files++
         break
       case 'vault_search':
+      case 'vault_semantic_search':
       case 'vault_grep':
       case 'web_search':
       case 'search_cookbooks':
       case 'list_cookbook_sources':
+      case 'vault_backlinks':
+      case 'vault_outlinks':
+      case 'vault_neighbors':
+      case 'memory_search':
         counts.searches++
         break
       case 'vault_write':
       case 'vault_edit':
       case 'vault_rename':
       case 'vault_delete':
+      case 'vault_set_properties':
+      case 'memory_add':
+      case 'memory_forget':
         counts.edits++
         break
       case 'thinking':
         counts.thinking++
         break
+      case 'delegate_task':
+        counts.subAgents++
+        break
     }
   }
 
@@ -154,6 +221,10 @@ function generateSummary(activities: ActivityEvent[]): string {
   if (counts.searches > 0)
     parts.push(`${counts.searches} search${counts.searches > 1 ? 'es' : ''}`)
   if (counts.edits > 0) parts.push(`${counts.edits} edit${counts.edits > 1 ? 's' : ''}`)
+  if (counts.subAgents > 0)
+    parts.push(
+      `${counts.subAgents} sub-agent${counts.subAgents > 1 ? 's' : ''}`,
+    )
 
   if (parts.length === 0) {
     return `${activities.length} operation${activities.length > 1 ? 's' : ''}`
@@ -162,6 +233,76 @@ function generateSummary(activities: ActivityEvent[]): string {
   return parts.join(', ')
 }
 
+/**
+ * A delegate_task call: a collapsible group of the sub-agent's tool calls,
+ * open while it runs
+ */
+const SubAgentGroup = memo(function SubAgentGroup({
+  activity,
+  subActivities,
+  isStreaming,
+}: {
+  activity: ActivityEvent
+  subActivities: ActivityEvent[]
+  isStreaming: boolean
+}) {
+  const isRunning = activity.status === 'running' && isStreaming
+  const [isOpen, setIsOpen] = useState(isRunning)
+
+  useEffect(() => {
+    setIsOpen(isRunning)
+  }, [isRunning])
+
+  return (
+    <div
+      className={clsx(
+        'smtcmp-activity-subagent',
+        isRunning && 'smtcmp-activity-subagent--running',
+        activity.status === 'error' && 'smtcmp-activity-subagent--error',
+      )}
+    >
+      <div
+        className="smtcmp-activity-subagent-header"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="smtcmp-activity-item-icon">
+          {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        </span>
+        <span className="smtcmp-activity-item-type-icon">
+          <Bot size={14} />
+        </span>
+        <span className="smtcmp-activity-item-label">
+          {getActivityLabel(activity)}
+        </span>
+        {subActivities.length > 0 && (
+          <span className="smtcmp-activity-subagent-summary">
+            {generateSummary(subActivities)}
+          </span>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="smtcmp-activity-subagent-content">
+          {subActivities.map((child) => (
+            <ActivityItem
+              key={child.id}
+              activity={child}
+              label={getActivityLabel(child)}
+              icon={getActivityIcon(child.type)}
+              isStreaming={isStreaming}
+            />
+          ))}
+          {activity.toolResult && (
+            <div className="smtcmp-activity-subagent-result">
+              {activity.toolResult}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+})
+
 const ActivityAccordion = memo(function ActivityAccordion({
   activities,
   isStreaming,
@@ -179,14 +320,33 @@ const ActivityAccordion = memo(function ActivityAccordion({
     }
   }, [isStreaming, activities.length])
 
-  const summary = useMemo(() => generateSummary(activities), [activities])
+  // Sub-agent tool calls render inside their delegate_task group
+  const { topLevelActivities, subAgentActivities } = useMemo(() => {
+    const topLevel: ActivityEvent[] = []
+    const byParent = new Map<string, ActivityEvent[]>()
+    for (const activity of activities) {
+      if (activity.parentActivityId) {
+        const siblings = byParent.get(activity.parentActivityId) ?? []
+        siblings.push(activity)
+        byParent.set(activity.parentActivityId, siblings)
+      } else {
+        topLevel.push(activity)
+      }
+    }
+    return { topLevelActivities: topLevel, subAgentActivities: byParent }
+  }, [activities])
+
+  const summary = useMemo(
+    () => generateSummary(topLevelActivities),
+    [topLevelActivities],
+  )
 
   // Group activities: separate modify operations (edits) from exploration
   const { explorationActivities, editActivities } = useMemo(() => {
     const exploration: ActivityEvent[] = []
     const edits: ActivityEvent[] = []
 
-    for (const activity of activities) {
+    for (const activity of topLevelActivities) {
       if (
         activity.type === 'vault_write' ||
         activity.type === 'vault_edit' ||
@@ -200,7 +360,7 @@ const ActivityAccordion = memo(function ActivityAccordion({
     }
 
     return { explorationActivities: exploration, editActivities: edits }
-  }, [activities])
+  }, [topLevelActivities])
 
   if (activities.length === 0) {
     return null
@@ -225,15 +385,24 @@ const ActivityAccordion = memo(function ActivityAccordion({
 
           {isOpen && (
             <div className="smtcmp-activity-accordion-content">
-              {explorationActivities.map((activity) => (
-                <ActivityItem
-                  key={activity.id}
-                  activity={activity}
-                  label={getActivityLabel(activity)}
-                  icon={getActivityIcon(activity.type)}
-                  isStreaming={isStreaming}
-                />
-              ))}
+              {explorationActivities.map((activity) =>
+                activity.type === 'delegate_task' ? (
+                  <SubAgentGroup
+                    key={activity.id}
+                    activity={activity}
+                    subActivities={subAgentActivities.get(activity.id) ?? []}
+                    isStreaming={isStreaming}
+                  />
+                ) : (
+                  <ActivityItem
+                    key={activity.id}
+                    activity={activity}
+                    label={getActivityLabel(activity)}
+                    icon={getActivityIcon(activity.type)}
+                    isStreaming={isStreaming}
+                  />
+                ),
+              )}
             </div>
           )}
         </div>
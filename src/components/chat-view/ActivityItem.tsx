@@ -114,8 +114,11 @@ const ActivityItem = memo(function ActivityItem({
     // For file operations, make the filename clickable
     if (activity.filePath && (
       activity.type === 'vault_read' ||
+      activity.type === 'vault_read_binary' ||
       activity.type === 'vault_write' ||
-      activity.type === 'vault_edit'
+      activity.type === 'vault_edit' ||
+      activity.type === 'vault_get_properties' ||
+      activity.type === 'vault_set_properties'
     )) {
       const fileName = activity.filePath.split('/').pop() || activity.filePath
       // Replace [[filename]] pattern in label with clickable link
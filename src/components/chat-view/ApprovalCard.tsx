@@ -0,0 +1,122 @@
+/**
+ * ApprovalCard - Approve or deny a destructive vault tool call
+ *
+ * Shown in place of the edit diff while the backend waits for the user:
+ * - vault_write: diff of the current file against the proposed content
+ * - vault_delete: the content that would be removed
+ * - vault_rename: old → new path
+ */
+
+import { Check, ShieldAlert, X } from 'lucide-react'
+import { TFile } from 'obsidian'
+import { memo, useEffect, useState } from 'react'
+
+import { useApp } from '../../contexts/app-context'
+import { webSocketClient } from '../../core/backend/instance'
+import type { ActivityEvent } from '../../types/chat'
+
+import DiffContent from './DiffContent'
+
+export interface ApprovalCardProps {
+  activity: ActivityEvent
+  approvalId: string
+}
+
+function getApprovalTitle(activity: ActivityEvent): string {
+  const displayName =
+    activity.filePath?.split('/').pop() || activity.filePath || 'file'
+
+  switch (activity.type) {
+    case 'vault_write':
+      return `Write ${displayName}?`
+    case 'vault_rename':
+      return 'Move file?'
+    case 'vault_delete':
+      return `Delete ${displayName}?`
+    default:
+      return `Run ${activity.toolName || 'tool'}?`
+  }
+}
+
+const ApprovalCard = memo(function ApprovalCard({
+  activity,
+  approvalId,
+}: ApprovalCardProps) {
+  const app = useApp()
+  const [currentContent, setCurrentContent] = useState<string | undefined>()
+  const [isSent, setIsSent] = useState(false)
+
+  // Load the file as it is now, so the user sees what will change
+  useEffect(() => {
+    if (!app || !activity.filePath || activity.type === 'vault_rename') return
+    const file = app.vault.getAbstractFileByPath(activity.filePath)
+    if (!(file instanceof TFile)) return
+
+    let cancelled = false
+    app.vault
+      .cachedRead(file)
+      .then((content) => {
+        if (!cancelled) setCurrentContent(content)
+      })
+      .catch((error) => {
+        console.error('[ApprovalCard] Failed to read file:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [app, activity.filePath, activity.type])
+
+  const respond = (decision: 'approve' | 'deny') => {
+    if (isSent) return
+    setIsSent(true)
+    webSocketClient.sendApprovalResponse(approvalId, decision)
+  }
+
+  const proposedContent =
+    typeof activity.toolInput?.content === 'string'
+      ? activity.toolInput.content
+      : undefined
+
+  return (
+    <div className="smtcmp-approval-card">
+      <div className="smtcmp-approval-card-header">
+        <ShieldAlert size={14} />
+        <span className="smtcmp-approval-card-title">
+          {getApprovalTitle(activity)}
+        </span>
+      </div>
+
+      <div className="smtcmp-approval-card-body">
+        {activity.type === 'vault_rename' ? (
+          <div className="smtcmp-approval-card-rename">
+            <code>{activity.oldPath}</code> → <code>{activity.newPath}</code>
+          </div>
+        ) : (
+          <DiffContent
+            oldContent={currentContent}
+            newContent={
+              activity.type === 'vault_delete' ? undefined : proposedContent
+            }
+          />
+        )}
+      </div>
+
+      <div className="smtcmp-approval-card-actions">
+        <button
+          className="mod-cta"
+          onClick={() => respond('approve')}
+          disabled={isSent}
+        >
+          <Check size={14} />
+          Approve
+        </button>
+        <button onClick={() => respond('deny')} disabled={isSent}>
+          <X size={14} />
+          Deny
+        </button>
+      </div>
+    </div>
+  )
+})
+
+export default ApprovalCard
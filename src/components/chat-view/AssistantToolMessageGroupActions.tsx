@@ -76,6 +76,12 @@ function LLMResponseInfoButton({
           completion_tokens:
             acc.completion_tokens + message.metadata.usage.completion_tokens,
           total_tokens: acc.total_tokens + message.metadata.usage.total_tokens,
+          cache_creation_input_tokens:
+            (acc.cache_creation_input_tokens ?? 0) +
+            (message.metadata.usage.cache_creation_input_tokens ?? 0),
+          cache_read_input_tokens:
+            (acc.cache_read_input_tokens ?? 0) +
+            (message.metadata.usage.cache_read_input_tokens ?? 0),
         }
       }
       return acc
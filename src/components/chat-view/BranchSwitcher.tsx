@@ -0,0 +1,48 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+import { ChatBranch } from '../../types/chat'
+
+export type BranchSwitcherProps = {
+  branches: ChatBranch[]
+  activeBranchId: string
+  disabled?: boolean
+  onSwitch: (branchId: string) => void
+}
+
+/**
+ * "‹ 2/3 ›" control for moving between versions of a conversation created
+ * by editing and resending a message. Hidden until there is a second branch.
+ */
+export default function BranchSwitcher({
+  branches,
+  activeBranchId,
+  disabled,
+  onSwitch,
+}: BranchSwitcherProps) {
+  const index = branches.findIndex((branch) => branch.id === activeBranchId)
+  if (branches.length < 2 || index === -1) return null
+
+  return (
+    <div className="smtcmp-chat-branch-switcher">
+      <button
+        onClick={() => onSwitch(branches[index - 1].id)}
+        className="clickable-icon"
+        aria-label="Previous branch"
+        disabled={disabled || index === 0}
+      >
+        <ChevronLeft />
+      </button>
+      <span className="smtcmp-chat-branch-switcher-label">
+        {index + 1}/{branches.length}
+      </span>
+      <button
+        onClick={() => onSwitch(branches[index + 1].id)}
+        className="clickable-icon"
+        aria-label="Next branch"
+        disabled={disabled || index === branches.length - 1}
+      >
+        <ChevronRight />
+      </button>
+    </div>
+  )
+}
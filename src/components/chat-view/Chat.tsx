@@ -19,6 +19,8 @@ import { useMcp } from '../../contexts/mcp-context'
 import { usePlugin } from '../../contexts/plugin-context'
 import { useRAG } from '../../contexts/rag-context'
 import { useSettings } from '../../contexts/settings-context'
+import { webSocketClient } from '../../core/backend/instance'
+import { JobRun } from '../../core/backend/JobRunStore'
 import {
   LLMAPIKeyInvalidException,
   LLMAPIKeyNotSetException,
@@ -28,9 +30,11 @@ import { getChatModelClient } from '../../core/llm/manager'
 import { useChatHistory } from '../../hooks/useChatHistory'
 import {
   AssistantToolMessageGroup,
+  ChatBranch,
   ChatMessage,
   ChatToolMessage,
   ChatUserMessage,
+  ForkPoint,
 } from '../../types/chat'
 import {
   MentionableBlock,
@@ -39,6 +43,11 @@ import {
 } from '../../types/mentionable'
 import { ToolCallResponseStatus } from '../../types/tool-call.types'
 import { applyChangesToFile } from '../../utils/chat/apply'
+import {
+  addBranch,
+  findForkPoint,
+  saveActiveBranch,
+} from '../../utils/chat/branches'
 import {
   getMentionableKey,
   serializeMentionable,
@@ -50,11 +59,16 @@ import { ErrorModal } from '../modals/ErrorModal'
 import { TemplateSectionModal } from '../modals/TemplateSectionModal'
 
 import AssistantToolMessageGroupItem from './AssistantToolMessageGroupItem'
+import BranchSwitcher from './BranchSwitcher'
 import ChatUserInput, { ChatUserInputRef } from './chat-input/ChatUserInput'
 import { editorStateToPlainText } from './chat-input/utils/editor-state-to-plain-text'
 import { ChatListDropdown } from './ChatListDropdown'
 import QueryProgress, { QueryProgressState } from './QueryProgress'
 import { useAutoScroll } from './useAutoScroll'
+import {
+  useBackendConnection,
+  useBackendReconnect,
+} from './useBackendConnection'
 import { useChatStreamManager } from './useChatStreamManager'
 import UserMessageItem from './UserMessageItem'
 
@@ -95,8 +109,9 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
   const {
     createOrUpdateConversation,
     deleteConversation,
-    getChatMessagesById,
+    getConversationById,
     updateConversationTitle,
+    refreshChatList,
     chatList,
   } = useChatHistory()
   const promptGenerator = useMemo(() => {
@@ -130,9 +145,47 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
   const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
   const [currentConversationId, setCurrentConversationId] =
     useState<string>(uuidv4())
+  // Versions of this conversation created by editing and resending a message
+  const [branches, setBranches] = useState<ChatBranch[]>([])
+  const [activeBranchId, setActiveBranchId] = useState<string | null>(null)
+  // The unforked conversation is its own first branch
+  const branchId = activeBranchId ?? currentConversationId
   const [queryProgress, setQueryProgress] = useState<QueryProgressState>({
     type: 'idle',
   })
+  const [jobRuns, setJobRuns] = useState<JobRun[]>(() =>
+    plugin.jobRunStore.getAll(),
+  )
+
+  useEffect(
+    () =>
+      plugin.jobRunStore.subscribe(() =>
+        setJobRuns(plugin.jobRunStore.getAll()),
+      ),
+    [plugin],
+  )
+
+  // Conversations with messages waiting to be sent, marked in the chat list
+  const getQueuedConversationIds = useCallback(
+    () =>
+      new Set(
+        plugin.pendingSessionStore
+          .getQueued()
+          .map((prompt) => prompt.conversationId),
+      ),
+    [plugin],
+  )
+  const [queuedConversationIds, setQueuedConversationIds] = useState(
+    getQueuedConversationIds,
+  )
+
+  useEffect(
+    () =>
+      plugin.pendingSessionStore.subscribeOutbox(() =>
+        setQueuedConversationIds(getQueuedConversationIds()),
+      ),
+    [plugin, getQueuedConversationIds],
+  )
 
   const groupedChatMessages: (ChatUserMessage | AssistantToolMessageGroup)[] =
     useMemo(() => {
@@ -152,6 +205,15 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
     promptGenerator,
   })
 
+  // Prompts for the backend agent wait in the outbox while it's unreachable
+  const isBackendConnected = useBackendConnection()
+  const usesBackend =
+    settings.chatModels.find((model) => model.id === settings.chatModelId)
+      ?.providerType === 'backend'
+  const canSend = isBackendConnected || !usesBackend
+  const backendReconnect = useBackendReconnect()
+  const isSendingQueuedRef = useRef(false)
+
   // Ref to access currentConversationId in cleanup effects
   const currentConversationIdRef = useRef(currentConversationId)
   currentConversationIdRef.current = currentConversationId
@@ -170,12 +232,14 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
   const handleLoadConversation = async (conversationId: string) => {
     try {
       abortActiveStreams()
-      const conversation = await getChatMessagesById(conversationId)
+      const conversation = await getConversationById(conversationId)
       if (!conversation) {
         throw new Error('Conversation not found')
       }
       setCurrentConversationId(conversationId)
-      setChatMessages(conversation)
+      setChatMessages(conversation.messages)
+      setBranches(conversation.branches)
+      setActiveBranchId(conversation.activeBranchId)
       // Scroll to latest message after React renders the loaded conversation
       requestAnimationFrame(() => forceScrollToBottom())
       const newInputMessage = getNewInputMessage(app)
@@ -190,9 +254,24 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
     }
   }
 
+  const handleOpenJobRun = async (run: JobRun) => {
+    if (!plugin.clientId) return
+    try {
+      await plugin.jobRunStore.open(run, plugin.clientId)
+    } catch (error) {
+      new Notice('Failed to load scheduled run')
+      console.error('Failed to load scheduled run', error)
+      return
+    }
+    await refreshChatList()
+    await handleLoadConversation(run.conversationId)
+  }
+
   const handleNewChat = (selectedBlock?: MentionableBlockData) => {
     setCurrentConversationId(uuidv4())
     setChatMessages([])
+    setBranches([])
+    setActiveBranchId(null)
     const newInputMessage = getNewInputMessage(app)
     if (selectedBlock) {
       const mentionableBlock: MentionableBlock = {
@@ -219,9 +298,15 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
     async ({
       inputChatMessages,
       useVaultSearch,
+      branch,
+      queuedMessages = [],
     }: {
       inputChatMessages: ChatMessage[]
       useVaultSearch?: boolean
+      // Set when resending an edited message starts a new branch
+      branch?: { id: string; forkFrom?: ForkPoint }
+      // Messages still waiting in the outbox, kept after the one being sent
+      queuedMessages?: ChatMessage[]
     }) => {
       abortActiveStreams()
       setQueryProgress({
@@ -229,7 +314,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
       })
 
       // Update the chat history to show the new user message
-      setChatMessages(inputChatMessages)
+      setChatMessages([...inputChatMessages, ...queuedMessages])
       requestAnimationFrame(() => {
         forceScrollToBottom()
       })
@@ -245,6 +330,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
             const { promptContent, similaritySearchResults } =
               await promptGenerator.compileUserMessagePrompt({
                 message,
+                chatHistory: inputChatMessages.slice(0, -1),
                 useVaultSearch,
                 onQueryProgressChange: setQueryProgress,
               })
@@ -270,21 +356,111 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
         }),
       )
 
-      setChatMessages(compiledMessages)
+      setChatMessages([...compiledMessages, ...queuedMessages])
       submitChatMutation.mutate({
         chatMessages: compiledMessages,
         conversationId: currentConversationId,
+        branchId: branch?.id ?? branchId,
+        forkFrom: branch?.forkFrom,
       })
     },
     [
       submitChatMutation,
       currentConversationId,
+      branchId,
       promptGenerator,
       abortActiveStreams,
       forceScrollToBottom,
     ],
   )
 
+  const handleQueueMessage = useCallback(
+    (message: ChatUserMessage) => {
+      setChatMessages((prevChatMessages) => [
+        ...prevChatMessages,
+        { ...message, queued: true },
+      ])
+      void plugin.pendingSessionStore.enqueue(message.id, currentConversationId)
+      requestAnimationFrame(() => forceScrollToBottom())
+    },
+    [plugin, currentConversationId, forceScrollToBottom],
+  )
+
+  const handleDiscardQueuedMessage = useCallback(
+    (messageId: string) => {
+      setChatMessages((prevChatMessages) =>
+        prevChatMessages.filter((message) => message.id !== messageId),
+      )
+      void plugin.pendingSessionStore.dequeue(messageId)
+    },
+    [plugin],
+  )
+
+  // Send queued messages one at a time, in order, once the backend is back.
+  // Each waits for the previous reply so the agent sees them in sequence.
+  useEffect(() => {
+    if (
+      !canSend ||
+      submitChatMutation.isPending ||
+      isSendingQueuedRef.current ||
+      // Sent in the background before this conversation was opened; the
+      // rest follow once it's reloaded with the reply
+      plugin.outboxSender.isSending(currentConversationId)
+    )
+      return
+    const index = chatMessages.findIndex(
+      (message) => message.role === 'user' && message.queued,
+    )
+    if (index === -1) return
+
+    const message = chatMessages[index] as ChatUserMessage
+    isSendingQueuedRef.current = true
+    void (async () => {
+      try {
+        await plugin.pendingSessionStore.dequeue(message.id)
+        await handleUserMessageSubmit({
+          inputChatMessages: [
+            ...chatMessages.slice(0, index),
+            { ...message, queued: undefined },
+          ],
+          queuedMessages: chatMessages.slice(index + 1),
+        })
+      } catch (error) {
+        new Notice('Failed to send queued message')
+        console.error('Failed to send queued message', error)
+      } finally {
+        isSendingQueuedRef.current = false
+      }
+    })()
+  }, [
+    canSend,
+    submitChatMutation.isPending,
+    chatMessages,
+    plugin,
+    currentConversationId,
+    handleUserMessageSubmit,
+  ])
+
+  // Queued prompts of conversations that aren't open are sent in the
+  // background; this view sends its own conversation's
+  useEffect(
+    () => plugin.outboxSender.open(currentConversationId),
+    [plugin, currentConversationId],
+  )
+
+  // Reload when a prompt this conversation had queued was sent in the
+  // background, which happens when it's opened mid-send
+  useEffect(
+    () =>
+      plugin.outboxSender.onSent((conversationId) => {
+        if (conversationId === currentConversationIdRef.current) {
+          void handleLoadConversation(conversationId)
+        }
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
+  )
+
   const applyMutation = useMutation({
     mutationFn: async ({
       blockToApply,
@@ -390,6 +566,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
         submitChatMutation.mutate({
           chatMessages: updatedMessages,
           conversationId: currentConversationId,
+          branchId,
         })
         requestAnimationFrame(() => {
           forceScrollToBottom()
@@ -399,6 +576,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
     [
       chatMessages,
       currentConversationId,
+      branchId,
       submitChatMutation,
       setChatMessages,
       getMcpManager,
@@ -433,8 +611,21 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
     submitChatMutation.mutate({
       chatMessages: chatMessages,
       conversationId: currentConversationId,
+      branchId,
     })
-  }, [submitChatMutation, chatMessages, currentConversationId])
+  }, [submitChatMutation, chatMessages, currentConversationId, branchId])
+
+  const handleSwitchBranch = useCallback(
+    (targetBranchId: string) => {
+      const target = branches.find((branch) => branch.id === targetBranchId)
+      if (!target || targetBranchId === branchId) return
+      setBranches(saveActiveBranch(branches, branchId, chatMessages))
+      setActiveBranchId(targetBranchId)
+      setChatMessages(target.messages)
+      requestAnimationFrame(() => forceScrollToBottom())
+    },
+    [branches, branchId, chatMessages, forceScrollToBottom],
+  )
 
   // Scroll to bottom when mobile keyboard opens/closes
   useEffect(() => {
@@ -487,7 +678,10 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
     const updateConversationAsync = async () => {
       try {
         if (chatMessages.length > 0) {
-          createOrUpdateConversation(currentConversationId, chatMessages)
+          createOrUpdateConversation(currentConversationId, chatMessages, {
+            branches,
+            activeBranchId,
+          })
         }
       } catch (error) {
         new Notice('Failed to save chat history')
@@ -495,7 +689,13 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
       }
     }
     updateConversationAsync()
-  }, [currentConversationId, chatMessages, createOrUpdateConversation])
+  }, [
+    currentConversationId,
+    chatMessages,
+    branches,
+    activeBranchId,
+    createOrUpdateConversation,
+  ])
 
   // Updates the currentFile of the focused message (input or chat history)
   // This happens when active file changes or focused message changes
@@ -616,6 +816,12 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
       <div className="smtcmp-chat-header">
         <h1 className="smtcmp-chat-header-title">Chat</h1>
         <div className="smtcmp-chat-header-buttons">
+          <BranchSwitcher
+            branches={branches}
+            activeBranchId={branchId}
+            disabled={submitChatMutation.isPending}
+            onSwitch={handleSwitchBranch}
+          />
           <button
             onClick={() => handleNewChat()}
             className="clickable-icon"
@@ -626,12 +832,17 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
           <ChatListDropdown
             chatList={chatList}
             currentConversationId={currentConversationId}
+            jobRuns={jobRuns}
             onSelect={async (conversationId) => {
               if (conversationId === currentConversationId) return
               await handleLoadConversation(conversationId)
             }}
+            queuedConversationIds={queuedConversationIds}
             onDelete={async (conversationId) => {
               await deleteConversation(conversationId)
+              await plugin.pendingSessionStore.dequeueConversation(
+                conversationId,
+              )
               if (conversationId === currentConversationId) {
                 const nextConversation = chatList.find(
                   (chat) => chat.id !== conversationId,
@@ -646,6 +857,7 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
             onUpdateTitle={async (conversationId, newTitle) => {
               await updateConversationTitle(conversationId, newTitle)
             }}
+            onOpenJobRun={handleOpenJobRun}
           >
             <History size={18} />
           </ChatListDropdown>
@@ -666,41 +878,42 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
             <UserMessageItem
               key={messageOrGroup.id}
               message={messageOrGroup}
+              isBackendConnected={canSend}
+              onDiscard={() => handleDiscardQueuedMessage(messageOrGroup.id)}
               chatUserInputRef={(ref) =>
                 registerChatUserInputRef(messageOrGroup.id, ref)
               }
-              onInputChange={(content) => {
-                setChatMessages((prevChatHistory) =>
-                  prevChatHistory.map((msg) =>
-                    msg.role === 'user' && msg.id === messageOrGroup.id
-                      ? {
-                          ...msg,
-                          content,
-                        }
-                      : msg,
-                  ),
-                )
-              }}
               onSubmit={(content, useVaultSearch) => {
                 if (editorStateToPlainText(content).trim() === '') return
+                const history = groupedChatMessages
+                  .slice(0, index)
+                  .flatMap((messageOrGroup): ChatMessage[] =>
+                    !Array.isArray(messageOrGroup)
+                      ? [messageOrGroup]
+                      : messageOrGroup,
+                  )
+                // Resending an earlier message starts a new branch; the
+                // current one keeps the original message and its replies
+                const newBranchId = uuidv4()
+                setBranches(
+                  addBranch(branches, branchId, chatMessages, newBranchId),
+                )
+                setActiveBranchId(newBranchId)
                 handleUserMessageSubmit({
                   inputChatMessages: [
-                    ...groupedChatMessages
-                      .slice(0, index)
-                      .flatMap((messageOrGroup): ChatMessage[] =>
-                        !Array.isArray(messageOrGroup)
-                          ? [messageOrGroup]
-                          : messageOrGroup,
-                      ),
+                    ...history,
                     {
                       role: 'user',
                       content: content,
                       promptContent: null,
-                      id: messageOrGroup.id,
+                      id: uuidv4(),
                       mentionables: messageOrGroup.mentionables,
+                      toolMode: messageOrGroup.toolMode,
+                      ragFilters: messageOrGroup.ragFilters,
                     },
                   ],
                   useVaultSearch,
+                  branch: { id: newBranchId, forkFrom: findForkPoint(history) },
                 })
                 chatUserInputRefs.current.get(inputMessage.id)?.focus()
               }}
@@ -716,6 +929,24 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
                   ),
                 )
               }}
+              onToolModeChange={(toolMode) => {
+                setChatMessages((prevChatHistory) =>
+                  prevChatHistory.map((msg) =>
+                    msg.role === 'user' && msg.id === messageOrGroup.id
+                      ? { ...msg, toolMode }
+                      : msg,
+                  ),
+                )
+              }}
+              onRagFiltersChange={(ragFilters) => {
+                setChatMessages((prevChatHistory) =>
+                  prevChatHistory.map((msg) =>
+                    msg.role === 'user' && msg.id === messageOrGroup.id
+                      ? { ...msg, ragFilters }
+                      : msg,
+                  ),
+                )
+              }}
             />
           ) : (
             <AssistantToolMessageGroupItem
@@ -754,6 +985,13 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
           </button>
         )}
       </div>
+      {!canSend && backendReconnect && (
+        <div className="smtcmp-chat-reconnecting">
+          {backendReconnect.secondsLeft > 0
+            ? `Backend unreachable. Reconnecting in ${backendReconnect.secondsLeft}s (attempt ${backendReconnect.attempt})`
+            : `Backend unreachable. Reconnecting (attempt ${backendReconnect.attempt})`}
+        </div>
+      )}
       <ChatUserInput
         key={inputMessage.id} // this is needed to clear the editor when the user submits a new message
         ref={(ref) => registerChatUserInputRef(inputMessage.id, ref)}
@@ -772,8 +1010,22 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
             console.log('[ImageFlow] Image names:', imageMentionables.map(m => m.type === 'image' ? m.name : '').join(', '))
           }
 
-          // If we're currently generating, send an aside instead of a new prompt
-          if (submitChatMutation.isPending) {
+          // Queue behind earlier unsent messages, or until the backend is back.
+          // Backends without asides get the message after the current response.
+          const hasQueued = chatMessages.some(
+            (message) => message.role === 'user' && message.queued,
+          )
+          const cannotAside =
+            submitChatMutation.isPending && !webSocketClient.supports('aside')
+          if (usesBackend && (!isBackendConnected || hasQueued || cannotAside)) {
+            handleQueueMessage({ ...inputMessage, content })
+            setInputMessage({
+              ...getNewInputMessage(app),
+              toolMode: inputMessage.toolMode,
+              ragFilters: inputMessage.ragFilters,
+            })
+          } else if (submitChatMutation.isPending) {
+            // If we're currently generating, send an aside instead of a new prompt
             const plainText = editorStateToPlainText(content).trim()
             sendAside(plainText)
             const asideMessage: ChatUserMessage = {
@@ -788,13 +1040,22 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
               ...prevChatMessages,
               asideMessage,
             ])
-            setInputMessage(getNewInputMessage(app))
+            setInputMessage({
+              ...getNewInputMessage(app),
+              toolMode: inputMessage.toolMode,
+              ragFilters: inputMessage.ragFilters,
+            })
           } else {
             handleUserMessageSubmit({
               inputChatMessages: [...chatMessages, { ...inputMessage, content }],
               useVaultSearch,
             })
-            setInputMessage(getNewInputMessage(app))
+            // Keep the picked tool mode and search filters for the next message
+            setInputMessage({
+              ...getNewInputMessage(app),
+              toolMode: inputMessage.toolMode,
+              ragFilters: inputMessage.ragFilters,
+            })
           }
         }}
         onFocus={() => {
@@ -809,6 +1070,20 @@ const Chat = forwardRef<ChatRef, ChatProps>((props, ref) => {
         }}
         autoFocus
         addedBlockKey={addedBlockKey}
+        toolMode={inputMessage.toolMode}
+        onToolModeChange={(toolMode) => {
+          setInputMessage((prevInputMessage) => ({
+            ...prevInputMessage,
+            toolMode,
+          }))
+        }}
+        ragFilters={inputMessage.ragFilters}
+        onRagFiltersChange={(ragFilters) => {
+          setInputMessage((prevInputMessage) => ({
+            ...prevInputMessage,
+            ragFilters,
+          }))
+        }}
       />
     </div>
   )
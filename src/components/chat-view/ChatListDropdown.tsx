@@ -1,7 +1,8 @@
 import * as Popover from '@radix-ui/react-popover'
-import { Pencil, Trash2 } from 'lucide-react'
+import { Clock, CloudOff, Pencil, Trash2 } from 'lucide-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
 
+import { JobRun } from '../../core/backend/JobRunStore'
 import { ChatConversationMetadata } from '../../database/json/chat/types'
 
 function TitleInput({
@@ -43,6 +44,7 @@ function TitleInput({
 
 function ChatListItem({
   title,
+  hasQueued,
   isFocused,
   isEditing,
   onMouseEnter,
@@ -52,6 +54,7 @@ function ChatListItem({
   onFinishEdit,
 }: {
   title: string
+  hasQueued: boolean
   isFocused: boolean
   isEditing: boolean
   onMouseEnter: () => void
@@ -82,6 +85,14 @@ function ChatListItem({
       ) : (
         <div className="smtcmp-chat-list-dropdown-item-title">{title}</div>
       )}
+      {hasQueued && (
+        <span
+          className="smtcmp-chat-list-dropdown-item-queued"
+          aria-label="Has messages waiting to be sent"
+        >
+          <CloudOff />
+        </span>
+      )}
       <div className="smtcmp-chat-list-dropdown-item-actions">
         <button
           onClick={(e) => {
@@ -106,19 +117,62 @@ function ChatListItem({
   )
 }
 
+const JOB_RUN_STATUS_LABELS: Record<JobRun['status'], string> = {
+  running: 'Running…',
+  complete: '',
+  error: 'Failed',
+}
+
+/** A run of a scheduled job; running ones can't be opened until they finish */
+function JobRunItem({
+  run,
+  onSelect,
+}: {
+  run: JobRun
+  onSelect: () => Promise<void>
+}) {
+  const isRunning = run.status === 'running'
+
+  return (
+    <li
+      onClick={isRunning ? undefined : onSelect}
+      className={`smtcmp-chat-list-dropdown-job-run${isRunning ? ' is-running' : ''}`}
+    >
+      <Clock className="smtcmp-chat-list-dropdown-job-run-icon" />
+      <div className="smtcmp-chat-list-dropdown-item-title">{run.jobName}</div>
+      <div className="smtcmp-chat-list-dropdown-job-run-meta">
+        {JOB_RUN_STATUS_LABELS[run.status] ||
+          new Date(run.createdAt).toLocaleString([], {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+      </div>
+    </li>
+  )
+}
+
 export function ChatListDropdown({
   chatList,
   currentConversationId,
+  jobRuns = [],
+  queuedConversationIds,
   onSelect,
   onDelete,
   onUpdateTitle,
+  onOpenJobRun,
   children,
 }: {
   chatList: ChatConversationMetadata[]
   currentConversationId: string
+  jobRuns?: JobRun[]
+  /** Conversations with messages in the outbox */
+  queuedConversationIds?: Set<string>
   onSelect: (conversationId: string) => Promise<void>
   onDelete: (conversationId: string) => Promise<void>
   onUpdateTitle: (conversationId: string, newTitle: string) => Promise<void>
+  onOpenJobRun?: (run: JobRun) => Promise<void>
   children: React.ReactNode
 }) {
   const [open, setOpen] = useState(false)
@@ -172,6 +226,7 @@ export function ChatListDropdown({
                 <ChatListItem
                   key={chat.id}
                   title={chat.title}
+                  hasQueued={queuedConversationIds?.has(chat.id) ?? false}
                   isFocused={focusedIndex === index}
                   isEditing={editingId === chat.id}
                   onMouseEnter={() => {
@@ -195,6 +250,25 @@ export function ChatListDropdown({
               ))
             )}
           </ul>
+          {jobRuns.length > 0 && onOpenJobRun && (
+            <>
+              <div className="smtcmp-chat-list-dropdown-section-title">
+                Scheduled runs
+              </div>
+              <ul>
+                {jobRuns.map((run) => (
+                  <JobRunItem
+                    key={run.sessionId}
+                    run={run}
+                    onSelect={async () => {
+                      await onOpenJobRun(run)
+                      setOpen(false)
+                    }}
+                  />
+                ))}
+              </ul>
+            </>
+          )}
         </Popover.Content>
       </Popover.Portal>
     </Popover.Root>
@@ -0,0 +1,70 @@
+/**
+ * Simple diff display - shows old (red) and new (green) content
+ */
+export default function DiffContent({
+  oldContent,
+  newContent,
+}: {
+  oldContent?: string
+  newContent?: string
+}) {
+  // If we have both old and new content, show a simple diff
+  if (oldContent && newContent) {
+    return (
+      <div className="smtcmp-diff-content">
+        <div className="smtcmp-diff-deletion">
+          <span className="smtcmp-diff-marker">-</span>
+          <pre>{oldContent}</pre>
+        </div>
+        <div className="smtcmp-diff-addition">
+          <span className="smtcmp-diff-marker">+</span>
+          <pre>{newContent}</pre>
+        </div>
+      </div>
+    )
+  }
+
+  // If only new content (write operation), show all as additions
+  if (newContent) {
+    const lines = newContent.split('\n').slice(0, 20) // Limit displayed lines
+    const hasMore = newContent.split('\n').length > 20
+    return (
+      <div className="smtcmp-diff-content">
+        {lines.map((line, i) => (
+          <div key={i} className="smtcmp-diff-addition">
+            <span className="smtcmp-diff-marker">+</span>
+            <pre>{line || ' '}</pre>
+          </div>
+        ))}
+        {hasMore && (
+          <div className="smtcmp-diff-more">
+            +{newContent.split('\n').length - 20} more lines
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // If only old content (delete operation), show all as deletions
+  if (oldContent) {
+    const lines = oldContent.split('\n').slice(0, 20)
+    const hasMore = oldContent.split('\n').length > 20
+    return (
+      <div className="smtcmp-diff-content">
+        {lines.map((line, i) => (
+          <div key={i} className="smtcmp-diff-deletion">
+            <span className="smtcmp-diff-marker">-</span>
+            <pre>{line || ' '}</pre>
+          </div>
+        ))}
+        {hasMore && (
+          <div className="smtcmp-diff-more">
+            +{oldContent.split('\n').length - 20} more lines
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return null
+}
@@ -5,15 +5,19 @@
  * - File header with +X -Y line count
  * - Diff content with green/red highlighting
  * - Undo button for revert
+ * - Approve/deny card while a gated tool waits for the user
+ * - The note text as it is generated, before the tool runs
  */
 
 import { ChevronDown, ChevronRight, Eye, Undo2 } from 'lucide-react'
-import { memo, useCallback, useState } from 'react'
+import { memo, useCallback, useEffect, useRef, useState } from 'react'
 import { TFile } from 'obsidian'
 
 import type { ActivityEvent } from '../../types/chat'
 import { getEditHistory } from '../../core/backend/EditHistory'
 import { useApp } from '../../contexts/app-context'
+import ApprovalCard from './ApprovalCard'
+import DiffContent from './DiffContent'
 import { ObsidianMarkdown } from './ObsidianMarkdown'
 
 export interface EditDiffBlockProps {
@@ -21,77 +25,6 @@ export interface EditDiffBlockProps {
   onReverted?: () => void
 }
 
-/**
- * Simple diff display - shows old (red) and new (green) content
- */
-function DiffContent({
-  oldContent,
-  newContent,
-}: {
-  oldContent?: string
-  newContent?: string
-}) {
-  // If we have both old and new content, show a simple diff
-  if (oldContent && newContent) {
-    return (
-      <div className="smtcmp-diff-content">
-        <div className="smtcmp-diff-deletion">
-          <span className="smtcmp-diff-marker">-</span>
-          <pre>{oldContent}</pre>
-        </div>
-        <div className="smtcmp-diff-addition">
-          <span className="smtcmp-diff-marker">+</span>
-          <pre>{newContent}</pre>
-        </div>
-      </div>
-    )
-  }
-
-  // If only new content (write operation), show all as additions
-  if (newContent) {
-    const lines = newContent.split('\n').slice(0, 20) // Limit displayed lines
-    const hasMore = newContent.split('\n').length > 20
-    return (
-      <div className="smtcmp-diff-content">
-        {lines.map((line, i) => (
-          <div key={i} className="smtcmp-diff-addition">
-            <span className="smtcmp-diff-marker">+</span>
-            <pre>{line || ' '}</pre>
-          </div>
-        ))}
-        {hasMore && (
-          <div className="smtcmp-diff-more">
-            +{newContent.split('\n').length - 20} more lines
-          </div>
-        )}
-      </div>
-    )
-  }
-
-  // If only old content (delete operation), show all as deletions
-  if (oldContent) {
-    const lines = oldContent.split('\n').slice(0, 20)
-    const hasMore = oldContent.split('\n').length > 20
-    return (
-      <div className="smtcmp-diff-content">
-        {lines.map((line, i) => (
-          <div key={i} className="smtcmp-diff-deletion">
-            <span className="smtcmp-diff-marker">-</span>
-            <pre>{line || ' '}</pre>
-          </div>
-        ))}
-        {hasMore && (
-          <div className="smtcmp-diff-more">
-            +{oldContent.split('\n').length - 20} more lines
-          </div>
-        )}
-      </div>
-    )
-  }
-
-  return null
-}
-
 const EditDiffBlock = memo(function EditDiffBlock({
   activity,
   onReverted,
@@ -101,6 +34,18 @@ const EditDiffBlock = memo(function EditDiffBlock({
   const [isPreviewMode, setIsPreviewMode] = useState(true)
   const [isReverting, setIsReverting] = useState(false)
   const [reverted, setReverted] = useState(false)
+  const streamingBodyRef = useRef<HTMLDivElement>(null)
+
+  // Content streams in until the tool result brings the real diff
+  const isWriting = activity.streamingContent !== undefined && !activity.diff
+
+  // Keep the newest lines in view while the note is being written
+  useEffect(() => {
+    const body = streamingBodyRef.current
+    if (isWriting && body) {
+      body.scrollTop = body.scrollHeight
+    }
+  }, [isWriting, activity.streamingContent])
 
   const handleOpenFile = useCallback(() => {
     if (!app || !activity.filePath) return
@@ -154,6 +99,35 @@ const EditDiffBlock = memo(function EditDiffBlock({
       operationLabel = 'Modified'
   }
 
+  if (activity.approval?.status === 'pending') {
+    return <ApprovalCard activity={activity} approvalId={activity.approval.id} />
+  }
+
+  if (isWriting) {
+    const lineCount = activity.streamingContent
+      ? activity.streamingContent.split('\n').length
+      : 0
+    return (
+      <div className="smtcmp-edit-diff smtcmp-edit-diff--writing">
+        <div className="smtcmp-edit-diff-header">
+          <span className="smtcmp-edit-diff-filename">
+            {activity.type === 'vault_edit' ? 'Editing' : 'Writing'} {displayName}
+          </span>
+          <span className="smtcmp-edit-diff-stats">
+            {lineCount > 0 && <span className="smtcmp-diff-stat-add">+{lineCount}</span>}
+          </span>
+        </div>
+        {activity.streamingContent && (
+          <div className="smtcmp-edit-diff-body" ref={streamingBodyRef}>
+            <pre className="smtcmp-edit-diff-streaming">
+              {activity.streamingContent}
+            </pre>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="smtcmp-edit-diff">
       <div className="smtcmp-edit-diff-header" onClick={() => setIsOpen(!isOpen)}>
@@ -189,7 +163,10 @@ const EditDiffBlock = memo(function EditDiffBlock({
             <Eye size={12} />
             {isPreviewMode ? 'Raw' : 'Rendered'}
           </button>
-          {!reverted && (
+          {activity.approval?.status === 'denied' && (
+            <span className="smtcmp-edit-diff-denied">Denied</span>
+          )}
+          {!reverted && activity.approval?.status !== 'denied' && (
             <button
               className="smtcmp-edit-diff-revert"
               onClick={(e) => {
@@ -79,11 +79,18 @@ export default function InterspersedContent({
               (a) => EDIT_ACTIVITY_TYPES.has(a.type),
             )
 
+            // Sub-agent tool calls aren't in content blocks; they nest under
+            // their delegate_task activity
+            const groupIds = new Set(block.activityIds)
+            const subAgentActivities = activities.filter(
+              (a) => a.parentActivityId && groupIds.has(a.parentActivityId),
+            )
+
             return (
               <div key={`group-${idx}`} className="smtcmp-interspersed-group">
                 {exploration.length > 0 && (
                   <ActivityAccordion
-                    activities={exploration}
+                    activities={[...exploration, ...subAgentActivities]}
                     isStreaming={isStreaming && isLastBlock}
                   />
                 )}
@@ -5,6 +5,7 @@ import {
   ArrowUp,
   Coins,
   Cpu,
+  DatabaseZap,
   Info,
 } from 'lucide-react'
 
@@ -41,6 +42,15 @@ export default function LLMResponseInfoPopover({
                   {usage.prompt_tokens}
                 </span>
               </div>
+              {!!usage.cache_read_input_tokens && (
+                <div className="smtcmp-llm-info-token-row">
+                  <DatabaseZap className="smtcmp-llm-info-icon--input" />
+                  <span>Cached:</span>
+                  <span className="smtcmp-llm-info-token-value">
+                    {usage.cache_read_input_tokens}
+                  </span>
+                </div>
+              )}
               <div className="smtcmp-llm-info-token-row">
                 <ArrowDown className="smtcmp-llm-info-icon--output" />
                 <span>Output:</span>
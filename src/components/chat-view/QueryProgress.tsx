@@ -5,6 +5,9 @@ export type QueryProgressState =
   | {
       type: 'reading-mentionables'
     }
+  | {
+      type: 'planning-query'
+    }
   | {
       type: 'indexing'
       indexProgress: IndexProgress
@@ -12,10 +15,15 @@ export type QueryProgressState =
   | {
       type: 'querying'
     }
+  | {
+      type: 'reranking'
+      candidateCount: number
+    }
   | {
       type: 'querying-done'
       queryResult: (Omit<SelectEmbedding, 'embedding'> & {
         similarity: number
+        rerankScore?: number
       })[]
     }
   | {
@@ -47,6 +55,15 @@ export default function QueryProgress({
           </p>
         </div>
       )
+    case 'planning-query':
+      return (
+        <div className="smtcmp-query-progress">
+          <p>
+            Rewriting the search query
+            <DotLoader />
+          </p>
+        </div>
+      )
     case 'indexing':
       return (
         <div className="smtcmp-query-progress">
@@ -71,6 +88,16 @@ export default function QueryProgress({
           </p>
         </div>
       )
+    case 'reranking':
+      return (
+        <div className="smtcmp-query-progress">
+          <p>
+            Reranking results
+            <DotLoader />
+          </p>
+          <p className="smtcmp-query-progress-detail">{`${state.candidateCount} candidates`}</p>
+        </div>
+      )
     case 'querying-done':
       return (
         <div className="smtcmp-query-progress">
@@ -11,6 +11,7 @@ function SimiliartySearchItem({
 }: {
   chunk: Omit<SelectEmbedding, 'embedding'> & {
     similarity: number
+    rerankScore?: number
   }
 }) {
   const app = useApp()
@@ -18,13 +19,25 @@ function SimiliartySearchItem({
   const handleClick = () => {
     openMarkdownFile(app, chunk.path, chunk.metadata.startLine)
   }
+  // Note > Section > Subsection; chunks indexed before headings were stored have none
+  const breadcrumb = [
+    path.basename(chunk.path),
+    ...(chunk.metadata.headings ?? []),
+  ].join(' > ')
   return (
     <div onClick={handleClick} className="smtcmp-similarity-search-item">
-      <div className="smtcmp-similarity-search-item__similarity">
-        {chunk.similarity.toFixed(3)}
+      <div
+        className="smtcmp-similarity-search-item__similarity"
+        title={
+          chunk.rerankScore !== undefined
+            ? `Rerank score; similarity ${chunk.similarity.toFixed(3)}`
+            : 'Similarity'
+        }
+      >
+        {(chunk.rerankScore ?? chunk.similarity).toFixed(3)}
       </div>
-      <div className="smtcmp-similarity-search-item__path">
-        {path.basename(chunk.path)}
+      <div className="smtcmp-similarity-search-item__path" title={breadcrumb}>
+        {breadcrumb}
       </div>
       <div className="smtcmp-similarity-search-item__line-numbers">
         {`${chunk.metadata.startLine} - ${chunk.metadata.endLine}`}
@@ -38,6 +51,7 @@ export default function SimilaritySearchResults({
 }: {
   similaritySearchResults: (Omit<SelectEmbedding, 'embedding'> & {
     similarity: number
+    rerankScore?: number
   })[]
 }) {
   const [isOpen, setIsOpen] = useState(false)
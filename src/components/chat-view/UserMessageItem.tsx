@@ -1,6 +1,9 @@
 import { SerializedEditorState } from 'lexical'
+import { Clock, X } from 'lucide-react'
 
+import { MetadataFilter } from '../../core/rag/metadataFilter'
 import { ChatUserMessage } from '../../types/chat'
+import { ToolMode } from '../../types/llm/request'
 import { Mentionable } from '../../types/mentionable'
 
 import ChatUserInput, { ChatUserInputRef } from './chat-input/ChatUserInput'
@@ -8,20 +11,28 @@ import SimilaritySearchResults from './SimilaritySearchResults'
 
 export type UserMessageItemProps = {
   message: ChatUserMessage
+  /** Whether queued messages can be sent now */
+  isBackendConnected: boolean
   chatUserInputRef: (ref: ChatUserInputRef | null) => void
-  onInputChange: (content: SerializedEditorState) => void
   onSubmit: (content: SerializedEditorState, useVaultSearch: boolean) => void
   onFocus: () => void
   onMentionablesChange: (mentionables: Mentionable[]) => void
+  onToolModeChange: (mode: ToolMode) => void
+  onRagFiltersChange: (filters: MetadataFilter[]) => void
+  /** Remove the message from the outbox before it's sent */
+  onDiscard: () => void
 }
 
 export default function UserMessageItem({
   message,
+  isBackendConnected,
   chatUserInputRef,
-  onInputChange,
   onSubmit,
   onFocus,
   onMentionablesChange,
+  onToolModeChange,
+  onRagFiltersChange,
+  onDiscard,
 }: UserMessageItemProps) {
   const className =
     'smtcmp-chat-messages-user' + (message.isAside ? ' smtcmp-chat-messages-user-aside' : '')
@@ -35,12 +46,32 @@ export default function UserMessageItem({
       <ChatUserInput
         ref={chatUserInputRef}
         initialSerializedEditorState={message.content}
-        onChange={onInputChange}
         onSubmit={onSubmit}
         onFocus={onFocus}
         mentionables={message.mentionables}
         setMentionables={onMentionablesChange}
+        toolMode={message.toolMode}
+        onToolModeChange={onToolModeChange}
+        ragFilters={message.ragFilters}
+        onRagFiltersChange={onRagFiltersChange}
       />
+      {message.queued && (
+        <div className="smtcmp-chat-message-queued">
+          <Clock size={12} />
+          <span>
+            {isBackendConnected
+              ? 'Queued: sends after the messages before it'
+              : 'Queued: sends when the backend reconnects'}
+          </span>
+          <button
+            className="clickable-icon"
+            aria-label="Discard queued message"
+            onClick={onDiscard}
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
       {message.similaritySearchResults && (
         <SimilaritySearchResults
           similaritySearchResults={message.similaritySearchResults}
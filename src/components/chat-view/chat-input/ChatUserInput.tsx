@@ -11,6 +11,13 @@ import {
 } from 'react'
 
 import { useApp } from '../../../contexts/app-context'
+import { useSettings } from '../../../contexts/settings-context'
+import { useSkills } from '../../../contexts/skills-context'
+import {
+  MetadataFilter,
+  getMetadataFilterKey,
+} from '../../../core/rag/metadataFilter'
+import { ToolMode } from '../../../types/llm/request'
 import {
   Mentionable,
   MentionableImage,
@@ -21,6 +28,10 @@ import {
   getMentionableKey,
   serializeMentionable,
 } from '../../../utils/chat/mentionable'
+import {
+  parseSlashInvocation,
+  validateArguments,
+} from '../../../utils/chat/slash-command-arguments'
 import { fileToMentionableImage } from '../../../utils/llm/image'
 import { openMarkdownFile, readTFileContent } from '../../../utils/obsidian'
 import { ObsidianMarkdown } from '../ObsidianMarkdown'
@@ -31,8 +42,11 @@ import MentionableBadge from './MentionableBadge'
 import { ModelSelect } from './ModelSelect'
 import { MentionNode } from './plugins/mention/MentionNode'
 import { NodeMutations } from './plugins/on-mutation/OnMutationPlugin'
+import SearchFilterBadge from './SearchFilterBadge'
+import { SearchFilterButton } from './SearchFilterButton'
 import { SubmitButton } from './SubmitButton'
 import ToolBadge from './ToolBadge'
+import { editorStateToPlainText } from './utils/editor-state-to-plain-text'
 import { VaultChatButton } from './VaultChatButton'
 
 export type ChatUserInputRef = {
@@ -41,13 +55,17 @@ export type ChatUserInputRef = {
 
 export type ChatUserInputProps = {
   initialSerializedEditorState: SerializedEditorState | null
-  onChange: (content: SerializedEditorState) => void
+  onChange?: (content: SerializedEditorState) => void
   onSubmit: (content: SerializedEditorState, useVaultSearch?: boolean) => void
   onFocus: () => void
   mentionables: Mentionable[]
   setMentionables: (mentionables: Mentionable[]) => void
   autoFocus?: boolean
   addedBlockKey?: string | null
+  toolMode?: ToolMode
+  onToolModeChange?: (mode: ToolMode) => void
+  ragFilters?: MetadataFilter[]
+  onRagFiltersChange?: (filters: MetadataFilter[]) => void
 }
 
 const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
@@ -61,10 +79,16 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
       setMentionables,
       autoFocus = false,
       addedBlockKey,
+      toolMode,
+      onToolModeChange,
+      ragFilters = [],
+      onRagFiltersChange,
     },
     ref,
   ) => {
     const app = useApp()
+    const { settings } = useSettings()
+    const { skills, commands } = useSkills()
 
     const editorRef = useRef<LexicalEditor | null>(null)
     const contentEditableRef = useRef<HTMLDivElement>(null)
@@ -73,6 +97,7 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
     const [displayedMentionableKey, setDisplayedMentionableKey] = useState<
       string | null
     >(addedBlockKey ?? null)
+    const [argumentError, setArgumentError] = useState<string | null>(null)
 
     useEffect(() => {
       if (addedBlockKey) {
@@ -190,6 +215,12 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
       })
     }
 
+    const handleAddRagFilter = (filter: MetadataFilter) => {
+      const key = getMetadataFilterKey(filter)
+      if (ragFilters.some((f) => getMetadataFilterKey(f) === key)) return
+      onRagFiltersChange?.([...ragFilters, filter])
+    }
+
     const handleUploadImages = async (images: File[]) => {
       const mentionableImages = await Promise.all(
         images.map((image) => fileToMentionableImage(image)),
@@ -197,9 +228,31 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
       handleCreateImageMentionables(mentionableImages)
     }
 
+    /** Check `/name args` against the skill or command's argument-hint */
+    const validateSlashInvocation = (content: SerializedEditorState) => {
+      const invocation = parseSlashInvocation(editorStateToPlainText(content))
+      if (!invocation) return null
+      const target =
+        commands.find((c) => c.name === invocation.name) ??
+        skills.find((s) => s.name === invocation.name)
+      if (!target || target.arguments.length === 0) return null
+      const error = validateArguments(target.arguments, invocation.rawArguments)
+      return error
+        ? `/${target.name} ${target.argumentHint ?? ''}: ${error}`
+        : null
+    }
+
+    const isBackendModel =
+      settings.chatModels.find((model) => model.id === settings.chatModelId)
+        ?.providerType === 'backend'
+
     const handleSubmit = (options: { useVaultSearch?: boolean } = {}) => {
       const content = editorRef.current?.getEditorState()?.toJSON()
       if (content) {
+        const error = validateSlashInvocation(content)
+        setArgumentError(error)
+        if (error) return
+
         // Blur input to hide mobile keyboard after submit
         contentEditableRef.current?.blur()
         // iOS sometimes ignores blur on contenteditable
@@ -213,7 +266,7 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
     return (
       <div className="smtcmp-chat-user-input-container" ref={containerRef}>
         <div className="smtcmp-chat-user-input-files">
-          <ToolBadge />
+          <ToolBadge toolMode={toolMode} onToolModeChange={onToolModeChange} />
           {mentionables.map((m) => (
             <MentionableBadge
               key={getMentionableKey(serializeMentionable(m))}
@@ -246,6 +299,15 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
               }
             />
           ))}
+          {ragFilters.map((filter) => (
+            <SearchFilterBadge
+              key={getMetadataFilterKey(filter)}
+              filter={filter}
+              onDelete={() =>
+                onRagFiltersChange?.(ragFilters.filter((f) => f !== filter))
+              }
+            />
+          ))}
         </div>
 
         <MentionableContentPreview
@@ -263,7 +325,10 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
           }}
           editorRef={editorRef}
           contentEditableRef={contentEditableRef}
-          onChange={onChange}
+          onChange={(content) => {
+            setArgumentError(null)
+            onChange?.(content)
+          }}
           onEnter={() => handleSubmit({ useVaultSearch: false })}
           onFocus={onFocus}
           onMentionNodeMutation={handleMentionNodeMutation}
@@ -281,12 +346,22 @@ const ChatUserInput = forwardRef<ChatUserInputRef, ChatUserInputProps>(
           }}
         />
 
+        {argumentError && (
+          <div className="smtcmp-chat-user-input-argument-error">
+            {argumentError}
+          </div>
+        )}
+
         <div className="smtcmp-chat-user-input-controls">
           <div className="smtcmp-chat-user-input-controls__model-select-container">
             <ModelSelect />
           </div>
           <div className="smtcmp-chat-user-input-controls__buttons">
             <ImageUploadButton onUpload={handleUploadImages} />
+            {/* The backend agent runs its own searches; filters only narrow Vault Chat */}
+            {!isBackendModel && onRagFiltersChange && (
+              <SearchFilterButton onAdd={handleAddRagFilter} />
+            )}
             <SubmitButton onClick={() => handleSubmit()} />
             <VaultChatButton
               onClick={() => {
@@ -0,0 +1,35 @@
+import { Filter, X } from 'lucide-react'
+
+import {
+  MetadataFilter,
+  formatMetadataFilter,
+} from '../../../core/rag/metadataFilter'
+
+export default function SearchFilterBadge({
+  filter,
+  onDelete,
+}: {
+  filter: MetadataFilter
+  onDelete: () => void
+}) {
+  return (
+    <div
+      className="smtcmp-chat-user-input-file-badge"
+      title="Vault Chat only searches notes that match this filter"
+    >
+      <div className="smtcmp-chat-user-input-file-badge-name">
+        <Filter
+          size={12}
+          className="smtcmp-chat-user-input-file-badge-name-icon"
+        />
+        <span>{formatMetadataFilter(filter)}</span>
+      </div>
+      <div
+        className="smtcmp-chat-user-input-file-badge-delete"
+        onClick={onDelete}
+      >
+        <X size={12} />
+      </div>
+    </div>
+  )
+}
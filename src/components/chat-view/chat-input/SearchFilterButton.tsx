@@ -0,0 +1,77 @@
+import * as Popover from '@radix-ui/react-popover'
+import { Filter } from 'lucide-react'
+import { useState } from 'react'
+
+import {
+  MetadataFilter,
+  parseMetadataFilter,
+} from '../../../core/rag/metadataFilter'
+
+export function SearchFilterButton({
+  onAdd,
+}: {
+  onAdd: (filter: MetadataFilter) => void
+}) {
+  const [value, setValue] = useState('')
+  const [error, setError] = useState(false)
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return
+    event.preventDefault()
+    const filter = parseMetadataFilter(value)
+    if (!filter) {
+      setError(true)
+      return
+    }
+    onAdd(filter)
+    // Stay open so several filters can be added in a row
+    setValue('')
+  }
+
+  return (
+    <Popover.Root
+      onOpenChange={() => {
+        setValue('')
+        setError(false)
+      }}
+    >
+      <Popover.Trigger asChild>
+        <div className="smtcmp-chat-user-input-submit-button">
+          <div className="smtcmp-chat-user-input-submit-button-icons">
+            <Filter size={12} />
+          </div>
+          <div>Filter</div>
+        </div>
+      </Popover.Trigger>
+      <Popover.Portal>
+        <Popover.Content
+          className="smtcmp-popover-content smtcmp-search-filter-popover"
+          sideOffset={5}
+        >
+          <input
+            type="text"
+            value={value}
+            placeholder="#tag, status:active, modified:30d"
+            autoFocus
+            onChange={(event) => {
+              setValue(event.target.value)
+              setError(false)
+            }}
+            onKeyDown={handleKeyDown}
+          />
+          <div
+            className={
+              error
+                ? 'smtcmp-search-filter-popover-error'
+                : 'smtcmp-search-filter-popover-hint'
+            }
+          >
+            {error
+              ? 'Not a filter. Use #tag, property:value, modified:30d or modified:>YYYY-MM-DD.'
+              : 'Vault Chat only searches notes that match every filter.'}
+          </div>
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  )
+}
@@ -1,5 +1,6 @@
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu'
 import clsx from 'clsx'
-import { Eye, EyeOff, Wrench } from 'lucide-react'
+import { ChevronDown, Eye, EyeOff, Wrench } from 'lucide-react'
 import { useCallback, useEffect, useState } from 'react'
 
 import { useApp } from '../../../contexts/app-context'
@@ -7,9 +8,38 @@ import { useMcp } from '../../../contexts/mcp-context'
 import { usePlugin } from '../../../contexts/plugin-context'
 import { useSettings } from '../../../contexts/settings-context'
 import { McpManager } from '../../../core/mcp/mcpManager'
+import { ToolMode } from '../../../types/llm/request'
 import { McpSectionModal } from '../../modals/McpSectionModal'
 
-export default function ToolBadge() {
+const TOOL_MODE_OPTIONS: {
+  mode: ToolMode
+  label: string
+  description: string
+}[] = [
+  {
+    mode: 'full',
+    label: 'Full',
+    description: 'Read, edit, rename and delete notes',
+  },
+  {
+    mode: 'edit',
+    label: 'Edit',
+    description: 'Read and edit notes, but not rename or delete them',
+  },
+  {
+    mode: 'read-only',
+    label: 'Read-only',
+    description: 'Read and search only, no changes to the vault',
+  },
+]
+
+export default function ToolBadge({
+  toolMode = 'full',
+  onToolModeChange,
+}: {
+  toolMode?: ToolMode
+  onToolModeChange?: (mode: ToolMode) => void
+}) {
   const plugin = usePlugin()
   const app = useApp()
   const { settings, setSettings } = useSettings()
@@ -18,6 +48,14 @@ export default function ToolBadge() {
   const [mcpManager, setMcpManager] = useState<McpManager | null>(null)
   const [toolCount, setToolCount] = useState(0)
 
+  // Modes are enforced by the backend agent; other providers ignore them
+  const isBackendModel =
+    settings.chatModels.find((model) => model.id === settings.chatModelId)
+      ?.providerType === 'backend'
+  const currentModeOption =
+    TOOL_MODE_OPTIONS.find((option) => option.mode === toolMode) ??
+    TOOL_MODE_OPTIONS[0]
+
   const handleBadgeClick = useCallback(() => {
     new McpSectionModal(app, plugin).open()
   }, [plugin, app])
@@ -79,6 +117,39 @@ export default function ToolBadge() {
           Tools ({toolCount})
         </span>
       </div>
+      {isBackendModel && onToolModeChange && (
+        <DropdownMenu.Root>
+          <DropdownMenu.Trigger asChild>
+            <div
+              className={clsx(
+                'smtcmp-chat-user-input-file-badge-mode',
+                toolMode !== 'full' &&
+                  'smtcmp-chat-user-input-file-badge-mode-restricted',
+              )}
+              title={currentModeOption.description}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {currentModeOption.label}
+              <ChevronDown size={10} />
+            </div>
+          </DropdownMenu.Trigger>
+          <DropdownMenu.Portal>
+            <DropdownMenu.Content className="smtcmp-popover">
+              <ul>
+                {TOOL_MODE_OPTIONS.map((option) => (
+                  <DropdownMenu.Item
+                    key={option.mode}
+                    onSelect={() => onToolModeChange(option.mode)}
+                    asChild
+                  >
+                    <li title={option.description}>{option.label}</li>
+                  </DropdownMenu.Item>
+                ))}
+              </ul>
+            </DropdownMenu.Content>
+          </DropdownMenu.Portal>
+        </DropdownMenu.Root>
+      )}
       <div
         className="smtcmp-chat-user-input-file-badge-eye"
         onClick={handleToolToggle}
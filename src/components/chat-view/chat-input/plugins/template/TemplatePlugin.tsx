@@ -9,9 +9,10 @@ import {
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { createPortal } from 'react-dom'
 
+import { useSkills } from '../../../../../contexts/skills-context'
 import { Template } from '../../../../../database/json/template/types'
 import { useTemplateManager } from '../../../../../hooks/useJsonManagers'
-import { useSkills, Skill, SlashCommand } from '../../../../../hooks/useSkills'
+import { Skill, SlashCommand } from '../../../../../hooks/useSkills'
 import { MenuOption } from '../shared/LexicalMenu'
 import {
   LexicalTypeaheadMenuPlugin,
@@ -132,8 +133,11 @@ export default function TemplatePlugin() {
     // Add skills
     const matchingSkills = queryString != null ? searchSkills(queryString) : skills
     for (const skill of matchingSkills) {
+      const desc = skill.argumentHint
+        ? `${skill.description} ${skill.argumentHint}`
+        : skill.description
       result.push(
-        new SlashCommandOption(skill.name, skill.description, 'skill', skill)
+        new SlashCommandOption(skill.name, desc, 'skill', skill)
       )
     }
 
@@ -170,8 +174,11 @@ export default function TemplatePlugin() {
             lastNode.selectEnd()
           }
         } else if (selectedOption.type === 'skill' && selectedOption.skill) {
-          // For skills, replace with the skill command text
-          const skillCommand = `Run the "${selectedOption.skill.name}" skill`
+          // For skills, replace with the skill command text. Skills that
+          // take arguments are invoked as /name so they can be validated.
+          const skillCommand = selectedOption.skill.argumentHint
+            ? `/${selectedOption.skill.name} `
+            : `Run the "${selectedOption.skill.name}" skill`
           if (nodeToRemove) {
             const textNode = $createTextNode(skillCommand)
             nodeToRemove.replace(textNode)
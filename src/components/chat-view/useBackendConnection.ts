@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react'
+
+import { webSocketClient } from '../../core/backend/instance'
+
+/** Whether the backend WebSocket is connected, updated as it drops and returns */
+export function useBackendConnection(): boolean {
+  const [isConnected, setIsConnected] = useState(
+    () => webSocketClient.isConnected,
+  )
+
+  useEffect(() => {
+    const handleConnect = () => setIsConnected(true)
+    const handleDisconnect = () => setIsConnected(false)
+    webSocketClient.on('connect', handleConnect)
+    webSocketClient.on('disconnect', handleDisconnect)
+    // The state may have changed before the listeners were added
+    setIsConnected(webSocketClient.isConnected)
+    return () => {
+      webSocketClient.off('connect', handleConnect)
+      webSocketClient.off('disconnect', handleDisconnect)
+    }
+  }, [])
+
+  return isConnected
+}
+
+export type BackendReconnect = {
+  attempt: number
+  // Whole seconds until the next attempt
+  secondsLeft: number
+}
+
+/** The scheduled reconnect while the backend is unreachable, counting down */
+export function useBackendReconnect(): BackendReconnect | null {
+  const [scheduled, setScheduled] = useState<{
+    attempt: number
+    retryAt: number
+  } | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const handleReconnecting = (attempt: unknown, delay: unknown) => {
+      setScheduled({
+        attempt: attempt as number,
+        retryAt: Date.now() + (delay as number),
+      })
+      setNow(Date.now())
+    }
+    const handleConnect = () => setScheduled(null)
+    webSocketClient.on('reconnecting', handleReconnecting)
+    webSocketClient.on('connect', handleConnect)
+    return () => {
+      webSocketClient.off('reconnecting', handleReconnecting)
+      webSocketClient.off('connect', handleConnect)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!scheduled) return
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [scheduled])
+
+  if (!scheduled) return null
+  return {
+    attempt: scheduled.attempt,
+    secondsLeft: Math.max(0, Math.ceil((scheduled.retryAt - now) / 1000)),
+  }
+}
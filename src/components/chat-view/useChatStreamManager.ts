@@ -14,7 +14,7 @@ import {
   LLMModelNotFoundException,
 } from '../../core/llm/exception'
 import { getChatModelClient } from '../../core/llm/manager'
-import { ChatMessage, ChatUserMessage } from '../../types/chat'
+import { ChatMessage, ChatUserMessage, ForkPoint } from '../../types/chat'
 import { PromptGenerator } from '../../utils/chat/promptGenerator'
 import { ResponseGenerator } from '../../utils/chat/responseGenerator'
 import { ErrorModal } from '../modals/ErrorModal'
@@ -25,14 +25,19 @@ type UseChatStreamManagerParams = {
   promptGenerator: PromptGenerator
 }
 
+export type SubmitChatParams = {
+  chatMessages: ChatMessage[]
+  conversationId: string
+  /** Branch the backend agent resumes, if the conversation has been forked */
+  branchId?: string
+  /** Set on a new branch's first message to copy the parent's history */
+  forkFrom?: ForkPoint
+}
+
 export type UseChatStreamManager = {
   abortActiveStreams: () => void
   detachActiveStream: (conversationId: string) => void
-  submitChatMutation: UseMutationResult<
-    void,
-    Error,
-    { chatMessages: ChatMessage[]; conversationId: string }
-  >
+  submitChatMutation: UseMutationResult<void, Error, SubmitChatParams>
   sendInterrupt: (prompt?: string) => void
   sendAside: (message: string) => void
 }
@@ -137,10 +142,9 @@ export function useChatStreamManager({
     mutationFn: async ({
       chatMessages,
       conversationId,
-    }: {
-      chatMessages: ChatMessage[]
-      conversationId: string
-    }) => {
+      branchId,
+      forkFrom,
+    }: SubmitChatParams) => {
       const lastMessage = chatMessages.at(-1)
       if (!lastMessage) {
         // chatMessages is empty
@@ -156,6 +160,9 @@ export function useChatStreamManager({
       try {
         const mcpManager = await getMcpManager()
         const clientId = await getClientId(app)
+        const lastUserMessage = [...chatMessages]
+          .reverse()
+          .find((message): message is ChatUserMessage => message.role === 'user')
         const responseGenerator = new ResponseGenerator({
           providerClient,
           model,
@@ -167,6 +174,12 @@ export function useChatStreamManager({
           mcpManager,
           abortSignal: abortController.signal,
           clientId,
+          toolPolicies: settings.toolApprovals,
+          toolAccess: lastUserMessage?.toolMode
+            ? { mode: lastUserMessage.toolMode }
+            : undefined,
+          backendConversationId: branchId,
+          forkFrom,
           onSessionCreated: async (sessionId: string) => {
             // Persist the session ID so we can resume after Obsidian restart
             await plugin.pendingSessionStore.add(sessionId, conversationId)
@@ -201,10 +214,15 @@ export function useChatStreamManager({
                   (m): m is ChatMessage & { isAside: true } =>
                     m.role === 'user' && (m as ChatUserMessage).isAside === true,
                 )
+              // Likewise messages waiting in the outbox, which stay last
+              const queued = prevChatMessages
+                .slice(lastMessageIndex + 1)
+                .filter((m) => m.role === 'user' && m.queued)
               return [
                 ...prevChatMessages.slice(0, lastMessageIndex + 1),
                 ...responseMessages,
                 ...asides,
+                ...queued,
               ]
             })
             requestAnimationFrame(() => autoScrollToBottom())
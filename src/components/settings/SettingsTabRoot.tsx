@@ -7,6 +7,7 @@ import { ObsidianSetting } from '../common/ObsidianSetting'
 import { ChatSection } from './sections/ChatSection'
 import { EtcSection } from './sections/EtcSection'
 import { McpSection } from './sections/McpSection'
+import { MemorySection } from './sections/MemorySection'
 import { ModelsSection } from './sections/ModelsSection'
 import { ProvidersSection } from './sections/ProvidersSection'
 import { RAGSection } from './sections/RAGSection'
@@ -40,6 +41,7 @@ export function SettingsTabRoot({ app, plugin }: SettingsTabRootProps) {
       <RAGSection app={app} plugin={plugin} />
       <McpSection app={app} plugin={plugin} />
       <TemplateSection app={app} />
+      <MemorySection app={app} />
       <EtcSection app={app} plugin={plugin} />
     </>
   )
@@ -69,7 +69,7 @@ function EmbeddingDbManagerModalComponentWrapper({
       >
         <DatabaseProvider getDatabaseManager={() => plugin.getDbManager()}>
           <QueryClientProvider client={queryClient}>
-            <EmbeddingDbManageModalComponent />
+            <EmbeddingDbManageModalComponent plugin={plugin} />
           </QueryClientProvider>
         </DatabaseProvider>
       </SettingsProvider>
@@ -77,7 +77,11 @@ function EmbeddingDbManagerModalComponentWrapper({
   )
 }
 
-function EmbeddingDbManageModalComponent() {
+function EmbeddingDbManageModalComponent({
+  plugin,
+}: {
+  plugin: SmartComposerPlugin
+}) {
   const { getVectorManager } = useDatabase()
   const { settings } = useSettings()
   const [indexProgressMap, setIndexProgressMap] = useState<
@@ -106,12 +110,32 @@ function EmbeddingDbManageModalComponent() {
   })
 
   const handleRebuildIndex = async (modelId: string) => {
+    const setProgress = (progress: IndexProgress) => {
+      setIndexProgressMap((prev) => {
+        const newMap = new Map(prev)
+        newMap.set(modelId, progress)
+        return newMap
+      })
+    }
     try {
+      // The current model's index is kept up to date by the background
+      // indexer, which has to know it was rebuilt
+      if (modelId === settings.embeddingModelId) {
+        await plugin.backgroundIndexer.updateVaultIndex(
+          { reindexAll: true },
+          (queryProgress) => {
+            if (queryProgress.type === 'indexing') {
+              setProgress(queryProgress.indexProgress)
+            }
+          },
+        )
+        return
+      }
+
       const embeddingModel = getEmbeddingModelClient({
         settings,
         embeddingModelId: modelId,
       })
-
       await (
         await getVectorManager()
       ).updateVaultIndex(
@@ -122,13 +146,7 @@ function EmbeddingDbManageModalComponent() {
           includePatterns: settings.ragOptions.includePatterns,
           reindexAll: true,
         },
-        (progress) => {
-          setIndexProgressMap((prev) => {
-            const newMap = new Map(prev)
-            newMap.set(modelId, progress)
-            return newMap
-          })
-        },
+        setProgress,
       )
     } catch (error) {
       console.error(error)
@@ -145,6 +163,12 @@ function EmbeddingDbManageModalComponent() {
 
   const handleRemoveIndex = async (modelId: string) => {
     try {
+      // Tell the background indexer, which would otherwise take the current
+      // model's index as still built and only index new edits into it
+      if (modelId === settings.embeddingModelId) {
+        await plugin.backgroundIndexer.removeIndex()
+        return
+      }
       const embeddingModel = getEmbeddingModelClient({
         settings,
         embeddingModelId: modelId,
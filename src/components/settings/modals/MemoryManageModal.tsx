@@ -0,0 +1,140 @@
+import clsx from 'clsx'
+import dayjs from 'dayjs'
+import { RefreshCw, Trash2 } from 'lucide-react'
+import { App, Notice } from 'obsidian'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+
+import { MemoryEntry } from '../../../core/memory/memory-entry'
+import { MemoryStore } from '../../../core/memory/MemoryStore'
+import { ReactModal } from '../../common/ReactModal'
+
+type MemoryManageModalComponentProps = {
+  app: App
+}
+
+export class MemoryManageModal extends ReactModal<MemoryManageModalComponentProps> {
+  constructor(app: App) {
+    super({
+      app: app,
+      Component: MemoryManageModalComponent,
+      props: { app },
+      options: {
+        title: 'Manage Memory',
+      },
+    })
+    this.modalEl.style.width = '720px'
+  }
+}
+
+function MemoryManageModalComponent({ app }: MemoryManageModalComponentProps) {
+  const memoryStore = useMemo(() => new MemoryStore(app), [app])
+  const [entries, setEntries] = useState<MemoryEntry[] | null>(null)
+  const [isFetching, setIsFetching] = useState(false)
+  const [filter, setFilter] = useState('')
+
+  const refresh = useCallback(async () => {
+    setIsFetching(true)
+    try {
+      setEntries(await memoryStore.list())
+    } catch (error) {
+      console.error(error)
+      new Notice('Failed to load memory')
+    } finally {
+      setIsFetching(false)
+    }
+  }, [memoryStore])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const handleForget = async (id: string) => {
+    try {
+      await memoryStore.forget(id)
+      setEntries((prev) => prev?.filter((entry) => entry.id !== id) ?? null)
+    } catch (error) {
+      console.error(error)
+      new Notice('Failed to delete memory')
+    }
+  }
+
+  const visibleEntries = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    if (!entries || !needle) return entries ?? []
+    return entries.filter(
+      (entry) =>
+        entry.content.toLowerCase().includes(needle) ||
+        entry.tags.some((tag) => tag.includes(needle)),
+    )
+  }, [entries, filter])
+
+  if (!entries) {
+    return <div>Loading...</div>
+  }
+
+  return (
+    <div className="smtcmp-settings-memory-manage-root">
+      <div className="smtcmp-settings-memory-manage-header">
+        <input
+          type="text"
+          placeholder="Filter memories"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        <span className="smtcmp-settings-memory-manage-count">
+          {visibleEntries.length} of {entries.length}
+        </span>
+        <button
+          className="clickable-icon"
+          aria-label="Refresh"
+          onClick={() => refresh()}
+          disabled={isFetching}
+        >
+          <RefreshCw size={16} className={clsx(isFetching && 'spinner')} />
+        </button>
+      </div>
+      {visibleEntries.length === 0 ? (
+        <div className="smtcmp-settings-memory-manage-empty">
+          {entries.length === 0
+            ? 'No memories yet. The agent saves them with memory_add.'
+            : 'No memories match the filter.'}
+        </div>
+      ) : (
+        <table className="smtcmp-settings-memory-manage-table">
+          <thead>
+            <tr>
+              <th>Memory</th>
+              <th>Tags</th>
+              <th>Created</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {visibleEntries.map((entry) => (
+              <tr key={entry.id}>
+                <td className="smtcmp-settings-memory-manage-content">
+                  {entry.content}
+                </td>
+                <td>{entry.tags.join(', ')}</td>
+                <td>
+                  {entry.created
+                    ? dayjs(entry.created).format('YYYY-MM-DD HH:mm')
+                    : ''}
+                </td>
+                <td>
+                  <button
+                    className="clickable-icon"
+                    aria-label="Delete memory"
+                    onClick={() => handleForget(entry.id)}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -9,6 +9,30 @@ import { ObsidianTextArea } from '../../common/ObsidianTextArea'
 import { ObsidianTextInput } from '../../common/ObsidianTextInput'
 import { ObsidianToggle } from '../../common/ObsidianToggle'
 
+const TOOL_APPROVAL_OPTIONS = {
+  ask: 'Ask every time',
+  allow: 'Always allow',
+  deny: 'Never allow',
+}
+
+const TOOL_APPROVAL_SETTINGS = [
+  {
+    tool: 'vault_write',
+    name: 'Approve file writes',
+    desc: 'When the backend agent creates or overwrites a note.',
+  },
+  {
+    tool: 'vault_rename',
+    name: 'Approve file moves',
+    desc: 'When the backend agent renames or moves a note.',
+  },
+  {
+    tool: 'vault_delete',
+    name: 'Approve file deletions',
+    desc: 'When the backend agent deletes a note.',
+  },
+] as const
+
 export function ChatSection() {
   const { settings, setSettings } = useSettings()
 
@@ -140,7 +164,7 @@ export function ChatSection() {
 
       <ObsidianSetting
         name="External resource directory"
-        desc="Vault-relative path to directory containing external PDFs and resources (e.g., 'cookbooks/'). Used for linking citations to source files."
+        desc="Vault-relative path to directory containing external PDFs and resources (e.g., 'cookbooks/'). PDFs here are indexed with the embedding model for cookbook search, which cites them by page."
       >
         <ObsidianTextInput
           value={settings.externalResourceDir}
@@ -152,6 +176,24 @@ export function ChatSection() {
           }}
         />
       </ObsidianSetting>
+
+      {TOOL_APPROVAL_SETTINGS.map(({ tool, name, desc }) => (
+        <ObsidianSetting key={tool} name={name} desc={desc}>
+          <ObsidianDropdown
+            value={settings.toolApprovals[tool]}
+            options={TOOL_APPROVAL_OPTIONS}
+            onChange={async (value) => {
+              await setSettings({
+                ...settings,
+                toolApprovals: {
+                  ...settings.toolApprovals,
+                  [tool]: value as keyof typeof TOOL_APPROVAL_OPTIONS,
+                },
+              })
+            }}
+          />
+        </ObsidianSetting>
+      ))}
     </div>
   )
 }
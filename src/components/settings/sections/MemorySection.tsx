@@ -0,0 +1,35 @@
+import { App } from 'obsidian'
+
+import { ObsidianButton } from '../../common/ObsidianButton'
+import { ObsidianSetting } from '../../common/ObsidianSetting'
+import { MemoryManageModal } from '../modals/MemoryManageModal'
+
+type MemorySectionProps = {
+  app: App
+}
+
+export function MemorySection({ app }: MemorySectionProps) {
+  return (
+    <div className="smtcmp-settings-section">
+      <div className="smtcmp-settings-header">Memory</div>
+
+      <div className="smtcmp-settings-desc">
+        The agent saves facts worth remembering with its memory tools, one file
+        per entry in <code>.claude/memory/</code>. Only the entries relevant to
+        a prompt are sent with it.
+      </div>
+
+      <ObsidianSetting
+        name="Manage memory"
+        desc="Browse saved memories and delete the ones that are wrong or outdated"
+      >
+        <ObsidianButton
+          text="Manage"
+          onClick={() => {
+            new MemoryManageModal(app).open()
+          }}
+        />
+      </ObsidianSetting>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { ObsidianDropdown } from '../../common/ObsidianDropdown'
 import { ObsidianSetting } from '../../common/ObsidianSetting'
 import { ObsidianTextArea } from '../../common/ObsidianTextArea'
 import { ObsidianTextInput } from '../../common/ObsidianTextInput'
+import { ObsidianToggle } from '../../common/ObsidianToggle'
 import { EmbeddingDbManageModal } from '../modals/EmbeddingDbManageModal'
 import { ExcludedFilesModal } from '../modals/ExcludedFilesModal'
 import { IncludedFilesModal } from '../modals/IncludedFilesModal'
@@ -120,11 +121,11 @@ export function RAGSection({ app, plugin }: RAGSectionProps) {
 
       <ObsidianSetting
         name="Chunk size"
-        desc="Set the chunk size for text splitting. After changing this, please re-index the vault using the 'Rebuild entire vault index' command."
+        desc="Maximum tokens per chunk. Notes are split at their headings first, so chunks can be smaller. The vault is re-indexed in the background after a change."
       >
         <ObsidianTextInput
           value={String(settings.ragOptions.chunkSize)}
-          placeholder="1000"
+          placeholder="250"
           onChange={async (value) => {
             const chunkSize = parseInt(value, 10)
             if (!isNaN(chunkSize)) {
@@ -212,6 +213,224 @@ export function RAGSection({ app, plugin }: RAGSectionProps) {
         />
       </ObsidianSetting>
 
+      <ObsidianSetting
+        name="Rewrite follow-up questions"
+        desc="Before a vault search, rewrite the message into a standalone query using the conversation, so follow-ups like “what about the second one?” find the right notes."
+      >
+        <ObsidianToggle
+          value={settings.ragOptions.queryRewriting}
+          onChange={async (value) => {
+            await setSettings({
+              ...settings,
+              ragOptions: {
+                ...settings.ragOptions,
+                queryRewriting: value,
+              },
+            })
+          }}
+        />
+      </ObsidianSetting>
+
+      <ObsidianSetting
+        name="Query expansion"
+        desc="Also search for sub-queries of a broad question, or for a hypothetical answer (HyDE), and merge the results."
+      >
+        <ObsidianDropdown
+          value={settings.ragOptions.queryExpansion}
+          options={{
+            none: 'None',
+            'sub-queries': 'Sub-queries',
+            hyde: 'Hypothetical answer',
+          }}
+          onChange={async (value) => {
+            await setSettings({
+              ...settings,
+              ragOptions: {
+                ...settings.ragOptions,
+                queryExpansion:
+                  value as typeof settings.ragOptions.queryExpansion,
+              },
+            })
+          }}
+        />
+      </ObsidianSetting>
+
+      {(settings.ragOptions.queryRewriting ||
+        settings.ragOptions.queryExpansion !== 'none') && (
+        <ObsidianSetting
+          name="Query planning model"
+          desc="Chat model that rewrites and expands search queries. The backend agent can't; with it as the current chat model, messages are searched as written."
+        >
+          <ObsidianDropdown
+            value={settings.ragOptions.queryPlanModelId}
+            options={{
+              '': 'Current chat model',
+              ...Object.fromEntries(
+                settings.chatModels
+                  .filter(
+                    ({ enable, providerType }) =>
+                      (enable ?? true) && providerType !== 'backend',
+                  )
+                  .map((chatModel) => [chatModel.id, chatModel.id]),
+              ),
+            }}
+            onChange={async (value) => {
+              await setSettings({
+                ...settings,
+                ragOptions: {
+                  ...settings.ragOptions,
+                  queryPlanModelId: value,
+                },
+              })
+            }}
+          />
+        </ObsidianSetting>
+      )}
+
+      <ObsidianSetting
+        name="Diversify results"
+        desc="Skip results that repeat ones already picked, using maximal marginal relevance (MMR). More candidates are fetched to choose from."
+      >
+        <ObsidianToggle
+          value={settings.ragOptions.mmrEnabled}
+          onChange={async (value) => {
+            await setSettings({
+              ...settings,
+              ragOptions: {
+                ...settings.ragOptions,
+                mmrEnabled: value,
+              },
+            })
+          }}
+        />
+      </ObsidianSetting>
+
+      {settings.ragOptions.mmrEnabled && (
+        <ObsidianSetting
+          name="Diversity trade-off"
+          desc="Between 0 and 1. 1 ranks by relevance only; lower values skip similar results more eagerly."
+        >
+          <ObsidianTextInput
+            value={String(settings.ragOptions.mmrLambda)}
+            placeholder="0.7"
+            onChange={async (value) => {
+              // Allow decimal point and numbers only
+              if (!/^[0-9.]*$/.test(value)) return
+
+              // Ignore typing decimal point to prevent interference with the input
+              if (value === '.' || value.endsWith('.')) return
+
+              const mmrLambda = parseFloat(value)
+              if (!isNaN(mmrLambda) && mmrLambda >= 0 && mmrLambda <= 1) {
+                await setSettings({
+                  ...settings,
+                  ragOptions: {
+                    ...settings.ragOptions,
+                    mmrLambda,
+                  },
+                })
+              }
+            }}
+          />
+        </ObsidianSetting>
+      )}
+
+      <ObsidianSetting
+        name="Reranker"
+        desc="Score the nearest results again before picking them. More accurate than similarity alone, but adds a request to every vault search."
+      >
+        <ObsidianDropdown
+          value={settings.ragOptions.reranker}
+          options={{
+            none: 'None',
+            'chat-model': 'Chat model',
+            endpoint: 'Rerank endpoint',
+          }}
+          onChange={async (value) => {
+            await setSettings({
+              ...settings,
+              ragOptions: {
+                ...settings.ragOptions,
+                reranker: value as typeof settings.ragOptions.reranker,
+              },
+            })
+          }}
+        />
+      </ObsidianSetting>
+
+      {settings.ragOptions.reranker === 'chat-model' && (
+        <ObsidianSetting
+          name="Reranking model"
+          desc="Chat model that rates the results. A small, fast model is usually enough."
+        >
+          <ObsidianDropdown
+            value={settings.ragOptions.rerankModelId}
+            options={{
+              '': 'Select a model',
+              ...Object.fromEntries(
+                settings.chatModels
+                  .filter(
+                    ({ enable, providerType }) =>
+                      (enable ?? true) && providerType !== 'backend',
+                  )
+                  .map((chatModel) => [chatModel.id, chatModel.id]),
+              ),
+            }}
+            onChange={async (value) => {
+              await setSettings({
+                ...settings,
+                ragOptions: {
+                  ...settings.ragOptions,
+                  rerankModelId: value,
+                },
+              })
+            }}
+          />
+        </ObsidianSetting>
+      )}
+
+      {settings.ragOptions.reranker === 'endpoint' && (
+        <ObsidianSetting
+          name="Rerank endpoint"
+          desc="URL of a /rerank endpoint: Cohere, Jina, or a local llama.cpp, Infinity or Text Embeddings Inference server."
+        >
+          <ObsidianTextInput
+            value={settings.ragOptions.rerankEndpoint}
+            placeholder="http://localhost:8080/rerank"
+            onChange={async (value) => {
+              await setSettings({
+                ...settings,
+                ragOptions: {
+                  ...settings.ragOptions,
+                  rerankEndpoint: value,
+                },
+              })
+            }}
+          />
+        </ObsidianSetting>
+      )}
+
+      {settings.ragOptions.reranker === 'endpoint' && (
+        <ObsidianSetting
+          name="Rerank API key"
+          desc="Sent as a bearer token. Needed for hosted endpoints such as Cohere or Jina; leave blank for a local server."
+        >
+          <ObsidianTextInput
+            value={settings.ragOptions.rerankApiKey}
+            placeholder="Enter your API Key"
+            onChange={async (value) => {
+              await setSettings({
+                ...settings,
+                ragOptions: {
+                  ...settings.ragOptions,
+                  rerankApiKey: value,
+                },
+              })
+            }}
+          />
+        </ObsidianSetting>
+      )}
+
       <ObsidianSetting name="Manage Embedding Database">
         <ObsidianButton
           text="Manage"
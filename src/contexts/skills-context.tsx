@@ -0,0 +1,23 @@
+import { PropsWithChildren, createContext, useContext } from 'react'
+
+import { useLoadSkills } from '../hooks/useSkills'
+
+export type SkillsContextType = ReturnType<typeof useLoadSkills>
+
+const SkillsContext = createContext<SkillsContextType | null>(null)
+
+export function SkillsProvider({ children }: PropsWithChildren) {
+  const skills = useLoadSkills()
+
+  return (
+    <SkillsContext.Provider value={skills}>{children}</SkillsContext.Provider>
+  )
+}
+
+export function useSkills() {
+  const context = useContext(SkillsContext)
+  if (!context) {
+    throw new Error('useSkills must be used within a SkillsProvider')
+  }
+  return context
+}
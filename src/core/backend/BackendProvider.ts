@@ -20,7 +20,15 @@ import type {
 	ToolCallDelta,
 } from '../../types/llm/response';
 import type { BackendProviderConfig } from '../../types/provider.types';
+import { parsePartialToolInput } from './partial-tool-input';
+import type {
+	ForkPoint,
+	TokenUsage,
+	ToolAccess,
+	ToolPolicies,
+} from './protocol';
 import { parseToolResult } from './tool-result-formatter';
+import { toResponseUsage } from './usage';
 import type { WebSocketClient } from './WebSocketClient';
 
 /**
@@ -29,21 +37,44 @@ import type { WebSocketClient } from './WebSocketClient';
 function getActivityType(toolName: string): ActivityType {
 	const mapping: Record<string, ActivityType> = {
 		vault_read: 'vault_read',
+		vault_read_binary: 'vault_read_binary',
 		vault_write: 'vault_write',
 		vault_edit: 'vault_edit',
 		vault_search: 'vault_search',
+		vault_semantic_search: 'vault_semantic_search',
 		vault_grep: 'vault_grep',
 		vault_glob: 'vault_glob',
 		vault_list: 'vault_list',
 		vault_rename: 'vault_rename',
 		vault_delete: 'vault_delete',
+		vault_get_properties: 'vault_get_properties',
+		vault_set_properties: 'vault_set_properties',
+		vault_backlinks: 'vault_backlinks',
+		vault_outlinks: 'vault_outlinks',
+		vault_neighbors: 'vault_neighbors',
+		memory_add: 'memory_add',
+		memory_search: 'memory_search',
+		memory_forget: 'memory_forget',
 		web_search: 'web_search',
 		search_cookbooks: 'search_cookbooks',
 		list_cookbook_sources: 'list_cookbook_sources',
+		delegate_task: 'delegate_task',
 	};
 	return mapping[toolName] || 'tool_call';
 }
 
+/**
+ * Tools whose input is shown while it streams in, and the field that holds
+ * the note text being written
+ */
+const STREAMED_CONTENT_FIELDS: Record<string, string> = {
+	vault_write: 'content',
+	vault_edit: 'new_string',
+};
+
+/** Minimum time between live preview updates for one tool call */
+const INPUT_PREVIEW_INTERVAL_MS = 100;
+
 export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 	private lastRequestId: string | null = null;
 
@@ -62,11 +93,17 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 	}
 
 	/**
-	 * Interrupt the current request (cancel the turn)
+	 * Interrupt the current request (cancel the turn). Backends without
+	 * interrupts cancel the request instead, which ends the turn the same
+	 * way but drops any follow-up prompt.
 	 */
 	interruptRequest(prompt?: string): void {
 		if (this.lastRequestId) {
-			this.wsClient.interrupt(this.lastRequestId, prompt);
+			if (this.wsClient.supports('interrupt')) {
+				this.wsClient.interrupt(this.lastRequestId, prompt);
+			} else {
+				this.wsClient.cancelRequest(this.lastRequestId);
+			}
 			this.lastRequestId = null;
 		}
 	}
@@ -118,6 +155,9 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 			images,
 			options?.clientId,
 			options?.conversationId,
+			options?.toolPolicies,
+			options?.toolAccess,
+			options?.forkFrom,
 		);
 
 		return generator;
@@ -196,6 +236,9 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 		images?: Array<{ mimeType: string; base64Data: string }>,
 		clientId?: string,
 		conversationId?: string,
+		toolPolicies?: ToolPolicies,
+		toolAccess?: ToolAccess,
+		forkFrom?: ForkPoint,
 	): AsyncGenerator<LLMResponseStreaming> {
 		// State for accumulating responses
 		const toolCalls: Map<
@@ -206,6 +249,25 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 				arguments: string;
 				result?: string;
 				activityId: string;
+				toolUseId?: string;
+			}
+		> = new Map();
+		// toolUseId -> tool call whose input is still streaming in
+		const streamingInputs: Map<
+			string,
+			{ activityId: string; json: string; lastUpdate: number }
+		> = new Map();
+		// approvalId -> activity awaiting the user's decision
+		const pendingApprovals: Map<
+			string,
+			{ activityId: string; type: ActivityType }
+		> = new Map();
+		// subAgentId -> the delegate_task activity it runs under and its tool calls
+		const subAgents: Map<
+			string,
+			{
+				parentActivityId: string;
+				tools: Array<{ name: string; arguments: string; activityId: string; done: boolean }>;
 			}
 		> = new Map();
 		let isComplete = false;
@@ -318,7 +380,63 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 					enqueueChunk(chunk);
 				},
 
-				onToolStart: (name: string, input: Record<string, unknown>) => {
+				onToolInputDelta: (
+					toolUseId: string,
+					name: string,
+					partialJson: string
+				) => {
+					const contentField = STREAMED_CONTENT_FIELDS[name];
+					if (!contentField) return;
+
+					let streaming = streamingInputs.get(toolUseId);
+					const isFirst = !streaming;
+					if (!streaming) {
+						flushTextBlock();
+						flushReasoningBlock();
+						currentBlockType = 'activity_group';
+						streaming = {
+							activityId: `activity-${requestId}-${toolUseId}`,
+							json: '',
+							lastUpdate: 0,
+						};
+						streamingInputs.set(toolUseId, streaming);
+						currentActivityGroup.push(streaming.activityId);
+					}
+					streaming.json += partialJson;
+
+					const now = Date.now();
+					if (!isFirst && now - streaming.lastUpdate < INPUT_PREVIEW_INTERVAL_MS) {
+						return;
+					}
+					streaming.lastUpdate = now;
+
+					const fields = parsePartialToolInput(streaming.json);
+					const activity: ActivityEvent = {
+						id: streaming.activityId,
+						type: getActivityType(name),
+						status: 'running',
+						startTime: isFirst ? now : 0, // Later updates merge with the first
+						toolName: name,
+						filePath: fields.path,
+						streamingContent: fields[contentField] ?? '',
+					};
+					enqueueChunk({
+						id: requestId,
+						object: 'chat.completion.chunk',
+						model: 'backend',
+						choices: [{ delta: { activity }, finish_reason: null }],
+					});
+
+					// Show the preview now rather than when the next text block
+					// starts; adjacent groups coalesce
+					if (isFirst) flushActivityGroup();
+				},
+
+				onToolStart: (
+					name: string,
+					input: Record<string, unknown>,
+					toolUseId?: string
+				) => {
 					// Track block boundary: flush pending text/reasoning when tool starts
 					flushTextBlock();
 					flushReasoningBlock();
@@ -327,16 +445,21 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 					// Create a tool call entry with backend__ prefix for UI display
 					const index = toolCalls.size;
 					const toolId = `backend-${requestId}-${index}`;
-					const activityId = `activity-${requestId}-${index}`;
+
+					// A call that streamed its input already has an activity on screen
+					const streamed = toolUseId ? streamingInputs.get(toolUseId) : undefined;
+					if (toolUseId) streamingInputs.delete(toolUseId);
+					const activityId = streamed?.activityId ?? `activity-${requestId}-${index}`;
 
 					// Add to current activity group for interspersed layout
-					currentActivityGroup.push(activityId);
+					if (!streamed) currentActivityGroup.push(activityId);
 
 					toolCalls.set(index, {
 						id: toolId,
 						name: `backend__${name}`, // Add prefix so UI knows it's from backend
 						arguments: JSON.stringify(input),
 						activityId,
+						toolUseId,
 					});
 
 					// Send tool call delta to show in UI (legacy)
@@ -361,6 +484,10 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 						filePath: (input.path as string) || (input.old_path as string),
 						oldPath: input.old_path as string,
 						newPath: input.new_path as string,
+						// Show the complete text until the result's diff replaces it
+						...(streamed
+							? { streamingContent: input[STREAMED_CONTENT_FIELDS[name]] as string }
+							: {}),
 					};
 
 					// Track the activity ID so the RPC handler can link snapshots to this activity
@@ -405,6 +532,7 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 								resultCount: parsedResult.resultCount,
 								results: parsedResult.results,
 								diff: parsedResult.diff,
+								streamingContent: undefined,
 							};
 
 							enqueueChunk({
@@ -423,6 +551,154 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 					}
 				},
 
+				onSubAgentToolStart: (
+					subAgentId: string,
+					name: string,
+					input: Record<string, unknown>,
+					parentToolUseId?: string
+				) => {
+					let subAgent = subAgents.get(subAgentId);
+					if (!subAgent) {
+						// A new sub-agent belongs to the delegate_task call that
+						// started it. Servers that don't send its toolUseId get the
+						// earliest call without a sub-agent, which is only right when
+						// delegations don't overlap.
+						const bound = new Set(
+							Array.from(subAgents.values()).map((a) => a.parentActivityId)
+						);
+						const parent = Array.from(toolCalls.values()).find((t) =>
+							parentToolUseId
+								? t.toolUseId === parentToolUseId
+								: t.name === 'backend__delegate_task' &&
+									!t.result &&
+									!bound.has(t.activityId)
+						);
+						if (!parent) return;
+						subAgent = { parentActivityId: parent.activityId, tools: [] };
+						subAgents.set(subAgentId, subAgent);
+					}
+
+					const activityId = `activity-${subAgentId}-${subAgent.tools.length}`;
+					subAgent.tools.push({
+						name,
+						arguments: JSON.stringify(input),
+						activityId,
+						done: false,
+					});
+
+					const activity: ActivityEvent = {
+						id: activityId,
+						type: getActivityType(name),
+						status: 'running',
+						startTime: Date.now(),
+						toolName: name,
+						toolInput: input,
+						filePath: input.path as string,
+						parentActivityId: subAgent.parentActivityId,
+					};
+					enqueueChunk({
+						id: requestId,
+						object: 'chat.completion.chunk',
+						model: 'backend',
+						choices: [{ delta: { activity }, finish_reason: null }],
+					});
+				},
+
+				onSubAgentToolEnd: (subAgentId: string, name: string, result: string) => {
+					const subAgent = subAgents.get(subAgentId);
+					const tool = subAgent?.tools.find((t) => t.name === name && !t.done);
+					if (!subAgent || !tool) return;
+					tool.done = true;
+
+					const parsedResult = parseToolResult(name, result, tool.arguments);
+					const activity: ActivityEvent = {
+						id: tool.activityId,
+						type: getActivityType(name),
+						status: parsedResult.isError ? 'error' : 'complete',
+						startTime: 0, // Will be merged with start event
+						endTime: Date.now(),
+						toolName: name,
+						toolResult: result,
+						errorMessage: parsedResult.isError ? result : undefined,
+						filePath: parsedResult.filePath,
+						resultCount: parsedResult.resultCount,
+						results: parsedResult.results,
+						parentActivityId: subAgent.parentActivityId,
+					};
+					enqueueChunk({
+						id: requestId,
+						object: 'chat.completion.chunk',
+						model: 'backend',
+						choices: [{ delta: { activity }, finish_reason: null }],
+					});
+				},
+
+				onApprovalRequest: (approvalId: string, name: string) => {
+					// The gated call is the most recent unfinished one for this tool
+					const tool = Array.from(toolCalls.values())
+						.reverse()
+						.find((t) => t.name === `backend__${name}` && !t.result);
+					if (!tool) return;
+
+					// Flush the open group so the approval card renders now rather
+					// than when the next text block starts; adjacent groups coalesce
+					flushActivityGroup();
+
+					pendingApprovals.set(approvalId, {
+						activityId: tool.activityId,
+						type: getActivityType(name),
+					});
+					enqueueChunk({
+						id: requestId,
+						object: 'chat.completion.chunk',
+						model: 'backend',
+						choices: [
+							{
+								delta: {
+									activity: {
+										id: tool.activityId,
+										type: getActivityType(name),
+										status: 'running',
+										startTime: 0, // Will be merged with start event
+										approval: { id: approvalId, status: 'pending' },
+									},
+								},
+								finish_reason: null,
+							},
+						],
+					});
+				},
+
+				onApprovalResolved: (approvalId: string, decision, reason) => {
+					const pending = pendingApprovals.get(approvalId);
+					if (!pending) return;
+					pendingApprovals.delete(approvalId);
+
+					enqueueChunk({
+						id: requestId,
+						object: 'chat.completion.chunk',
+						model: 'backend',
+						choices: [
+							{
+								delta: {
+									activity: {
+										id: pending.activityId,
+										type: pending.type,
+										status: 'running',
+										startTime: 0, // Will be merged with start event
+										approval: {
+											id: approvalId,
+											status: decision === 'approve' ? 'approved' : 'denied',
+											reason,
+										},
+									},
+								},
+								finish_reason: null,
+							},
+						],
+					});
+				},
+
 				onThinking: (text: string) => {
 					// Track block boundary: reasoning is its own block type
 					if (currentBlockType !== 'reasoning') {
@@ -467,7 +743,12 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 					enqueueChunk(chunk);
 				},
 
-				onComplete: (result: string) => {
+				onComplete: (
+					result: string,
+					usage?: TokenUsage,
+					reportedModel?: string,
+					checkpoint?: string
+				) => {
 					// Flush any pending content blocks for interspersed layout
 					flushTextBlock();
 					flushActivityGroup();
@@ -500,7 +781,7 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 					const chunk: LLMResponseStreaming = {
 						id: requestId,
 						object: 'chat.completion.chunk',
-						model: 'backend',
+						model: reportedModel ?? 'backend',
 						choices: [
 							{
 								delta: {},
@@ -508,11 +789,14 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 									toolCalls.size > 0 ? 'tool_calls' : 'stop',
 							},
 						],
-						usage: {
-							prompt_tokens: 0,
-							completion_tokens: 0,
-							total_tokens: 0,
-						},
+						usage: usage
+							? toResponseUsage(usage)
+							: {
+									prompt_tokens: 0,
+									completion_tokens: 0,
+									total_tokens: 0,
+								},
+						...(checkpoint ? { checkpoint } : {}),
 					};
 					isComplete = true;
 					enqueueChunk(chunk);
@@ -546,6 +830,9 @@ export class BackendProvider extends BaseLLMProvider<BackendProviderConfig> {
 			images,
 			clientId,
 			conversationId,
+			toolPolicies,
+			toolAccess,
+			forkFrom,
 		);
 
 		// Track request ID for interrupts/asides immediately. Doing this in
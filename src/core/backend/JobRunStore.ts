@@ -0,0 +1,119 @@
+/**
+ * JobRunStore
+ *
+ * Tracks runs of the vault's scheduled jobs (.claude/jobs/*.md), which the
+ * backend reports as session_info messages tagged with their job. Opening a
+ * finished run replays its session into a regular chat conversation, so it
+ * can be reviewed and continued like any other.
+ */
+
+import type { App } from 'obsidian'
+
+import { ChatManager } from '../../database/json/chat/ChatManager'
+import { SerializedChatMessage } from '../../types/chat'
+
+import type { SessionInfoMessage, SessionReplayMessage } from './protocol'
+import { eventsToMessages } from './session-recovery'
+import type { WebSocketClient } from './WebSocketClient'
+
+export type JobRun = {
+  sessionId: string
+  conversationId: string
+  jobId: string
+  jobName: string
+  status: SessionInfoMessage['status']
+  createdAt: number
+  completedAt?: number
+}
+
+const REPLAY_TIMEOUT_MS = 30 * 1000
+
+export function jobRunTitle(run: JobRun): string {
+  return `${run.jobName} · ${new Date(run.createdAt).toLocaleString()}`
+}
+
+export class JobRunStore {
+  private runs = new Map<string, JobRun>()
+  private listeners = new Set<() => void>()
+
+  constructor(
+    private app: App,
+    private client: WebSocketClient,
+  ) {}
+
+  /** Record a job run from session_info; sessions started by prompts are ignored */
+  handleSessionInfo(info: SessionInfoMessage): void {
+    if (!info.job) return
+
+    this.runs.set(info.sessionId, {
+      sessionId: info.sessionId,
+      conversationId: info.conversationId,
+      jobId: info.job.id,
+      jobName: info.job.name,
+      status: info.status,
+      createdAt: info.createdAt,
+      completedAt: info.completedAt,
+    })
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+
+  /** Newest first */
+  getAll(): JobRun[] {
+    return Array.from(this.runs.values()).sort(
+      (a, b) => b.createdAt - a.createdAt,
+    )
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Make sure a finished run exists as a chat conversation, replaying its
+   * session from the backend the first time it is opened.
+   */
+  async open(run: JobRun, clientId: string): Promise<void> {
+    const chatManager = new ChatManager(this.app)
+    if (await chatManager.findById(run.conversationId)) return
+
+    const replay = await this.replay(run.sessionId, clientId)
+    const messages: SerializedChatMessage[] = eventsToMessages(
+      replay.events,
+    ).filter((message) => message.role === 'assistant')
+    await chatManager.createChat({
+      id: run.conversationId,
+      title: jobRunTitle(run),
+      messages,
+    })
+  }
+
+  private replay(
+    sessionId: string,
+    clientId: string,
+  ): Promise<SessionReplayMessage> {
+    return new Promise((resolve, reject) => {
+      const handler = (msg: unknown) => {
+        const replay = msg as SessionReplayMessage
+        if (replay.sessionId !== sessionId) return
+        done()
+        resolve(replay)
+      }
+      const timeout = setTimeout(() => {
+        done()
+        reject(new Error(`Timed out replaying session ${sessionId}`))
+      }, REPLAY_TIMEOUT_MS)
+      const done = () => {
+        clearTimeout(timeout)
+        this.client.off('session_replay', handler)
+      }
+
+      this.client.on('session_replay', handler)
+      this.client.resumeSession(sessionId, clientId, {})
+    })
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * OutboxSender
+ *
+ * Sends prompts from the outbox (see PendingSessionStore) once the backend is
+ * reachable again, for conversations no chat view has open. A prompt queued
+ * in one conversation doesn't wait for the user to reopen it. The open
+ * conversation's prompts are sent by its chat view, which shows the reply as
+ * it streams.
+ *
+ * Prompts are sent one at a time in the order they were written; each reply
+ * is saved to its conversation right after the prompt.
+ */
+
+import type { App } from 'obsidian'
+
+import { ChatManager } from '../../database/json/chat/ChatManager'
+import { SmartComposerSettings } from '../../settings/schema/setting.types'
+import { ChatMessage, ChatUserMessage } from '../../types/chat'
+import { PromptGenerator } from '../../utils/chat/promptGenerator'
+import { ResponseGenerator } from '../../utils/chat/responseGenerator'
+import {
+  deserializeChatMessage,
+  serializeChatMessage,
+} from '../../utils/chat/serialization'
+import { getChatModelClient } from '../llm/manager'
+import type { McpManager } from '../mcp/mcpManager'
+import type { RAGEngine } from '../rag/ragEngine'
+
+import { getClientId } from './client-id'
+import type { PendingSessionStore, QueuedPrompt } from './PendingSessionStore'
+
+export class OutboxSender {
+  // Conversations open in a chat view, counted per view
+  private openConversations = new Map<string, number>()
+  private sendingConversationId: string | null = null
+  private sentListeners = new Set<(conversationId: string) => void>()
+  private isDraining = false
+  private abortController = new AbortController()
+
+  constructor(
+    private app: App,
+    private pendingSessionStore: PendingSessionStore,
+    private getSettings: () => SmartComposerSettings,
+    private getRAGEngine: () => Promise<RAGEngine>,
+    private getMcpManager: () => Promise<McpManager>,
+  ) {}
+
+  /**
+   * Mark a conversation as open in a chat view, which sends its prompts
+   * itself. Returns a function that marks it closed again.
+   */
+  open(conversationId: string): () => void {
+    this.openConversations.set(
+      conversationId,
+      (this.openConversations.get(conversationId) ?? 0) + 1,
+    )
+    return () => {
+      const count = (this.openConversations.get(conversationId) ?? 1) - 1
+      if (count > 0) {
+        this.openConversations.set(conversationId, count)
+      } else {
+        this.openConversations.delete(conversationId)
+      }
+    }
+  }
+
+  /** Whether a prompt of this conversation is being sent in the background */
+  isSending(conversationId: string): boolean {
+    return this.sendingConversationId === conversationId
+  }
+
+  /** Called with the conversation after a reply is saved to it */
+  onSent(listener: (conversationId: string) => void): () => void {
+    this.sentListeners.add(listener)
+    return () => {
+      this.sentListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Send the queued prompts of conversations that aren't open. Stops at the
+   * first failure; the prompt stays queued for the next reconnect.
+   */
+  async drain(): Promise<void> {
+    if (this.isDraining) return
+    this.isDraining = true
+    try {
+      for (;;) {
+        const prompt = this.pendingSessionStore
+          .getQueued()
+          .find(
+            ({ conversationId }) => !this.openConversations.has(conversationId),
+          )
+        if (!prompt || this.abortController.signal.aborted) return
+
+        this.sendingConversationId = prompt.conversationId
+        try {
+          await this.send(prompt)
+        } catch (error) {
+          console.error('[OutboxSender] Failed to send queued prompt:', error)
+          return
+        } finally {
+          this.sendingConversationId = null
+        }
+        for (const listener of this.sentListeners) {
+          listener(prompt.conversationId)
+        }
+      }
+    } finally {
+      this.isDraining = false
+    }
+  }
+
+  /** Abort the prompt being sent, when the plugin unloads */
+  stop(): void {
+    this.abortController.abort()
+  }
+
+  private async send({ messageId, conversationId }: QueuedPrompt) {
+    const chatManager = new ChatManager(this.app)
+    const conversation = await chatManager.findById(conversationId)
+    const index =
+      conversation?.messages.findIndex((message) => message.id === messageId) ??
+      -1
+    if (!conversation || index === -1) {
+      // The conversation or the message was deleted
+      await this.pendingSessionStore.dequeue(messageId)
+      return
+    }
+
+    const settings = this.getSettings()
+    const { providerClient, model } = getChatModelClient({
+      settings,
+      modelId: settings.chatModelId,
+    })
+    const promptGenerator = new PromptGenerator(
+      this.getRAGEngine,
+      this.app,
+      settings,
+    )
+
+    const history = conversation.messages
+      .slice(0, index)
+      .map((message) => deserializeChatMessage(message, this.app))
+    const message = {
+      ...deserializeChatMessage(conversation.messages[index], this.app),
+      queued: undefined,
+    } as ChatUserMessage
+    const { promptContent, similaritySearchResults } =
+      await promptGenerator.compileUserMessagePrompt({
+        message,
+        chatHistory: history,
+      })
+    const compiledMessage = {
+      ...message,
+      promptContent,
+      similaritySearchResults,
+    }
+
+    const responseGenerator = new ResponseGenerator({
+      providerClient,
+      model,
+      messages: [...history, compiledMessage],
+      conversationId,
+      enableTools: settings.chatOptions.enableTools,
+      maxAutoIterations: settings.chatOptions.maxAutoIterations,
+      promptGenerator,
+      mcpManager: await this.getMcpManager(),
+      abortSignal: this.abortController.signal,
+      clientId: await getClientId(this.app),
+      toolPolicies: settings.toolApprovals,
+      toolAccess: message.toolMode ? { mode: message.toolMode } : undefined,
+      backendConversationId: conversation.activeBranchId ?? conversationId,
+      onSessionCreated: async (sessionId: string) => {
+        await this.pendingSessionStore.add(sessionId, conversationId)
+      },
+    })
+    let responseMessages: ChatMessage[] = []
+    const unsubscribe = responseGenerator.subscribe((messages) => {
+      responseMessages = messages
+    })
+    try {
+      await responseGenerator.run()
+    } finally {
+      unsubscribe()
+      const pendingSession =
+        this.pendingSessionStore.getByConversation(conversationId)
+      if (pendingSession) {
+        await this.pendingSessionStore.remove(pendingSession.sessionId)
+      }
+    }
+
+    // Re-read the conversation: a chat view may have saved it meanwhile
+    const latest = await chatManager.findById(conversationId)
+    const latestIndex =
+      latest?.messages.findIndex((m) => m.id === messageId) ?? -1
+    if (latest && latestIndex !== -1) {
+      await chatManager.updateChat(conversationId, {
+        messages: [
+          ...latest.messages.slice(0, latestIndex),
+          serializeChatMessage(compiledMessage),
+          ...responseMessages.map(serializeChatMessage),
+          ...latest.messages.slice(latestIndex + 1),
+        ],
+      })
+    }
+    await this.pendingSessionStore.dequeue(messageId)
+    console.log(
+      `[OutboxSender] Sent queued prompt ${messageId} in conversation ${conversationId}`,
+    )
+  }
+}
@@ -3,6 +3,10 @@
  *
  * Persists pending session IDs to the vault so they survive Obsidian restarts.
  * On plugin load, pending sessions are read and resumed from the server.
+ *
+ * Also holds the outbox: prompts written while the backend was unreachable.
+ * The messages themselves are saved with their conversation; the outbox
+ * records which conversations have prompts waiting, in the order written.
  */
 
 import type { App } from 'obsidian'
@@ -13,8 +17,15 @@ interface PendingSession {
   createdAt: number
 }
 
+export interface QueuedPrompt {
+  messageId: string
+  conversationId: string
+  queuedAt: number
+}
+
 interface PendingSessionData {
   sessions: PendingSession[]
+  outbox?: QueuedPrompt[]
 }
 
 const STORE_PATH = '.smartcomposer/pending-sessions.json'
@@ -22,6 +33,8 @@ const MAX_AGE_MS = 24 * 60 * 60 * 1000 // 24 hours (matches server TTL)
 
 export class PendingSessionStore {
   private sessions: PendingSession[] = []
+  private outbox: QueuedPrompt[] = []
+  private outboxListeners = new Set<() => void>()
 
   constructor(private app: App) {}
 
@@ -36,10 +49,14 @@ export class PendingSessionStore {
         this.sessions = (data.sessions || []).filter(
           (s) => now - s.createdAt < MAX_AGE_MS,
         )
+        // Queued prompts never expire; the user decides when to discard them
+        this.outbox = data.outbox || []
+        this.notifyOutbox()
       }
     } catch {
       // File doesn't exist or is invalid — start fresh
       this.sessions = []
+      this.outbox = []
     }
   }
 
@@ -64,8 +81,57 @@ export class PendingSessionStore {
     return this.sessions.find((s) => s.conversationId === conversationId)
   }
 
+  async enqueue(messageId: string, conversationId: string): Promise<void> {
+    if (this.outbox.some((p) => p.messageId === messageId)) return
+
+    this.outbox.push({ messageId, conversationId, queuedAt: Date.now() })
+    this.notifyOutbox()
+    await this.save()
+  }
+
+  /** Remove a prompt from the outbox once it's sent or discarded */
+  async dequeue(messageId: string): Promise<void> {
+    if (!this.outbox.some((p) => p.messageId === messageId)) return
+
+    this.outbox = this.outbox.filter((p) => p.messageId !== messageId)
+    this.notifyOutbox()
+    await this.save()
+  }
+
+  async dequeueConversation(conversationId: string): Promise<void> {
+    if (!this.outbox.some((p) => p.conversationId === conversationId)) return
+
+    this.outbox = this.outbox.filter((p) => p.conversationId !== conversationId)
+    this.notifyOutbox()
+    await this.save()
+  }
+
+  /** Queued prompts in the order they were written */
+  getQueued(conversationId?: string): QueuedPrompt[] {
+    return this.outbox.filter(
+      (p) => !conversationId || p.conversationId === conversationId,
+    )
+  }
+
+  /** Called whenever prompts are queued or leave the outbox */
+  subscribeOutbox(listener: () => void): () => void {
+    this.outboxListeners.add(listener)
+    return () => {
+      this.outboxListeners.delete(listener)
+    }
+  }
+
+  private notifyOutbox(): void {
+    for (const listener of this.outboxListeners) {
+      listener()
+    }
+  }
+
   private async save(): Promise<void> {
-    const data: PendingSessionData = { sessions: this.sessions }
+    const data: PendingSessionData = {
+      sessions: this.sessions,
+      outbox: this.outbox,
+    }
     const content = JSON.stringify(data, null, 2)
 
     try {
@@ -5,12 +5,58 @@
  * Uses Obsidian's API to read, write, search, list, and delete files.
  */
 
-import { App, TFile, TFolder, Notice } from 'obsidian';
-import type { SearchResult, FileInfo, GrepResult } from './protocol';
+import {
+	App,
+	EventRef,
+	Events,
+	TFile,
+	TFolder,
+	Notice,
+	arrayBufferToBase64,
+	getAllTags,
+	getFrontMatterInfo,
+	parseYaml,
+} from 'obsidian';
+import type {
+	BinaryFile,
+	CookbookSearchResult,
+	CookbookSource,
+	NoteContent,
+	SearchResult,
+	FileInfo,
+	GrepResult,
+	LinkInfo,
+	NeighborInfo,
+	NoteProperties,
+	OutlinksResult,
+	SemanticSearchResult,
+	NotePropertiesUpdate,
+} from './protocol';
+import {
+	MAX_BINARY_BYTES,
+	attachmentMimeType,
+	collectAttachmentEmbeds,
+} from './attachments';
 import { getEditHistory } from './EditHistory';
+import type { RAGEngine } from '../rag/ragEngine';
+import { MemoryStore } from '../memory/MemoryStore';
+import { cookbookSourceName } from '../rag/cookbooks';
+import { fuseHybridResults, semanticOnlyResults } from './hybrid-search';
+import { getBacklinks, getNeighbors, getOutlinks } from './link-graph';
+import { applyNotePropertiesUpdate, readNoteProperties } from './note-properties';
+import { SearchIndex, buildSnippet, parseSearchQuery } from './search-index';
 
 export class VaultRpcHandler {
-	constructor(private app: App) {}
+	private searchIndexReady: Promise<SearchIndex> | null = null;
+	private eventRefs: Array<{ source: Events; ref: EventRef }> = [];
+	private memoryStore: MemoryStore;
+
+	constructor(
+		private app: App,
+		private getRagEngine?: () => Promise<RAGEngine>
+	) {
+		this.memoryStore = new MemoryStore(app);
+	}
 
 	/**
 	 * Check if a path is a dotfile/dotfolder (starts with . in any segment).
@@ -32,6 +78,11 @@ export class VaultRpcHandler {
 		switch (method) {
 			case 'vault_read':
 				return this.vaultRead(params.path as string);
+			case 'vault_read_binary':
+				return this.vaultReadBinary(
+					params.path as string,
+					params.max_bytes as number | undefined
+				);
 			case 'vault_write':
 				return this.vaultWrite(
 					params.path as string,
@@ -69,15 +120,66 @@ export class VaultRpcHandler {
 				);
 			case 'vault_delete':
 				return this.vaultDelete(params.path as string, activityId);
+			case 'vault_get_properties':
+				return this.vaultGetProperties(params.path as string);
+			case 'vault_set_properties':
+				return this.vaultSetProperties(
+					params.path as string,
+					params as NotePropertiesUpdate,
+					activityId
+				);
+			case 'vault_backlinks':
+				return this.vaultBacklinks(params.path as string);
+			case 'vault_outlinks':
+				return this.vaultOutlinks(params.path as string);
+			case 'vault_semantic_search':
+				return this.vaultSemanticSearch(
+					params.query as string,
+					(params.limit as number) || 10,
+					params.mode === 'hybrid' ? 'hybrid' : 'semantic',
+					(params.folder as string) || ''
+				);
+			case 'vault_neighbors':
+				return this.vaultNeighbors(
+					params.path as string,
+					(params.depth as number) || 1,
+					(params.limit as number) || 100
+				);
+			case 'cookbook_search':
+				return this.cookbookSearch(
+					params.query as string,
+					(params.sources as string[] | undefined) ?? [],
+					(params.limit as number) || 10
+				);
+			case 'cookbook_list_sources':
+				return this.cookbookListSources();
+			case 'memory_add':
+				return this.memoryStore.add(
+					params.content as string,
+					(params.tags as string[]) || []
+				);
+			case 'memory_search':
+				return this.memoryStore.search(
+					params.query as string,
+					(params.limit as number) || 10
+				);
+			case 'memory_forget':
+				return this.memoryForget(params.id as string);
 			default:
 				throw new Error(`Unknown RPC method: ${method}`);
 		}
 	}
 
+	private async memoryForget(id: string): Promise<void> {
+		if (!(await this.memoryStore.forget(id))) {
+			throw new Error(`No memory with id "${id}"`);
+		}
+	}
+
 	/**
 	 * Read file content from vault
 	 */
-	private async vaultRead(path: string): Promise<{ content: string }> {
+	private async vaultRead(path: string): Promise<NoteContent> {
 		// Dotfiles aren't indexed by Obsidian — use adapter directly
 		if (this.isDotfilePath(path)) {
 			const adapter = this.app.vault.adapter;
@@ -100,7 +202,54 @@ export class VaultRpcHandler {
 
 		const content = await this.app.vault.cachedRead(file);
 
-		return { content };
+		// Attachments embedded with ![[...]], for the backend to load
+		const links = (this.app.metadataCache.getFileCache(file)?.embeds ?? []).map(
+			embed => embed.link
+		);
+		const embeds = collectAttachmentEmbeds(links, link =>
+			this.app.metadataCache.getFirstLinkpathDest(link, file.path)?.path ?? null
+		);
+
+		return embeds.length > 0 ? { content, embeds } : { content };
+	}
+
+	/**
+	 * Read an image or PDF as base64
+	 * @param maxBytes - Files larger than this are rejected (capped at MAX_BINARY_BYTES)
+	 */
+	private async vaultReadBinary(path: string, maxBytes?: number): Promise<BinaryFile> {
+		const mimeType = attachmentMimeType(path);
+		if (!mimeType) {
+			throw new Error(`Unsupported file type: ${path} (expected an image or PDF)`);
+		}
+
+		const limit = Math.min(maxBytes ?? MAX_BINARY_BYTES, MAX_BINARY_BYTES);
+		let data: ArrayBuffer;
+		if (this.isDotfilePath(path)) {
+			const adapter = this.app.vault.adapter;
+			if (!(await adapter.exists(path))) {
+				throw new Error(`File not found: ${path}`);
+			}
+			const stat = await adapter.stat(path);
+			if (stat && stat.size > limit) {
+				throw new Error(`File is too large: ${path} (${stat.size} bytes, limit ${limit})`);
+			}
+			data = await adapter.readBinary(path);
+		} else {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!file) {
+				throw new Error(`File not found: ${path}`);
+			}
+			if (!(file instanceof TFile)) {
+				throw new Error(`Path is not a file: ${path}`);
+			}
+			if (file.stat.size > limit) {
+				throw new Error(`File is too large: ${path} (${file.stat.size} bytes, limit ${limit})`);
+			}
+			data = await this.app.vault.readBinary(file);
+		}
+
+		return { path, mimeType, size: data.byteLength, data: arrayBufferToBase64(data) };
 	}
 
 	/**
@@ -252,60 +401,308 @@ export class VaultRpcHandler {
 	}
 
 	/**
-	 * Search for files matching a query
+	 * Resolve a path to an indexed markdown note (frontmatter needs the metadata cache)
 	 */
-	private async vaultSearch(
-		query: string,
-		limit: number
-	): Promise<SearchResult[]> {
-		const results: SearchResult[] = [];
-		const files = this.app.vault.getMarkdownFiles();
-		const queryLower = query.toLowerCase();
+	private getNoteFile(path: string): TFile {
+		const file = this.app.vault.getAbstractFileByPath(path);
 
-		for (const file of files) {
-			if (results.length >= limit) break;
+		if (!file) {
+			throw new Error(`File not found: ${path}`);
+		}
 
-			// Check filename first
-			if (file.path.toLowerCase().includes(queryLower)) {
-				results.push({
-					path: file.path,
-					snippet: `Filename match: ${file.basename}`,
-				});
-				continue;
-			}
+		if (!(file instanceof TFile) || file.extension !== 'md') {
+			throw new Error(`Path is not a markdown note: ${path}`);
+		}
 
-			// Check file content
+		return file;
+	}
+
+	/**
+	 * Read a note's frontmatter as typed properties
+	 */
+	private async vaultGetProperties(path: string): Promise<NoteProperties> {
+		const file = this.getNoteFile(path);
+
+		// Parse the file itself rather than the metadata cache, which may not
+		// have caught up with a recent write. processFrontMatter would write
+		// the note back, reformatting it and bumping its mtime.
+		const info = getFrontMatterInfo(await this.app.vault.cachedRead(file));
+		const frontmatter: unknown = info.exists ? parseYaml(info.frontmatter) : undefined;
+
+		return readNoteProperties(
+			typeof frontmatter === 'object' && frontmatter !== null
+				? (frontmatter as Record<string, unknown>)
+				: undefined
+		);
+	}
+
+	/**
+	 * Update a note's frontmatter without touching the body
+	 */
+	private async vaultSetProperties(
+		path: string,
+		update: NotePropertiesUpdate,
+		activityId?: string
+	): Promise<NoteProperties> {
+		const file = this.getNoteFile(path);
+
+		// Record snapshot before editing
+		if (activityId) {
 			try {
-				const content = await this.app.vault.cachedRead(file);
-				const contentLower = content.toLowerCase();
-				const index = contentLower.indexOf(queryLower);
-
-				if (index !== -1) {
-					// Extract snippet around match
-					const start = Math.max(0, index - 50);
-					const end = Math.min(
-						content.length,
-						index + query.length + 50
+				const content = await this.app.vault.read(file);
+				getEditHistory(this.app).recordBefore(path, content, activityId);
+			} catch (e) {
+				console.warn('[VaultRpcHandler] Failed to record snapshot:', e);
+			}
+		}
+
+		let properties = readNoteProperties(undefined);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			applyNotePropertiesUpdate(frontmatter, update);
+			properties = readNoteProperties(frontmatter);
+		});
+
+		return properties;
+	}
+
+	/**
+	 * Throw unless the path exists, so graph queries on a typo don't
+	 * silently come back empty
+	 */
+	private ensureExists(path: string): void {
+		if (!this.app.vault.getAbstractFileByPath(path)) {
+			throw new Error(`File not found: ${path}`);
+		}
+	}
+
+	/**
+	 * Notes that link to a note
+	 */
+	private async vaultBacklinks(path: string): Promise<LinkInfo[]> {
+		this.ensureExists(path);
+		return getBacklinks(this.app.metadataCache.resolvedLinks, path);
+	}
+
+	/**
+	 * Notes a note links to, plus links to notes that don't exist
+	 */
+	private async vaultOutlinks(path: string): Promise<OutlinksResult> {
+		this.ensureExists(path);
+		return {
+			links: getOutlinks(this.app.metadataCache.resolvedLinks, path),
+			unresolved: getOutlinks(this.app.metadataCache.unresolvedLinks, path),
+		};
+	}
+
+	/**
+	 * Notes within a few links of a note, in either direction
+	 */
+	private async vaultNeighbors(
+		path: string,
+		depth: number,
+		limit: number
+	): Promise<NeighborInfo[]> {
+		this.ensureExists(path);
+		return getNeighbors(
+			this.app.metadataCache.resolvedLinks,
+			path,
+			depth,
+			limit
+		);
+	}
+
+	/**
+	 * Build the full-text index on first use, then keep it current from
+	 * vault events. Concurrent searches share the same build.
+	 */
+	private ensureSearchIndex(): Promise<SearchIndex> {
+		if (this.searchIndexReady) return this.searchIndexReady;
+
+		const index = new SearchIndex();
+		const indexFile = async (file: TFile) => {
+			const content = await this.app.vault.cachedRead(file);
+			const cache = this.app.metadataCache.getFileCache(file);
+			index.upsert(file.path, content, (cache && getAllTags(cache)) ?? []);
+		};
+
+		// metadataCache 'changed' fires after the file is parsed, so tags are current
+		const { metadataCache, vault } = this.app;
+		this.eventRefs.push(
+			{
+				source: metadataCache,
+				ref: metadataCache.on('changed', (file) => {
+					if (file.extension !== 'md') return;
+					indexFile(file).catch((error) => {
+						console.error(`[VaultRpcHandler] Failed to index ${file.path}:`, error);
+					});
+				}),
+			},
+			{
+				source: vault,
+				ref: vault.on('rename', (file, oldPath) => {
+					if (file instanceof TFile) index.rename(oldPath, file.path);
+				}),
+			},
+			{
+				source: vault,
+				ref: vault.on('delete', (file) => {
+					index.remove(file.path);
+				}),
+			}
+		);
+
+		this.searchIndexReady = (async () => {
+			const started = Date.now();
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				// Skip files an event already indexed while we were building
+				if (index.has(file.path)) continue;
+				try {
+					await indexFile(file);
+				} catch (error) {
+					console.error(
+						`[VaultRpcHandler] Error reading file ${file.path}:`,
+						error
 					);
-					let snippet = content.substring(start, end);
+				}
+			}
+			console.log(
+				`[VaultRpcHandler] Indexed ${index.size} notes in ${Date.now() - started}ms`
+			);
+			return index;
+		})();
 
-					// Add ellipsis
-					if (start > 0) snippet = '...' + snippet;
-					if (end < content.length) snippet = snippet + '...';
+		return this.searchIndexReady;
+	}
 
-					results.push({ path: file.path, snippet });
+	/**
+	 * Ranked full-text search (BM25) with phrase, path: and tag: support
+	 */
+	private async vaultSearch(
+		query: string,
+		limit: number
+	): Promise<SearchResult[]> {
+		const index = await this.ensureSearchIndex();
+		const parsed = parseSearchQuery(query);
+		const hits = index.search(parsed, limit);
+
+		const results: SearchResult[] = [];
+		for (const hit of hits) {
+			const file = this.app.vault.getAbstractFileByPath(hit.path);
+			let snippet = '';
+			if (file instanceof TFile) {
+				try {
+					snippet = buildSnippet(await this.app.vault.cachedRead(file), parsed);
+				} catch (error) {
+					console.error(
+						`[VaultRpcHandler] Error reading file ${hit.path}:`,
+						error
+					);
 				}
-			} catch (error) {
-				console.error(
-					`[VaultRpcHandler] Error reading file ${file.path}:`,
-					error
-				);
 			}
+			results.push({
+				path: hit.path,
+				snippet,
+				score: Math.round(hit.score * 1000) / 1000,
+			});
 		}
 
 		return results;
 	}
 
+	/**
+	 * Search the local embedding index, optionally fused with keyword hits
+	 */
+	private async vaultSemanticSearch(
+		query: string,
+		limit: number,
+		mode: 'semantic' | 'hybrid',
+		folder: string
+	): Promise<SemanticSearchResult[]> {
+		if (!this.getRagEngine) {
+			throw new Error('Semantic search is not available in this client');
+		}
+
+		let chunks;
+		try {
+			const ragEngine = await this.getRagEngine();
+			chunks = await ragEngine.processQuery({
+				query,
+				scope: folder ? { files: [], folders: [folder] } : undefined,
+				// Over-fetch in hybrid mode so fusion has something to rerank
+				limit: mode === 'hybrid' ? limit * 2 : limit,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(
+				`Semantic search is unavailable (${message}). Check the embedding model in the plugin settings, or use vault_search instead.`
+			);
+		}
+
+		const semantic = chunks.map((chunk) => ({
+			path: chunk.path,
+			content: chunk.content,
+			startLine: chunk.metadata.startLine,
+			endLine: chunk.metadata.endLine,
+			similarity: Math.round(chunk.similarity * 1000) / 1000,
+		}));
+
+		if (mode === 'semantic') {
+			return semanticOnlyResults(semantic, limit);
+		}
+
+		const keywordQuery = folder ? `${query} path:"${folder}"` : query;
+		const keywordHits = await this.vaultSearch(keywordQuery, limit * 2);
+		return fuseHybridResults(semantic, keywordHits, limit).map((result) => ({
+			...result,
+			score: Math.round(result.score * 10000) / 10000,
+		}));
+	}
+
+	/**
+	 * Search the indexed cookbook PDFs in the external resource folder; new
+	 * and changed ones are indexed in the background
+	 */
+	private async cookbookSearch(
+		query: string,
+		sources: string[],
+		limit: number
+	): Promise<CookbookSearchResult[]> {
+		if (!this.getRagEngine) {
+			throw new Error('Cookbook search is not available in this client');
+		}
+		const ragEngine = await this.getRagEngine();
+		const chunks = await ragEngine.searchCookbooks({ query, sources, limit });
+		return chunks.map((chunk) => ({
+			path: chunk.path,
+			source: cookbookSourceName(chunk.path),
+			page: chunk.metadata.page ?? 1,
+			content: chunk.content,
+			similarity: Math.round(chunk.similarity * 1000) / 1000,
+		}));
+	}
+
+	private async cookbookListSources(): Promise<CookbookSource[]> {
+		if (!this.getRagEngine) {
+			throw new Error('Cookbook search is not available in this client');
+		}
+		const ragEngine = await this.getRagEngine();
+		return ragEngine.listCookbooks().map((path) => ({
+			path,
+			source: cookbookSourceName(path),
+		}));
+	}
+
+	/**
+	 * Stop listening to vault events (plugin unload)
+	 */
+	destroy(): void {
+		for (const { source, ref } of this.eventRefs) {
+			source.offref(ref);
+		}
+		this.eventRefs = [];
+		this.searchIndexReady = null;
+	}
+
 	/**
 	 * Search file contents using a regex pattern
 	 */
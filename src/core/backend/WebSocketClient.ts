@@ -9,11 +9,26 @@
 
 import type {
 	ClientMessage,
+	HelloMessage,
 	ServerMessage,
 	PromptMessage,
 	AgentContext,
+	ApprovalDecision,
+	ForkPoint,
+	JobRef,
 	RpcRequestMessage,
+	TokenUsage,
+	ToolAccess,
+	ToolPolicies,
+	ProtocolFeature,
+	WelcomeMessage,
 } from './protocol';
+import { PROTOCOL_VERSION, RPC_METHODS } from './protocol';
+import {
+	type BackendInfo,
+	HANDSHAKE_TIMEOUT_MS,
+	checkBackendCompatibility,
+} from './protocol-version';
 
 /**
  * Generate a random UUID (browser-compatible)
@@ -41,12 +56,48 @@ export interface WebSocketClientConfig {
 
 export interface StreamingHandlers {
 	onTextDelta?: (text: string) => void;
-	onToolStart?: (name: string, input: Record<string, unknown>) => void;
+	onToolStart?: (
+		name: string,
+		input: Record<string, unknown>,
+		toolUseId?: string
+	) => void;
+	onToolInputDelta?: (
+		toolUseId: string,
+		name: string,
+		partialJson: string
+	) => void;
 	onToolEnd?: (name: string, result: string) => void;
+	/** Tool use of a sub-agent started by this request's delegate_task */
+	onSubAgentToolStart?: (
+		subAgentId: string,
+		name: string,
+		input: Record<string, unknown>,
+		parentToolUseId?: string
+	) => void;
+	onSubAgentToolEnd?: (
+		subAgentId: string,
+		name: string,
+		result: string
+	) => void;
 	onThinking?: (text: string) => void;
-	onComplete?: (result: string) => void;
+	onComplete?: (
+		result: string,
+		usage?: TokenUsage,
+		model?: string,
+		checkpoint?: string
+	) => void;
 	onError?: (code: string, message: string) => void;
 	onSessionCreated?: (sessionId: string) => void;
+	onApprovalRequest?: (
+		approvalId: string,
+		toolName: string,
+		toolInput: Record<string, unknown>
+	) => void;
+	onApprovalResolved?: (
+		approvalId: string,
+		decision: ApprovalDecision,
+		reason?: string
+	) => void;
 }
 
 export interface SessionInfo {
@@ -56,6 +107,7 @@ export interface SessionInfo {
 	createdAt: number;
 	completedAt?: number;
 	eventCount: number;
+	job?: JobRef;
 }
 
 export interface SessionReplayData {
@@ -71,8 +123,9 @@ export class WebSocketClient {
 	private ws: WebSocket | null = null;
 	private config: WebSocketClientConfig | null = null;
 	private reconnectAttempts = 0;
-	private maxReconnectAttempts = 5;
 	private reconnectDelay = 1000;
+	private maxReconnectDelay = 30_000;
+	private reconnectTimer: number | null = null;
 	private activeHandlers = new Map<string, StreamingHandlers>();
 	private pingInterval: number | null = null;
 	private eventHandlers = new Map<string, Set<EventHandler>>();
@@ -87,6 +140,9 @@ export class WebSocketClient {
 		filePath: string;
 		activityId: string;
 	}[] = [];
+	/** What the backend announced in `welcome`; null until the handshake finishes */
+	private backend: BackendInfo | null = null;
+	private onWelcome: ((welcome: WelcomeMessage | null) => void) | null = null;
 
 	/**
 	 * Connect to the backend WebSocket server
@@ -114,15 +170,20 @@ export class WebSocketClient {
 				return;
 			}
 
+			const ws = this.ws;
 			const onOpen = () => {
 				console.log('[WebSocketClient] Connected to backend');
-				this.reconnectAttempts = 0;
-				this.isConnecting = false;
-				this.startPingInterval();
-				this.flushMessageQueue();
-				this.emit('connect');
-				cleanup();
-				resolve();
+				void this.handshake(ws).then(() => {
+					// Closed during the handshake; onClose has rejected
+					if (this.ws !== ws || ws.readyState !== WebSocket.OPEN) return;
+					this.reconnectAttempts = 0;
+					this.isConnecting = false;
+					this.startPingInterval();
+					this.flushMessageQueue();
+					this.emit('connect');
+					cleanup();
+					resolve();
+				});
 			};
 
 			const onError = (event: Event) => {
@@ -169,16 +230,77 @@ export class WebSocketClient {
 		});
 	}
 
+	/**
+	 * Send `hello` and wait for the backend's `welcome`. Backends from before
+	 * the handshake ignore `hello`, so after HANDSHAKE_TIMEOUT_MS the backend
+	 * is assumed to be one of those. Emits 'protocol_warning' with a message
+	 * for the user if either side is out of date.
+	 */
+	private handshake(ws: WebSocket): Promise<void> {
+		this.backend = null;
+		return new Promise((resolve) => {
+			const finish = (welcome: WelcomeMessage | null) => {
+				// The connection closed, or a newer one started its own handshake
+				if (this.onWelcome !== finish) return;
+				window.clearTimeout(timer);
+				this.onWelcome = null;
+				const { info, warning } = checkBackendCompatibility(welcome);
+				this.backend = info;
+				console.log(
+					`[WebSocketClient] Backend ${info.server ?? 'unknown'} speaks protocol v${info.protocolVersion}`
+				);
+				if (warning) {
+					console.warn(`[WebSocketClient] ${warning}`);
+					this.emit('protocol_warning', warning);
+				}
+				resolve();
+			};
+			const timer = window.setTimeout(() => finish(null), HANDSHAKE_TIMEOUT_MS);
+			this.onWelcome = finish;
+
+			const hello: HelloMessage = {
+				type: 'hello',
+				protocolVersion: PROTOCOL_VERSION,
+				rpcMethods: [...RPC_METHODS],
+				client: 'claudsidian',
+			};
+			ws.send(JSON.stringify(hello));
+		});
+	}
+
+	/**
+	 * The connected backend's protocol version and features, or null before
+	 * the handshake finishes
+	 */
+	get backendInfo(): BackendInfo | null {
+		return this.backend;
+	}
+
+	/**
+	 * Whether the backend has an optional feature (false until the
+	 * handshake finishes)
+	 */
+	supports(feature: ProtocolFeature): boolean {
+		return this.backend?.features.includes(feature) ?? false;
+	}
+
 	/**
 	 * Disconnect from the backend
 	 */
 	disconnect(): void {
 		this.stopPingInterval();
+		if (this.reconnectTimer !== null) {
+			window.clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		this.reconnectAttempts = 0;
 		if (this.ws) {
 			this.ws.close(1000, 'Client disconnecting');
 			this.ws = null;
 		}
 		this.config = null;
+		this.backend = null;
+		this.onWelcome = null;
 		this.activeHandlers.clear();
 		this.pendingRpcs.clear();
 		this.messageQueue = [];
@@ -196,6 +318,9 @@ export class WebSocketClient {
 		images?: Array<{ mimeType: string; base64Data: string }>,
 		clientId?: string,
 		conversationId?: string,
+		toolPolicies?: ToolPolicies,
+		toolAccess?: ToolAccess,
+		forkFrom?: ForkPoint,
 	): Promise<string> {
 		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
 			throw new Error('Not connected to backend');
@@ -214,6 +339,9 @@ export class WebSocketClient {
 			...(images && images.length > 0 ? { images } : {}),
 			...(clientId ? { clientId } : {}),
 			...(conversationId ? { conversationId } : {}),
+			...(toolPolicies ? { toolPolicies } : {}),
+			...toolAccess,
+			...(forkFrom ? { forkFrom } : {}),
 		};
 
 		this.send(message);
@@ -244,6 +372,22 @@ export class WebSocketClient {
 		});
 	}
 
+	/**
+	 * Answer an approval request for a gated tool call
+	 */
+	sendApprovalResponse(
+		approvalId: string,
+		decision: ApprovalDecision,
+		reason?: string
+	): void {
+		this.send({
+			type: 'approval_response',
+			id: approvalId,
+			decision,
+			...(reason ? { reason } : {}),
+		});
+	}
+
 	/**
 	 * Emit a tool start event to all active handlers
 	 * Note: In normal operation, tool_start/tool_end events come from the backend
@@ -342,11 +486,35 @@ export class WebSocketClient {
 				break;
 			}
 			case 'tool_start': {
+				if (msg.parentRequestId) {
+					const handler = this.activeHandlers.get(msg.parentRequestId);
+					handler?.onSubAgentToolStart?.(
+						msg.requestId,
+						msg.toolName,
+						msg.toolInput,
+						msg.parentToolUseId
+					);
+					break;
+				}
 				const handler = this.activeHandlers.get(msg.requestId);
-				handler?.onToolStart?.(msg.toolName, msg.toolInput);
+				handler?.onToolStart?.(msg.toolName, msg.toolInput, msg.toolUseId);
+				break;
+			}
+			case 'tool_input_delta': {
+				const handler = this.activeHandlers.get(msg.requestId);
+				handler?.onToolInputDelta?.(
+					msg.toolUseId,
+					msg.toolName,
+					msg.partialJson
+				);
 				break;
 			}
 			case 'tool_end': {
+				if (msg.parentRequestId) {
+					const handler = this.activeHandlers.get(msg.parentRequestId);
+					handler?.onSubAgentToolEnd?.(msg.requestId, msg.toolName, msg.result);
+					break;
+				}
 				const handler = this.activeHandlers.get(msg.requestId);
 				handler?.onToolEnd?.(msg.toolName, msg.result);
 				break;
@@ -358,7 +526,12 @@ export class WebSocketClient {
 			}
 			case 'complete': {
 				const handler = this.activeHandlers.get(msg.requestId);
-				handler?.onComplete?.(msg.result);
+				handler?.onComplete?.(
+					msg.result,
+					msg.usage,
+					msg.model,
+					msg.checkpoint
+				);
 				// Delay handler cleanup to allow lingering tool_end events to arrive
 				// (external MCP tool_end events may be sent slightly after complete)
 				setTimeout(() => this.activeHandlers.delete(msg.requestId), 1000);
@@ -378,6 +551,28 @@ export class WebSocketClient {
 				this.emit('rpc_request', msg);
 				break;
 			}
+			case 'approval_request': {
+				const handler = this.activeHandlers.get(msg.requestId);
+				handler?.onApprovalRequest?.(
+					msg.approvalId,
+					msg.toolName,
+					msg.toolInput
+				);
+				break;
+			}
+			case 'approval_resolved': {
+				const handler = this.activeHandlers.get(msg.requestId);
+				handler?.onApprovalResolved?.(
+					msg.approvalId,
+					msg.decision,
+					msg.reason
+				);
+				break;
+			}
+			case 'welcome': {
+				this.onWelcome?.(msg);
+				break;
+			}
 			case 'pong': {
 				// Keepalive response, no action needed
 				break;
@@ -401,6 +596,7 @@ export class WebSocketClient {
 	private handleDisconnect(event: CloseEvent): void {
 		console.log('[WebSocketClient] Disconnected:', event.code);
 		this.stopPingInterval();
+		this.onWelcome = null;
 		this.emit('disconnect', event.code, event.reason);
 
 		// Reject all pending RPCs
@@ -424,23 +620,28 @@ export class WebSocketClient {
 		}
 	}
 
+	/**
+	 * Schedule the next reconnect. Retries for as long as the plugin runs,
+	 * backing off exponentially up to maxReconnectDelay; each delay is
+	 * jittered so clients don't all return at once after a server restart.
+	 */
 	private attemptReconnect(): void {
-		if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-			console.error(
-				'[WebSocketClient] Max reconnection attempts reached'
-			);
-			this.emit('error', 'MAX_RECONNECTS', 'Failed to reconnect');
-			return;
-		}
+		// A failed attempt reports both its rejection and its close event
+		if (this.reconnectTimer !== null || !this.config) return;
 
 		this.reconnectAttempts++;
-		const delay =
-			this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+		const ceiling = Math.min(
+			this.maxReconnectDelay,
+			this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1)
+		);
+		const delay = Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
 		console.log(
 			`[WebSocketClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`
 		);
+		this.emit('reconnecting', this.reconnectAttempts, delay);
 
-		setTimeout(async () => {
+		this.reconnectTimer = window.setTimeout(async () => {
+			this.reconnectTimer = null;
 			if (this.config) {
 				try {
 					await this.connect(this.config.url, this.config.token);
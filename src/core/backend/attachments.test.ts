@@ -0,0 +1,40 @@
+import { attachmentMimeType, collectAttachmentEmbeds } from './attachments'
+
+describe('attachmentMimeType', () => {
+  it('should map images and PDFs by extension', () => {
+    expect(attachmentMimeType('Assets/Photo.JPG')).toBe('image/jpeg')
+    expect(attachmentMimeType('papers/study.pdf')).toBe('application/pdf')
+  })
+
+  it('should reject other files', () => {
+    expect(attachmentMimeType('notes/plan.md')).toBeNull()
+    expect(attachmentMimeType('archive')).toBeNull()
+  })
+})
+
+describe('collectAttachmentEmbeds', () => {
+  const files: Record<string, string> = {
+    'photo.png': 'Assets/photo.png',
+    'study.pdf': 'papers/study.pdf',
+    'Other note': 'Other note.md',
+  }
+  const resolve = (link: string) => files[link] ?? null
+
+  it('should resolve attachments and skip notes and missing files', () => {
+    expect(
+      collectAttachmentEmbeds(
+        ['photo.png|300', 'Other note', 'missing.png', 'study.pdf#page=3'],
+        resolve,
+      ),
+    ).toEqual([
+      { link: 'photo.png|300', path: 'Assets/photo.png' },
+      { link: 'study.pdf#page=3', path: 'papers/study.pdf' },
+    ])
+  })
+
+  it('should list each file once', () => {
+    expect(
+      collectAttachmentEmbeds(['photo.png', 'photo.png|100'], resolve),
+    ).toEqual([{ link: 'photo.png', path: 'Assets/photo.png' }])
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Attachments
+ *
+ * Binary files the agent can look at through vault_read_binary, and the
+ * `![[embed]]` links in a note that point at them. vault_read lists a note's
+ * attachment embeds so the backend can load them along with the text.
+ */
+
+import type { NoteEmbed } from './protocol'
+
+/** Largest file vault_read_binary sends, whatever limit the backend asks for */
+export const MAX_BINARY_BYTES = 20 * 1024 * 1024
+
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+}
+
+/** MIME type of a supported attachment, or null for other files */
+export function attachmentMimeType(path: string): string | null {
+  const extension = path.split('.').pop()?.toLowerCase() ?? ''
+  return ATTACHMENT_MIME_TYPES[extension] ?? null
+}
+
+/**
+ * Attachment embeds of a note, in order and without duplicates. `resolve`
+ * maps a link to the vault path it points at (null if it's unresolved).
+ */
+export function collectAttachmentEmbeds(
+  links: string[],
+  resolve: (link: string) => string | null,
+): NoteEmbed[] {
+  const embeds: NoteEmbed[] = []
+  const seen = new Set<string>()
+  for (const link of links) {
+    // ![[photo.png|300]] and ![[paper.pdf#page=3]] embed the same file
+    const path = resolve(link.split(/[#|]/)[0])
+    if (!path || seen.has(path) || !attachmentMimeType(path)) continue
+    seen.add(path)
+    embeds.push({ link, path })
+  }
+  return embeds
+}
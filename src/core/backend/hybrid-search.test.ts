@@ -0,0 +1,86 @@
+import {
+  RRF_K,
+  SemanticChunk,
+  fuseHybridResults,
+  semanticOnlyResults,
+} from './hybrid-search'
+
+const chunk = (
+  path: string,
+  similarity: number,
+  startLine = 1,
+): SemanticChunk => ({
+  path,
+  content: `${path} chunk at ${startLine}`,
+  startLine,
+  endLine: startLine + 9,
+  similarity,
+})
+
+describe('semanticOnlyResults', () => {
+  it('should rank by similarity and cap at the limit', () => {
+    const results = semanticOnlyResults(
+      [chunk('b.md', 0.5), chunk('a.md', 0.9), chunk('c.md', 0.7)],
+      2,
+    )
+    expect(results.map((r) => [r.path, r.score, r.sources])).toEqual([
+      ['a.md', 0.9, ['semantic']],
+      ['c.md', 0.7, ['semantic']],
+    ])
+  })
+})
+
+describe('fuseHybridResults', () => {
+  it('should boost chunks whose note also matched by keyword', () => {
+    const results = fuseHybridResults(
+      [chunk('a.md', 0.9), chunk('b.md', 0.8)],
+      [{ path: 'b.md', snippet: '...b...' }],
+      10,
+    )
+
+    expect(results.map((r) => r.path)).toEqual(['b.md', 'a.md'])
+    expect(results[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1))
+    expect(results[0].sources).toEqual(['semantic', 'keyword'])
+    expect(results[0].startLine).toBe(1)
+  })
+
+  it('should include keyword-only notes with their snippet', () => {
+    const results = fuseHybridResults(
+      [chunk('a.md', 0.9)],
+      [
+        { path: 'a.md', snippet: '...a...' },
+        { path: 'k.md', snippet: '...keyword hit...' },
+      ],
+      10,
+    )
+
+    expect(results[1]).toEqual({
+      path: 'k.md',
+      content: '...keyword hit...',
+      score: 1 / (RRF_K + 2),
+      sources: ['keyword'],
+    })
+  })
+
+  it('should give every chunk of a keyword note the keyword contribution', () => {
+    const results = fuseHybridResults(
+      [chunk('a.md', 0.9, 1), chunk('a.md', 0.6, 20), chunk('c.md', 0.8)],
+      [{ path: 'a.md', snippet: '' }],
+      10,
+    )
+    expect(results.map((r) => [r.path, r.startLine])).toEqual([
+      ['a.md', 1],
+      ['a.md', 20],
+      ['c.md', 1],
+    ])
+  })
+
+  it('should respect the limit', () => {
+    const results = fuseHybridResults(
+      [chunk('a.md', 0.9), chunk('b.md', 0.8)],
+      [{ path: 'c.md', snippet: '' }],
+      2,
+    )
+    expect(results).toHaveLength(2)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Hybrid Search
+ *
+ * Merges embedding (semantic) chunk hits with keyword (BM25) note hits using
+ * reciprocal rank fusion. RRF only looks at rank positions, so the two
+ * scoring scales never have to be compared directly.
+ */
+
+import type { SemanticSearchResult } from './protocol'
+
+/** Standard RRF damping constant */
+export const RRF_K = 60
+
+export type SemanticChunk = {
+  path: string
+  content: string
+  startLine: number
+  endLine: number
+  similarity: number
+}
+
+export type KeywordHit = {
+  path: string
+  snippet: string
+}
+
+export function semanticOnlyResults(
+  chunks: SemanticChunk[],
+  limit: number,
+): SemanticSearchResult[] {
+  return [...chunks]
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map((chunk) => ({
+      ...chunk,
+      score: chunk.similarity,
+      sources: ['semantic'],
+    }))
+}
+
+/**
+ * Fuse both rankings. Every chunk of a keyword-matching note gets that note's
+ * keyword contribution; keyword hits with no semantic chunk appear on their
+ * own with the keyword snippet as content.
+ *
+ * @param chunks semantic hits, any order (ranked by similarity here)
+ * @param keywordHits keyword hits, best first
+ */
+export function fuseHybridResults(
+  chunks: SemanticChunk[],
+  keywordHits: KeywordHit[],
+  limit: number,
+  k = RRF_K,
+): SemanticSearchResult[] {
+  const keywordRank = new Map<string, number>()
+  keywordHits.forEach((hit, i) => {
+    if (!keywordRank.has(hit.path)) keywordRank.set(hit.path, i)
+  })
+
+  const results: SemanticSearchResult[] = []
+  const notesWithChunks = new Set<string>()
+
+  const ranked = [...chunks].sort((a, b) => b.similarity - a.similarity)
+  ranked.forEach((chunk, i) => {
+    notesWithChunks.add(chunk.path)
+    const kwRank = keywordRank.get(chunk.path)
+    results.push({
+      ...chunk,
+      score:
+        1 / (k + i + 1) + (kwRank !== undefined ? 1 / (k + kwRank + 1) : 0),
+      sources: kwRank !== undefined ? ['semantic', 'keyword'] : ['semantic'],
+    })
+  })
+
+  for (const [path, rank] of keywordRank) {
+    if (notesWithChunks.has(path)) continue
+    results.push({
+      path,
+      content: keywordHits[rank].snippet,
+      score: 1 / (k + rank + 1),
+      sources: ['keyword'],
+    })
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit)
+}
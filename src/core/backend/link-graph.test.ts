@@ -0,0 +1,74 @@
+import { LinkMap, getBacklinks, getNeighbors, getOutlinks } from './link-graph'
+
+// project.md -> a.md (x2), b.md
+// a.md -> c.md
+// d.md -> project.md
+// c.md -> e.md
+const links: LinkMap = {
+  'project.md': { 'a.md': 2, 'b.md': 1, 'project.md': 1 },
+  'a.md': { 'c.md': 1 },
+  'b.md': {},
+  'c.md': { 'e.md': 1 },
+  'd.md': { 'project.md': 3 },
+}
+
+describe('getBacklinks', () => {
+  it('should list notes linking to the path, most links first', () => {
+    const withExtra = { ...links, 'f.md': { 'project.md': 1 } }
+    expect(getBacklinks(withExtra, 'project.md')).toEqual([
+      { path: 'd.md', count: 3 },
+      { path: 'f.md', count: 1 },
+    ])
+  })
+
+  it('should return an empty list when nothing links to the path', () => {
+    expect(getBacklinks(links, 'd.md')).toEqual([])
+  })
+})
+
+describe('getOutlinks', () => {
+  it('should list link targets, ignoring self-links', () => {
+    expect(getOutlinks(links, 'project.md')).toEqual([
+      { path: 'a.md', count: 2 },
+      { path: 'b.md', count: 1 },
+    ])
+  })
+
+  it('should return an empty list for unknown notes', () => {
+    expect(getOutlinks(links, 'missing.md')).toEqual([])
+  })
+})
+
+describe('getNeighbors', () => {
+  it('should return direct neighbours with link direction', () => {
+    expect(getNeighbors(links, 'project.md', 1, 100)).toEqual([
+      { path: 'a.md', depth: 1, direction: 'out' },
+      { path: 'b.md', depth: 1, direction: 'out' },
+      { path: 'd.md', depth: 1, direction: 'in' },
+    ])
+  })
+
+  it('should mark mutual links as both', () => {
+    const mutual = { ...links, 'b.md': { 'project.md': 1 } }
+    expect(getNeighbors(mutual, 'project.md', 1, 100)).toContainEqual({
+      path: 'b.md',
+      depth: 1,
+      direction: 'both',
+    })
+  })
+
+  it('should walk further hops at their shortest distance', () => {
+    expect(getNeighbors(links, 'project.md', 3, 100)).toEqual([
+      { path: 'a.md', depth: 1, direction: 'out' },
+      { path: 'b.md', depth: 1, direction: 'out' },
+      { path: 'd.md', depth: 1, direction: 'in' },
+      { path: 'c.md', depth: 2, via: 'a.md' },
+      { path: 'e.md', depth: 3, via: 'c.md' },
+    ])
+  })
+
+  it('should clamp depth and respect the limit', () => {
+    expect(getNeighbors(links, 'project.md', 0, 100)).toHaveLength(3)
+    expect(getNeighbors(links, 'project.md', 10, 2)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Link Graph
+ *
+ * Graph queries over Obsidian's metadataCache.resolvedLinks for the
+ * vault_backlinks / vault_outlinks / vault_neighbors RPCs. The link maps have
+ * the shape { sourcePath: { targetPath: linkCount } }.
+ */
+
+import type { LinkInfo, NeighborInfo } from './protocol'
+
+export type LinkMap = Record<string, Record<string, number>>
+
+/** Deepest neighbourhood the agent may ask for */
+export const MAX_NEIGHBOR_DEPTH = 3
+
+function byCountThenPath(a: LinkInfo, b: LinkInfo): number {
+  return b.count - a.count || a.path.localeCompare(b.path)
+}
+
+/**
+ * Notes that link to `path`
+ */
+export function getBacklinks(links: LinkMap, path: string): LinkInfo[] {
+  const result: LinkInfo[] = []
+  for (const [source, targets] of Object.entries(links)) {
+    if (source === path) continue
+    const count = targets[path]
+    if (count) result.push({ path: source, count })
+  }
+  return result.sort(byCountThenPath)
+}
+
+/**
+ * Notes that `path` links to
+ */
+export function getOutlinks(links: LinkMap, path: string): LinkInfo[] {
+  return Object.entries(links[path] ?? {})
+    .filter(([target]) => target !== path)
+    .map(([target, count]) => ({ path: target, count }))
+    .sort(byCountThenPath)
+}
+
+/**
+ * Notes within `depth` hops of `path`, following links in both directions.
+ * Breadth-first, so each note is reported at its shortest distance.
+ */
+export function getNeighbors(
+  links: LinkMap,
+  path: string,
+  depth: number,
+  limit: number,
+): NeighborInfo[] {
+  const maxDepth = Math.min(Math.max(1, Math.floor(depth)), MAX_NEIGHBOR_DEPTH)
+
+  // Undirected adjacency, remembering which way each edge points
+  const adjacency = new Map<string, Map<string, 'in' | 'out' | 'both'>>()
+  const addEdge = (from: string, to: string, direction: 'in' | 'out') => {
+    let edges = adjacency.get(from)
+    if (!edges) {
+      edges = new Map()
+      adjacency.set(from, edges)
+    }
+    const existing = edges.get(to)
+    edges.set(to, existing && existing !== direction ? 'both' : direction)
+  }
+  for (const [source, targets] of Object.entries(links)) {
+    for (const target of Object.keys(targets)) {
+      if (target === source) continue
+      addEdge(source, target, 'out')
+      addEdge(target, source, 'in')
+    }
+  }
+
+  const result: NeighborInfo[] = []
+  const visited = new Set([path])
+  let frontier = [path]
+
+  for (let level = 1; level <= maxDepth && frontier.length > 0; level++) {
+    const next: string[] = []
+    for (const node of frontier) {
+      const edges = Array.from(adjacency.get(node) ?? []).sort(([a], [b]) =>
+        a.localeCompare(b),
+      )
+      for (const [neighbor, direction] of edges) {
+        if (visited.has(neighbor)) continue
+        visited.add(neighbor)
+        next.push(neighbor)
+        result.push({
+          path: neighbor,
+          depth: level,
+          // Direction is only meaningful for direct neighbours
+          ...(level === 1 ? { direction } : { via: node }),
+        })
+        if (result.length >= limit) return result
+      }
+    }
+    frontier = next
+  }
+
+  return result
+}
@@ -0,0 +1,99 @@
+import {
+  applyNotePropertiesUpdate,
+  readNoteProperties,
+} from './note-properties'
+
+describe('readNoteProperties', () => {
+  it('should return empty fields for a note without frontmatter', () => {
+    expect(readNoteProperties(undefined)).toEqual({
+      tags: [],
+      aliases: [],
+      dates: {},
+      properties: {},
+    })
+  })
+
+  it('should split tags, aliases, dates and other properties', () => {
+    const result = readNoteProperties({
+      tags: ['#project', 'work', 'project'],
+      alias: 'Old name',
+      created: '2024-03-01',
+      updated: new Date('2024-03-02T10:00:00Z'),
+      status: 'draft',
+      priority: 2,
+    })
+
+    expect(result).toEqual({
+      tags: ['project', 'work'],
+      aliases: ['Old name'],
+      dates: {
+        created: '2024-03-01',
+        updated: '2024-03-02T10:00:00.000Z',
+      },
+      properties: {
+        status: 'draft',
+        priority: 2,
+      },
+    })
+  })
+
+  it('should accept comma-separated tag strings', () => {
+    expect(readNoteProperties({ tags: 'a, #b,,c' }).tags).toEqual([
+      'a',
+      'b',
+      'c',
+    ])
+  })
+})
+
+describe('applyNotePropertiesUpdate', () => {
+  it('should replace tags and aliases under their canonical keys', () => {
+    const frontmatter: Record<string, unknown> = {
+      tag: 'old',
+      alias: 'Old',
+      status: 'draft',
+    }
+    applyNotePropertiesUpdate(frontmatter, {
+      tags: ['#new', 'new', 'other'],
+      aliases: ['New'],
+    })
+
+    expect(frontmatter).toEqual({
+      tags: ['new', 'other'],
+      aliases: ['New'],
+      status: 'draft',
+    })
+  })
+
+  it('should drop the key when a list is cleared', () => {
+    const frontmatter: Record<string, unknown> = { tags: ['a'] }
+    applyNotePropertiesUpdate(frontmatter, { tags: [] })
+    expect(frontmatter).toEqual({})
+  })
+
+  it('should merge dates and properties and remove keys last', () => {
+    const frontmatter: Record<string, unknown> = {
+      status: 'draft',
+      obsolete: true,
+    }
+    applyNotePropertiesUpdate(frontmatter, {
+      dates: { due: '2024-05-01' },
+      properties: { status: 'done' },
+      remove: ['obsolete'],
+    })
+
+    expect(frontmatter).toEqual({ status: 'done', due: '2024-05-01' })
+  })
+
+  it('should reject invalid dates', () => {
+    expect(() =>
+      applyNotePropertiesUpdate({}, { dates: { due: 'next friday' } }),
+    ).toThrow('Invalid date for "due"')
+  })
+
+  it('should reject tags passed as a plain property', () => {
+    expect(() =>
+      applyNotePropertiesUpdate({}, { properties: { tags: ['a'] } }),
+    ).toThrow('Use the "tags" field')
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Note Properties
+ *
+ * Typed view over a note's YAML frontmatter for the vault_get_properties /
+ * vault_set_properties RPCs. Tags, aliases and dates get normalised fields so
+ * the agent never has to hand-edit YAML; everything else passes through as-is.
+ */
+
+import type { NoteProperties, NotePropertiesUpdate } from './protocol'
+
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+// Legacy singular keys Obsidian still reads
+const TAG_KEYS = ['tags', 'tag']
+const ALIAS_KEYS = ['aliases', 'alias']
+
+/**
+ * Normalise a tags/aliases value: YAML list, comma-separated string or a
+ * single scalar all become a de-duplicated string array.
+ */
+function toStringList(value: unknown, stripHash = false): string[] {
+  const raw: unknown[] = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : value == null
+        ? []
+        : [value]
+
+  const items = raw
+    .filter((v) => v != null)
+    .map((v) => String(v).trim())
+    .map((v) => (stripHash ? v.replace(/^#/, '') : v))
+    .filter((v) => v.length > 0)
+
+  return Array.from(new Set(items))
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value.toISOString()
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value.trim())) {
+    return value.trim()
+  }
+  return null
+}
+
+/**
+ * Split raw frontmatter into typed fields
+ */
+export function readNoteProperties(
+  frontmatter: Record<string, unknown> | undefined,
+): NoteProperties {
+  const result: NoteProperties = {
+    tags: [],
+    aliases: [],
+    dates: {},
+    properties: {},
+  }
+  if (!frontmatter) return result
+
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (TAG_KEYS.includes(key)) {
+      result.tags.push(...toStringList(value, true))
+    } else if (ALIAS_KEYS.includes(key)) {
+      result.aliases.push(...toStringList(value))
+    } else {
+      const date = toIsoDate(value)
+      if (date) {
+        result.dates[key] = date
+      } else {
+        result.properties[key] = value
+      }
+    }
+  }
+
+  result.tags = Array.from(new Set(result.tags))
+  result.aliases = Array.from(new Set(result.aliases))
+  return result
+}
+
+/**
+ * Apply an update to frontmatter in place (called inside processFrontMatter).
+ * Tags and aliases replace the existing lists; dates and properties are
+ * merged key by key; `remove` deletes keys last.
+ */
+export function applyNotePropertiesUpdate(
+  frontmatter: Record<string, unknown>,
+  update: NotePropertiesUpdate,
+): void {
+  if (update.tags !== undefined) {
+    for (const key of TAG_KEYS) delete frontmatter[key]
+    const tags = toStringList(update.tags, true)
+    if (tags.length > 0) frontmatter.tags = tags
+  }
+
+  if (update.aliases !== undefined) {
+    for (const key of ALIAS_KEYS) delete frontmatter[key]
+    const aliases = toStringList(update.aliases)
+    if (aliases.length > 0) frontmatter.aliases = aliases
+  }
+
+  for (const [key, value] of Object.entries(update.dates ?? {})) {
+    const date = toIsoDate(value)
+    if (!date) {
+      throw new Error(
+        `Invalid date for "${key}": ${String(value)}. Use YYYY-MM-DD or an ISO 8601 timestamp.`,
+      )
+    }
+    frontmatter[key] = date
+  }
+
+  for (const [key, value] of Object.entries(update.properties ?? {})) {
+    if (TAG_KEYS.includes(key) || ALIAS_KEYS.includes(key)) {
+      throw new Error(
+        `Use the "${key.startsWith('tag') ? 'tags' : 'aliases'}" field to change ${key}`,
+      )
+    }
+    frontmatter[key] = value
+  }
+
+  for (const key of update.remove ?? []) {
+    delete frontmatter[key]
+  }
+}
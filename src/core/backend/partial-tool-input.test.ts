@@ -0,0 +1,44 @@
+import { parsePartialToolInput } from './partial-tool-input'
+
+describe('parsePartialToolInput', () => {
+  it('should return nothing before the first key is complete', () => {
+    expect(parsePartialToolInput('')).toEqual({})
+    expect(parsePartialToolInput('{')).toEqual({})
+    expect(parsePartialToolInput('{"pa')).toEqual({})
+    expect(parsePartialToolInput('{"path":')).toEqual({})
+  })
+
+  it('should return a string value that is still being written', () => {
+    expect(
+      parsePartialToolInput(
+        '{"path":"Notes/Plan.md","content":"# Plan\\n- fir',
+      ),
+    ).toEqual({ path: 'Notes/Plan.md', content: '# Plan\n- fir' })
+  })
+
+  it('should match JSON.parse once the input is complete', () => {
+    const input = {
+      path: 'a "quoted" name.md',
+      content: 'tab\there\\backé 😀',
+    }
+    expect(parsePartialToolInput(JSON.stringify(input))).toEqual(input)
+  })
+
+  it('should drop an escape sequence cut off at the end', () => {
+    expect(parsePartialToolInput('{"content":"line\\')).toEqual({
+      content: 'line',
+    })
+    expect(parsePartialToolInput('{"content":"caf\\u00')).toEqual({
+      content: 'caf',
+    })
+  })
+
+  it('should skip nested and non-string values', () => {
+    expect(
+      parsePartialToolInput(
+        '{"limit":10,"properties":{"tags":["a","b"]},"overwrite":true,"path":"x.md"}',
+      ),
+    ).toEqual({ path: 'x.md' })
+    expect(parsePartialToolInput('{"properties":{"title":"Half')).toEqual({})
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Partial Tool Input
+ *
+ * Reads string fields out of a tool input whose JSON is still being
+ * generated, e.g. `{"path":"Notes/Plan.md","content":"# Plan\n- fir`.
+ * Only top-level strings are returned; the last one may be cut off, and
+ * nested or non-string values are skipped.
+ */
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+}
+
+function skipWhitespace(json: string, i: number): number {
+  while (i < json.length && /\s/.test(json[i])) i++
+  return i
+}
+
+/**
+ * Read the string starting at the opening quote `start`. An escape sequence
+ * cut off at the end of the input is dropped rather than shown half-decoded.
+ */
+function readString(
+  json: string,
+  start: number,
+): { value: string; end: number; complete: boolean } {
+  let value = ''
+  let i = start + 1
+  while (i < json.length) {
+    const c = json[i]
+    if (c === '"') {
+      return { value, end: i + 1, complete: true }
+    }
+    if (c !== '\\') {
+      value += c
+      i++
+      continue
+    }
+    const next = json[i + 1]
+    if (next === undefined) break
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6)
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 6
+      continue
+    }
+    value += ESCAPES[next] ?? next
+    i += 2
+  }
+  return { value, end: json.length, complete: false }
+}
+
+/** Skip a non-string value, stopping at the `,` or `}` that ends it */
+function skipValue(json: string, start: number): number {
+  let depth = 0
+  let i = start
+  while (i < json.length) {
+    const c = json[i]
+    if (c === '"') {
+      i = readString(json, i).end
+      continue
+    }
+    if (c === '{' || c === '[') {
+      depth++
+    } else if (c === '}' || c === ']') {
+      if (depth === 0) return i
+      depth--
+    } else if (c === ',' && depth === 0) {
+      return i
+    }
+    i++
+  }
+  return i
+}
+
+export function parsePartialToolInput(json: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  let i = skipWhitespace(json, 0)
+  if (json[i] !== '{') return fields
+  i++
+
+  while (i < json.length) {
+    i = skipWhitespace(json, i)
+    if (json[i] === ',') {
+      i++
+      continue
+    }
+    if (json[i] !== '"') break
+
+    const key = readString(json, i)
+    if (!key.complete) break
+    i = skipWhitespace(json, key.end)
+    if (json[i] !== ':') break
+    i = skipWhitespace(json, i + 1)
+    if (i >= json.length) break
+
+    if (json[i] === '"') {
+      const value = readString(json, i)
+      fields[key.value] = value.value
+      i = value.end
+    } else {
+      i = skipValue(json, i)
+    }
+  }
+  return fields
+}
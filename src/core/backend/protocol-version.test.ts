@@ -0,0 +1,61 @@
+import { PROTOCOL_VERSION, type WelcomeMessage } from './protocol'
+import { checkBackendCompatibility } from './protocol-version'
+
+const welcome = (overrides: Partial<WelcomeMessage> = {}): WelcomeMessage => ({
+  type: 'welcome',
+  protocolVersion: PROTOCOL_VERSION,
+  minProtocolVersion: 1,
+  features: ['aside', 'interrupt', 'session_replay'],
+  server: 'typescript',
+  ...overrides,
+})
+
+describe('checkBackendCompatibility', () => {
+  it('should accept a current backend', () => {
+    expect(checkBackendCompatibility(welcome())).toEqual({
+      info: {
+        protocolVersion: PROTOCOL_VERSION,
+        features: ['aside', 'interrupt', 'session_replay'],
+        server: 'typescript',
+      },
+      warning: null,
+    })
+  })
+
+  it('should not warn about features a current backend leaves out', () => {
+    const result = checkBackendCompatibility(
+      welcome({ features: ['session_replay'], server: 'python' }),
+    )
+    expect(result.info.features).toEqual(['session_replay'])
+    expect(result.warning).toBeNull()
+  })
+
+  it('should treat a backend without the handshake as version 1', () => {
+    const { info, warning } = checkBackendCompatibility(null)
+    expect(info).toEqual({ protocolVersion: 1, features: [] })
+    expect(warning).toContain('backend is older than this plugin')
+    expect(warning).toContain('Stop cancels the response')
+  })
+
+  it('should list fallbacks for an older backend', () => {
+    const { warning } = checkBackendCompatibility(
+      welcome({
+        protocolVersion: PROTOCOL_VERSION - 1,
+        features: ['aside', 'interrupt'],
+      }),
+    )
+    expect(warning).toBe(
+      `The backend (protocol v${PROTOCOL_VERSION - 1}) is older than this plugin (v${PROTOCOL_VERSION}) and should be updated. Until then, responses still running when Obsidian closed are not restored.`,
+    )
+  })
+
+  it('should ask to update the plugin when the backend dropped its version', () => {
+    const { warning } = checkBackendCompatibility(
+      welcome({
+        protocolVersion: PROTOCOL_VERSION + 2,
+        minProtocolVersion: PROTOCOL_VERSION + 1,
+      }),
+    )
+    expect(warning).toContain('Update the plugin')
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Protocol version checks for the hello/welcome handshake. The backend's
+ * `welcome` says which protocol version and optional features it has; a
+ * backend from before the handshake sends nothing and is treated as
+ * protocol version 1 without optional features. Missing features fall back
+ * rather than fail (see FEATURE_FALLBACKS).
+ */
+
+import {
+  PROTOCOL_VERSION,
+  type ProtocolFeature,
+  type WelcomeMessage,
+} from './protocol'
+
+/** How long to wait for `welcome` before assuming an old backend */
+export const HANDSHAKE_TIMEOUT_MS = 5000
+
+export type BackendInfo = {
+  protocolVersion: number
+  features: ProtocolFeature[]
+  /** Backend implementation, unknown for backends without the handshake */
+  server?: string
+}
+
+/** What the plugin does instead when the backend lacks a feature */
+const FEATURE_FALLBACKS: Partial<Record<ProtocolFeature, string>> = {
+  aside: 'messages sent during a response wait until it finishes',
+  interrupt: 'Stop cancels the response instead of interrupting it',
+  session_replay:
+    'responses still running when Obsidian closed are not restored',
+}
+
+function describeFallbacks(features: ProtocolFeature[]): string {
+  const fallbacks = Object.entries(FEATURE_FALLBACKS)
+    .filter(([feature]) => !features.includes(feature as ProtocolFeature))
+    .map(([, fallback]) => fallback)
+  return fallbacks.length > 0 ? ` Until then, ${fallbacks.join('; ')}.` : ''
+}
+
+/**
+ * What the plugin knows about the backend from its `welcome` (null if it
+ * never came), and a warning for the user if either side is out of date
+ */
+export function checkBackendCompatibility(welcome: WelcomeMessage | null): {
+  info: BackendInfo
+  warning: string | null
+} {
+  if (!welcome) {
+    const info: BackendInfo = { protocolVersion: 1, features: [] }
+    return {
+      info,
+      warning: `The backend is older than this plugin and should be updated.${describeFallbacks(info.features)}`,
+    }
+  }
+
+  const info: BackendInfo = {
+    protocolVersion: welcome.protocolVersion,
+    features: welcome.features,
+    server: welcome.server,
+  }
+  if (welcome.minProtocolVersion > PROTOCOL_VERSION) {
+    return {
+      info,
+      warning: `This plugin (protocol v${PROTOCOL_VERSION}) is older than the backend supports (v${welcome.minProtocolVersion} and up). Update the plugin.`,
+    }
+  }
+  if (welcome.protocolVersion < PROTOCOL_VERSION) {
+    return {
+      info,
+      warning: `The backend (protocol v${welcome.protocolVersion}) is older than this plugin (v${PROTOCOL_VERSION}) and should be updated.${describeFallbacks(info.features)}`,
+    }
+  }
+  return { info, warning: null }
+}
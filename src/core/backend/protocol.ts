@@ -5,6 +5,54 @@
  * the backend server and the Obsidian plugin.
  */
 
+// ============================================================================
+// Versioning
+// ============================================================================
+
+/**
+ * Version of this protocol, matching PROTOCOL_VERSION in backend/src/protocol.ts.
+ * Version 1 is everything before the hello/welcome handshake.
+ */
+export const PROTOCOL_VERSION = 2;
+
+/** Optional capabilities a backend announces in `welcome` */
+export type ProtocolFeature =
+	| 'aside'
+	| 'interrupt'
+	| 'session_replay'
+	| 'approvals'
+	| 'fork'
+	| 'tool_access'
+	| 'sub_agents'
+	| 'jobs';
+
+/** RPC methods the plugin serves (see VaultRpcHandler), announced in `hello` */
+export const RPC_METHODS = [
+	'vault_read',
+	'vault_read_binary',
+	'vault_write',
+	'vault_edit',
+	'vault_search',
+	'vault_grep',
+	'vault_glob',
+	'vault_list',
+	'vault_rename',
+	'vault_delete',
+	'vault_get_properties',
+	'vault_set_properties',
+	'vault_backlinks',
+	'vault_outlinks',
+	'vault_neighbors',
+	'vault_semantic_search',
+	'cookbook_search',
+	'cookbook_list_sources',
+	'memory_add',
+	'memory_search',
+	'memory_forget',
+] as const;
+
+export type RpcMethod = (typeof RPC_METHODS)[number];
+
 // ============================================================================
 // Shared Types
 // ============================================================================
@@ -21,6 +69,111 @@ export interface FileInfo {
 	type: 'file' | 'folder';
 }
 
+/** A vault_semantic_search hit */
+export interface SemanticSearchResult {
+	path: string;
+	/** Chunk text (or the keyword snippet for keyword-only hybrid hits) */
+	content: string;
+	/** 1-based line range of the chunk; absent for keyword-only hits */
+	startLine?: number;
+	endLine?: number;
+	/** Cosine similarity to the query; absent for keyword-only hits */
+	similarity?: number;
+	/** Ranking score: similarity in semantic mode, RRF score in hybrid mode */
+	score: number;
+	sources: Array<'semantic' | 'keyword'>;
+}
+
+/** A passage of a cookbook PDF (cookbook_search) */
+export interface CookbookSearchResult {
+	path: string;
+	/** Cookbook name: the file name without extension */
+	source: string;
+	/** 1-based PDF page the passage is on */
+	page: number;
+	content: string;
+	similarity: number;
+}
+
+/** A PDF in the cookbook folder (cookbook_list_sources) */
+export interface CookbookSource {
+	path: string;
+	source: string;
+}
+
+/** A linked note and how many times the link occurs */
+export interface LinkInfo {
+	path: string;
+	count: number;
+}
+
+/** vault_outlinks result */
+export interface OutlinksResult {
+	links: LinkInfo[];
+	/** Link targets that don't exist (yet) in the vault */
+	unresolved: LinkInfo[];
+}
+
+/** A note reachable from the queried note (vault_neighbors) */
+export interface NeighborInfo {
+	path: string;
+	/** Number of hops from the queried note */
+	depth: number;
+	/** For direct neighbours: 'out' = queried note links to it, 'in' = it links back */
+	direction?: 'in' | 'out' | 'both';
+	/** For farther notes: the note one hop closer that leads here */
+	via?: string;
+}
+
+/** Typed frontmatter of a note (vault_get_properties) */
+export interface NoteProperties {
+	/** Tags without the leading '#' */
+	tags: string[];
+	aliases: string[];
+	/** Date-valued properties as ISO 8601 strings */
+	dates: Record<string, string>;
+	/** Every other property, as parsed from YAML */
+	properties: Record<string, unknown>;
+}
+
+/** Changes for vault_set_properties. Omitted fields are left untouched. */
+export interface NotePropertiesUpdate {
+	/** Replaces the tag list */
+	tags?: string[];
+	/** Replaces the alias list */
+	aliases?: string[];
+	/** Merged into existing date properties */
+	dates?: Record<string, string>;
+	/** Merged into existing properties */
+	properties?: Record<string, unknown>;
+	/** Property keys to delete */
+	remove?: string[];
+}
+
+/** An attachment embedded in a note (`![[photo.png]]`), resolved to its vault path */
+export interface NoteEmbed {
+	/** The link as written, e.g. "photo.png|300" */
+	link: string;
+	path: string;
+}
+
+/** vault_read result */
+export interface NoteContent {
+	content: string;
+	/** Image and PDF embeds, for the backend to load along with the text */
+	embeds?: NoteEmbed[];
+}
+
+/** vault_read_binary result */
+export interface BinaryFile {
+	path: string;
+	mimeType: string;
+	/** Size in bytes */
+	size: number;
+	/** Base64-encoded content */
+	data: string;
+}
+
 export interface GrepResult {
 	path: string;
 	line: number;
@@ -33,10 +186,53 @@ export interface AgentContext {
 	selection?: string;
 }
 
+/** How a destructive tool call is handled: run, ask the user first, or refuse */
+export type ApprovalPolicy = 'allow' | 'ask' | 'deny';
+
+export type ApprovalDecision = 'approve' | 'deny';
+
+/** Per-tool approval policy. Tools not listed default to 'allow'. */
+export interface ToolPolicies {
+	vault_write?: ApprovalPolicy;
+	vault_rename?: ApprovalPolicy;
+	vault_delete?: ApprovalPolicy;
+}
+
+/** How much the agent may change the vault this turn */
+export type ToolMode = 'read-only' | 'edit' | 'full';
+
+/** Per-prompt tool restrictions */
+export interface ToolAccess {
+	mode?: ToolMode;
+	allowedTools?: string[];
+	disallowedTools?: string[];
+}
+
+/** Parent conversation and checkpoint a conversation branch starts from */
+export interface ForkPoint {
+	conversationId: string;
+	checkpoint: string;
+}
+
+/** Scheduled job (`.claude/jobs/<id>.md`) that started a session */
+export interface JobRef {
+	id: string;
+	name: string;
+}
+
 // ============================================================================
 // Client → Server Messages
 // ============================================================================
 
+/** First message on a connection; the backend answers with `welcome` */
+export interface HelloMessage {
+	type: 'hello';
+	protocolVersion: number;
+	rpcMethods: string[];
+	/** Client name and version, for backend logs */
+	client?: string;
+}
+
 /** Send a prompt to the agent */
 export interface PromptMessage {
 	type: 'prompt';
@@ -53,6 +249,16 @@ export interface PromptMessage {
 	clientId?: string;
 	/** Conversation ID in client's chat history */
 	conversationId?: string;
+	/** Approval policy for destructive vault tools */
+	toolPolicies?: ToolPolicies;
+	/** Vault change level for this turn (default 'full') */
+	mode?: ToolMode;
+	/** If set, only these tools are available */
+	allowedTools?: string[];
+	/** Tools to remove for this turn */
+	disallowedTools?: string[];
+	/** Start conversationId as a branch of another conversation */
+	forkFrom?: ForkPoint;
 }
 
 /** Response to an RPC request from server */
@@ -72,6 +278,15 @@ export interface CancelMessage {
 	id: string;
 }
 
+/** User's answer to an approval_request */
+export interface ApprovalResponseMessage {
+	type: 'approval_response';
+	/** approvalId from the approval_request */
+	id: string;
+	decision: ApprovalDecision;
+	reason?: string;
+}
+
 /** Keepalive ping */
 export interface PingMessage {
 	type: 'ping';
@@ -84,7 +299,7 @@ export interface SessionResumeMessage {
 	clientId: string;
 }
 
-/** List sessions for a client */
+/** List sessions for a client (also lets the backend run the vault's scheduled jobs) */
 export interface SessionListMessage {
 	type: 'session_list';
 	clientId: string;
@@ -111,6 +326,7 @@ export interface AsideMessage {
 }
 
 export type ClientMessage =
+	| HelloMessage
 	| PromptMessage
 	| RpcResponseMessage
 	| CancelMessage
@@ -119,7 +335,8 @@ export type ClientMessage =
 	| SessionListMessage
 	| SessionCancelMessage
 	| InterruptMessage
-	| AsideMessage;
+	| AsideMessage
+	| ApprovalResponseMessage;
 
 // ============================================================================
 // Server → Client Messages
@@ -138,6 +355,27 @@ export interface ToolStartMessage {
 	requestId: string;
 	toolName: string;
 	toolInput: Record<string, unknown>;
+	/** Matches the toolUseId of earlier tool_input_delta messages */
+	toolUseId?: string;
+	/**
+	 * Set when a sub-agent (delegate_task) uses the tool: the request that
+	 * started it. `requestId` is then the sub-agent's own id.
+	 */
+	parentRequestId?: string;
+	/** Set with parentRequestId: the toolUseId of the delegate_task call that started the sub-agent */
+	parentToolUseId?: string;
+}
+
+/**
+ * Partial tool input while the model is still generating it. Concatenate
+ * `partialJson` chunks with the same toolUseId to get the input so far.
+ */
+export interface ToolInputDeltaMessage {
+	type: 'tool_input_delta';
+	requestId: string;
+	toolUseId: string;
+	toolName: string;
+	partialJson: string;
 }
 
 /** Tool finished */
@@ -146,6 +384,8 @@ export interface ToolEndMessage {
 	requestId: string;
 	toolName: string;
 	result: string;
+	/** As in ToolStartMessage */
+	parentRequestId?: string;
 }
 
 /** Agent thinking (for transparency) */
@@ -155,11 +395,24 @@ export interface ThinkingMessage {
 	text: string;
 }
 
+/** Token counts for one agent run, as reported by the Agent SDK */
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cacheCreationInputTokens: number;
+	cacheReadInputTokens: number;
+}
+
 /** Agent finished */
 export interface CompleteMessage {
 	type: 'complete';
 	requestId: string;
 	result: string;
+	/** Model that actually ran (resolves the server default) */
+	model?: string;
+	usage?: TokenUsage;
+	/** Resume point after this turn, for forking the conversation here later */
+	checkpoint?: string;
 }
 
 /** Error occurred */
@@ -174,19 +427,28 @@ export interface ErrorMessage {
 export interface RpcRequestMessage {
 	type: 'rpc_request';
 	id: string;
-	method:
-		| 'vault_read'
-		| 'vault_write'
-		| 'vault_edit'
-		| 'vault_search'
-		| 'vault_grep'
-		| 'vault_glob'
-		| 'vault_list'
-		| 'vault_rename'
-		| 'vault_delete';
+	method: RpcMethod;
 	params: Record<string, unknown>;
 }
 
+/** A gated tool is waiting for the user's approval */
+export interface ApprovalRequestMessage {
+	type: 'approval_request';
+	requestId: string;
+	approvalId: string;
+	toolName: string;
+	toolInput: Record<string, unknown>;
+}
+
+/** An approval request was answered (or timed out) */
+export interface ApprovalResolvedMessage {
+	type: 'approval_resolved';
+	requestId: string;
+	approvalId: string;
+	decision: ApprovalDecision;
+	reason?: string;
+}
+
 /** Session was created for a prompt */
 export interface SessionCreatedMessage {
 	type: 'session_created';
@@ -196,7 +458,19 @@ export interface SessionCreatedMessage {
 
 /** Agent event as stored in session buffer */
 export interface SessionAgentEvent {
-	type: 'text_delta' | 'tool_start' | 'tool_end' | 'thinking' | 'complete' | 'error';
+	type:
+		| 'text_delta'
+		| 'tool_start'
+		| 'tool_end'
+		| 'thinking'
+		| 'complete'
+		| 'error'
+		| 'approval_request'
+		| 'approval_resolved';
+	/** Set on tool events of a delegated sub-agent: the sub-agent's id */
+	subAgentId?: string;
+	/** Set with subAgentId: the toolUseId of the delegate_task call that started the sub-agent */
+	parentToolUseId?: string;
 	[key: string]: unknown;
 }
 
@@ -218,6 +492,19 @@ export interface SessionInfoMessage {
 	createdAt: number;
 	completedAt?: number;
 	eventCount: number;
+	/** Set for runs of a scheduled job; also sent when such a run starts and ends */
+	job?: JobRef;
+}
+
+/** Reply to `hello`. Backends from before the handshake never send it. */
+export interface WelcomeMessage {
+	type: 'welcome';
+	protocolVersion: number;
+	/** Plugins older than this should be updated */
+	minProtocolVersion: number;
+	features: ProtocolFeature[];
+	/** Backend implementation, e.g. "typescript" or "python" */
+	server: string;
 }
 
 /** Keepalive response */
@@ -228,11 +515,15 @@ export interface PongMessage {
 export type ServerMessage =
 	| TextDeltaMessage
 	| ToolStartMessage
+	| ToolInputDeltaMessage
 	| ToolEndMessage
 	| ThinkingMessage
 	| CompleteMessage
 	| ErrorMessage
 	| RpcRequestMessage
+	| ApprovalRequestMessage
+	| ApprovalResolvedMessage
+	| WelcomeMessage
 	| PongMessage
 	| SessionCreatedMessage
 	| SessionReplayMessage
@@ -0,0 +1,132 @@
+import {
+  SearchIndex,
+  buildSnippet,
+  parseSearchQuery,
+  tokenize,
+} from './search-index'
+
+describe('tokenize', () => {
+  it('should lowercase and split on non-word characters', () => {
+    expect(tokenize('Meal-prep: Sunday [[Plan]] café')).toEqual([
+      'meal',
+      'prep',
+      'sunday',
+      'plan',
+      'café',
+    ])
+  })
+})
+
+describe('parseSearchQuery', () => {
+  it('should separate terms, phrases and filters', () => {
+    expect(
+      parseSearchQuery(
+        'braise "short ribs" path:recipes/ tag:#cooking path:"Meal Plans"',
+      ),
+    ).toEqual({
+      terms: ['braise'],
+      phrases: [['short', 'ribs']],
+      pathFilters: ['recipes/', 'meal plans'],
+      tagFilters: ['cooking'],
+    })
+  })
+
+  it('should treat a one-word quoted string as a term', () => {
+    expect(parseSearchQuery('"ribs"').terms).toEqual(['ribs'])
+  })
+
+  it('should tolerate an unterminated quote', () => {
+    expect(parseSearchQuery('"short ribs').phrases).toEqual([['short', 'ribs']])
+  })
+})
+
+describe('SearchIndex', () => {
+  const build = () => {
+    const index = new SearchIndex()
+    index.upsert(
+      'recipes/Short Ribs.md',
+      'Braised short ribs with red wine. Braise for three hours.',
+      ['#cooking/meat'],
+    )
+    index.upsert(
+      'recipes/Risotto.md',
+      'Risotto needs short grain rice and patience. Serve with ribs? No.',
+      ['#cooking'],
+    )
+    index.upsert('journal/2024-01-01.md', 'Ate ribs at the pub.', ['#journal'])
+    return index
+  }
+
+  it('should rank notes by relevance', () => {
+    const hits = build().search(parseSearchQuery('braise ribs'), 10)
+    expect(hits.map((h) => h.path)).toEqual([
+      'recipes/Short Ribs.md',
+      'journal/2024-01-01.md',
+      'recipes/Risotto.md',
+    ])
+    expect(hits[0].score).toBeGreaterThan(hits[1].score)
+  })
+
+  it('should require quoted phrases to appear in order', () => {
+    const hits = build().search(parseSearchQuery('"short ribs"'), 10)
+    expect(hits.map((h) => h.path)).toEqual(['recipes/Short Ribs.md'])
+  })
+
+  it('should apply path and tag filters', () => {
+    const index = build()
+    expect(
+      index
+        .search(parseSearchQuery('ribs path:recipes/'), 10)
+        .map((h) => h.path),
+    ).not.toContain('journal/2024-01-01.md')
+    expect(
+      index.search(parseSearchQuery('ribs tag:cooking'), 10).map((h) => h.path),
+    ).toEqual(['recipes/Short Ribs.md', 'recipes/Risotto.md'])
+  })
+
+  it('should support filter-only queries', () => {
+    const hits = build().search(parseSearchQuery('tag:journal'), 10)
+    expect(hits).toEqual([{ path: 'journal/2024-01-01.md', score: 0 }])
+  })
+
+  it('should match filename terms', () => {
+    const hits = build().search(parseSearchQuery('risotto'), 10)
+    expect(hits[0].path).toBe('recipes/Risotto.md')
+  })
+
+  it('should respect the limit', () => {
+    expect(build().search(parseSearchQuery('ribs'), 2)).toHaveLength(2)
+  })
+
+  it('should reflect updates, renames and removals', () => {
+    const index = build()
+
+    index.upsert('journal/2024-01-01.md', 'Nothing about dinner today.')
+    expect(
+      index.search(parseSearchQuery('ribs'), 10).map((h) => h.path),
+    ).not.toContain('journal/2024-01-01.md')
+
+    index.rename('recipes/Risotto.md', 'archive/Old Risotto.md')
+    expect(index.search(parseSearchQuery('risotto'), 10)[0].path).toBe(
+      'archive/Old Risotto.md',
+    )
+
+    index.remove('recipes/Short Ribs.md')
+    expect(index.size).toBe(2)
+    expect(index.search(parseSearchQuery('braise'), 10)).toEqual([])
+  })
+})
+
+describe('buildSnippet', () => {
+  it('should excerpt around the first match', () => {
+    const content = `${'a '.repeat(100)}the short ribs braise slowly${' b'.repeat(100)}`
+    const snippet = buildSnippet(content, parseSearchQuery('"short ribs"'), 10)
+    expect(snippet).toBe('...a a a the short ribs braise sl...')
+  })
+
+  it('should fall back to the start of the note', () => {
+    expect(buildSnippet('Hello world', parseSearchQuery('tag:x'))).toBe(
+      'Hello world',
+    )
+  })
+})
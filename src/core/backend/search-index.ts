@@ -0,0 +1,314 @@
+/**
+ * Search Index
+ *
+ * In-memory inverted index behind vault_search. Ranks notes with BM25 and
+ * keeps term positions so quoted phrases can be matched exactly. The index
+ * knows nothing about Obsidian — VaultRpcHandler feeds it documents and keeps
+ * it current from vault events.
+ *
+ * Query syntax:
+ *   meal prep            any of the terms, best matches first
+ *   "meal prep"          exact phrase (required)
+ *   path:recipes/        path contains "recipes/" (required)
+ *   tag:cooking          note has #cooking or a nested #cooking/... tag (required)
+ */
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2
+const B = 0.75
+
+/** Extra weight for a term that appears in the note's filename */
+const TITLE_BOOST = 1.5
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu
+
+export type ParsedSearchQuery = {
+  terms: string[]
+  phrases: string[][]
+  pathFilters: string[]
+  tagFilters: string[]
+}
+
+export type SearchHit = {
+  path: string
+  score: number
+}
+
+type IndexedDocument = {
+  length: number
+  titleTerms: Set<string>
+  tags: string[]
+  /** Unique body terms, so removal doesn't scan every posting list */
+  terms: string[]
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? []
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase()
+}
+
+/**
+ * Split a query string into free terms, phrases and filters
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    pathFilters: [],
+    tagFilters: [],
+  }
+
+  const tokenPattern = /(?:(path|tag):)?(?:"([^"]*)"?|(\S+))/gi
+  let match: RegExpExecArray | null
+  while ((match = tokenPattern.exec(query)) !== null) {
+    const [, filter, quoted, bare] = match
+    const value = quoted ?? bare ?? ''
+    if (!value.trim()) continue
+
+    switch (filter?.toLowerCase()) {
+      case 'path':
+        parsed.pathFilters.push(value.toLowerCase())
+        break
+      case 'tag':
+        parsed.tagFilters.push(normalizeTag(value))
+        break
+      default: {
+        const tokens = tokenize(value)
+        if (quoted !== undefined && tokens.length > 1) {
+          parsed.phrases.push(tokens)
+        } else {
+          parsed.terms.push(...tokens)
+        }
+      }
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Pick a short excerpt around the first phrase or term that occurs in content
+ */
+export function buildSnippet(
+  content: string,
+  query: ParsedSearchQuery,
+  radius = 50,
+): string {
+  const lower = content.toLowerCase()
+  const needles = [
+    ...query.phrases.map((phrase) => phrase.join(' ')),
+    ...query.terms,
+  ]
+
+  let index = -1
+  let needleLength = 0
+  for (const needle of needles) {
+    index = lower.indexOf(needle)
+    if (index !== -1) {
+      needleLength = needle.length
+      break
+    }
+  }
+  if (index === -1) {
+    index = 0
+  }
+
+  const start = Math.max(0, index - radius)
+  const end = Math.min(content.length, index + needleLength + radius)
+  let snippet = content.substring(start, end).replace(/\s+/g, ' ').trim()
+  if (start > 0) snippet = '...' + snippet
+  if (end < content.length) snippet = snippet + '...'
+  return snippet
+}
+
+export class SearchIndex {
+  /** term -> path -> token positions */
+  private postings = new Map<string, Map<string, number[]>>()
+  private documents = new Map<string, IndexedDocument>()
+  private totalLength = 0
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  has(path: string): boolean {
+    return this.documents.has(path)
+  }
+
+  /**
+   * Add or replace a document
+   */
+  upsert(path: string, content: string, tags: string[] = []): void {
+    this.remove(path)
+
+    const tokens = tokenize(content)
+    const positions = new Map<string, number[]>()
+    tokens.forEach((token, i) => {
+      const list = positions.get(token)
+      if (list) {
+        list.push(i)
+      } else {
+        positions.set(token, [i])
+      }
+    })
+
+    for (const [term, list] of positions) {
+      let posting = this.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(term, posting)
+      }
+      posting.set(path, list)
+    }
+
+    const basename = path.split('/').pop() ?? path
+    this.documents.set(path, {
+      length: tokens.length,
+      titleTerms: new Set(tokenize(basename.replace(/\.md$/i, ''))),
+      tags: tags.map(normalizeTag),
+      terms: Array.from(positions.keys()),
+    })
+    this.totalLength += tokens.length
+  }
+
+  remove(path: string): void {
+    const doc = this.documents.get(path)
+    if (!doc) return
+
+    for (const term of doc.terms) {
+      const posting = this.postings.get(term)
+      if (!posting) continue
+      posting.delete(path)
+      if (posting.size === 0) this.postings.delete(term)
+    }
+    this.totalLength -= doc.length
+    this.documents.delete(path)
+  }
+
+  /**
+   * Move a document to a new path without re-reading it
+   */
+  rename(oldPath: string, newPath: string): void {
+    const doc = this.documents.get(oldPath)
+    if (!doc) return
+
+    for (const term of doc.terms) {
+      const posting = this.postings.get(term)
+      const list = posting?.get(oldPath)
+      if (posting && list) {
+        posting.delete(oldPath)
+        posting.set(newPath, list)
+      }
+    }
+
+    const basename = newPath.split('/').pop() ?? newPath
+    this.documents.delete(oldPath)
+    this.documents.set(newPath, {
+      ...doc,
+      titleTerms: new Set(tokenize(basename.replace(/\.md$/i, ''))),
+    })
+  }
+
+  clear(): void {
+    this.postings.clear()
+    this.documents.clear()
+    this.totalLength = 0
+  }
+
+  search(query: ParsedSearchQuery, limit: number): SearchHit[] {
+    const scoringTerms = Array.from(
+      new Set([...query.terms, ...query.phrases.flat()]),
+    )
+    const hasFilters =
+      query.phrases.length > 0 ||
+      query.pathFilters.length > 0 ||
+      query.tagFilters.length > 0
+    if (scoringTerms.length === 0 && !hasFilters) return []
+
+    // Candidates: notes containing any term, or every note for filter-only queries
+    let candidates: Iterable<string>
+    if (scoringTerms.length > 0) {
+      const set = new Set<string>()
+      for (const term of scoringTerms) {
+        for (const path of this.postings.get(term)?.keys() ?? []) set.add(path)
+        for (const [path, doc] of this.documents) {
+          if (doc.titleTerms.has(term)) set.add(path)
+        }
+      }
+      candidates = set
+    } else {
+      candidates = this.documents.keys()
+    }
+
+    const hits: SearchHit[] = []
+    for (const path of candidates) {
+      if (!this.matchesFilters(path, query)) continue
+      hits.push({ path, score: this.score(path, scoringTerms) })
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit)
+  }
+
+  private matchesFilters(path: string, query: ParsedSearchQuery): boolean {
+    const doc = this.documents.get(path)
+    if (!doc) return false
+
+    const lowerPath = path.toLowerCase()
+    if (!query.pathFilters.every((filter) => lowerPath.includes(filter))) {
+      return false
+    }
+
+    if (
+      !query.tagFilters.every((filter) =>
+        doc.tags.some((tag) => tag === filter || tag.startsWith(filter + '/')),
+      )
+    ) {
+      return false
+    }
+
+    return query.phrases.every((phrase) => this.containsPhrase(path, phrase))
+  }
+
+  private containsPhrase(path: string, phrase: string[]): boolean {
+    const lists = phrase.map((term) => this.postings.get(term)?.get(path))
+    if (lists.some((list) => !list)) return false
+
+    const [first, ...rest] = lists as number[][]
+    const restSets = rest.map((list) => new Set(list))
+    return first.some((start) =>
+      restSets.every((set, i) => set.has(start + i + 1)),
+    )
+  }
+
+  private score(path: string, terms: string[]): number {
+    const doc = this.documents.get(path)
+    if (!doc || terms.length === 0) return 0
+
+    const n = this.documents.size
+    const avgLength = this.totalLength / n || 1
+    let score = 0
+
+    for (const term of terms) {
+      const posting = this.postings.get(term)
+      const df = posting?.size ?? 0
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5))
+
+      const tf = posting?.get(path)?.length ?? 0
+      if (tf > 0) {
+        score +=
+          (idf * (tf * (K1 + 1))) /
+          (tf + K1 * (1 - B + (B * doc.length) / avgLength))
+      }
+      if (doc.titleTerms.has(term)) {
+        score += idf * TITLE_BOOST
+      }
+    }
+
+    return score
+  }
+}
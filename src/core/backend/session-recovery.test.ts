@@ -0,0 +1,45 @@
+import type { SessionAgentEvent } from './protocol'
+import { eventsToMessages } from './session-recovery'
+
+describe('eventsToMessages', () => {
+  it('should nest parallel sub-agents under the calls that started them', () => {
+    const events: SessionAgentEvent[] = [
+      {
+        type: 'tool_start',
+        name: 'delegate_task',
+        input: { task: 'A' },
+        toolUseId: 'toolu_a',
+      },
+      {
+        type: 'tool_start',
+        name: 'delegate_task',
+        input: { task: 'B' },
+        toolUseId: 'toolu_b',
+      },
+      // B's sub-agent uses a tool first
+      {
+        type: 'tool_start',
+        name: 'vault_read',
+        input: { path: 'b.md' },
+        subAgentId: 'subagent-b',
+        parentToolUseId: 'toolu_b',
+      },
+      {
+        type: 'tool_start',
+        name: 'vault_read',
+        input: { path: 'a.md' },
+        subAgentId: 'subagent-a',
+        parentToolUseId: 'toolu_a',
+      },
+      { type: 'complete', result: '' },
+    ]
+
+    const [message] = eventsToMessages(events)
+    if (message.role !== 'assistant') throw new Error('Expected a reply')
+    const [delegateA, delegateB, readB, readA] = message.activities ?? []
+    expect(readB.filePath).toBe('b.md')
+    expect(readB.parentActivityId).toBe(delegateB.id)
+    expect(readA.filePath).toBe('a.md')
+    expect(readA.parentActivityId).toBe(delegateA.id)
+  })
+})
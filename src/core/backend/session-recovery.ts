@@ -7,7 +7,9 @@
 
 import { v4 as uuidv4 } from 'uuid'
 import type { ChatMessage, ActivityEvent } from '../../types/chat'
-import type { SessionAgentEvent } from './protocol'
+import type { ResponseUsage } from '../../types/llm/response'
+import type { SessionAgentEvent, TokenUsage } from './protocol'
+import { toResponseUsage } from './usage'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyEvent = any
@@ -21,7 +23,36 @@ export function eventsToMessages(events: SessionAgentEvent[]): ChatMessage[] {
   let reasoning = ''
   const activities: ActivityEvent[] = []
   const activityMap = new Map<string, ActivityEvent>()
+  const approvalMap = new Map<string, ActivityEvent>()
+  // subAgentId -> id of the delegate_task activity it runs under
+  const subAgentParents = new Map<string, string>()
+  // toolUseId -> id of the activity of that tool call
+  const toolUseActivities = new Map<string, string>()
   let toolIndex = 0
+  let usage: ResponseUsage | undefined
+
+  // A new sub-agent belongs to the delegate_task call that started it.
+  // Sessions from servers that don't record its toolUseId get the earliest
+  // call without a sub-agent, which is only right when delegations don't
+  // overlap.
+  const subAgentParent = (
+    subAgentId: string,
+    parentToolUseId: string | undefined,
+  ): string | undefined => {
+    const known = subAgentParents.get(subAgentId)
+    if (known) return known
+    const bound = new Set(subAgentParents.values())
+    const parentId = parentToolUseId
+      ? toolUseActivities.get(parentToolUseId)
+      : activities.find(
+          (a) =>
+            a.type === 'delegate_task' &&
+            a.status === 'running' &&
+            !bound.has(a.id),
+        )?.id
+    if (parentId) subAgentParents.set(subAgentId, parentId)
+    return parentId
+  }
 
   for (const event of events) {
     const e = event as AnyEvent
@@ -37,7 +68,14 @@ export function eventsToMessages(events: SessionAgentEvent[]): ChatMessage[] {
       case 'tool_start': {
         const name: string = e.name || e.toolName || 'tool'
         const input: Record<string, unknown> = e.input || e.toolInput || {}
+        const subAgentId = e.subAgentId as string | undefined
+        const parentActivityId = subAgentId
+          ? subAgentParent(subAgentId, e.parentToolUseId as string | undefined)
+          : undefined
+        if (subAgentId && !parentActivityId) break
         const activityId = `recovered-${toolIndex++}`
+        const toolUseId = e.toolUseId as string | undefined
+        if (toolUseId) toolUseActivities.set(toolUseId, activityId)
         const activity: ActivityEvent = {
           id: activityId,
           type: getActivityType(name),
@@ -46,8 +84,9 @@ export function eventsToMessages(events: SessionAgentEvent[]): ChatMessage[] {
           toolName: name,
           toolInput: input,
           filePath: (input.path as string) || undefined,
+          parentActivityId,
         }
-        activityMap.set(name + '-pending', activity)
+        activityMap.set(pendingKey(name, subAgentId), activity)
         activities.push(activity)
         break
       }
@@ -55,18 +94,51 @@ export function eventsToMessages(events: SessionAgentEvent[]): ChatMessage[] {
       case 'tool_end': {
         const name: string = e.name || e.toolName || 'tool'
         const result: string = e.result || ''
-        const pending = activityMap.get(name + '-pending')
+        const key = pendingKey(name, e.subAgentId as string | undefined)
+        const pending = activityMap.get(key)
         if (pending) {
           pending.status = 'complete'
           pending.endTime = Date.now()
           pending.toolResult = result
-          activityMap.delete(name + '-pending')
+          activityMap.delete(key)
+        }
+        break
+      }
+
+      case 'approval_request': {
+        const approvalId = String(e.approvalId)
+        const pending = activityMap.get(`${String(e.name)}-pending`)
+        if (pending) {
+          pending.approval = { id: approvalId, status: 'pending' }
+          approvalMap.set(approvalId, pending)
+        }
+        break
+      }
+
+      case 'approval_resolved': {
+        const approvalId = String(e.approvalId)
+        const activity = approvalMap.get(approvalId)
+        if (activity) {
+          activity.approval = {
+            id: approvalId,
+            status: e.decision === 'approve' ? 'approved' : 'denied',
+            reason: e.reason as string | undefined,
+          }
+          approvalMap.delete(approvalId)
         }
         break
       }
 
-      case 'complete':
       case 'error':
+        // Surface why the session ended (e.g. SERVER_RESTARTED) in the transcript
+        if (e.message) {
+          content += `${content ? '\n\n' : ''}*${String(e.message)}*`
+        }
+      // falls through
+      case 'complete':
+        if (e.usage) {
+          usage = toResponseUsage(e.usage as TokenUsage)
+        }
         // Mark any still-running activities as complete
         for (const activity of activities) {
           if (activity.status === 'running') {
@@ -88,27 +160,44 @@ export function eventsToMessages(events: SessionAgentEvent[]): ChatMessage[] {
       id: uuidv4(),
       reasoning: reasoning || undefined,
       activities: activities.length > 0 ? activities : undefined,
+      metadata: usage ? { usage } : undefined,
     })
   }
 
   return messages
 }
 
+/** Key of a tool call awaiting its tool_end, per sub-agent */
+function pendingKey(name: string, subAgentId?: string): string {
+  return subAgentId ? `${subAgentId}:${name}-pending` : `${name}-pending`
+}
+
 function getActivityType(name: string): ActivityEvent['type'] {
   const cleanName = name.replace(/^backend__/, '')
   const typeMap: Record<string, ActivityEvent['type']> = {
     vault_read: 'vault_read',
+    vault_read_binary: 'vault_read_binary',
     vault_write: 'vault_write',
     vault_edit: 'vault_edit',
     vault_search: 'vault_search',
+    vault_semantic_search: 'vault_semantic_search',
     vault_grep: 'vault_grep',
     vault_glob: 'vault_glob',
     vault_list: 'vault_list',
     vault_rename: 'vault_rename',
     vault_delete: 'vault_delete',
+    vault_get_properties: 'vault_get_properties',
+    vault_set_properties: 'vault_set_properties',
+    vault_backlinks: 'vault_backlinks',
+    vault_outlinks: 'vault_outlinks',
+    vault_neighbors: 'vault_neighbors',
+    memory_add: 'memory_add',
+    memory_search: 'memory_search',
+    memory_forget: 'memory_forget',
     search_cookbooks: 'search_cookbooks',
     list_cookbook_sources: 'list_cookbook_sources',
     web_search: 'web_search',
+    delegate_task: 'delegate_task',
   }
   return typeMap[cleanName] || 'tool_call'
 }
@@ -45,7 +45,7 @@ export function parseToolResult(
 	try {
 		const args = JSON.parse(toolArguments);
 
-		if (toolName === 'vault_read') {
+		if (toolName === 'vault_read' || toolName === 'vault_read_binary') {
 			parsed.filePath = args.path;
 		} else if (toolName === 'vault_write') {
 			parsed.filePath = args.path;
@@ -76,6 +76,28 @@ export function parseToolResult(
 			parsed.filePath = args.new_path;
 		} else if (toolName === 'vault_delete') {
 			parsed.filePath = args.path;
+		} else if (
+			toolName === 'vault_get_properties' ||
+			toolName === 'vault_set_properties'
+		) {
+			parsed.filePath = args.path;
+		} else if (
+			toolName === 'vault_semantic_search' ||
+			toolName === 'vault_backlinks' ||
+			toolName === 'vault_outlinks' ||
+			toolName === 'vault_neighbors'
+		) {
+			parsed.filePath = args.path;
+			const lines = result.split('\n');
+			const fileRefs: string[] = [];
+			for (const line of lines) {
+				const match = line.match(/^-\s*(.+?\.\w+)(?:\s\(|\s\[|$)/);
+				if (match && !fileRefs.includes(match[1].trim())) {
+					fileRefs.push(match[1].trim());
+				}
+			}
+			parsed.resultCount = fileRefs.length;
+			parsed.results = fileRefs;
 		} else if (toolName === 'vault_search') {
 			const lines = result.split('\n');
 			const fileRefs: string[] = [];
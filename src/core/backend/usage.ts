@@ -0,0 +1,26 @@
+/**
+ * Backend Usage
+ *
+ * Maps the token counts the backend reports on `complete` into the
+ * ResponseUsage shape stored in assistant message metadata.
+ */
+
+import type { ResponseUsage } from '../../types/llm/response'
+
+import type { TokenUsage } from './protocol'
+
+export function toResponseUsage(usage: TokenUsage): ResponseUsage {
+  // The SDK reports cached input separately from input_tokens; prompt_tokens
+  // counts everything the model read so the totals match other providers
+  const promptTokens =
+    usage.inputTokens +
+    usage.cacheCreationInputTokens +
+    usage.cacheReadInputTokens
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: promptTokens + usage.outputTokens,
+    cache_creation_input_tokens: usage.cacheCreationInputTokens,
+    cache_read_input_tokens: usage.cacheReadInputTokens,
+  }
+}
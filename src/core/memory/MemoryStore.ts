@@ -0,0 +1,141 @@
+/**
+ * MemoryStore
+ *
+ * Reads and writes the agent's memory entries in `.claude/memory/` (see
+ * memory-entry.ts) and ranks them with the same BM25 index as vault_search.
+ * Entries are few and small, so every call reads them fresh instead of
+ * keeping an index in sync with edits made outside the plugin.
+ */
+
+import type { App } from 'obsidian'
+
+import {
+  ParsedSearchQuery,
+  SearchIndex,
+  parseSearchQuery,
+} from '../backend/search-index'
+
+import {
+  LEGACY_MEMORY_PATH,
+  MEMORY_DIR,
+  MemoryEntry,
+  createMemoryId,
+  memoryEntryPath,
+  memoryQueryTerms,
+  normalizeMemoryTags,
+  parseMemoryEntry,
+  serializeMemoryEntry,
+  splitLegacyMemory,
+} from './memory-entry'
+
+/** Entries added to a prompt when nothing asks for a different number */
+const RELEVANT_LIMIT = 5
+
+export class MemoryStore {
+  constructor(private app: App) {}
+
+  /** Every entry, newest first */
+  async list(): Promise<MemoryEntry[]> {
+    // Dotfiles aren't indexed by Obsidian — use the adapter directly
+    const adapter = this.app.vault.adapter
+    if (!(await adapter.exists(MEMORY_DIR))) return []
+
+    const { files } = await adapter.list(MEMORY_DIR)
+    const entries = await Promise.all(
+      files
+        .filter((path) => path.endsWith('.md'))
+        .map(async (path) => {
+          const id = (path.split('/').pop() ?? path).replace(/\.md$/, '')
+          return parseMemoryEntry(id, await adapter.read(path))
+        }),
+    )
+    return entries.sort((a, b) => b.created.localeCompare(a.created))
+  }
+
+  async add(content: string, tags: string[] = []): Promise<MemoryEntry> {
+    const trimmed = content.trim()
+    if (!trimmed) {
+      throw new Error('Memory content is empty')
+    }
+
+    const adapter = this.app.vault.adapter
+    if (!(await adapter.exists(MEMORY_DIR))) {
+      await adapter.mkdir(MEMORY_DIR)
+    }
+
+    let id = createMemoryId(trimmed)
+    while (await adapter.exists(memoryEntryPath(id))) {
+      id = createMemoryId(trimmed)
+    }
+    const entry: MemoryEntry = {
+      id,
+      content: trimmed,
+      tags: normalizeMemoryTags(tags),
+      created: new Date().toISOString(),
+    }
+    await adapter.write(memoryEntryPath(id), serializeMemoryEntry(entry))
+    return entry
+  }
+
+  /** Delete an entry. Returns false if there is no entry with this id. */
+  async forget(id: string): Promise<boolean> {
+    if (id.includes('/') || id.includes('\\')) return false
+    const adapter = this.app.vault.adapter
+    const path = memoryEntryPath(id)
+    if (!(await adapter.exists(path))) return false
+    await adapter.remove(path)
+    return true
+  }
+
+  /** Search with vault_search syntax, e.g. `units "metric"` or `tag:preferences` */
+  async search(query: string, limit = 10): Promise<MemoryEntry[]> {
+    return this.rank(await this.list(), parseSearchQuery(query), limit)
+  }
+
+  /** Entries that share meaningful terms with a prompt, best first */
+  async findRelevant(
+    text: string,
+    limit = RELEVANT_LIMIT,
+  ): Promise<MemoryEntry[]> {
+    const terms = memoryQueryTerms(text)
+    if (terms.length === 0) return []
+    return this.rank(
+      await this.list(),
+      { terms, phrases: [], pathFilters: [], tagFilters: [] },
+      limit,
+    )
+  }
+
+  /**
+   * Turn a pre-existing `.claude/memory.md` into entries and rename it out
+   * of the way. Returns the number of entries created.
+   */
+  async migrateLegacyMemory(): Promise<number> {
+    const adapter = this.app.vault.adapter
+    if (!(await adapter.exists(LEGACY_MEMORY_PATH))) return 0
+
+    const items = splitLegacyMemory(await adapter.read(LEGACY_MEMORY_PATH))
+    for (const item of items) {
+      await this.add(item.content, item.tags)
+    }
+    await adapter.rename(LEGACY_MEMORY_PATH, `${LEGACY_MEMORY_PATH}.migrated`)
+    return items.length
+  }
+
+  private rank(
+    entries: MemoryEntry[],
+    query: ParsedSearchQuery,
+    limit: number,
+  ): MemoryEntry[] {
+    const index = new SearchIndex()
+    const byId = new Map<string, MemoryEntry>()
+    for (const entry of entries) {
+      index.upsert(entry.id, entry.content, entry.tags)
+      byId.set(entry.id, entry)
+    }
+    return index
+      .search(query, limit)
+      .map((hit) => byId.get(hit.path))
+      .filter((entry): entry is MemoryEntry => entry !== undefined)
+  }
+}
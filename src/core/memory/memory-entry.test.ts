@@ -0,0 +1,91 @@
+import {
+  createMemoryId,
+  memoryQueryTerms,
+  normalizeMemoryTags,
+  parseMemoryEntry,
+  serializeMemoryEntry,
+  splitLegacyMemory,
+} from './memory-entry'
+
+describe('createMemoryId', () => {
+  it('should slug the first words and append the suffix', () => {
+    expect(
+      createMemoryId('Prefers metric units in recipes, always!', 'k3f9'),
+    ).toBe('prefers-metric-units-in-recipes-always-k3f9')
+  })
+
+  it('should strip accents but keep other scripts', () => {
+    expect(createMemoryId('Café crème notes', 'ab12')).toBe(
+      'cafe-creme-notes-ab12',
+    )
+    expect(createMemoryId('東京 trip', 'ab12')).toBe('東京-trip-ab12')
+  })
+
+  it('should fall back when nothing is left to slug', () => {
+    expect(createMemoryId('!!!', 'ab12')).toBe('memory-ab12')
+  })
+})
+
+describe('normalizeMemoryTags', () => {
+  it('should lowercase, drop # and dedupe', () => {
+    expect(
+      normalizeMemoryTags(['#Cooking', 'cooking', 'User Prefs', '']),
+    ).toEqual(['cooking', 'user-prefs'])
+  })
+})
+
+describe('serializeMemoryEntry / parseMemoryEntry', () => {
+  it('should round-trip an entry', () => {
+    const entry = {
+      id: 'prefers-metric-k3f9',
+      content: 'Prefers metric units in recipes.',
+      tags: ['preferences', 'cooking'],
+      created: '2026-10-18T07:00:00.000Z',
+    }
+    expect(parseMemoryEntry(entry.id, serializeMemoryEntry(entry))).toEqual(
+      entry,
+    )
+  })
+
+  it('should treat a file without frontmatter as plain content', () => {
+    expect(parseMemoryEntry('note', 'Dog is called Biscuit.\n')).toEqual({
+      id: 'note',
+      content: 'Dog is called Biscuit.',
+      tags: [],
+      created: '',
+    })
+  })
+})
+
+describe('splitLegacyMemory', () => {
+  it('should split list items and paragraphs, tagged by heading', () => {
+    const markdown = [
+      '# Memory',
+      '',
+      '## User Preferences',
+      '- Prefers metric units',
+      '- Writes in British English',
+      '  even in code comments',
+      '',
+      '## Projects',
+      'Working on a sourdough cookbook.',
+    ].join('\n')
+
+    expect(splitLegacyMemory(markdown)).toEqual([
+      { content: 'Prefers metric units', tags: ['user-preferences'] },
+      {
+        content: 'Writes in British English\neven in code comments',
+        tags: ['user-preferences'],
+      },
+      { content: 'Working on a sourdough cookbook.', tags: ['projects'] },
+    ])
+  })
+})
+
+describe('memoryQueryTerms', () => {
+  it('should drop stop words and duplicates', () => {
+    expect(
+      memoryQueryTerms('What is the recipe for the sourdough recipe?'),
+    ).toEqual(['recipe', 'sourdough'])
+  })
+})
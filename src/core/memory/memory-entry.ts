@@ -0,0 +1,169 @@
+/**
+ * Memory Entry
+ *
+ * File format for the agent's long-term memory: one markdown file per entry
+ * under `.claude/memory/`, so entries can be added, searched and forgotten
+ * one at a time instead of rewriting a single ever-growing note.
+ *
+ *   ---
+ *   created: 2026-10-18T07:00:00.000Z
+ *   tags: [preferences, cooking]
+ *   ---
+ *   Prefers metric units in recipes.
+ *
+ * The entry's id is its file name without the extension.
+ */
+
+import { tokenize } from '../backend/search-index'
+
+export const MEMORY_DIR = '.claude/memory'
+
+/** Single-file memory from before entries existed; migrated on load */
+export const LEGACY_MEMORY_PATH = '.claude/memory.md'
+
+export type MemoryEntry = {
+  id: string
+  content: string
+  /** Lowercase, without the leading # */
+  tags: string[]
+  /** ISO 8601 timestamp */
+  created: string
+}
+
+// Words that say nothing about which memories matter for a prompt
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by can could do does for from had has have how i ' +
+    'if in into is it its me my no not of on or our please so some than that ' +
+    'the their them then there these they this to up us was we what when where ' +
+    'which who why will with would you your'
+  ).split(' '),
+)
+
+const MAX_SLUG_WORDS = 6
+const MAX_SLUG_LENGTH = 40
+
+export function memoryEntryPath(id: string): string {
+  return `${MEMORY_DIR}/${id}.md`
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      // Drop accents ("café" -> "cafe") but keep other scripts intact
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .normalize('NFC')
+      .replace(/[^\p{L}\p{N}\s-]/gu, '')
+      .trim()
+      .split(/[\s-]+/)
+      .filter(Boolean)
+      .join('-')
+  )
+}
+
+/**
+ * Readable, unique-enough id from the entry's first words, e.g.
+ * "prefers-metric-units-in-recipes-k3f9"
+ */
+export function createMemoryId(
+  content: string,
+  suffix: string = Math.random().toString(36).slice(2, 6),
+): string {
+  const words = slugify(content).split('-').slice(0, MAX_SLUG_WORDS).join('-')
+  const slug = words.slice(0, MAX_SLUG_LENGTH).replace(/-+$/, '') || 'memory'
+  return `${slug}-${suffix}`
+}
+
+export function normalizeMemoryTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => slugify(tag.replace(/^#/, '')))
+    .filter((tag) => tag.length > 0)
+  return Array.from(new Set(normalized))
+}
+
+export function serializeMemoryEntry(entry: MemoryEntry): string {
+  const lines = ['---', `created: ${entry.created}`]
+  if (entry.tags.length > 0) {
+    lines.push(`tags: [${entry.tags.join(', ')}]`)
+  }
+  lines.push('---', entry.content.trim(), '')
+  return lines.join('\n')
+}
+
+/**
+ * Read an entry file. Files written by hand without frontmatter are still
+ * entries: the whole file is the content.
+ */
+export function parseMemoryEntry(id: string, raw: string): MemoryEntry {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/)
+  if (!match) {
+    return { id, content: raw.trim(), tags: [], created: '' }
+  }
+
+  let created = ''
+  let tags: string[] = []
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^(\w+):\s*(.*)$/)
+    if (!field) continue
+    if (field[1] === 'created') {
+      created = field[2].trim()
+    } else if (field[1] === 'tags') {
+      tags = normalizeMemoryTags(field[2].replace(/^\[|\]$/g, '').split(','))
+    }
+  }
+  return { id, content: match[2].trim(), tags, created }
+}
+
+/**
+ * Split the legacy memory.md into entries: each list item (with its
+ * continuation lines) or paragraph becomes one entry, tagged with the
+ * `## Heading` it sat under.
+ */
+export function splitLegacyMemory(
+  markdown: string,
+): { content: string; tags: string[] }[] {
+  const entries: { content: string; tags: string[] }[] = []
+  let tags: string[] = []
+  let current: string[] | null = null
+
+  const flush = () => {
+    const content = current?.join('\n').trim()
+    if (content) entries.push({ content, tags })
+    current = null
+  }
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/)
+    if (heading) {
+      flush()
+      tags = normalizeMemoryTags([heading[1]])
+      continue
+    }
+    if (line.trim() === '') {
+      flush()
+      continue
+    }
+
+    const item = line.match(/^[-*+]\s+(.*)$|^\d+[.)]\s+(.*)$/)
+    if (item) {
+      flush()
+      current = [item[1] ?? item[2]]
+    } else if (current) {
+      current.push(line.trim())
+    } else {
+      current = [line.trim()]
+    }
+  }
+  flush()
+
+  return entries
+}
+
+/** Terms of a prompt worth matching memories against */
+export function memoryQueryTerms(text: string): string[] {
+  return Array.from(
+    new Set(tokenize(text).filter((term) => !STOP_WORDS.has(term))),
+  )
+}
@@ -0,0 +1,279 @@
+/**
+ * BackgroundIndexer
+ *
+ * Keeps the vault index current as notes change, so Vault Chat queries don't
+ * wait for it. Vault events are queued (see indexQueue.ts), debounced and
+ * indexed in batches. The queue is saved after every change, so work left at
+ * shutdown resumes on the next start, along with a scan for notes changed
+ * while Obsidian was closed.
+ *
+ * Nothing is embedded in the background until the index has been built once,
+ * by the first Vault Chat query or an index command, so vaults that never
+ * use it cost nothing. When the embedding model, chunk size or chunk format
+ * changes, the index is rebuilt.
+ */
+
+import { App, EventRef, TAbstractFile, TFile, TFolder, Vault } from 'obsidian'
+
+import { QueryProgressState } from '../../components/chat-view/QueryProgress'
+import { SmartComposerSettings } from '../../settings/schema/setting.types'
+
+import { IndexOperation, IndexQueue, indexFingerprint } from './indexQueue'
+import type { RAGEngine } from './ragEngine'
+
+const STATE_PATH = '.smartcomposer/index-queue.json'
+
+/** Edits settle this long before they're indexed */
+const DEBOUNCE_MS = 10_000
+
+/** Notes indexed at a time; the queue is saved after each batch */
+const BATCH_SIZE = 50
+
+type IndexerState = {
+  /** indexFingerprint of the settings the index was built with, null before the first build */
+  fingerprint: string | null
+  pending: Record<string, IndexOperation>
+}
+
+function isNote(file: TAbstractFile): file is TFile {
+  return file instanceof TFile && file.extension === 'md'
+}
+
+export class BackgroundIndexer {
+  private queue = new IndexQueue()
+  private fingerprint: string | null = null
+  // Notes may have changed while Obsidian was closed; set until the vault is scanned
+  private needsScan = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  // Index updates run one at a time, in the order they were requested
+  private work: Promise<void> = Promise.resolve()
+
+  constructor(
+    private app: App,
+    private getRAGEngine: () => Promise<RAGEngine>,
+    private getSettings: () => SmartComposerSettings,
+  ) {}
+
+  /**
+   * Load the saved queue and follow vault changes. Call once the layout is
+   * ready: while the vault loads, Obsidian reports every note as created.
+   */
+  async start(registerEvent: (ref: EventRef) => void): Promise<void> {
+    await this.load()
+    const { vault } = this.app
+    registerEvent(vault.on('create', (file) => this.handleChange(file)))
+    registerEvent(vault.on('modify', (file) => this.handleChange(file)))
+    registerEvent(vault.on('delete', (file) => this.handleDelete(file)))
+    registerEvent(
+      vault.on('rename', (file, oldPath) => this.handleRename(file, oldPath)),
+    )
+    // Resume the last session's queue and scan for notes changed while
+    // Obsidian was closed, or rebuild if the settings changed
+    this.needsScan = this.fingerprint !== null
+    this.schedule(0)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  handleSettingsChange(settings: SmartComposerSettings): void {
+    if (
+      this.fingerprint !== null &&
+      indexFingerprint(settings) !== this.fingerprint
+    ) {
+      // Debounced like edits: chunk size is saved on every keystroke
+      this.schedule()
+    }
+  }
+
+  /**
+   * Bring the index up to date now, e.g. before a query: build it on first
+   * use, otherwise index what's queued. Errors are shown to the user.
+   */
+  flush(
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<void> {
+    return this.enqueueWork(() => this.process(true, onQueryProgressChange))
+  }
+
+  /** Scan the whole vault for changes, or re-index every note with `reindexAll` */
+  updateVaultIndex(
+    options: { reindexAll: boolean },
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<void> {
+    return this.enqueueWork(() =>
+      this.rebuild(options.reindexAll, true, onQueryProgressChange),
+    )
+  }
+
+  /**
+   * Drop the index. As before the first build, nothing is indexed in the
+   * background until a Vault Chat query or an index command builds it again.
+   */
+  removeIndex(): Promise<void> {
+    return this.enqueueWork(async () => {
+      const ragEngine = await this.getRAGEngine()
+      await ragEngine.clearIndex()
+      this.fingerprint = null
+      this.needsScan = false
+      this.queue = new IndexQueue()
+      await this.save()
+    })
+  }
+
+  private async process(
+    interactive: boolean,
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<void> {
+    if (this.fingerprint === null && !interactive) return
+
+    if (
+      this.needsScan ||
+      this.fingerprint !== indexFingerprint(this.getSettings())
+    ) {
+      await this.rebuild(false, interactive, onQueryProgressChange)
+      return
+    }
+
+    const ragEngine = await this.getRAGEngine()
+    while (this.queue.size > 0) {
+      const batch = this.queue.take(BATCH_SIZE)
+      try {
+        await ragEngine.updateNotesIndex(
+          { ...batch, reportErrors: interactive },
+          onQueryProgressChange,
+        )
+      } catch (error) {
+        this.queue.restore(batch)
+        throw error
+      } finally {
+        await this.save()
+      }
+    }
+  }
+
+  private async rebuild(
+    reindexAll: boolean,
+    interactive: boolean,
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<void> {
+    const ragEngine = await this.getRAGEngine()
+    const fingerprint = indexFingerprint(this.getSettings())
+    // The scan covers everything queued so far, but not changes made during it
+    const covered = this.queue.take(Infinity)
+    try {
+      // Chunks made with other settings, an older chunk format or before the
+      // fingerprint was saved (it's null then) may not match: re-make them all
+      await ragEngine.updateVaultIndex(
+        {
+          reindexAll: reindexAll || this.fingerprint !== fingerprint,
+          reportErrors: interactive,
+        },
+        onQueryProgressChange,
+      )
+      this.fingerprint = fingerprint
+      this.needsScan = false
+    } catch (error) {
+      this.queue.restore(covered)
+      throw error
+    } finally {
+      await this.save()
+    }
+  }
+
+  private handleChange(file: TAbstractFile): void {
+    if (isNote(file)) {
+      this.track(() => this.queue.index(file.path))
+    }
+  }
+
+  private handleDelete(file: TAbstractFile): void {
+    // Removing a folder's path drops every note under it
+    if (isNote(file) || file instanceof TFolder) {
+      this.track(() => this.queue.remove(file.path))
+    }
+  }
+
+  private handleRename(file: TAbstractFile, oldPath: string): void {
+    const notes: TFile[] = []
+    if (file instanceof TFolder) {
+      Vault.recurseChildren(file, (child) => {
+        if (isNote(child)) notes.push(child)
+      })
+    } else if (isNote(file)) {
+      notes.push(file)
+    }
+
+    this.track(() => {
+      let changed = false
+      if (file instanceof TFolder || oldPath.endsWith('.md')) {
+        changed = this.queue.remove(oldPath)
+      }
+      for (const note of notes) {
+        changed = this.queue.index(note.path) || changed
+      }
+      return changed
+    })
+  }
+
+  /** Apply a change to the queue, save it if it changed and (re)start the debounce */
+  private track(change: () => boolean): void {
+    // Until the index is first built there's nothing to keep up to date
+    if (this.fingerprint === null) return
+    if (change()) {
+      void this.save()
+    }
+    this.schedule()
+  }
+
+  private schedule(delay = DEBOUNCE_MS): void {
+    this.stop()
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.enqueueWork(() => this.process(false)).catch((error) => {
+        // Still queued; retried with the next change or query
+        console.warn('[BackgroundIndexer] Indexing failed:', error)
+      })
+    }, delay)
+  }
+
+  private enqueueWork(task: () => Promise<void>): Promise<void> {
+    const run = this.work.then(task)
+    this.work = run.catch(() => undefined)
+    return run
+  }
+
+  private async load(): Promise<void> {
+    // Dotfiles aren't indexed by Obsidian — use the adapter directly
+    const adapter = this.app.vault.adapter
+    try {
+      if (!(await adapter.exists(STATE_PATH))) return
+      const state = JSON.parse(await adapter.read(STATE_PATH)) as IndexerState
+      this.fingerprint = state.fingerprint ?? null
+      this.queue = new IndexQueue(state.pending ?? {})
+    } catch (error) {
+      console.warn('[BackgroundIndexer] Could not read the saved queue:', error)
+    }
+  }
+
+  private async save(): Promise<void> {
+    const state: IndexerState = {
+      fingerprint: this.fingerprint,
+      pending: this.queue.toJSON(),
+    }
+    const adapter = this.app.vault.adapter
+    try {
+      const dir = STATE_PATH.split('/').slice(0, -1).join('/')
+      if (!(await adapter.exists(dir))) {
+        await adapter.mkdir(dir)
+      }
+      await adapter.write(STATE_PATH, JSON.stringify(state, null, 2))
+    } catch (error) {
+      console.error('[BackgroundIndexer] Failed to save the queue:', error)
+    }
+  }
+}
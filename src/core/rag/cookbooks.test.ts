@@ -0,0 +1,57 @@
+import {
+  cookbookSourceName,
+  isCookbookPath,
+  matchesCookbookSources,
+  normalizeCookbookFolder,
+  pageTextFromItems,
+} from './cookbooks'
+
+describe('isCookbookPath', () => {
+  const folder = normalizeCookbookFolder('/cookbooks/ ')
+
+  it('should accept PDFs inside the folder', () => {
+    expect(isCookbookPath('cookbooks/The Professional Chef.pdf', folder)).toBe(
+      true,
+    )
+    expect(isCookbookPath('cookbooks/baking/Bread.PDF', folder)).toBe(true)
+  })
+
+  it('should reject other files and folders', () => {
+    expect(isCookbookPath('cookbooks/notes.md', folder)).toBe(false)
+    expect(isCookbookPath('cookbooks-old/Bread.pdf', folder)).toBe(false)
+    expect(isCookbookPath('cookbooks/Bread.pdf', '')).toBe(false)
+  })
+})
+
+describe('matchesCookbookSources', () => {
+  const path = 'cookbooks/CIA The Professional Chef.pdf'
+
+  it('should match any source by name, ignoring case', () => {
+    expect(cookbookSourceName(path)).toBe('CIA The Professional Chef')
+    expect(matchesCookbookSources(path, ['professional chef'])).toBe(true)
+    expect(
+      matchesCookbookSources(path, ['Modernist Cuisine', ' the professional']),
+    ).toBe(true)
+  })
+
+  it('should match everything without sources', () => {
+    expect(matchesCookbookSources(path, [])).toBe(true)
+    expect(matchesCookbookSources(path, ['ChefSteps'])).toBe(false)
+  })
+})
+
+describe('pageTextFromItems', () => {
+  it('should keep line breaks and collapse spacing', () => {
+    expect(
+      pageTextFromItems([
+        { str: 'Braised   short ribs', hasEOL: true },
+        { str: '', hasEOL: true },
+        { str: '', hasEOL: true },
+        { str: '', hasEOL: true },
+        { str: 'Sear the ribs ' },
+        { str: ' in batches.', hasEOL: false },
+        {},
+      ]),
+    ).toBe('Braised short ribs\n\nSear the ribs in batches.')
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Cookbooks are the PDFs in the `externalResourceDir` folder. They are
+ * indexed page by page into the embeddings table (chunk metadata carries the
+ * page), so search results can cite `[[cookbooks/Book.pdf#page=N]]`.
+ */
+
+/** A text item of a PDF.js page (`page.getTextContent().items`) */
+export type PdfTextItem = {
+  str?: string
+  hasEOL?: boolean
+}
+
+/** The cookbook folder without leading or trailing slashes ('' if unset) */
+export function normalizeCookbookFolder(dir: string): string {
+  return dir.trim().replace(/^\/+|\/+$/g, '')
+}
+
+export function isCookbookPath(path: string, folder: string): boolean {
+  return (
+    folder !== '' &&
+    path.startsWith(`${folder}/`) &&
+    path.toLowerCase().endsWith('.pdf')
+  )
+}
+
+/** Name a cookbook is cited and filtered by: its file name without extension */
+export function cookbookSourceName(path: string): string {
+  return (path.split('/').pop() ?? path).replace(/\.pdf$/i, '')
+}
+
+/**
+ * Whether a cookbook matches a `sources` filter. Each source matches
+ * cookbooks whose name contains it, ignoring case; no sources match all.
+ */
+export function matchesCookbookSources(
+  path: string,
+  sources: string[],
+): boolean {
+  if (sources.length === 0) return true
+  const name = cookbookSourceName(path).toLowerCase()
+  return sources.some((source) => name.includes(source.trim().toLowerCase()))
+}
+
+/** Join a page's text items into lines, collapsing runs of spaces */
+export function pageTextFromItems(items: PdfTextItem[]): string {
+  return items
+    .map((item) => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,68 @@
+import { IndexOperation, IndexQueue, indexFingerprint } from './indexQueue'
+
+describe('IndexQueue', () => {
+  it('should queue each note once with its latest operation', () => {
+    const queue = new IndexQueue()
+    expect(queue.index('a.md')).toBe(true)
+    expect(queue.index('a.md')).toBe(false)
+    queue.index('b.md')
+    expect(queue.remove('a.md')).toBe(true)
+
+    expect(queue.size).toBe(2)
+    expect(queue.take(10)).toEqual({ index: ['b.md'], remove: ['a.md'] })
+    expect(queue.size).toBe(0)
+  })
+
+  it('should take batches in the order notes were first queued', () => {
+    const queue = new IndexQueue()
+    queue.index('a.md')
+    queue.index('b.md')
+    queue.index('c.md')
+
+    expect(queue.take(2)).toEqual({ index: ['a.md', 'b.md'], remove: [] })
+    expect(queue.take(2)).toEqual({ index: ['c.md'], remove: [] })
+  })
+
+  it('should restore a failed batch without undoing newer changes', () => {
+    const queue = new IndexQueue()
+    queue.index('a.md')
+    queue.index('b.md')
+    const batch = queue.take(2)
+    queue.remove('b.md')
+    queue.index('c.md')
+
+    queue.restore(batch)
+
+    expect(queue.take(10)).toEqual({
+      index: ['a.md', 'c.md'],
+      remove: ['b.md'],
+    })
+  })
+
+  it('should round-trip through JSON', () => {
+    const queue = new IndexQueue()
+    queue.index('a.md')
+    queue.remove('old')
+
+    const restored = new IndexQueue(
+      JSON.parse(JSON.stringify(queue)) as Record<string, IndexOperation>,
+    )
+    expect(restored.take(10)).toEqual({ index: ['a.md'], remove: ['old'] })
+  })
+})
+
+describe('indexFingerprint', () => {
+  it('should change with the embedding model and chunk size', () => {
+    const settings = {
+      embeddingModelId: 'openai/text-embedding-3-small',
+      ragOptions: { chunkSize: 1000 },
+    }
+    expect(indexFingerprint(settings)).toBe(indexFingerprint({ ...settings }))
+    expect(indexFingerprint(settings)).not.toBe(
+      indexFingerprint({ ...settings, ragOptions: { chunkSize: 500 } }),
+    )
+    expect(indexFingerprint(settings)).not.toBe(
+      indexFingerprint({ ...settings, embeddingModelId: 'nomic-embed-text' }),
+    )
+  })
+})
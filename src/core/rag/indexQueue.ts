@@ -0,0 +1,90 @@
+/**
+ * Work queue of the background vault indexer (see backgroundIndexer.ts):
+ * which notes to re-index and which to drop, keyed by path so a note edited
+ * many times is indexed once. Serializable so it survives restarts.
+ */
+
+export type IndexOperation = 'index' | 'remove'
+
+export type IndexBatch = {
+  index: string[]
+  remove: string[]
+}
+
+/**
+ * Bumped when chunks start storing metadata that older ones lack, so the
+ * index is rebuilt with it. 2: frontmatter and tags for metadata filters.
+ */
+const CHUNK_FORMAT_VERSION = 2
+
+/**
+ * Settings every stored vector depends on. The index is rebuilt when these
+ * change, as chunks made with other settings don't match new queries.
+ */
+export function indexFingerprint(settings: {
+  embeddingModelId: string
+  ragOptions: { chunkSize: number }
+}): string {
+  return `${settings.embeddingModelId}:${settings.ragOptions.chunkSize}:${CHUNK_FORMAT_VERSION}`
+}
+
+export class IndexQueue {
+  private pending: Map<string, IndexOperation>
+
+  constructor(pending: Record<string, IndexOperation> = {}) {
+    this.pending = new Map(Object.entries(pending))
+  }
+
+  get size(): number {
+    return this.pending.size
+  }
+
+  /** Queue a note to be (re-)indexed; false if it already was */
+  index(path: string): boolean {
+    return this.set(path, 'index')
+  }
+
+  /** Queue a note, or every note in a folder, to be dropped from the index */
+  remove(path: string): boolean {
+    return this.set(path, 'remove')
+  }
+
+  /** Take up to `limit` operations, in the order they were first queued */
+  take(limit: number): IndexBatch {
+    const batch: IndexBatch = { index: [], remove: [] }
+    for (const [path, operation] of [...this.pending].slice(0, limit)) {
+      this.pending.delete(path)
+      batch[operation].push(path)
+    }
+    return batch
+  }
+
+  /**
+   * Put back a batch that failed. Notes queued again since it was taken
+   * keep their newer operation.
+   */
+  restore(batch: IndexBatch): void {
+    const restored = new Map<string, IndexOperation>([
+      ...batch.index.map((path): [string, IndexOperation] => [path, 'index']),
+      ...batch.remove.map((path): [string, IndexOperation] => [path, 'remove']),
+    ])
+    for (const [path, operation] of this.pending) {
+      restored.set(path, operation)
+    }
+    this.pending = restored
+  }
+
+  clear(): void {
+    this.pending.clear()
+  }
+
+  toJSON(): Record<string, IndexOperation> {
+    return Object.fromEntries(this.pending)
+  }
+
+  private set(path: string, operation: IndexOperation): boolean {
+    if (this.pending.get(path) === operation) return false
+    this.pending.set(path, operation)
+    return true
+  }
+}
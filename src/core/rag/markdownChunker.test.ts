@@ -0,0 +1,108 @@
+import { chunkMarkdown } from './markdownChunker'
+
+// One token per word keeps the expected chunk boundaries readable
+const countTokens = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+const chunk = (text: string, maxTokens: number) =>
+  chunkMarkdown(text, { maxTokens, countTokens })
+
+describe('chunkMarkdown', () => {
+  it('should keep a note that fits in one chunk', () => {
+    const note = ['# Title', '', 'Intro text.', '', '## Part', '', 'More.']
+    expect(chunk(note.join('\n'), 100)).toEqual([
+      {
+        content: note.join('\n'),
+        startLine: 1,
+        endLine: 7,
+        headings: ['Title'],
+      },
+    ])
+  })
+
+  it('should split at headings and record the heading path', () => {
+    const note = [
+      '# Recipes', // 1
+      'All my favourite recipes collected here.', // 2
+      '## Bread', // 3
+      'Flour water salt yeast mixed.', // 4
+      '### Sourdough', // 5
+      'Starter instead of yeast here.', // 6
+      '## Cake', // 7
+      'Flour sugar eggs butter.', // 8
+    ].join('\n')
+
+    expect(
+      chunk(note, 14).map(({ startLine, endLine, headings }) => ({
+        startLine,
+        endLine,
+        headings,
+      })),
+    ).toEqual([
+      { startLine: 1, endLine: 2, headings: ['Recipes'] },
+      { startLine: 3, endLine: 6, headings: ['Recipes', 'Bread'] },
+      { startLine: 7, endLine: 8, headings: ['Recipes', 'Cake'] },
+    ])
+  })
+
+  it('should not merge a section with its siblings', () => {
+    const note = ['## A', 'one', '## B', 'two'].join('\n')
+    expect(chunk(note, 100).map((c) => c.headings)).toEqual([['A'], ['B']])
+  })
+
+  it('should pack a large section by blocks without cutting code or tables', () => {
+    const note = [
+      '## Setup', // 1
+      '', // 2
+      'Install the tool first.', // 3
+      '', // 4
+      '```sh', // 5
+      'npm install tool', // 6
+      '', // 7
+      '# not a heading', // 8
+      '```', // 9
+      '', // 10
+      '| a | b |', // 11
+      '| - | - |', // 12
+      '| 1 | 2 |', // 13
+    ].join('\n')
+
+    const chunks = chunk(note, 15)
+    expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([
+      [1, 9],
+      [11, 13],
+    ])
+    expect(chunks.map((c) => c.headings)).toEqual([['Setup'], ['Setup']])
+  })
+
+  it('should split blocks larger than a chunk by lines, then by sentences', () => {
+    const note = [
+      '## Long', // 1
+      'one two three', // 2
+      'four five six', // 3
+      'First sentence here. Second sentence here. Third one.', // 4
+    ].join('\n')
+
+    const chunks = chunk(note, 6)
+    expect(chunks.map((c) => [c.startLine, c.endLine, c.content])).toEqual([
+      [1, 1, '## Long'],
+      [2, 3, 'one two three\nfour five six'],
+      [4, 4, 'First sentence here. Second sentence here.'],
+      [4, 4, 'Third one.'],
+    ])
+  })
+
+  it('should keep frontmatter in one block', () => {
+    const note = ['---', 'tags: [a, b]', '', 'aliases: x', '---', 'Body']
+    expect(
+      chunk(note.join('\n'), 7).map((c) => [c.startLine, c.endLine]),
+    ).toEqual([
+      [1, 5],
+      [6, 6],
+    ])
+  })
+
+  it('should return no chunks for an empty note', () => {
+    expect(chunk('', 10)).toEqual([])
+    expect(chunk('\n\n  \n', 10)).toEqual([])
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * Splits a note into chunks along its heading hierarchy, so each chunk stays
+ * within one section and knows which one: its heading path ("Section >
+ * Subsection") is stored with the vector and shown with search results.
+ *
+ * A section is chunked together with the subsections that follow it while
+ * they fit, under its own heading path. Larger sections are packed block by
+ * block: paragraphs, fenced code blocks, tables and frontmatter are never
+ * cut unless a single one exceeds the chunk size on its own.
+ *
+ * Sizes are in tokens. Chunk content is the note's own lines, so line numbers
+ * in prompts still match the note.
+ */
+
+export type MarkdownChunk = {
+  content: string
+  // 1-based and inclusive, like the line numbers of other chunks
+  startLine: number
+  endLine: number
+  // Titles of the enclosing headings, outermost first; empty before the first heading
+  headings: string[]
+}
+
+export type MarkdownChunkerOptions = {
+  maxTokens: number
+  countTokens: (text: string) => number
+}
+
+type Block = {
+  startLine: number
+  endLine: number
+  tokens: number
+  // Set for the pieces of a line too long to fit a chunk, which are chunked on their own
+  fragment?: string
+}
+
+type Section = {
+  // 0 for the text before the first heading
+  level: number
+  headings: string[]
+  blocks: Block[]
+  tokens: number
+}
+
+const HEADING_REGEX = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/
+
+// Long lines are broken at sentences, then at words, then anywhere
+const LINE_SEPARATORS = [/(?<=[.!?])\s+/, /\s+/]
+// Used to cut text without any separator, e.g. a data URI
+const CHARS_PER_TOKEN = 4
+
+export function chunkMarkdown(
+  text: string,
+  options: MarkdownChunkerOptions,
+): MarkdownChunk[] {
+  const lines = text.split('\n')
+  const sections = parseSections(lines, options.countTokens)
+
+  const chunks: MarkdownChunk[] = []
+  let index = 0
+  while (index < sections.length) {
+    const section = sections[index]
+    let tokens = section.tokens
+    let next = index + 1
+    while (
+      next < sections.length &&
+      sections[next].level > section.level &&
+      tokens + sections[next].tokens <= options.maxTokens
+    ) {
+      tokens += sections[next].tokens
+      next++
+    }
+
+    if (tokens <= options.maxTokens) {
+      const blocks = sections.slice(index, next).flatMap((s) => s.blocks)
+      chunks.push(toChunk(lines, blocks, section.headings))
+    } else {
+      chunks.push(...packSection(lines, section, options))
+    }
+    index = next
+  }
+  return chunks
+}
+
+function parseSections(
+  lines: string[],
+  countTokens: (text: string) => number,
+): Section[] {
+  const sections: Section[] = [
+    { level: 0, headings: [], blocks: [], tokens: 0 },
+  ]
+  const headingStack: { level: number; title: string }[] = []
+
+  const addBlock = (startLine: number, endLine: number) => {
+    const section = sections[sections.length - 1]
+    const tokens = countTokens(lines.slice(startLine - 1, endLine).join('\n'))
+    section.blocks.push({ startLine, endLine, tokens })
+    section.tokens += tokens
+  }
+
+  let index = 0
+  if (lines[0].trim() === '---') {
+    const end = lines.findIndex(
+      (line, i) => i > 0 && (line.trim() === '---' || line.trim() === '...'),
+    )
+    if (end !== -1) {
+      addBlock(1, end + 1)
+      index = end + 1
+    }
+  }
+
+  while (index < lines.length) {
+    const line = lines[index]
+    if (line.trim() === '') {
+      index++
+      continue
+    }
+
+    const fence = FENCE_REGEX.exec(line)
+    if (fence) {
+      let end = index + 1
+      while (end < lines.length && !closesFence(lines[end], fence[1])) {
+        end++
+      }
+      // An unclosed fence runs to the end of the note
+      end = Math.min(end, lines.length - 1)
+      addBlock(index + 1, end + 1)
+      index = end + 1
+      continue
+    }
+
+    const heading = HEADING_REGEX.exec(line)
+    if (heading) {
+      const level = heading[1].length
+      while (
+        headingStack.length > 0 &&
+        headingStack[headingStack.length - 1].level >= level
+      ) {
+        headingStack.pop()
+      }
+      headingStack.push({ level, title: heading[2].trim() })
+      sections.push({
+        level,
+        headings: headingStack.map((h) => h.title),
+        blocks: [],
+        tokens: 0,
+      })
+      addBlock(index + 1, index + 1)
+      index++
+      continue
+    }
+
+    let end = index + 1
+    if (isTableRow(line)) {
+      while (end < lines.length && isTableRow(lines[end])) {
+        end++
+      }
+    } else {
+      while (
+        end < lines.length &&
+        lines[end].trim() !== '' &&
+        !FENCE_REGEX.test(lines[end]) &&
+        !HEADING_REGEX.test(lines[end]) &&
+        !isTableRow(lines[end])
+      ) {
+        end++
+      }
+    }
+    addBlock(index + 1, end)
+    index = end
+  }
+
+  return sections.filter((section) => section.blocks.length > 0)
+}
+
+function closesFence(line: string, opening: string): boolean {
+  const match = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(line)
+  return (
+    !!match?.[1].startsWith(opening[0]) && match[1].length >= opening.length
+  )
+}
+
+function isTableRow(line: string): boolean {
+  return line.trimStart().startsWith('|')
+}
+
+/** Chunk a section that doesn't fit, keeping its blocks whole where possible */
+function packSection(
+  lines: string[],
+  section: Section,
+  options: MarkdownChunkerOptions,
+): MarkdownChunk[] {
+  const pieces = section.blocks.flatMap((block) =>
+    block.tokens > options.maxTokens
+      ? splitBlock(lines, block, options)
+      : [block],
+  )
+
+  const chunks: MarkdownChunk[] = []
+  let current: Block[] = []
+  let tokens = 0
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push(toChunk(lines, current, section.headings))
+    }
+    current = []
+    tokens = 0
+  }
+  for (const piece of pieces) {
+    if (piece.fragment !== undefined) {
+      flush()
+      chunks.push(toChunk(lines, [piece], section.headings))
+      continue
+    }
+    if (tokens + piece.tokens > options.maxTokens) {
+      flush()
+    }
+    current.push(piece)
+    tokens += piece.tokens
+  }
+  flush()
+  return chunks
+}
+
+/** Split an oversized block into runs of lines, and overlong lines into fragments */
+function splitBlock(
+  lines: string[],
+  block: Block,
+  options: MarkdownChunkerOptions,
+): Block[] {
+  const pieces: Block[] = []
+  let current: Block | null = null
+  for (let line = block.startLine; line <= block.endLine; line++) {
+    const text = lines[line - 1]
+    const tokens = options.countTokens(text)
+    if (tokens > options.maxTokens) {
+      if (current) pieces.push(current)
+      current = null
+      pieces.push(
+        ...splitLine(text, 0, options).map((fragment) => ({
+          startLine: line,
+          endLine: line,
+          tokens: options.countTokens(fragment),
+          fragment,
+        })),
+      )
+    } else if (current && current.tokens + tokens <= options.maxTokens) {
+      current.endLine = line
+      current.tokens += tokens
+    } else {
+      if (current) pieces.push(current)
+      current = { startLine: line, endLine: line, tokens }
+    }
+  }
+  if (current) pieces.push(current)
+  return pieces
+}
+
+function splitLine(
+  text: string,
+  separatorIndex: number,
+  options: MarkdownChunkerOptions,
+): string[] {
+  if (separatorIndex >= LINE_SEPARATORS.length) {
+    const size = options.maxTokens * CHARS_PER_TOKEN
+    const fragments: string[] = []
+    for (let start = 0; start < text.length; start += size) {
+      fragments.push(text.slice(start, start + size))
+    }
+    return fragments
+  }
+
+  const fragments: string[] = []
+  let current = ''
+  for (const part of text.split(LINE_SEPARATORS[separatorIndex])) {
+    if (!part) continue
+    if (options.countTokens(part) > options.maxTokens) {
+      if (current) fragments.push(current)
+      current = ''
+      fragments.push(...splitLine(part, separatorIndex + 1, options))
+      continue
+    }
+    const joined = current ? `${current} ${part}` : part
+    if (current && options.countTokens(joined) > options.maxTokens) {
+      fragments.push(current)
+      current = part
+    } else {
+      current = joined
+    }
+  }
+  if (current) fragments.push(current)
+  return fragments
+}
+
+function toChunk(
+  lines: string[],
+  blocks: Block[],
+  headings: string[],
+): MarkdownChunk {
+  const first = blocks[0]
+  const last = blocks[blocks.length - 1]
+  return {
+    content:
+      first.fragment ??
+      lines.slice(first.startLine - 1, last.endLine).join('\n'),
+    startLine: first.startLine,
+    endLine: last.endLine,
+    headings,
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  MetadataFilter,
+  formatMetadataFilter,
+  parseMetadataFilter,
+  toMetadataQuery,
+} from './metadataFilter'
+
+describe('parseMetadataFilter', () => {
+  it('should parse tags', () => {
+    expect(parseMetadataFilter('#meeting')).toEqual({
+      type: 'tag',
+      tag: 'meeting',
+    })
+    expect(parseMetadataFilter(' tag:#project/alpha ')).toEqual({
+      type: 'tag',
+      tag: 'project/alpha',
+    })
+  })
+
+  it('should parse frontmatter properties', () => {
+    expect(parseMetadataFilter('status: active')).toEqual({
+      type: 'property',
+      key: 'status',
+      value: 'active',
+    })
+    expect(parseMetadataFilter('due date:"next week"')).toEqual({
+      type: 'property',
+      key: 'due date',
+      value: 'next week',
+    })
+  })
+
+  it('should parse modification dates', () => {
+    expect(parseMetadataFilter('modified:30d')).toEqual({
+      type: 'modified-within',
+      days: 30,
+    })
+    expect(parseMetadataFilter('modified:>2024-05-01')).toEqual({
+      type: 'modified-after',
+      date: '2024-05-01',
+    })
+    expect(parseMetadataFilter('modified: < 2024-05-01')).toEqual({
+      type: 'modified-before',
+      date: '2024-05-01',
+    })
+  })
+
+  it('should reject text that is not a filter', () => {
+    expect(parseMetadataFilter('')).toBeNull()
+    expect(parseMetadataFilter('meeting notes')).toBeNull()
+    expect(parseMetadataFilter('#two words')).toBeNull()
+    expect(parseMetadataFilter('status:')).toBeNull()
+    expect(parseMetadataFilter('modified:0d')).toBeNull()
+    expect(parseMetadataFilter('modified:yesterday')).toBeNull()
+  })
+
+  it('should round-trip through the chip text', () => {
+    const filters: MetadataFilter[] = [
+      { type: 'tag', tag: 'meeting' },
+      { type: 'property', key: 'status', value: 'active' },
+      { type: 'modified-within', days: 7 },
+      { type: 'modified-after', date: '2024-05-01' },
+      { type: 'modified-before', date: '2024-06-01' },
+    ]
+    for (const filter of filters) {
+      expect(parseMetadataFilter(formatMetadataFilter(filter))).toEqual(filter)
+    }
+  })
+})
+
+describe('toMetadataQuery', () => {
+  it('should resolve filters for a query', () => {
+    const now = new Date(2024, 5, 15, 12).getTime()
+    const query = toMetadataQuery(
+      [
+        { type: 'tag', tag: 'Meeting' },
+        { type: 'property', key: 'status', value: 'active' },
+        { type: 'modified-within', days: 60 },
+        { type: 'modified-after', date: '2024-05-01' },
+        { type: 'modified-before', date: '2024-06-10' },
+      ],
+      now,
+    )
+    expect(query).toEqual({
+      tags: ['meeting'],
+      properties: [{ key: 'status', value: 'active' }],
+      // The later of the two lower bounds
+      modifiedAfter: new Date(2024, 4, 1).getTime(),
+      modifiedBefore: new Date(2024, 5, 10).getTime(),
+    })
+  })
+
+  it('should keep the narrowest date range', () => {
+    const now = new Date(2024, 5, 15).getTime()
+    const query = toMetadataQuery(
+      [
+        { type: 'modified-after', date: '2024-01-01' },
+        { type: 'modified-within', days: 7 },
+      ],
+      now,
+    )
+    expect(query.modifiedAfter).toBe(now - 7 * 24 * 60 * 60 * 1000)
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Metadata filters narrow a vault search to notes with a tag, a frontmatter
+ * property or a modification date. In the chat input each filter is a chip,
+ * typed in a short syntax:
+ *
+ *   #meeting              tagged #meeting, or a nested tag like #meeting/weekly
+ *   status:active         frontmatter property equals (or, for lists, contains) the value
+ *   modified:30d          modified in the last 30 days
+ *   modified:>2024-05-01  modified on or after a date; `<` for before it
+ *
+ * A search matches notes that pass every filter.
+ */
+
+export type MetadataFilter =
+  | { type: 'tag'; tag: string }
+  | { type: 'property'; key: string; value: string }
+  | { type: 'modified-within'; days: number }
+  | { type: 'modified-after'; date: string }
+  | { type: 'modified-before'; date: string }
+
+/** Filters resolved for a query; dates are mtimes in milliseconds */
+export type MetadataQuery = {
+  // Lowercase, without '#'
+  tags: string[]
+  properties: { key: string; value: string }[]
+  modifiedAfter?: number
+  modifiedBefore?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Parse one chip; null if the text isn't a filter */
+export function parseMetadataFilter(text: string): MetadataFilter | null {
+  const trimmed = text.trim()
+
+  const tag = /^(?:#|tag:\s*#?)([^\s#]+)$/.exec(trimmed)
+  if (tag) {
+    return { type: 'tag', tag: tag[1] }
+  }
+
+  const modified = /^modified:\s*(.+)$/.exec(trimmed)
+  if (modified) {
+    const value = modified[1].trim()
+    const within = /^(\d+)d$/.exec(value)
+    if (within && Number(within[1]) > 0) {
+      return { type: 'modified-within', days: Number(within[1]) }
+    }
+    const date = /^([<>])\s*(\d{4}-\d{2}-\d{2})$/.exec(value)
+    if (date && !isNaN(Date.parse(date[2]))) {
+      return date[1] === '>'
+        ? { type: 'modified-after', date: date[2] }
+        : { type: 'modified-before', date: date[2] }
+    }
+    return null
+  }
+
+  const property = /^([^\s:#][^:]*?)\s*:\s*(.+)$/.exec(trimmed)
+  if (property) {
+    const value = property[2].trim().replace(/^(["'])(.*)\1$/, '$2')
+    return value ? { type: 'property', key: property[1], value } : null
+  }
+
+  return null
+}
+
+/** The chip text of a filter, which parses back to the same filter */
+export function formatMetadataFilter(filter: MetadataFilter): string {
+  switch (filter.type) {
+    case 'tag':
+      return `#${filter.tag}`
+    case 'property':
+      return `${filter.key}:${filter.value}`
+    case 'modified-within':
+      return `modified:${filter.days}d`
+    case 'modified-after':
+      return `modified:>${filter.date}`
+    case 'modified-before':
+      return `modified:<${filter.date}`
+  }
+}
+
+export function getMetadataFilterKey(filter: MetadataFilter): string {
+  return `${filter.type}:${formatMetadataFilter(filter)}`
+}
+
+/**
+ * Resolve filters for a query. Relative dates are counted back from `now`;
+ * dates are local days, so "before" excludes the whole day.
+ */
+export function toMetadataQuery(
+  filters: MetadataFilter[],
+  now: number = Date.now(),
+): MetadataQuery {
+  const query: MetadataQuery = { tags: [], properties: [] }
+  const narrow = (key: 'modifiedAfter' | 'modifiedBefore', time: number) => {
+    const current = query[key]
+    query[key] =
+      current === undefined
+        ? time
+        : key === 'modifiedAfter'
+          ? Math.max(current, time)
+          : Math.min(current, time)
+  }
+
+  for (const filter of filters) {
+    switch (filter.type) {
+      case 'tag':
+        query.tags.push(filter.tag.toLowerCase())
+        break
+      case 'property':
+        query.properties.push({ key: filter.key, value: filter.value })
+        break
+      case 'modified-within':
+        narrow('modifiedAfter', now - filter.days * DAY_MS)
+        break
+      case 'modified-after':
+        narrow('modifiedAfter', startOfLocalDay(filter.date))
+        break
+      case 'modified-before':
+        narrow('modifiedBefore', startOfLocalDay(filter.date))
+        break
+    }
+  }
+  return query
+}
+
+function startOfLocalDay(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).getTime()
+}
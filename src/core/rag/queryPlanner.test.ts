@@ -0,0 +1,93 @@
+import {
+  MAX_SUB_QUERIES,
+  buildQueryPlanMessages,
+  mergeRankedResults,
+  parseQueryPlan,
+} from './queryPlanner'
+
+describe('buildQueryPlanMessages', () => {
+  it('should include the conversation and the requested fields', () => {
+    const messages = buildQueryPlanMessages(
+      'what about the second one?',
+      [
+        { role: 'user', content: 'Which recipes use rye flour?' },
+        { role: 'assistant', content: 'Rye sourdough and pumpernickel.' },
+      ],
+      'sub-queries',
+    )
+    expect(messages[1].content).toContain(
+      'User: Which recipes use rye flour?\n\nAssistant: Rye sourdough',
+    )
+    expect(messages[1].content).toContain('"subQueries"')
+    expect(messages[1].content).not.toContain('"passage"')
+  })
+
+  it('should leave out the conversation when there is none', () => {
+    const messages = buildQueryPlanMessages('rye bread', [], 'hyde')
+    expect(messages[1].content).not.toContain('Conversation so far')
+    expect(messages[1].content).toContain('"passage"')
+  })
+})
+
+describe('parseQueryPlan', () => {
+  it('should read the rewritten query and expansions', () => {
+    expect(
+      parseQueryPlan(
+        '```json\n{"query": "pumpernickel recipe", "subQueries": ["rye flour ratio", "baking time"]}\n```',
+        'what about the second one?',
+      ),
+    ).toEqual({
+      query: 'pumpernickel recipe',
+      expansions: ['rye flour ratio', 'baking time'],
+    })
+    expect(
+      parseQueryPlan(
+        '{"query": "pumpernickel", "passage": "Pumpernickel is baked for 16 hours."}',
+        'pumpernickel',
+      ),
+    ).toEqual({
+      query: 'pumpernickel',
+      expansions: ['Pumpernickel is baked for 16 hours.'],
+    })
+  })
+
+  it('should fall back to the original query', () => {
+    expect(parseQueryPlan('{"query": ""}', 'rye bread')).toEqual({
+      query: 'rye bread',
+      expansions: [],
+    })
+    expect(() => parseQueryPlan('Rye bread recipes', 'rye bread')).toThrow()
+  })
+
+  it('should drop duplicate and surplus sub-queries', () => {
+    const plan = parseQueryPlan(
+      JSON.stringify({
+        query: 'rye',
+        subQueries: ['rye', 'a', 'b', 'b', 'c', 'd', 7],
+      }),
+      'rye',
+    )
+    expect(plan.expansions).toEqual(['a', 'b'])
+    expect(plan.expansions.length).toBeLessThanOrEqual(MAX_SUB_QUERIES)
+  })
+})
+
+describe('mergeRankedResults', () => {
+  it('should rank chunks found by several queries first', () => {
+    const merged = mergeRankedResults([
+      [
+        { id: 1, similarity: 0.9 },
+        { id: 2, similarity: 0.8 },
+      ],
+      [
+        { id: 3, similarity: 0.85 },
+        { id: 2, similarity: 0.82 },
+      ],
+    ])
+    expect(merged).toEqual([
+      { id: 2, similarity: 0.82 },
+      { id: 1, similarity: 0.9 },
+      { id: 3, similarity: 0.85 },
+    ])
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Query planning runs before a vault search (see
+ * PromptGenerator.compileUserMessagePrompt). A chat model rewrites the user's
+ * message into a standalone query using the conversation so far, so a
+ * follow-up like "what about the second one?" searches for what it refers to.
+ * Optionally it also writes sub-queries for the parts of a broad question, or
+ * a hypothetical answer (HyDE) that is embedded like a passage from a note.
+ * Results of all queries are merged with reciprocal rank fusion.
+ */
+
+import { RequestMessage } from '../../types/llm/request'
+
+export type QueryExpansion = 'none' | 'sub-queries' | 'hyde'
+
+export type QueryPlan = {
+  // Standalone query, also used to rerank the merged results
+  query: string
+  // Searched alongside `query`
+  expansions: string[]
+}
+
+export type PlanningTurn = {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export const MAX_SUB_QUERIES = 3
+
+/** Earlier turns are cut to this length in the planning prompt */
+const MAX_TURN_CHARS = 1000
+
+/** Damps the weight of top ranks in reciprocal rank fusion; 60 is the usual value */
+const RRF_K = 60
+
+export function buildQueryPlanMessages(
+  query: string,
+  history: PlanningTurn[],
+  expansion: QueryExpansion,
+): RequestMessage[] {
+  const conversation = history
+    .map(
+      ({ role, content }) =>
+        `${role === 'user' ? 'User' : 'Assistant'}: ${content.length > MAX_TURN_CHARS ? `${content.slice(0, MAX_TURN_CHARS)}…` : content}`,
+    )
+    .join('\n\n')
+
+  const fields = [
+    '"query": the latest message rewritten as a standalone search query. Resolve references to the conversation, such as "it" or "the second one". Keep it short and keep the user\'s wording where possible.',
+  ]
+  if (expansion === 'sub-queries') {
+    fields.push(
+      `"subQueries": up to ${MAX_SUB_QUERIES} short search queries, one for each distinct part of the question. Use an empty array if the question has only one part.`,
+    )
+  }
+  if (expansion === 'hyde') {
+    fields.push(
+      '"passage": a short passage, written like a note, that would answer the query. Plausible details are fine; it is only used to find similar notes.',
+    )
+  }
+
+  return [
+    {
+      role: 'system',
+      content:
+        "You turn chat messages into search queries over the user's notes. Reply with a JSON object only.",
+    },
+    {
+      role: 'user',
+      content: `${conversation ? `Conversation so far:\n\n${conversation}\n\n` : ''}Latest message: ${query}
+
+Reply with a JSON object with these fields:
+${fields.map((field) => `- ${field}`).join('\n')}`,
+    },
+  ]
+}
+
+/**
+ * The plan in a chat model's reply to buildQueryPlanMessages. Fields that are
+ * missing or malformed fall back to the original query and no expansions.
+ */
+export function parseQueryPlan(
+  reply: string,
+  fallbackQuery: string,
+): QueryPlan {
+  const object = /\{[\s\S]*\}/.exec(reply)
+  if (!object) {
+    throw new Error('Query plan reply has no JSON object')
+  }
+  const plan: unknown = JSON.parse(object[0])
+  if (typeof plan !== 'object' || plan === null) {
+    throw new Error('Query plan reply is not a JSON object')
+  }
+  const { query, subQueries, passage } = plan as Record<string, unknown>
+
+  const standalone =
+    typeof query === 'string' && query.trim() ? query.trim() : fallbackQuery
+  const expansions = [
+    ...(Array.isArray(subQueries) ? subQueries : [])
+      .filter((subQuery): subQuery is string => typeof subQuery === 'string')
+      .map((subQuery) => subQuery.trim())
+      .slice(0, MAX_SUB_QUERIES),
+    ...(typeof passage === 'string' ? [passage.trim()] : []),
+  ].filter((expansion) => expansion && expansion !== standalone)
+
+  return { query: standalone, expansions: [...new Set(expansions)] }
+}
+
+/**
+ * Merge the results of several queries with reciprocal rank fusion: chunks
+ * found by more queries, and ranked higher by them, come first. A chunk found
+ * more than once keeps its highest similarity.
+ */
+export function mergeRankedResults<
+  T extends { id: number; similarity: number },
+>(resultLists: T[][]): T[] {
+  const merged = new Map<number, { result: T; score: number }>()
+  for (const results of resultLists) {
+    results.forEach((result, rank) => {
+      const score = 1 / (RRF_K + rank + 1)
+      const existing = merged.get(result.id)
+      if (!existing) {
+        merged.set(result.id, { result, score })
+        return
+      }
+      existing.score += score
+      if (result.similarity > existing.result.similarity) {
+        existing.result = result
+      }
+    })
+  }
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(({ result }) => result)
+}
@@ -1,12 +1,31 @@
-import { App } from 'obsidian'
+import { App, Notice, requestUrl } from 'obsidian'
 
 import { QueryProgressState } from '../../components/chat-view/QueryProgress'
 import { VectorManager } from '../../database/modules/vector/VectorManager'
 import { SelectEmbedding } from '../../database/schema'
 import { SmartComposerSettings } from '../../settings/schema/setting.types'
 import { EmbeddingModelClient } from '../../types/embedding'
+import { getChatModelClient } from '../llm/manager'
 
+import type { BackgroundIndexer } from './backgroundIndexer'
+import { matchesCookbookSources, normalizeCookbookFolder } from './cookbooks'
 import { getEmbeddingModelClient } from './embedding'
+import { MetadataFilter, toMetadataQuery } from './metadataFilter'
+import { mergeRankedResults } from './queryPlanner'
+import {
+  RERANK_CANDIDATE_FACTOR,
+  buildRerankMessages,
+  maximalMarginalRelevance,
+  normalizeScores,
+  parseRerankReply,
+  parseRerankResponse,
+} from './rerank'
+
+type QueryResult = Omit<SelectEmbedding, 'embedding'> & {
+  similarity: number
+  // Set when a reranker ordered the results
+  rerankScore?: number
+}
 
 // TODO: do we really need this class? It seems like unnecessary abstraction.
 export class RAGEngine {
@@ -14,15 +33,20 @@ export class RAGEngine {
   private settings: SmartComposerSettings
   private vectorManager: VectorManager | null = null
   private embeddingModel: EmbeddingModelClient | null = null
+  private indexer: BackgroundIndexer | null
+  // The cookbook index update in progress, shared by searches and the command
+  private cookbookIndexUpdate: Promise<void> | null = null
 
   constructor(
     app: App,
     settings: SmartComposerSettings,
     vectorManager: VectorManager,
+    indexer?: BackgroundIndexer,
   ) {
     this.app = app
     this.settings = settings
     this.vectorManager = vectorManager
+    this.indexer = indexer ?? null
     this.embeddingModel = getEmbeddingModelClient({
       settings,
       embeddingModelId: settings.embeddingModelId,
@@ -32,6 +56,7 @@ export class RAGEngine {
   cleanup() {
     this.embeddingModel = null
     this.vectorManager = null
+    this.indexer = null
   }
 
   // TODO: use addSettingsChangeListener
@@ -43,10 +68,12 @@ export class RAGEngine {
     })
   }
 
-  // TODO: Implement automatic vault re-indexing when settings are changed.
-  // Currently, users must manually re-index the vault.
+  /**
+   * Index new and modified notes, or all of them with `reindexAll`. Errors
+   * are shown in a modal unless `reportErrors` is false.
+   */
   async updateVaultIndex(
-    options: { reindexAll: boolean } = {
+    options: { reindexAll: boolean; reportErrors?: boolean } = {
       reindexAll: false,
     },
     onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
@@ -61,6 +88,45 @@ export class RAGEngine {
         excludePatterns: this.settings.ragOptions.excludePatterns,
         includePatterns: this.settings.ragOptions.includePatterns,
         reindexAll: options.reindexAll,
+        reportErrors: options.reportErrors,
+      },
+      (indexProgress) => {
+        onQueryProgressChange?.({
+          type: 'indexing',
+          indexProgress,
+        })
+      },
+    )
+  }
+
+  /** Drop every vector of the embedding model, notes and cookbooks alike */
+  async clearIndex(): Promise<void> {
+    if (!this.embeddingModel) {
+      throw new Error('Embedding model is not set')
+    }
+    await this.vectorManager?.clearAllVectors(this.embeddingModel)
+  }
+
+  /** Re-index notes that changed, and drop notes (or folders) that are gone */
+  async updateNotesIndex(
+    changes: { index: string[]; remove: string[]; reportErrors?: boolean },
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<void> {
+    if (!this.embeddingModel) {
+      throw new Error('Embedding model is not set')
+    }
+    await this.vectorManager?.removeFromIndex(
+      changes.remove,
+      this.embeddingModel,
+    )
+    await this.vectorManager?.updateNotesIndex(
+      this.embeddingModel,
+      {
+        paths: changes.index,
+        chunkSize: this.settings.ragOptions.chunkSize,
+        excludePatterns: this.settings.ragOptions.excludePatterns,
+        includePatterns: this.settings.ragOptions.includePatterns,
+        reportErrors: changes.reportErrors,
       },
       (indexProgress) => {
         onQueryProgressChange?.({
@@ -73,15 +139,141 @@ export class RAGEngine {
 
   async processQuery({
     query,
+    expansions = [],
     scope,
+    filters = [],
+    limit,
     onQueryProgressChange,
   }: {
     query: string
+    /** More queries searched alongside `query`, from query planning; results are merged */
+    expansions?: string[]
     scope?: {
       files: string[]
       folders: string[]
     }
+    /** Only chunks of notes matching every filter are returned */
+    filters?: MetadataFilter[]
+    /** Overrides ragOptions.limit */
+    limit?: number
     onQueryProgressChange?: (queryProgress: QueryProgressState) => void
+  }): Promise<QueryResult[]> {
+    if (!this.embeddingModel) {
+      throw new Error('Embedding model is not set')
+    }
+    if (this.indexer) {
+      // Edits are indexed in the background; only what's still queued is left
+      await this.indexer.flush(onQueryProgressChange)
+    } else {
+      await this.updateVaultIndex({ reindexAll: false }, onQueryProgressChange)
+    }
+    const queryEmbeddings = await Promise.all(
+      [query, ...expansions].map((text) => this.getQueryEmbedding(text)),
+    )
+    onQueryProgressChange?.({
+      type: 'querying',
+    })
+    const resultLimit = limit ?? this.settings.ragOptions.limit
+    const { mmrEnabled, reranker } = this.settings.ragOptions
+    const secondStage = mmrEnabled || reranker !== 'none'
+    const candidateLimit = secondStage
+      ? resultLimit * RERANK_CANDIDATE_FACTOR
+      : resultLimit
+    const filter = filters.length > 0 ? toMetadataQuery(filters) : undefined
+    const embeddingModel = this.embeddingModel
+    const resultLists = await Promise.all(
+      queryEmbeddings.map(
+        async (queryEmbedding) =>
+          (await this.vectorManager?.performSimilaritySearch(
+            queryEmbedding,
+            embeddingModel,
+            {
+              minSimilarity: this.settings.ragOptions.minSimilarity,
+              limit: candidateLimit,
+              scope,
+              filter,
+            },
+          )) ?? [],
+      ),
+    )
+    const candidates =
+      resultLists.length > 1
+        ? mergeRankedResults(resultLists).slice(0, candidateLimit)
+        : resultLists[0]
+    const queryResult =
+      secondStage && candidates.length > 0
+        ? await this.rerank(
+            query,
+            candidates,
+            resultLimit,
+            onQueryProgressChange,
+          )
+        : candidates
+    onQueryProgressChange?.({
+      type: 'querying-done',
+      queryResult,
+    })
+    return queryResult
+  }
+
+  /**
+   * Index new and modified cookbook PDFs. If an update is already running,
+   * waits for it instead of starting another; its progress isn't reported.
+   */
+  async updateCookbookIndex(
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<void> {
+    if (!this.embeddingModel) {
+      throw new Error('Embedding model is not set')
+    }
+    if (this.cookbookIndexUpdate) {
+      return this.cookbookIndexUpdate
+    }
+    const update = this.vectorManager?.updateCookbookIndex(
+      this.embeddingModel,
+      {
+        folder: this.getCookbookFolder(),
+        chunkSize: this.settings.ragOptions.chunkSize,
+      },
+      (indexProgress) => {
+        onQueryProgressChange?.({
+          type: 'indexing',
+          indexProgress,
+        })
+      },
+    )
+    if (!update) return
+    this.cookbookIndexUpdate = update.finally(() => {
+      this.cookbookIndexUpdate = null
+    })
+    return this.cookbookIndexUpdate
+  }
+
+  /** Cookbook PDFs, optionally narrowed to the given sources */
+  listCookbooks(sources: string[] = []): string[] {
+    return (
+      this.vectorManager?.getCookbookFiles(this.getCookbookFolder()) ?? []
+    )
+      .map((file) => file.path)
+      .filter((path) => matchesCookbookSources(path, sources))
+      .sort()
+  }
+
+  /**
+   * Search the cookbook PDFs that are already indexed. New and modified PDFs
+   * are indexed in the background, since indexing a large collection takes
+   * longer than the backend waits for an RPC; later searches include them.
+   * Chunks carry the page they came from in metadata.page.
+   */
+  async searchCookbooks({
+    query,
+    sources = [],
+    limit,
+  }: {
+    query: string
+    /** Only search cookbooks whose name contains one of these */
+    sources?: string[]
+    limit?: number
   }): Promise<
     (Omit<SelectEmbedding, 'embedding'> & {
       similarity: number
@@ -90,28 +282,152 @@ export class RAGEngine {
     if (!this.embeddingModel) {
       throw new Error('Embedding model is not set')
     }
-    // TODO: Decide the vault index update strategy.
-    // Current approach: Update on every query.
-    await this.updateVaultIndex({ reindexAll: false }, onQueryProgressChange)
-    const queryEmbedding = await this.getQueryEmbedding(query)
-    onQueryProgressChange?.({
-      type: 'querying',
+    const files = this.listCookbooks(sources)
+    if (files.length === 0) {
+      throw new Error(
+        sources.length > 0
+          ? `No cookbook matches ${sources.join(', ')}`
+          : 'No cookbook PDFs found',
+      )
+    }
+    this.updateCookbookIndex().catch((error) => {
+      console.error('Cookbook index update failed', error)
     })
-    const queryResult =
+    const queryEmbedding = await this.getQueryEmbedding(query)
+    const results =
       (await this.vectorManager?.performSimilaritySearch(
         queryEmbedding,
         this.embeddingModel,
         {
           minSimilarity: this.settings.ragOptions.minSimilarity,
-          limit: this.settings.ragOptions.limit,
-          scope,
+          limit: limit ?? this.settings.ragOptions.limit,
+          scope: { files, folders: [] },
+          source: 'cookbooks',
         },
       )) ?? []
-    onQueryProgressChange?.({
-      type: 'querying-done',
-      queryResult,
+    if (results.length === 0 && this.cookbookIndexUpdate) {
+      throw new Error(
+        'The cookbooks are still being indexed. Search again in a few minutes.',
+      )
+    }
+    return results
+  }
+
+  /**
+   * Reorder over-fetched candidates with the configured reranker, then pick
+   * `limit` of them, with MMR if enabled. If the reranker fails, candidates
+   * keep their similarity order.
+   */
+  private async rerank(
+    query: string,
+    candidates: QueryResult[],
+    limit: number,
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void,
+  ): Promise<QueryResult[]> {
+    const { mmrEnabled, mmrLambda, reranker } = this.settings.ragOptions
+    let ranked = candidates
+    if (reranker !== 'none') {
+      onQueryProgressChange?.({
+        type: 'reranking',
+        candidateCount: candidates.length,
+      })
+      try {
+        const passages = candidates.map((candidate) => candidate.content)
+        const scores =
+          reranker === 'chat-model'
+            ? await this.scoreWithChatModel(query, passages)
+            : await this.scoreWithEndpoint(query, passages)
+        ranked = candidates
+          .map((candidate, index) => ({
+            ...candidate,
+            rerankScore: scores[index],
+          }))
+          .sort((a, b) => b.rerankScore - a.rerankScore)
+      } catch (error) {
+        console.warn('[RAGEngine] Reranking failed:', error)
+        new Notice(
+          `Reranking failed, so results are in similarity order. ${error instanceof Error ? error.message : ''}`,
+        )
+      }
+    }
+
+    if (!mmrEnabled) {
+      return ranked.slice(0, limit)
+    }
+    const embeddings =
+      (await this.vectorManager?.getEmbeddingsByIds(
+        ranked.map((candidate) => candidate.id),
+      )) ?? new Map<number, number[]>()
+    // Reranker scores can have any range; similarities are used as they are
+    const relevance =
+      ranked[0].rerankScore !== undefined
+        ? normalizeScores(ranked.map((candidate) => candidate.rerankScore ?? 0))
+        : ranked.map((candidate) => candidate.similarity)
+    return maximalMarginalRelevance(
+      ranked.map((candidate, index) => ({
+        relevance: relevance[index],
+        embedding: embeddings.get(candidate.id) ?? [],
+      })),
+      { lambda: mmrLambda, limit },
+    ).map((index) => ranked[index])
+  }
+
+  private async scoreWithChatModel(
+    query: string,
+    passages: string[],
+  ): Promise<number[]> {
+    const { providerClient, model } = getChatModelClient({
+      settings: this.settings,
+      modelId: this.settings.ragOptions.rerankModelId,
     })
-    return queryResult
+    // The backend agent would run a whole agent turn for every search
+    if (model.providerType === 'backend') {
+      throw new Error('The backend agent cannot rerank results')
+    }
+    const response = await providerClient.generateResponse(model, {
+      model: model.model,
+      messages: buildRerankMessages(query, passages),
+      stream: false,
+    })
+    return parseRerankReply(
+      response.choices[0]?.message.content ?? '',
+      passages.length,
+    )
+  }
+
+  private async scoreWithEndpoint(
+    query: string,
+    passages: string[],
+  ): Promise<number[]> {
+    const url = this.settings.ragOptions.rerankEndpoint.trim()
+    if (!url) {
+      throw new Error('No rerank endpoint is set')
+    }
+    const apiKey = this.settings.ragOptions.rerankApiKey.trim()
+    const response = await requestUrl({
+      url,
+      method: 'POST',
+      contentType: 'application/json',
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      // Cohere-style servers read `documents`, Text Embeddings Inference `texts`
+      body: JSON.stringify({
+        query,
+        documents: passages,
+        texts: passages,
+        top_n: passages.length,
+      }),
+    })
+    return parseRerankResponse(response.json as unknown, passages.length)
+  }
+
+  private getCookbookFolder(): string {
+    const folder = normalizeCookbookFolder(this.settings.externalResourceDir)
+    if (!folder) {
+      throw new Error(
+        'No cookbook folder is set. Set "External resource directory" in the chat settings.',
+      )
+    }
+    return folder
   }
 
   private async getQueryEmbedding(query: string): Promise<number[]> {
@@ -0,0 +1,99 @@
+import {
+  buildRerankMessages,
+  maximalMarginalRelevance,
+  normalizeScores,
+  parseRerankReply,
+  parseRerankResponse,
+} from './rerank'
+
+describe('maximalMarginalRelevance', () => {
+  const candidates = [
+    { relevance: 0.9, embedding: [1, 0] },
+    // A near-duplicate of the first candidate
+    { relevance: 0.89, embedding: [0.99, 0.01] },
+    { relevance: 0.7, embedding: [0, 1] },
+  ]
+
+  it('should skip near-duplicates of picked candidates', () => {
+    expect(
+      maximalMarginalRelevance(candidates, { lambda: 0.5, limit: 2 }),
+    ).toEqual([0, 2])
+  })
+
+  it('should keep relevance order with lambda 1', () => {
+    expect(
+      maximalMarginalRelevance(candidates, { lambda: 1, limit: 3 }),
+    ).toEqual([0, 1, 2])
+  })
+
+  it('should stop when candidates run out', () => {
+    expect(
+      maximalMarginalRelevance(candidates, { lambda: 0.5, limit: 10 }),
+    ).toHaveLength(3)
+  })
+})
+
+describe('normalizeScores', () => {
+  it('should scale scores to 0-1', () => {
+    expect(normalizeScores([2, 6, 10])).toEqual([0, 0.5, 1])
+    expect(normalizeScores([3, 3])).toEqual([1, 1])
+  })
+})
+
+describe('parseRerankReply', () => {
+  it('should read the scores from the reply', () => {
+    expect(parseRerankReply('```json\n[8, 2, 5.5]\n```', 3)).toEqual([
+      8, 2, 5.5,
+    ])
+  })
+
+  it('should reject replies that do not score every passage', () => {
+    expect(() => parseRerankReply('[8, 2]', 3)).toThrow()
+    expect(() => parseRerankReply('The first one.', 3)).toThrow()
+    expect(() => parseRerankReply('["high", 2, 1]', 3)).toThrow()
+  })
+})
+
+describe('parseRerankResponse', () => {
+  it('should read Cohere-style responses', () => {
+    expect(
+      parseRerankResponse(
+        {
+          results: [
+            { index: 1, relevance_score: 0.9 },
+            { index: 0, relevance_score: 0.1 },
+          ],
+        },
+        2,
+      ),
+    ).toEqual([0.1, 0.9])
+  })
+
+  it('should read Text Embeddings Inference responses', () => {
+    expect(
+      parseRerankResponse(
+        [
+          { index: 0, score: -1.5 },
+          { index: 1, score: 3.2 },
+        ],
+        2,
+      ),
+    ).toEqual([-1.5, 3.2])
+  })
+
+  it('should reject responses missing documents', () => {
+    expect(() =>
+      parseRerankResponse({ results: [{ index: 0, score: 1 }] }, 2),
+    ).toThrow()
+    expect(() => parseRerankResponse({ error: 'no model' }, 1)).toThrow()
+  })
+})
+
+describe('buildRerankMessages', () => {
+  it('should number every passage', () => {
+    const messages = buildRerankMessages('sourdough', ['one', 'two'])
+    expect(messages[1].content).toContain('[1]\none')
+    expect(messages[1].content).toContain('[2]\ntwo')
+    expect(messages[1].content).toContain('JSON array of 2 numbers')
+  })
+})
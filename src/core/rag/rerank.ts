@@ -0,0 +1,157 @@
+/**
+ * Second stage of a vault search (see RAGEngine.processQuery). The nearest
+ * chunks are over-fetched, optionally scored again by a reranker — a chat
+ * model or a /rerank endpoint — and then picked with maximal marginal
+ * relevance (MMR), which skips chunks too similar to ones already picked.
+ */
+
+import { RequestMessage } from '../../types/llm/request'
+
+/** Candidates fetched per result when a second stage is on */
+export const RERANK_CANDIDATE_FACTOR = 4
+
+/** Longer passages are cut before they're sent to a chat model reranker */
+const MAX_PASSAGE_CHARS = 1500
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/** Scale scores to 0–1, so reranker scores of any range weigh like similarities */
+export function normalizeScores(scores: number[]): number[] {
+  const min = Math.min(...scores)
+  const max = Math.max(...scores)
+  return scores.map((score) => (max === min ? 1 : (score - min) / (max - min)))
+}
+
+/**
+ * Pick `limit` candidates with maximal marginal relevance. `lambda` weighs
+ * relevance against novelty: 1 is plain relevance order, lower values skip
+ * near-duplicates more eagerly. Returns indices into `candidates`, in pick
+ * order.
+ */
+export function maximalMarginalRelevance(
+  candidates: { relevance: number; embedding: number[] }[],
+  options: { lambda: number; limit: number },
+): number[] {
+  const picked: number[] = []
+  // Highest similarity of each candidate to anything picked so far
+  const redundancy = candidates.map(() => -Infinity)
+  const remaining = new Set(candidates.keys())
+
+  while (picked.length < options.limit && remaining.size > 0) {
+    let best = -1
+    let bestScore = -Infinity
+    for (const index of remaining) {
+      const score =
+        options.lambda * candidates[index].relevance -
+        (1 - options.lambda) * (picked.length > 0 ? redundancy[index] : 0)
+      if (score > bestScore) {
+        best = index
+        bestScore = score
+      }
+    }
+    picked.push(best)
+    remaining.delete(best)
+    for (const index of remaining) {
+      redundancy[index] = Math.max(
+        redundancy[index],
+        cosineSimilarity(
+          candidates[index].embedding,
+          candidates[best].embedding,
+        ),
+      )
+    }
+  }
+  return picked
+}
+
+export function buildRerankMessages(
+  query: string,
+  passages: string[],
+): RequestMessage[] {
+  const numbered = passages
+    .map(
+      (passage, index) =>
+        `[${index + 1}]\n${passage.length > MAX_PASSAGE_CHARS ? `${passage.slice(0, MAX_PASSAGE_CHARS)}…` : passage}`,
+    )
+    .join('\n\n')
+  return [
+    {
+      role: 'system',
+      content:
+        "You rate how relevant passages from the user's notes are to a search query. Reply with JSON only.",
+    },
+    {
+      role: 'user',
+      content: `Query: ${query}
+
+Passages:
+
+${numbered}
+
+Rate each passage from 0 (unrelated) to 10 (directly answers the query). Reply with a JSON array of ${passages.length} numbers, one per passage, in order.`,
+    },
+  ]
+}
+
+/** Scores from a chat model's reply to buildRerankMessages */
+export function parseRerankReply(reply: string, count: number): number[] {
+  const array = /\[[\s\S]*?\]/.exec(reply)
+  if (!array) {
+    throw new Error('Reranker reply has no JSON array')
+  }
+  const scores: unknown = JSON.parse(array[0])
+  if (
+    !Array.isArray(scores) ||
+    scores.length !== count ||
+    !scores.every((score) => typeof score === 'number')
+  ) {
+    throw new Error(`Reranker reply is not an array of ${count} numbers`)
+  }
+  return scores
+}
+
+/**
+ * Scores from a /rerank endpoint, by document index. Accepts the Cohere
+ * format also used by Jina, llama.cpp and Infinity (`{ results: [{ index,
+ * relevance_score }] }`) and the Text Embeddings Inference one
+ * (`[{ index, score }]`).
+ */
+export function parseRerankResponse(
+  response: unknown,
+  count: number,
+): number[] {
+  const results: unknown =
+    typeof response === 'object' && response !== null && 'results' in response
+      ? response.results
+      : response
+  if (!Array.isArray(results)) {
+    throw new Error('Rerank response has no results')
+  }
+
+  const scores: (number | undefined)[] = new Array(count).fill(undefined)
+  for (const result of results as Record<string, unknown>[]) {
+    const score = result.relevance_score ?? result.score
+    if (
+      typeof result.index === 'number' &&
+      result.index >= 0 &&
+      result.index < count &&
+      typeof score === 'number'
+    ) {
+      scores[result.index] = score
+    }
+  }
+  if (scores.some((score) => score === undefined)) {
+    throw new Error('Rerank response is missing documents')
+  }
+  return scores as number[]
+}
@@ -1,14 +1,20 @@
-import { SerializedChatMessage } from '../../../types/chat'
+import {
+  SerializedChatBranch,
+  SerializedChatMessage,
+} from '../../../types/chat'
 
 export const CHAT_SCHEMA_VERSION = 1
 
 export type ChatConversation = {
   id: string
   title: string
-  messages: SerializedChatMessage[]
+  messages: SerializedChatMessage[] // Messages of the active branch
   createdAt: number
   updatedAt: number
   schemaVersion: number
+  // Every branch in creation order, when a message has been edited and resent
+  branches?: SerializedChatBranch[]
+  activeBranchId?: string
 }
 
 export type ChatConversationMetadata = {
@@ -2,7 +2,7 @@ import { PgliteDatabase } from 'drizzle-orm/pglite'
 import { backOff } from 'exponential-backoff'
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
 import { minimatch } from 'minimatch'
-import { App, TFile } from 'obsidian'
+import { App, TFile, getAllTags, loadPdfJs } from 'obsidian'
 
 import { IndexProgress } from '../../../components/chat-view/QueryProgress'
 import { ErrorModal } from '../../../components/modals/ErrorModal'
@@ -12,6 +12,13 @@ import {
   LLMBaseUrlNotSetException,
   LLMRateLimitExceededException,
 } from '../../../core/llm/exception'
+import {
+  PdfTextItem,
+  isCookbookPath,
+  pageTextFromItems,
+} from '../../../core/rag/cookbooks'
+import { chunkMarkdown } from '../../../core/rag/markdownChunker'
+import { MetadataQuery } from '../../../core/rag/metadataFilter'
 import {
   InsertEmbedding,
   SelectEmbedding,
@@ -22,14 +29,17 @@ import {
   EmbeddingModelClient,
 } from '../../../types/embedding'
 import { chunkArray } from '../../../utils/common/chunk-array'
+import { tokenCountSync } from '../../../utils/llm/token'
 
-import { VectorRepository } from './VectorRepository'
+import { EmbeddingSource, VectorRepository } from './VectorRepository'
 
 export class VectorManager {
   private app: App
   private repository: VectorRepository
   private saveCallback: (() => Promise<void>) | null = null
   private vacuumCallback: (() => Promise<void>) | null = null
+  // PDFs without extractable text, by path, with the mtime they were checked at
+  private textlessPdfs = new Map<string, number>()
 
   private async requestSave() {
     try {
@@ -80,6 +90,8 @@ export class VectorManager {
         files: string[]
         folders: string[]
       }
+      filter?: MetadataQuery
+      source?: EmbeddingSource
     },
   ): Promise<
     (Omit<SelectEmbedding, 'embedding'> & {
@@ -93,6 +105,15 @@ export class VectorManager {
     )
   }
 
+  async getEmbeddingsByIds(ids: number[]): Promise<Map<number, number[]>> {
+    return await this.repository.getEmbeddingsByIds(ids)
+  }
+
+  /**
+   * Index new and modified notes, or every note with `reindexAll`. Errors
+   * are shown in a modal unless `reportErrors` is false, in which case they
+   * are thrown to the caller.
+   */
   async updateVaultIndex(
     embeddingModel: EmbeddingModelClient,
     options: {
@@ -100,6 +121,7 @@ export class VectorManager {
       excludePatterns: string[]
       includePatterns: string[]
       reindexAll?: boolean
+      reportErrors?: boolean
     },
     updateProgress?: (indexProgress: IndexProgress) => void,
   ): Promise<void> {
@@ -111,7 +133,8 @@ export class VectorManager {
         includePatterns: options.includePatterns,
         reindexAll: true,
       })
-      await this.repository.clearAllVectors(embeddingModel)
+      // Cookbook PDFs are indexed separately (see updateCookbookIndex)
+      await this.repository.clearNoteVectors(embeddingModel)
     } else {
       await this.deleteVectorsForDeletedFiles(embeddingModel)
       filesToIndex = await this.getFilesToIndex({
@@ -129,40 +152,147 @@ export class VectorManager {
       return
     }
 
-    const textSplitter = RecursiveCharacterTextSplitter.fromLanguage(
-      'markdown',
-      {
-        chunkSize: options.chunkSize,
-        // TODO: Use token-based chunking after migrating to WebAssembly-based tiktoken
-        // Current token counting method is too slow for practical use
-        // lengthFunction: async (text) => {
-        //   return await tokenCount(text)
-        // },
-      },
+    const reportErrors = options.reportErrors ?? true
+    const contentChunks = await this.chunkNotes(
+      filesToIndex,
+      options.chunkSize,
+      reportErrors,
+    )
+
+    if (contentChunks.length === 0) {
+      throw new Error('All files failed to process. Stopping indexing process.')
+    }
+
+    await this.embedChunks(
+      contentChunks,
+      filesToIndex.length,
+      embeddingModel,
+      updateProgress,
+      reportErrors,
+    )
+  }
+
+  /**
+   * Re-index the given notes after they changed. Notes that no longer
+   * exist or that the patterns exclude only have their vectors dropped.
+   */
+  async updateNotesIndex(
+    embeddingModel: EmbeddingModelClient,
+    options: {
+      paths: string[]
+      chunkSize: number
+      excludePatterns: string[]
+      includePatterns: string[]
+      reportErrors?: boolean
+    },
+    updateProgress?: (indexProgress: IndexProgress) => void,
+  ): Promise<void> {
+    if (options.paths.length === 0) {
+      return
+    }
+    await this.repository.deleteVectorsForMultipleFiles(
+      options.paths,
+      embeddingModel,
+    )
+
+    const notes = this.filterByPatterns(
+      options.paths
+        .map((path) => this.app.vault.getAbstractFileByPath(path))
+        .filter(
+          (file): file is TFile =>
+            file instanceof TFile && file.extension === 'md',
+        ),
+      options.excludePatterns,
+      options.includePatterns,
+    )
+    const reportErrors = options.reportErrors ?? true
+    const contentChunks = await this.chunkNotes(
+      notes,
+      options.chunkSize,
+      reportErrors,
+    )
+    if (contentChunks.length === 0) {
+      await this.requestSave()
+      return
+    }
+
+    await this.embedChunks(
+      contentChunks,
+      notes.length,
+      embeddingModel,
+      updateProgress,
+      reportErrors,
+    )
+  }
+
+  /** Drop the vectors of these notes, and of the notes under them if they were folders */
+  async removeFromIndex(
+    paths: string[],
+    embeddingModel: EmbeddingModelClient,
+  ): Promise<void> {
+    if (paths.length === 0) {
+      return
+    }
+    const indexedPaths = new Set(
+      await this.repository.getIndexedFilePaths(embeddingModel),
+    )
+    const removedPaths = [...indexedPaths].filter((indexedPath) =>
+      paths.some(
+        (path) => indexedPath === path || indexedPath.startsWith(`${path}/`),
+      ),
+    )
+    if (removedPaths.length === 0) {
+      return
+    }
+    await this.repository.deleteVectorsForMultipleFiles(
+      removedPaths,
+      embeddingModel,
     )
+    await this.requestSave()
+  }
 
+  private async chunkNotes(
+    files: TFile[],
+    chunkSize: number,
+    reportErrors: boolean,
+  ): Promise<Omit<InsertEmbedding, 'model' | 'dimension'>[]> {
     const failedFiles: { path: string; error: string }[] = []
     const contentChunks = (
       await Promise.all(
-        filesToIndex.map(async (file) => {
+        files.map(async (file) => {
           try {
             const fileContent = await this.app.vault.cachedRead(file)
             // Remove null bytes from the content
             // eslint-disable-next-line no-control-regex
             const sanitizedContent = fileContent.replace(/\x00/g, '')
 
-            const fileDocuments = await textSplitter.createDocuments([
-              sanitizedContent,
-            ])
-            return fileDocuments.map(
+            // Stored with every chunk for metadata filters (see metadataFilter.ts)
+            const fileCache = this.app.metadataCache.getFileCache(file)
+            const tags = [
+              ...new Set(
+                (fileCache ? (getAllTags(fileCache) ?? []) : []).map((tag) =>
+                  tag.replace(/^#/, ''),
+                ),
+              ),
+            ]
+            const frontmatter = fileCache?.frontmatter
+
+            const chunks = chunkMarkdown(sanitizedContent, {
+              maxTokens: chunkSize,
+              countTokens: tokenCountSync,
+            })
+            return chunks.map(
               (chunk): Omit<InsertEmbedding, 'model' | 'dimension'> => {
                 return {
                   path: file.path,
                   mtime: file.stat.mtime,
-                  content: chunk.pageContent,
+                  content: chunk.content,
                   metadata: {
-                    startLine: chunk.metadata.loc.lines.from as number,
-                    endLine: chunk.metadata.loc.lines.to as number,
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    headings: chunk.headings,
+                    tags,
+                    frontmatter,
                   },
                 }
               },
@@ -185,25 +315,39 @@ export class VectorManager {
           .map(({ path, error }) => `File: ${path}\nError: ${error}`)
           .join('\n\n')
 
-      new ErrorModal(
-        this.app,
-        'Error: chunk embedding failed',
-        `Some files failed to process. Please report this issue to the developer if it persists.`,
-        `[Error Log]\n\n${errorDetails}`,
-        {
-          showReportBugButton: true,
-        },
-      ).open()
+      if (reportErrors) {
+        new ErrorModal(
+          this.app,
+          'Error: chunk embedding failed',
+          `Some files failed to process. Please report this issue to the developer if it persists.`,
+          `[Error Log]\n\n${errorDetails}`,
+          {
+            showReportBugButton: true,
+          },
+        ).open()
+      } else {
+        console.warn(errorDetails)
+      }
     }
 
-    if (contentChunks.length === 0) {
-      throw new Error('All files failed to process. Stopping indexing process.')
-    }
+    return contentChunks
+  }
 
+  /**
+   * Embed chunks in batches and insert them, retrying on rate limits. Shows
+   * an error modal if embedding fails, or throws if `reportErrors` is false.
+   */
+  private async embedChunks(
+    contentChunks: Omit<InsertEmbedding, 'model' | 'dimension'>[],
+    totalFiles: number,
+    embeddingModel: EmbeddingModelClient,
+    updateProgress?: (indexProgress: IndexProgress) => void,
+    reportErrors = true,
+  ): Promise<void> {
     updateProgress?.({
       completedChunks: 0,
       totalChunks: contentChunks.length,
-      totalFiles: filesToIndex.length,
+      totalFiles,
     })
 
     let completedChunks = 0
@@ -241,7 +385,7 @@ export class VectorManager {
                   updateProgress?.({
                     completedChunks,
                     totalChunks: contentChunks.length,
-                    totalFiles: filesToIndex.length,
+                    totalFiles,
                   })
 
                   return {
@@ -267,7 +411,7 @@ export class VectorManager {
                       updateProgress?.({
                         completedChunks,
                         totalChunks: contentChunks.length,
-                        totalFiles: filesToIndex.length,
+                        totalFiles,
                         waitingForRateLimit: true,
                       })
                       return true
@@ -299,7 +443,15 @@ export class VectorManager {
         }
         await this.repository.insertVectors(validEmbeddingChunks)
       }
+      if (failedChunks.length > 0 && !reportErrors) {
+        throw new Error(
+          `Failed to embed ${failedChunks.length} chunk(s): ${failedChunks[0].error}`,
+        )
+      }
     } catch (error) {
+      if (!reportErrors) {
+        throw error
+      }
       if (
         error instanceof LLMAPIKeyNotSetException ||
         error instanceof LLMAPIKeyInvalidException ||
@@ -331,6 +483,134 @@ Please report this issue to the developer if it persists.`,
     }
   }
 
+  /**
+   * Index the PDFs in the cookbook folder page by page. Like the vault index,
+   * only new and modified files are embedded, and PDFs that were removed or
+   * moved out of the folder are dropped.
+   */
+  async updateCookbookIndex(
+    embeddingModel: EmbeddingModelClient,
+    options: {
+      folder: string
+      chunkSize: number
+    },
+    updateProgress?: (indexProgress: IndexProgress) => void,
+  ): Promise<void> {
+    const cookbooks = this.getCookbookFiles(options.folder)
+    const cookbookPaths = new Set(cookbooks.map((file) => file.path))
+
+    const indexedPaths = new Set(
+      await this.repository.getIndexedFilePaths(embeddingModel),
+    )
+    const stalePaths = [...indexedPaths].filter(
+      (path) => path.toLowerCase().endsWith('.pdf') && !cookbookPaths.has(path),
+    )
+    if (stalePaths.length > 0) {
+      await this.repository.deleteVectorsForMultipleFiles(
+        stalePaths,
+        embeddingModel,
+      )
+    }
+
+    const filesToIndex: TFile[] = []
+    for (const file of cookbooks) {
+      if (this.textlessPdfs.get(file.path) === file.stat.mtime) continue
+      if (!indexedPaths.has(file.path)) {
+        filesToIndex.push(file)
+        continue
+      }
+      const fileChunks = await this.repository.getVectorsByFilePath(
+        file.path,
+        embeddingModel,
+      )
+      if (file.stat.mtime > fileChunks[0].mtime) {
+        filesToIndex.push(file)
+      }
+    }
+    if (filesToIndex.length === 0) {
+      return
+    }
+    await this.repository.deleteVectorsForMultipleFiles(
+      filesToIndex.map((file) => file.path),
+      embeddingModel,
+    )
+
+    const textSplitter = new RecursiveCharacterTextSplitter({
+      chunkSize: options.chunkSize,
+      // The default overlap is 200, more than a small chunk size allows
+      chunkOverlap: Math.floor(options.chunkSize / 5),
+      lengthFunction: tokenCountSync,
+    })
+    const contentChunks: Omit<InsertEmbedding, 'model' | 'dimension'>[] = []
+    const failedFiles: { path: string; error: string }[] = []
+    // One PDF at a time: cookbooks can be hundreds of pages
+    for (const file of filesToIndex) {
+      try {
+        const pages = await extractPdfPages(
+          await this.app.vault.readBinary(file),
+        )
+        const chunkCount = contentChunks.length
+        for (const [index, pageText] of pages.entries()) {
+          // eslint-disable-next-line no-control-regex
+          const sanitizedText = pageText.replace(/\x00/g, '')
+          if (!sanitizedText) continue
+          const pageDocuments = await textSplitter.createDocuments([
+            sanitizedText,
+          ])
+          for (const chunk of pageDocuments) {
+            contentChunks.push({
+              path: file.path,
+              mtime: file.stat.mtime,
+              content: chunk.pageContent,
+              metadata: {
+                page: index + 1,
+                startLine: chunk.metadata.loc.lines.from as number,
+                endLine: chunk.metadata.loc.lines.to as number,
+              },
+            })
+          }
+        }
+        if (contentChunks.length === chunkCount) {
+          // Scanned PDFs have no text layer; don't extract them on every search
+          this.textlessPdfs.set(file.path, file.stat.mtime)
+        }
+      } catch (error) {
+        failedFiles.push({
+          path: file.path,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    if (failedFiles.length > 0) {
+      new ErrorModal(
+        this.app,
+        'Error: PDF extraction failed',
+        'Some cookbooks could not be read.',
+        `[Error Log]\n\n${failedFiles
+          .map(({ path, error }) => `File: ${path}\nError: ${error}`)
+          .join('\n\n')}`,
+      ).open()
+    }
+
+    if (contentChunks.length === 0) {
+      return
+    }
+
+    await this.embedChunks(
+      contentChunks,
+      filesToIndex.length,
+      embeddingModel,
+      updateProgress,
+    )
+  }
+
+  getCookbookFiles(folder: string): TFile[] {
+    return this.app.vault
+      .getFiles()
+      .filter((file) => isCookbookPath(file.path, folder))
+  }
+
   async clearAllVectors(embeddingModel: EmbeddingModelClient) {
     await this.repository.clearAllVectors(embeddingModel)
     await this.requestVacuum()
@@ -363,17 +643,11 @@ Please report this issue to the developer if it persists.`,
     includePatterns: string[]
     reindexAll?: boolean
   }): Promise<TFile[]> {
-    let filesToIndex = this.app.vault.getMarkdownFiles()
-
-    filesToIndex = filesToIndex.filter((file) => {
-      return !excludePatterns.some((pattern) => minimatch(file.path, pattern))
-    })
-
-    if (includePatterns.length > 0) {
-      filesToIndex = filesToIndex.filter((file) => {
-        return includePatterns.some((pattern) => minimatch(file.path, pattern))
-      })
-    }
+    let filesToIndex = this.filterByPatterns(
+      this.app.vault.getMarkdownFiles(),
+      excludePatterns,
+      includePatterns,
+    )
 
     if (reindexAll) {
       return filesToIndex
@@ -408,7 +682,42 @@ Please report this issue to the developer if it persists.`,
     return filesToIndex
   }
 
+  private filterByPatterns(
+    files: TFile[],
+    excludePatterns: string[],
+    includePatterns: string[],
+  ): TFile[] {
+    let filtered = files.filter((file) => {
+      return !excludePatterns.some((pattern) => minimatch(file.path, pattern))
+    })
+
+    if (includePatterns.length > 0) {
+      filtered = filtered.filter((file) => {
+        return includePatterns.some((pattern) => minimatch(file.path, pattern))
+      })
+    }
+
+    return filtered
+  }
+
   async getEmbeddingStats(): Promise<EmbeddingDbStats[]> {
     return await this.repository.getEmbeddingStats()
   }
 }
+
+/** Text of each page of a PDF, using the PDF.js build bundled with Obsidian */
+async function extractPdfPages(data: ArrayBuffer): Promise<string[]> {
+  const pdfjs = await loadPdfJs()
+  const pdf = await pdfjs.getDocument({ data }).promise
+  const pages: string[] = []
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const textContent = await page.getTextContent()
+      pages.push(pageTextFromItems(textContent.items as PdfTextItem[]))
+    }
+  } finally {
+    await pdf.destroy()
+  }
+  return pages
+}
@@ -7,8 +7,10 @@ import {
   eq,
   getTableColumns,
   gt,
+  gte,
   inArray,
   like,
+  lt,
   or,
   sql,
   sum,
@@ -16,6 +18,7 @@ import {
 import { PgliteDatabase } from 'drizzle-orm/pglite'
 import { App } from 'obsidian'
 
+import { MetadataQuery } from '../../../core/rag/metadataFilter'
 import {
   EmbeddingDbStats,
   EmbeddingModelClient,
@@ -23,6 +26,8 @@ import {
 import { DatabaseNotInitializedException } from '../../exception'
 import { InsertEmbedding, SelectEmbedding, embeddingTable } from '../../schema'
 
+export type EmbeddingSource = 'notes' | 'cookbooks'
+
 export class VectorRepository {
   private app: App
   private db: PgliteDatabase | null
@@ -109,6 +114,21 @@ export class VectorRepository {
       .where(eq(embeddingTable.model, embeddingModel.id))
   }
 
+  /** Like clearAllVectors, but keeps the cookbook PDFs' vectors */
+  async clearNoteVectors(embeddingModel: EmbeddingModelClient): Promise<void> {
+    if (!this.db) {
+      throw new DatabaseNotInitializedException()
+    }
+    await this.db
+      .delete(embeddingTable)
+      .where(
+        and(
+          eq(embeddingTable.model, embeddingModel.id),
+          getSourceCondition('notes'),
+        ),
+      )
+  }
+
   async insertVectors(data: InsertEmbedding[]): Promise<void> {
     if (!this.db) {
       throw new DatabaseNotInitializedException()
@@ -116,6 +136,22 @@ export class VectorRepository {
     await this.db.insert(embeddingTable).values(data)
   }
 
+  async getEmbeddingsByIds(ids: number[]): Promise<Map<number, number[]>> {
+    if (!this.db) {
+      throw new DatabaseNotInitializedException()
+    }
+    if (ids.length === 0) {
+      return new Map()
+    }
+    const rows = await this.db
+      .select({ id: embeddingTable.id, embedding: embeddingTable.embedding })
+      .from(embeddingTable)
+      .where(inArray(embeddingTable.id, ids))
+    return new Map(
+      rows.flatMap((row) => (row.embedding ? [[row.id, row.embedding]] : [])),
+    )
+  }
+
   async performSimilaritySearch(
     queryVector: number[],
     embeddingModel: EmbeddingModelClient,
@@ -126,6 +162,9 @@ export class VectorRepository {
         files: string[]
         folders: string[]
       }
+      filter?: MetadataQuery
+      // Notes unless set; cookbook chunks share the table
+      source?: EmbeddingSource
     },
   ): Promise<
     (Omit<SelectEmbedding, 'embedding'> & {
@@ -161,6 +200,9 @@ export class VectorRepository {
       return or(...conditions)
     }
     const scopeCondition = getScopeCondition()
+    const filterCondition = options.filter
+      ? getMetadataCondition(options.filter)
+      : undefined
 
     const similaritySearchResults = await this.db
       .select({
@@ -176,6 +218,8 @@ export class VectorRepository {
         and(
           similarityCondition,
           scopeCondition,
+          filterCondition,
+          getSourceCondition(options.source ?? 'notes'),
           eq(embeddingTable.model, embeddingModel.id),
           eq(embeddingTable.dimension, embeddingModel.dimension), // include this to fully utilize partial index
         ),
@@ -206,3 +250,38 @@ export class VectorRepository {
     return stats
   }
 }
+
+/**
+ * Notes and cookbook PDFs are embedded into the same table; only PDF chunks
+ * have a page in their metadata
+ */
+function getSourceCondition(source: EmbeddingSource): SQL {
+  return source === 'cookbooks'
+    ? sql`(${embeddingTable.metadata} ->> 'page') is not null`
+    : sql`(${embeddingTable.metadata} ->> 'page') is null`
+}
+
+/** Every filter must match; see toMetadataQuery for how chips become a query */
+function getMetadataCondition(filter: MetadataQuery): SQL | undefined {
+  const conditions: SQL[] = []
+  for (const tag of filter.tags) {
+    // A nested tag matches its parents: #project/alpha is tagged #project
+    conditions.push(
+      sql`exists (select 1 from jsonb_array_elements_text(${embeddingTable.metadata} -> 'tags') as tag where lower(tag) = ${tag} or starts_with(lower(tag), ${`${tag}/`}))`,
+    )
+  }
+  for (const { key, value } of filter.properties) {
+    const property = sql`(${embeddingTable.metadata} -> 'frontmatter' -> ${key}::text)`
+    // A list property matches if any of its items does
+    conditions.push(
+      sql`(lower(${property} #>> '{}') = lower(${value}::text) or exists (select 1 from jsonb_array_elements_text(case when jsonb_typeof(${property}) = 'array' then ${property} else '[]'::jsonb end) as item where lower(item) = lower(${value}::text)))`,
+    )
+  }
+  if (filter.modifiedAfter !== undefined) {
+    conditions.push(gte(embeddingTable.mtime, filter.modifiedAfter))
+  }
+  if (filter.modifiedBefore !== undefined) {
+    conditions.push(lt(embeddingTable.mtime, filter.modifiedBefore))
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined
+}
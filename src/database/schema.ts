@@ -34,6 +34,14 @@ const customVector = customType<{ data: number[] }>({
 export type VectorMetaData = {
   startLine: number
   endLine: number
+  // 1-based page of a PDF chunk; lines are then counted within the page
+  page?: number
+  // Headings of the note section the chunk is from, outermost first
+  headings?: string[]
+  // Tags of the note, from frontmatter and body, without '#'
+  tags?: string[]
+  // Frontmatter properties of the note
+  frontmatter?: Record<string, unknown>
 }
 
 // important: dimensions must be less than 2000!
@@ -1,28 +1,37 @@
 import debounce from 'lodash.debounce'
 import isEqual from 'lodash.isequal'
-import { App } from 'obsidian'
 import { useCallback, useEffect, useMemo, useState } from 'react'
 
 import { editorStateToPlainText } from '../components/chat-view/chat-input/utils/editor-state-to-plain-text'
 import { useApp } from '../contexts/app-context'
 import { ChatConversationMetadata } from '../database/json/chat/types'
-import { ChatMessage, SerializedChatMessage } from '../types/chat'
-import { Mentionable } from '../types/mentionable'
+import { ChatBranch, ChatMessage, SerializedChatBranch } from '../types/chat'
 import {
-  deserializeMentionable,
-  serializeMentionable,
-} from '../utils/chat/mentionable'
+  deserializeChatMessage,
+  serializeChatMessage,
+} from '../utils/chat/serialization'
 
 import { useChatManager } from './useJsonManagers'
 
+/** Branches of a conversation; no branches means it was never forked */
+export type ChatBranchState = {
+  branches: ChatBranch[]
+  activeBranchId: string | null
+}
+
 type UseChatHistory = {
   createOrUpdateConversation: ((
     id: string,
     messages: ChatMessage[],
+    branchState?: ChatBranchState,
   ) => Promise<void> | undefined) & { flush?: () => void }
   deleteConversation: (id: string) => Promise<void>
-  getChatMessagesById: (id: string) => Promise<ChatMessage[] | null>
+  getConversationById: (
+    id: string,
+  ) => Promise<({ messages: ChatMessage[] } & ChatBranchState) | null>
   updateConversationTitle: (id: string, title: string) => Promise<void>
+  // Re-read the list after conversations are created outside this hook
+  refreshChatList: () => Promise<void>
   chatList: ChatConversationMetadata[]
 }
 
@@ -44,16 +53,39 @@ export function useChatHistory(): UseChatHistory {
   const createOrUpdateConversation = useMemo(
     () =>
       debounce(
-        async (id: string, messages: ChatMessage[]): Promise<void> => {
+        async (
+          id: string,
+          messages: ChatMessage[],
+          branchState?: ChatBranchState,
+        ): Promise<void> => {
           const serializedMessages = messages.map(serializeChatMessage)
+          const serializedBranches: {
+            branches?: SerializedChatBranch[]
+            activeBranchId?: string
+          } =
+            branchState && branchState.branches.length > 0
+              ? serializeChatBranches(
+                  branchState.branches,
+                  branchState.activeBranchId ?? id,
+                )
+              : {}
           const existingConversation = await chatManager.findById(id)
 
           if (existingConversation) {
-            if (isEqual(existingConversation.messages, serializedMessages)) {
+            if (
+              isEqual(existingConversation.messages, serializedMessages) &&
+              isEqual(
+                existingConversation.branches,
+                serializedBranches.branches,
+              ) &&
+              existingConversation.activeBranchId ===
+                serializedBranches.activeBranchId
+            ) {
               return
             }
             await chatManager.updateChat(existingConversation.id, {
               messages: serializedMessages,
+              ...serializedBranches,
             })
           } else {
             const firstUserMessage = messages.find((v) => v.role === 'user')
@@ -67,6 +99,7 @@ export function useChatHistory(): UseChatHistory {
                   )
                 : 'New chat',
               messages: serializedMessages,
+              ...serializedBranches,
             })
           }
 
@@ -88,15 +121,26 @@ export function useChatHistory(): UseChatHistory {
     [chatManager, fetchChatList],
   )
 
-  const getChatMessagesById = useCallback(
-    async (id: string): Promise<ChatMessage[] | null> => {
+  const getConversationById = useCallback(
+    async (
+      id: string,
+    ): Promise<({ messages: ChatMessage[] } & ChatBranchState) | null> => {
       const conversation = await chatManager.findById(id)
       if (!conversation) {
         return null
       }
-      return conversation.messages.map((message) =>
-        deserializeChatMessage(message, app),
-      )
+      return {
+        messages: conversation.messages.map((message) =>
+          deserializeChatMessage(message, app),
+        ),
+        branches: (conversation.branches ?? []).map((branch) => ({
+          id: branch.id,
+          messages: (branch.messages ?? []).map((message) =>
+            deserializeChatMessage(message, app),
+          ),
+        })),
+        activeBranchId: conversation.activeBranchId ?? null,
+      }
     },
     [chatManager, app],
   )
@@ -121,78 +165,22 @@ export function useChatHistory(): UseChatHistory {
   return {
     createOrUpdateConversation,
     deleteConversation,
-    getChatMessagesById,
+    getConversationById,
     updateConversationTitle,
+    refreshChatList: fetchChatList,
     chatList,
   }
 }
 
-const serializeChatMessage = (message: ChatMessage): SerializedChatMessage => {
-  switch (message.role) {
-    case 'user':
-      return {
-        role: 'user',
-        content: message.content,
-        promptContent: message.promptContent,
-        id: message.id,
-        mentionables: message.mentionables.map(serializeMentionable),
-        similaritySearchResults: message.similaritySearchResults,
-      }
-    case 'assistant':
-      return {
-        role: 'assistant',
-        content: message.content,
-        contentBlocks: message.contentBlocks,
-        reasoning: message.reasoning,
-        annotations: message.annotations,
-        toolCallRequests: message.toolCallRequests,
-        activities: message.activities,
-        id: message.id,
-        metadata: message.metadata,
-      }
-    case 'tool':
-      return {
-        role: 'tool',
-        toolCalls: message.toolCalls,
-        id: message.id,
-      }
-  }
-}
-
-const deserializeChatMessage = (
-  message: SerializedChatMessage,
-  app: App,
-): ChatMessage => {
-  switch (message.role) {
-    case 'user': {
-      return {
-        role: 'user',
-        content: message.content,
-        promptContent: message.promptContent,
-        id: message.id,
-        mentionables: message.mentionables
-          .map((m) => deserializeMentionable(m, app))
-          .filter((m): m is Mentionable => m !== null),
-        similaritySearchResults: message.similaritySearchResults,
-      }
-    }
-    case 'assistant':
-      return {
-        role: 'assistant',
-        content: message.content,
-        contentBlocks: message.contentBlocks,
-        reasoning: message.reasoning,
-        annotations: message.annotations,
-        toolCallRequests: message.toolCallRequests,
-        activities: message.activities,
-        id: message.id,
-        metadata: message.metadata,
-      }
-    case 'tool':
-      return {
-        role: 'tool',
-        toolCalls: message.toolCalls,
-        id: message.id,
-      }
-  }
-}
+// The active branch's messages are the conversation's own `messages`
+const serializeChatBranches = (
+  branches: ChatBranch[],
+  activeBranchId: string,
+): { branches: SerializedChatBranch[]; activeBranchId: string } => ({
+  branches: branches.map((branch) =>
+    branch.id === activeBranchId
+      ? { id: branch.id }
+      : { id: branch.id, messages: branch.messages.map(serializeChatMessage) },
+  ),
+  activeBranchId,
+})
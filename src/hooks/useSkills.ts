@@ -1,10 +1,17 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useApp } from '../contexts/app-context';
+import {
+	SlashCommandArgument,
+	parseArgumentHint,
+} from '../utils/chat/slash-command-arguments';
 
 export interface Skill {
 	name: string;
 	description: string;
 	path: string;
+	argumentHint?: string;
+	/** Typed arguments declared by argumentHint */
+	arguments: SlashCommandArgument[];
 }
 
 export interface SlashCommand {
@@ -12,6 +19,8 @@ export interface SlashCommand {
 	description: string;
 	path: string;
 	argumentHint?: string;
+	/** Typed arguments declared by argumentHint */
+	arguments: SlashCommandArgument[];
 }
 
 /**
@@ -32,7 +41,8 @@ function parseFrontmatter(content: string): { frontmatter: Record<string, string
 			for (const line of lines) {
 				const match = line.match(/^(\w[\w-]*):\s*(.+)$/);
 				if (match) {
-					frontmatter[match[1]] = match[2].trim();
+					// Hints like "[topic]" must be quoted to be valid YAML
+					frontmatter[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2');
 				}
 			}
 		}
@@ -43,9 +53,11 @@ function parseFrontmatter(content: string): { frontmatter: Record<string, string
 
 /**
  * Hook to load and manage skills from .claude/skills/ directory
- * Note: Uses adapter.list() since Obsidian doesn't index dot-folders
+ * Note: Uses adapter.list() since Obsidian doesn't index dot-folders.
+ * Components read the result through useSkills (contexts/skills-context),
+ * so the folders are read once per chat view rather than once per editor.
  */
-export function useSkills() {
+export function useLoadSkills() {
 	const app = useApp();
 	const [skills, setSkills] = useState<Skill[]>([]);
 	const [commands, setCommands] = useState<SlashCommand[]>([]);
@@ -73,6 +85,7 @@ export function useSkills() {
 
 						const { frontmatter, body } = parseFrontmatter(content);
 						let description = frontmatter.description || `Skill: ${name}`;
+						const argumentHint = frontmatter['argument-hint'];
 
 						// If no description in frontmatter, try first heading
 						if (!frontmatter.description) {
@@ -82,7 +95,13 @@ export function useSkills() {
 							}
 						}
 
-						loadedSkills.push({ name, description, path: filePath });
+						loadedSkills.push({
+							name,
+							description,
+							path: filePath,
+							argumentHint,
+							arguments: parseArgumentHint(argumentHint),
+						});
 					} catch (e) {
 						console.warn(`Failed to load skill from ${filePath}:`, e);
 					}
@@ -119,7 +138,13 @@ export function useSkills() {
 							}
 						}
 
-						loadedCommands.push({ name, description, path: filePath, argumentHint });
+						loadedCommands.push({
+							name,
+							description,
+							path: filePath,
+							argumentHint,
+							arguments: parseArgumentHint(argumentHint),
+						});
 					} catch (e) {
 						console.warn(`Failed to load command from ${filePath}:`, e);
 					}
@@ -5,7 +5,9 @@ import { ChatView } from './ChatView'
 import { ChatProps } from './components/chat-view/Chat'
 import { InstallerUpdateRequiredModal } from './components/modals/InstallerUpdateRequiredModal'
 import { APPLY_VIEW_TYPE, CHAT_VIEW_TYPE } from './constants'
+import { OutboxSender } from './core/backend/OutboxSender'
 import { McpManager } from './core/mcp/mcpManager'
+import { BackgroundIndexer } from './core/rag/backgroundIndexer'
 import { RAGEngine } from './core/rag/ragEngine'
 import { DatabaseManager } from './database/DatabaseManager'
 import { PGLiteAbortedException } from './database/exception'
@@ -24,9 +26,14 @@ import { initEditHistory } from './core/backend/EditHistory'
 import type { RpcRequestMessage } from './core/backend/protocol'
 import { StreamStateManager } from './core/backend/StreamStateManager'
 import { PendingSessionStore } from './core/backend/PendingSessionStore'
+import { JobRunStore } from './core/backend/JobRunStore'
 import { getClientId } from './core/backend/client-id'
 import { eventsToMessages } from './core/backend/session-recovery'
-import type { SessionReplayMessage } from './core/backend/protocol'
+import type {
+  SessionInfoMessage,
+  SessionReplayMessage,
+} from './core/backend/protocol'
+import { MemoryStore } from './core/memory/MemoryStore'
 import { ChatManager } from './database/json/chat/ChatManager'
 
 export default class SmartComposerPlugin extends Plugin {
@@ -36,24 +43,51 @@ export default class SmartComposerPlugin extends Plugin {
   mcpManager: McpManager | null = null
   dbManager: DatabaseManager | null = null
   ragEngine: RAGEngine | null = null
+  backgroundIndexer: BackgroundIndexer
   vaultRpcHandler: VaultRpcHandler | null = null
   conflictManager: ConflictManager | null = null
   streamStateManager: StreamStateManager = new StreamStateManager()
   pendingSessionStore: PendingSessionStore
+  outboxSender: OutboxSender
+  jobRunStore: JobRunStore
   clientId: string | null = null
   private dbManagerInitPromise: Promise<DatabaseManager> | null = null
   private ragEngineInitPromise: Promise<RAGEngine> | null = null
   private timeoutIds: ReturnType<typeof setTimeout>[] = [] // Use ReturnType instead of number
+  private lastProtocolWarning: string | null = null
 
   async onload() {
     await this.loadSettings()
 
     // Initialize backend components
     this.conflictManager = new ConflictManager(this.app)
-    this.vaultRpcHandler = new VaultRpcHandler(this.app)
+    this.vaultRpcHandler = new VaultRpcHandler(this.app, () =>
+      this.getRAGEngine(),
+    )
     this.pendingSessionStore = new PendingSessionStore(this.app)
+    this.outboxSender = new OutboxSender(
+      this.app,
+      this.pendingSessionStore,
+      () => this.settings,
+      () => this.getRAGEngine(),
+      () => this.getMcpManager(),
+    )
+    this.jobRunStore = new JobRunStore(this.app, webSocketClient)
     initEditHistory(this.app, 5) // Store up to 5 versions per file for revert
 
+    // Keep the vault index current as notes change
+    this.backgroundIndexer = new BackgroundIndexer(
+      this.app,
+      () => this.getRAGEngine(),
+      () => this.settings,
+    )
+    this.addSettingsChangeListener((settings) =>
+      this.backgroundIndexer.handleSettingsChange(settings),
+    )
+    this.app.workspace.onLayoutReady(() => {
+      void this.backgroundIndexer.start((ref) => this.registerEvent(ref))
+    })
+
     // Load client ID and pending sessions
     void this.initSessionPersistence()
 
@@ -84,8 +118,29 @@ export default class SmartComposerPlugin extends Plugin {
       }
     })
 
-    // Ensure .claude/memory.md exists for persistent memory
-    void this.initMemoryFile()
+    // Track scheduled job runs, and list sessions on every (re)connect so the
+    // backend knows this client serves the vault and can run its jobs
+    webSocketClient.on('session_info', (msg: unknown) => {
+      this.jobRunStore.handleSessionInfo(msg as SessionInfoMessage)
+    })
+    webSocketClient.on('connect', () => {
+      if (this.clientId) {
+        webSocketClient.listSessions(this.clientId)
+      }
+      // Send prompts queued while the backend was unreachable
+      void this.outboxSender.drain()
+    })
+
+    // Tell the user when the plugin and backend protocols don't match, once
+    // per problem rather than on every reconnect
+    webSocketClient.on('protocol_warning', (warning: unknown) => {
+      if (warning === this.lastProtocolWarning) return
+      this.lastProtocolWarning = warning as string
+      new Notice(warning as string, 15000)
+    })
+
+    // Move the single-file memory from older versions into entries
+    void this.migrateMemory()
 
     // Auto-connect to backend if configured
     void this.connectBackend()
@@ -119,8 +174,7 @@ export default class SmartComposerPlugin extends Plugin {
       callback: async () => {
         const notice = new Notice('Rebuilding vault index...', 0)
         try {
-          const ragEngine = await this.getRAGEngine()
-          await ragEngine.updateVaultIndex(
+          await this.backgroundIndexer.updateVaultIndex(
             { reindexAll: true },
             (queryProgress) => {
               if (queryProgress.type === 'indexing') {
@@ -154,8 +208,7 @@ export default class SmartComposerPlugin extends Plugin {
       callback: async () => {
         const notice = new Notice('Updating vault index...', 0)
         try {
-          const ragEngine = await this.getRAGEngine()
-          await ragEngine.updateVaultIndex(
+          await this.backgroundIndexer.updateVaultIndex(
             { reindexAll: false },
             (queryProgress) => {
               if (queryProgress.type === 'indexing') {
@@ -183,6 +236,40 @@ export default class SmartComposerPlugin extends Plugin {
       },
     })
 
+    this.addCommand({
+      id: 'update-cookbook-index',
+      name: 'Update cookbook index',
+      callback: async () => {
+        const notice = new Notice('Updating cookbook index...', 0)
+        try {
+          const ragEngine = await this.getRAGEngine()
+          await ragEngine.updateCookbookIndex((queryProgress) => {
+            if (queryProgress.type === 'indexing') {
+              const { completedChunks, totalChunks, totalFiles } =
+                queryProgress.indexProgress
+              notice.setMessage(
+                `Indexing ${totalFiles} cookbook(s): ${completedChunks} / ${totalChunks} chunks${
+                  queryProgress.indexProgress.waitingForRateLimit
+                    ? '\n(waiting for rate limit to reset)'
+                    : ''
+                }`,
+              )
+            }
+          })
+          notice.setMessage('Cookbook index updated')
+        } catch (error) {
+          console.error(error)
+          notice.setMessage(
+            `Cookbook index update failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          )
+        } finally {
+          this.registerTimeout(() => {
+            notice.hide()
+          }, 1000)
+        }
+      },
+    })
+
     // This adds a settings tab so the user can configure various aspects of the plugin
     this.addSettingTab(new SmartComposerSettingTab(this.app, this))
 
@@ -194,8 +281,12 @@ export default class SmartComposerPlugin extends Plugin {
     this.timeoutIds.forEach((id) => clearTimeout(id))
     this.timeoutIds = []
 
+    this.backgroundIndexer.stop()
+    this.outboxSender.stop()
+
     // Backend cleanup
     webSocketClient.disconnect()
+    this.vaultRpcHandler?.destroy()
     this.vaultRpcHandler = null
     this.conflictManager = null
 
@@ -344,6 +435,7 @@ ${validationResult.error.issues.map((v) => v.message).join('\n')}`)
             this.app,
             this.settings,
             dbManager.getVectorManager(),
+            this.backgroundIndexer,
           )
           return this.ragEngine
         } catch (error) {
@@ -414,6 +506,10 @@ ${validationResult.error.issues.map((v) => v.message).join('\n')}`)
     try {
       this.clientId = await getClientId(this.app)
       await this.pendingSessionStore.load()
+      if (webSocketClient.isConnected) {
+        webSocketClient.listSessions(this.clientId)
+        void this.outboxSender.drain()
+      }
       console.log(`[Claudsidian] Client ID: ${this.clientId}, pending sessions: ${this.pendingSessionStore.getAll().length}`)
     } catch (err) {
       console.error('[Claudsidian] Failed to init session persistence:', err)
@@ -427,6 +523,10 @@ ${validationResult.error.issues.map((v) => v.message).join('\n')}`)
    */
   private async resumePendingSessions() {
     if (!this.clientId) return
+    if (!webSocketClient.supports('session_replay')) {
+      console.log('[Claudsidian] Backend cannot replay sessions; not resuming')
+      return
+    }
 
     const pending = this.pendingSessionStore.getAll()
     if (pending.length === 0) return
@@ -434,10 +534,13 @@ ${validationResult.error.issues.map((v) => v.message).join('\n')}`)
     console.log(`[Claudsidian] Resuming ${pending.length} pending sessions`)
 
     const chatManager = new ChatManager(this.app)
+    const pendingIds = new Set(pending.map((session) => session.sessionId))
 
     // Listen for session_replay events
     const replayHandler = async (msg: unknown) => {
       const replay = msg as SessionReplayMessage
+      // Job runs opened from the chat list are replayed through the same event
+      if (!pendingIds.has(replay.sessionId)) return
 
       console.log(
         `[Claudsidian] Session replay: ${replay.sessionId} ` +
@@ -494,23 +597,18 @@ ${validationResult.error.issues.map((v) => v.message).join('\n')}`)
     }
   }
 
-  private async initMemoryFile() {
+  /**
+   * Split a .claude/memory.md from older versions into memory entries
+   */
+  private async migrateMemory() {
     try {
-      const adapter = this.app.vault.adapter
-      // Use adapter (filesystem) API since Obsidian doesn't index dotfiles
-      if (!(await adapter.exists('.claude'))) {
-        await adapter.mkdir('.claude')
-      }
-      if (!(await adapter.exists('.claude/memory.md'))) {
-        await adapter.write(
-          '.claude/memory.md',
-          `## User Preferences\n\n## Projects\n\n## Key Decisions\n\n## Conventions\n`,
-        )
-        console.log('[Claudsidian] Created .claude/memory.md')
+      const migrated = await new MemoryStore(this.app).migrateLegacyMemory()
+      if (migrated > 0) {
+        console.log(`[Claudsidian] Migrated .claude/memory.md into ${migrated} memory entries`)
       }
     } catch (error) {
-      // Non-critical — memory will be created when agent first writes to it
-      console.debug('[Claudsidian] Could not initialize memory file:', error)
+      // Non-critical — the old file stays in place and is retried next load
+      console.warn('[Claudsidian] Could not migrate .claude/memory.md:', error)
     }
   }
 
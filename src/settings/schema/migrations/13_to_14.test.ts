@@ -0,0 +1,45 @@
+import { migrateFrom13To14 } from './13_to_14'
+
+describe('Migration from v13 to v14', () => {
+  it('should increment version to 14', () => {
+    const oldSettings = {
+      version: 13,
+    }
+    const result = migrateFrom13To14(oldSettings)
+    expect(result.version).toBe(14)
+  })
+
+  it('should add toolApprovals defaulting every tool to ask', () => {
+    const oldSettings = {
+      version: 13,
+      externalResourceDir: 'cookbooks/',
+    }
+    const result = migrateFrom13To14(oldSettings)
+    expect(result).toEqual({
+      version: 14,
+      externalResourceDir: 'cookbooks/',
+      toolApprovals: {
+        vault_write: 'ask',
+        vault_rename: 'ask',
+        vault_delete: 'ask',
+      },
+    })
+  })
+
+  it('should keep existing toolApprovals', () => {
+    const oldSettings = {
+      version: 13,
+      toolApprovals: {
+        vault_write: 'allow',
+        vault_rename: 'ask',
+        vault_delete: 'deny',
+      },
+    }
+    const result = migrateFrom13To14(oldSettings)
+    expect(result.toolApprovals).toEqual({
+      vault_write: 'allow',
+      vault_rename: 'ask',
+      vault_delete: 'deny',
+    })
+  })
+})
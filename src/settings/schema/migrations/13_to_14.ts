@@ -0,0 +1,20 @@
+import { SettingMigration } from '../setting.types'
+
+/**
+ * Migration from version 13 to version 14
+ * - Add toolApprovals setting (approval policy for destructive vault tools)
+ */
+export const migrateFrom13To14: SettingMigration['migrate'] = (data) => {
+  const newData = { ...data }
+  newData.version = 14
+
+  if (!('toolApprovals' in newData)) {
+    newData.toolApprovals = {
+      vault_write: 'ask',
+      vault_rename: 'ask',
+      vault_delete: 'ask',
+    }
+  }
+
+  return newData
+}
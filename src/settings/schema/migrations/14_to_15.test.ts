@@ -0,0 +1,43 @@
+import { migrateFrom14To15 } from './14_to_15'
+
+describe('Migration from v14 to v15', () => {
+  it('should increment version to 15', () => {
+    const oldSettings = {
+      version: 14,
+    }
+    const result = migrateFrom14To15(oldSettings)
+    expect(result.version).toBe(15)
+  })
+
+  it('should convert the chunk size from characters to tokens', () => {
+    const oldSettings = {
+      version: 14,
+      ragOptions: {
+        chunkSize: 1000,
+        thresholdTokens: 8192,
+        limit: 10,
+      },
+    }
+    const result = migrateFrom14To15(oldSettings)
+    expect(result).toEqual({
+      version: 15,
+      ragOptions: {
+        chunkSize: 250,
+        thresholdTokens: 8192,
+        limit: 10,
+      },
+    })
+  })
+
+  it('should leave settings without a chunk size alone', () => {
+    const oldSettings = {
+      version: 14,
+      ragOptions: { limit: 10 },
+    }
+    const result = migrateFrom14To15(oldSettings)
+    expect(result).toEqual({
+      version: 15,
+      ragOptions: { limit: 10 },
+    })
+  })
+})
@@ -0,0 +1,30 @@
+import { SettingMigration } from '../setting.types'
+
+// Roughly how many characters of English text make one token
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Migration from version 14 to version 15
+ * - ragOptions.chunkSize is measured in tokens instead of characters
+ */
+export const migrateFrom14To15: SettingMigration['migrate'] = (data) => {
+  const newData = { ...data }
+  newData.version = 15
+
+  if (
+    typeof newData.ragOptions === 'object' &&
+    newData.ragOptions !== null &&
+    'chunkSize' in newData.ragOptions &&
+    typeof newData.ragOptions.chunkSize === 'number'
+  ) {
+    newData.ragOptions = {
+      ...newData.ragOptions,
+      chunkSize: Math.max(
+        1,
+        Math.round(newData.ragOptions.chunkSize / CHARS_PER_TOKEN),
+      ),
+    }
+  }
+
+  return newData
+}
@@ -15,14 +15,29 @@ import { llmProviderSchema } from '../../types/provider.types'
 import { SETTINGS_SCHEMA_VERSION } from './migrations'
 
 const ragOptionsSchema = z.object({
-  chunkSize: z.number().catch(1000),
+  chunkSize: z.number().catch(250),
   thresholdTokens: z.number().catch(8192),
   minSimilarity: z.number().catch(0.0),
   limit: z.number().catch(10),
   excludePatterns: z.array(z.string()).catch([]),
   includePatterns: z.array(z.string()).catch([]),
+  // Second stage over the nearest chunks (see core/rag/rerank.ts)
+  mmrEnabled: z.boolean().catch(false),
+  mmrLambda: z.number().catch(0.7),
+  reranker: z.enum(['none', 'chat-model', 'endpoint']).catch('none'),
+  rerankModelId: z.string().catch(''),
+  rerankEndpoint: z.string().catch(''),
+  // Sent as a bearer token when set, for hosted endpoints
+  rerankApiKey: z.string().catch(''),
+  // Query planning before the search (see core/rag/queryPlanner.ts)
+  queryRewriting: z.boolean().catch(false),
+  queryExpansion: z.enum(['none', 'sub-queries', 'hyde']).catch('none'),
+  // Empty for the chat model in use
+  queryPlanModelId: z.string().catch(''),
 })
 
+const toolApprovalPolicySchema = z.enum(['allow', 'ask', 'deny'])
+
 /**
  * Settings
  */
@@ -58,12 +73,21 @@ export const smartComposerSettingsSchema = z.object({
 
   // RAG Options
   ragOptions: ragOptionsSchema.catch({
-    chunkSize: 1000,
+    chunkSize: 250,
     thresholdTokens: 8192,
     minSimilarity: 0.0,
     limit: 10,
     excludePatterns: [],
     includePatterns: [],
+    mmrEnabled: false,
+    mmrLambda: 0.7,
+    reranker: 'none',
+    rerankModelId: '',
+    rerankEndpoint: '',
+    rerankApiKey: '',
+    queryRewriting: false,
+    queryExpansion: 'none',
+    queryPlanModelId: '',
   }),
 
   // MCP configuration
@@ -90,6 +114,19 @@ export const smartComposerSettingsSchema = z.object({
       enableTools: true,
       maxAutoIterations: 1,
     }),
+
+  // Approval policy for destructive vault tools (backend agent)
+  toolApprovals: z
+    .object({
+      vault_write: toolApprovalPolicySchema.catch('ask'),
+      vault_rename: toolApprovalPolicySchema.catch('ask'),
+      vault_delete: toolApprovalPolicySchema.catch('ask'),
+    })
+    .catch({
+      vault_write: 'ask',
+      vault_rename: 'ask',
+      vault_delete: 'ask',
+    }),
 })
 export type SmartComposerSettings = z.infer<typeof smartComposerSettingsSchema>
 
@@ -27,23 +27,40 @@ describe('parseSmartComposerSettings', () => {
       systemPrompt: '',
 
       ragOptions: {
-        chunkSize: 1000,
+        chunkSize: 250,
         thresholdTokens: 8192,
         minSimilarity: 0.0,
         limit: 10,
         excludePatterns: [],
         includePatterns: [],
+        mmrEnabled: false,
+        mmrLambda: 0.7,
+        reranker: 'none',
+        rerankModelId: '',
+        rerankEndpoint: '',
+        rerankApiKey: '',
+        queryRewriting: false,
+        queryExpansion: 'none',
+        queryPlanModelId: '',
       },
 
       mcp: {
         servers: [],
       },
 
+      externalResourceDir: '',
+
       chatOptions: {
         includeCurrentFileContent: true,
         enableTools: true,
         maxAutoIterations: 1,
       },
+
+      toolApprovals: {
+        vault_write: 'ask',
+        vault_rename: 'ask',
+        vault_delete: 'ask',
+      },
     })
   })
 })
@@ -1,9 +1,10 @@
 import { SerializedEditorState } from 'lexical'
 
+import { MetadataFilter } from '../core/rag/metadataFilter'
 import { SelectEmbedding } from '../database/schema'
 
 import { ChatModel } from './chat-model.types'
-import { ContentPart } from './llm/request'
+import { ContentPart, ToolMode } from './llm/request'
 import { Annotation, ResponseUsage } from './llm/response'
 import { Mentionable, SerializedMentionable } from './mentionable'
 import { ToolCallRequest, ToolCallResponse } from './tool-call.types'
@@ -14,21 +15,34 @@ import { ToolCallRequest, ToolCallResponse } from './tool-call.types'
 export type ActivityType =
   | 'thinking'
   | 'vault_read'
+  | 'vault_read_binary'
   | 'vault_write'
   | 'vault_edit'
   | 'vault_search'
+  | 'vault_semantic_search'
   | 'vault_grep'
   | 'vault_glob'
   | 'vault_list'
   | 'vault_rename'
   | 'vault_delete'
+  | 'vault_get_properties'
+  | 'vault_set_properties'
+  | 'vault_backlinks'
+  | 'vault_outlinks'
+  | 'vault_neighbors'
+  | 'memory_add'
+  | 'memory_search'
+  | 'memory_forget'
   | 'web_search'
   | 'search_cookbooks'
   | 'list_cookbook_sources'
+  | 'delegate_task'
   | 'tool_call' // Generic fallback for unknown tools
 
 export type ActivityStatus = 'running' | 'complete' | 'error'
 
+export type ActivityApprovalStatus = 'pending' | 'approved' | 'denied'
+
 /**
  * Represents a single activity event (tool call, thinking, etc.)
  */
@@ -56,9 +70,20 @@ export interface ActivityEvent {
     oldContent?: string
     newContent?: string
   }
+  // Note text of a write/edit whose input is still streaming in
+  streamingContent?: string
   // Search results
   resultCount?: number
   results?: string[] // File paths or search results
+  // Human-in-the-loop approval for destructive tools
+  approval?: {
+    id: string
+    status: ActivityApprovalStatus
+    reason?: string
+  }
+  // Set on tool calls of a sub-agent: the delegate_task activity that
+  // started it. These aren't listed in content blocks.
+  parentActivityId?: string
 }
 
 /**
@@ -71,6 +96,15 @@ export type ContentBlock =
   | { type: 'activity_group'; activityIds: string[] }
   | { type: 'reasoning'; text: string }
 
+/**
+ * A backend agent turn that a conversation branch can start from: the
+ * conversation (branch) the turn ran in and the checkpoint it reported
+ */
+export type ForkPoint = {
+  conversationId: string
+  checkpoint: string
+}
+
 export type ChatUserMessage = {
   role: 'user'
   content: SerializedEditorState | null
@@ -79,9 +113,19 @@ export type ChatUserMessage = {
   mentionables: Mentionable[]
   similaritySearchResults?: (Omit<SelectEmbedding, 'embedding'> & {
     similarity: number
+    rerankScore?: number
   })[]
   /** True when this message was injected mid-turn as an aside, not a fresh prompt. */
   isAside?: boolean
+  /** Tool mode picked in the input for this message (backend agent only) */
+  toolMode?: ToolMode
+  /** Metadata filters for the vault search of this message */
+  ragFilters?: MetadataFilter[]
+  /**
+   * Written while the backend was unreachable and not sent yet. Queued
+   * messages are always the last ones in a conversation.
+   */
+  queued?: boolean
 }
 export type ChatAssistantMessage = {
   role: 'assistant'
@@ -95,6 +139,7 @@ export type ChatAssistantMessage = {
   metadata?: {
     usage?: ResponseUsage
     model?: ChatModel // TODO: migrate legacy data to new model type
+    checkpoint?: ForkPoint // Backend agent only: fork point after this turn
   }
 }
 export type ChatToolMessage = {
@@ -124,8 +169,12 @@ export type SerializedChatUserMessage = {
   mentionables: SerializedMentionable[]
   similaritySearchResults?: (Omit<SelectEmbedding, 'embedding'> & {
     similarity: number
+    rerankScore?: number
   })[]
   isAside?: boolean
+  toolMode?: ToolMode
+  ragFilters?: MetadataFilter[]
+  queued?: boolean
 }
 export type SerializedChatAssistantMessage = {
   role: 'assistant'
@@ -139,6 +188,7 @@ export type SerializedChatAssistantMessage = {
   metadata?: {
     usage?: ResponseUsage
     model?: ChatModel // TODO: migrate legacy data to new model type
+    checkpoint?: ForkPoint // Backend agent only: fork point after this turn
   }
 }
 export type SerializedChatToolMessage = {
@@ -154,6 +204,19 @@ export type SerializedChatMessage =
   | SerializedChatAssistantMessage
   | SerializedChatToolMessage
 
+/**
+ * One version of a conversation. Editing and resending an earlier message
+ * starts a new branch; the old one is kept so the user can switch back.
+ */
+export type ChatBranch = {
+  id: string // Also the conversation ID the backend agent resumes
+  messages: ChatMessage[] // Not kept up to date for the branch on screen
+}
+export type SerializedChatBranch = {
+  id: string
+  messages?: SerializedChatMessage[] // Omitted for the active branch
+}
+
 export type ChatConversation = {
   schemaVersion: number
   id: string
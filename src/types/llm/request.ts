@@ -81,6 +81,9 @@ export type RequestMessage =
   | RequestAssistantMessage
   | RequestToolMessage
 
+/** How much a backend agent turn may change the vault */
+export type ToolMode = 'read-only' | 'edit' | 'full'
+
 export type LLMOptions = {
   signal?: AbortSignal
   /** Client workspace ID for session persistence (backend provider only) */
@@ -89,6 +92,19 @@ export type LLMOptions = {
   conversationId?: string
   /** Called when the server creates a session for this request */
   onSessionCreated?: (sessionId: string) => void
+  /** Approval policy per destructive vault tool (backend provider only) */
+  toolPolicies?: Record<string, 'allow' | 'ask' | 'deny'>
+  /** Per-prompt tool mode and allow/deny lists (backend provider only) */
+  toolAccess?: {
+    mode?: ToolMode
+    allowedTools?: string[]
+    disallowedTools?: string[]
+  }
+  /** Start conversationId as a branch of this checkpoint (backend provider only) */
+  forkFrom?: {
+    conversationId: string
+    checkpoint: string
+  }
 }
 
 export type RequestTool = {
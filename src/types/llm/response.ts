@@ -9,6 +9,8 @@ export type LLMResponseBase = {
   model: string
   system_fingerprint?: string
   usage?: ResponseUsage
+  // Backend agent: resume point after this response, for conversation forking
+  checkpoint?: string
 }
 
 export type LLMResponseNonStreaming = LLMResponseBase & {
@@ -27,6 +29,9 @@ export type ResponseUsage = {
   prompt_tokens: number
   completion_tokens: number
   total_tokens: number
+  // Portions of prompt_tokens written to / read from the prompt cache (Anthropic)
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
 }
 
 type NonStreamingChoice = {
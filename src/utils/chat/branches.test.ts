@@ -0,0 +1,73 @@
+import { ChatAssistantMessage, ChatMessage } from '../../types/chat'
+
+import { addBranch, findForkPoint } from './branches'
+
+const userMessage = (id: string): ChatMessage => ({
+  role: 'user',
+  content: null,
+  promptContent: id,
+  id,
+  mentionables: [],
+})
+
+const assistantMessage = (
+  id: string,
+  checkpoint?: string,
+): ChatAssistantMessage => ({
+  role: 'assistant',
+  content: id,
+  id,
+  metadata: checkpoint
+    ? { checkpoint: { conversationId: 'conv', checkpoint } }
+    : undefined,
+})
+
+describe('findForkPoint', () => {
+  it('should start fresh when editing the first message', () => {
+    expect(findForkPoint([])).toBeUndefined()
+  })
+
+  it('should fork from the last turn that reported a checkpoint', () => {
+    const history = [
+      userMessage('u1'),
+      assistantMessage('a1', 'cp1'),
+      userMessage('u2'),
+      assistantMessage('a2', 'cp2'),
+      userMessage('u3'),
+      assistantMessage('a3'),
+    ]
+    expect(findForkPoint(history)).toEqual({
+      conversationId: 'conv',
+      checkpoint: 'cp2',
+    })
+  })
+
+  it('should start fresh when no turn has a checkpoint', () => {
+    expect(
+      findForkPoint([userMessage('u1'), assistantMessage('a1')]),
+    ).toBeUndefined()
+  })
+})
+
+describe('addBranch', () => {
+  it('should keep the original conversation as the first branch', () => {
+    const messages = [userMessage('u1'), assistantMessage('a1')]
+    expect(addBranch([], 'conv', messages, 'b1')).toEqual([
+      { id: 'conv', messages },
+      { id: 'b1', messages: [] },
+    ])
+  })
+
+  it('should save the active branch and append the new one', () => {
+    const branches = [
+      { id: 'conv', messages: [userMessage('u1')] },
+      { id: 'b1', messages: [] },
+    ]
+    const messages = [userMessage('u1-edited')]
+    expect(addBranch(branches, 'b1', messages, 'b2')).toEqual([
+      { id: 'conv', messages: [userMessage('u1')] },
+      { id: 'b1', messages },
+      { id: 'b2', messages: [] },
+    ])
+  })
+})
@@ -0,0 +1,51 @@
+import { ChatBranch, ChatMessage, ForkPoint } from '../../types/chat'
+
+/**
+ * Where a branch that resends a message after `history` forks from: the
+ * checkpoint of the last backend turn in it. Undefined when the branch has
+ * to start a fresh agent session — when editing the first message, or when
+ * no turn reported a checkpoint (other providers, older conversations).
+ */
+export function findForkPoint(history: ChatMessage[]): ForkPoint | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i]
+    if (message.role === 'assistant' && message.metadata?.checkpoint) {
+      return message.metadata.checkpoint
+    }
+  }
+  return undefined
+}
+
+/**
+ * Store the on-screen messages into the active branch
+ */
+export function saveActiveBranch(
+  branches: ChatBranch[],
+  activeBranchId: string,
+  activeMessages: ChatMessage[],
+): ChatBranch[] {
+  return branches.map((branch) =>
+    branch.id === activeBranchId
+      ? { ...branch, messages: activeMessages }
+      : branch,
+  )
+}
+
+/**
+ * Append a new, empty branch. The first fork also records the original
+ * conversation as a branch under its existing ID, so its backend session
+ * can still be resumed when the user switches back.
+ */
+export function addBranch(
+  branches: ChatBranch[],
+  activeBranchId: string,
+  activeMessages: ChatMessage[],
+  newBranchId: string,
+): ChatBranch[] {
+  const existing =
+    branches.length > 0 ? branches : [{ id: activeBranchId, messages: [] }]
+  return [
+    ...saveActiveBranch(existing, activeBranchId, activeMessages),
+    { id: newBranchId, messages: [] },
+  ]
+}
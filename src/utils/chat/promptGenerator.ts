@@ -1,7 +1,15 @@
-import { App, TFile, htmlToMarkdown, requestUrl } from 'obsidian'
+import { App, Notice, TFile, htmlToMarkdown, requestUrl } from 'obsidian'
 
 import { editorStateToPlainText } from '../../components/chat-view/chat-input/utils/editor-state-to-plain-text'
 import { QueryProgressState } from '../../components/chat-view/QueryProgress'
+import { getChatModelClient } from '../../core/llm/manager'
+import { MemoryStore } from '../../core/memory/MemoryStore'
+import {
+  PlanningTurn,
+  QueryPlan,
+  buildQueryPlanMessages,
+  parseQueryPlan,
+} from '../../core/rag/queryPlanner'
 import { RAGEngine } from '../../core/rag/ragEngine'
 import { SelectEmbedding } from '../../database/schema'
 import { SmartComposerSettings } from '../../settings/schema/setting.types'
@@ -36,6 +44,8 @@ export class PromptGenerator {
   private app: App
   private settings: SmartComposerSettings
   private MAX_CONTEXT_MESSAGES = 20
+  // Earlier messages shown to the query planner
+  private MAX_PLANNING_MESSAGES = 6
 
   constructor(
     getRagEngine: () => Promise<RAGEngine>,
@@ -100,7 +110,11 @@ export class PromptGenerator {
         ? await this.getCurrentFileMessage(currentFile)
         : undefined
 
-    const memoryMessage = await this.getMemoryMessage()
+    const memoryMessage = await this.getMemoryMessage(
+      lastUserMessage.content
+        ? editorStateToPlainText(lastUserMessage.content)
+        : '',
+    )
 
     const chatHistoryMessages = this.getChatHistoryMessages({
       messages: compiledMessages,
@@ -290,10 +304,13 @@ ${message.annotations
 
   public async compileUserMessagePrompt({
     message,
+    chatHistory = [],
     useVaultSearch,
     onQueryProgressChange,
   }: {
     message: ChatUserMessage
+    // Messages before `message`, used to rewrite follow-ups into a standalone search query
+    chatHistory?: ChatMessage[]
     useVaultSearch?: boolean
     onQueryProgressChange?: (queryProgress: QueryProgressState) => void
   }): Promise<{
@@ -301,6 +318,7 @@ ${message.annotations
     shouldUseRAG: boolean
     similaritySearchResults?: (Omit<SelectEmbedding, 'embedding'> & {
       similarity: number
+      rerankScore?: number
     })[]
   }> {
     try {
@@ -404,21 +422,30 @@ ${message.annotations
 
       let filePrompt: string
       if (shouldUseRAG) {
+        const plan = await this.planQuery({
+          query,
+          chatHistory,
+          onQueryProgressChange,
+        })
         similaritySearchResults = useVaultSearch
           ? await (
               await this.getRagEngine()
             ).processQuery({
-              query,
+              query: plan.query,
+              expansions: plan.expansions,
+              filters: message.ragFilters,
               onQueryProgressChange: onQueryProgressChange,
             }) // TODO: Add similarity boosting for mentioned files or folders
           : await (
               await this.getRagEngine()
             ).processQuery({
-              query,
+              query: plan.query,
+              expansions: plan.expansions,
               scope: {
                 files: files.map((f) => f.path),
                 folders: folders.map((f) => f.path),
               },
+              filters: message.ragFilters,
               onQueryProgressChange: onQueryProgressChange,
             })
         filePrompt = `## Potentially Relevant Snippets from the current vault
@@ -597,22 +624,29 @@ ${customInstruction}
     }
   }
 
-  private async getMemoryMessage(): Promise<RequestMessage | null> {
+  /**
+   * Memory entries relevant to the prompt, rather than the whole store —
+   * the backend agent can look up the rest with memory_search.
+   */
+  private async getMemoryMessage(
+    prompt: string,
+  ): Promise<RequestMessage | null> {
     try {
-      // Use adapter API since Obsidian doesn't index dotfiles
-      const adapter = this.app.vault.adapter
-      if (!(await adapter.exists('.claude/memory.md'))) {
-        return null
-      }
-      const content = await adapter.read('.claude/memory.md')
-      if (!content?.trim()) {
+      const entries = await new MemoryStore(this.app).findRelevant(prompt)
+      if (entries.length === 0) {
         return null
       }
+      const lines = entries.map(
+        (entry) =>
+          `- ${entry.content.replace(/\n+/g, ' ')} (id: ${entry.id}${
+            entry.tags.length > 0 ? `, tags: ${entry.tags.join(', ')}` : ''
+          })`,
+      )
       return {
         role: 'user',
-        content: `Here is persistent memory from past conversations. Use it for context continuity — there's no need to explicitly acknowledge it:
+        content: `Here are memories from past conversations that may be relevant. Use them for context continuity — there's no need to explicitly acknowledge them:
 <persistent_memory>
-${content}
+${lines.join('\n')}
 </persistent_memory>`,
       }
     } catch {
@@ -620,6 +654,79 @@ ${content}
     }
   }
 
+  /**
+   * Rewrite the query for a vault search (see core/rag/queryPlanner.ts). The
+   * original query is used as is when planning is off, or when it fails.
+   */
+  private async planQuery({
+    query,
+    chatHistory,
+    onQueryProgressChange,
+  }: {
+    query: string
+    chatHistory: ChatMessage[]
+    onQueryProgressChange?: (queryProgress: QueryProgressState) => void
+  }): Promise<QueryPlan> {
+    const { queryRewriting, queryExpansion, queryPlanModelId } =
+      this.settings.ragOptions
+    const history = queryRewriting ? this.getPlanningHistory(chatHistory) : []
+    if (history.length === 0 && queryExpansion === 'none') {
+      return { query, expansions: [] }
+    }
+    const modelId = queryPlanModelId || this.settings.chatModelId
+    // The backend agent would run a whole agent turn for every search
+    if (
+      this.settings.chatModels.find((model) => model.id === modelId)
+        ?.providerType === 'backend'
+    ) {
+      return { query, expansions: [] }
+    }
+
+    onQueryProgressChange?.({
+      type: 'planning-query',
+    })
+    try {
+      const { providerClient, model } = getChatModelClient({
+        settings: this.settings,
+        modelId,
+      })
+      const response = await providerClient.generateResponse(model, {
+        model: model.model,
+        messages: buildQueryPlanMessages(query, history, queryExpansion),
+        stream: false,
+      })
+      return parseQueryPlan(response.choices[0]?.message.content ?? '', query)
+    } catch (error) {
+      console.warn('[PromptGenerator] Query planning failed:', error)
+      new Notice(
+        `Rewriting the search query failed, so your message is searched as written. ${error instanceof Error ? error.message : ''}`,
+      )
+      return { query, expansions: [] }
+    }
+  }
+
+  private getPlanningHistory(chatHistory: ChatMessage[]): PlanningTurn[] {
+    return chatHistory
+      .flatMap((message): PlanningTurn[] => {
+        if (message.role === 'user') {
+          return message.content
+            ? [
+                {
+                  role: 'user',
+                  content: editorStateToPlainText(message.content),
+                },
+              ]
+            : []
+        }
+        if (message.role === 'assistant' && message.content) {
+          return [{ role: 'assistant', content: message.content }]
+        }
+        return []
+      })
+      .filter(({ content }) => content.trim() !== '')
+      .slice(-this.MAX_PLANNING_MESSAGES)
+  }
+
   private static readonly TEXT_EXTENSIONS = new Set([
     'md', 'txt', 'markdown', 'csv', 'json', 'yaml', 'yml', 'xml', 'html',
     'htm', 'css', 'js', 'ts', 'jsx', 'tsx', 'py', 'rb', 'java', 'c', 'cpp',
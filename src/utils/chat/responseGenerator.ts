@@ -2,9 +2,15 @@ import { v4 as uuidv4 } from 'uuid'
 
 import { BaseLLMProvider } from '../../core/llm/base'
 import { McpManager } from '../../core/mcp/mcpManager'
-import { ActivityEvent, ChatMessage, ChatToolMessage, ContentBlock } from '../../types/chat'
+import {
+  ActivityEvent,
+  ChatMessage,
+  ChatToolMessage,
+  ContentBlock,
+  ForkPoint,
+} from '../../types/chat'
 import { ChatModel } from '../../types/chat-model.types'
-import { RequestTool } from '../../types/llm/request'
+import { LLMOptions, RequestTool } from '../../types/llm/request'
 import {
   Annotation,
   LLMResponseStreaming,
@@ -33,6 +39,14 @@ export type ResponseGeneratorParams = {
   clientId?: string
   /** Called when the server creates a session for this request */
   onSessionCreated?: (sessionId: string) => void
+  /** Approval policy for destructive vault tools (backend provider only) */
+  toolPolicies?: LLMOptions['toolPolicies']
+  /** Tool mode and allow/deny lists for this turn (backend provider only) */
+  toolAccess?: LLMOptions['toolAccess']
+  /** Conversation the backend agent resumes, if not conversationId (the active branch) */
+  backendConversationId?: string
+  /** Start a new branch from this point (backend provider only) */
+  forkFrom?: ForkPoint
 }
 
 export class ResponseGenerator {
@@ -47,6 +61,10 @@ export class ResponseGenerator {
   private readonly maxAutoIterations: number
   private readonly clientId?: string
   private readonly onSessionCreated?: (sessionId: string) => void
+  private readonly toolPolicies?: LLMOptions['toolPolicies']
+  private readonly toolAccess?: LLMOptions['toolAccess']
+  private readonly backendConversationId: string
+  private forkFrom?: ForkPoint
 
   private responseMessages: ChatMessage[] = [] // Response messages that are generated after the initial messages
   private subscribers: ((messages: ChatMessage[]) => void)[] = []
@@ -63,6 +81,11 @@ export class ResponseGenerator {
     this.abortSignal = params.abortSignal
     this.clientId = params.clientId
     this.onSessionCreated = params.onSessionCreated
+    this.toolPolicies = params.toolPolicies
+    this.toolAccess = params.toolAccess
+    this.backendConversationId =
+      params.backendConversationId ?? params.conversationId
+    this.forkFrom = params.forkFrom
   }
 
   public subscribe(callback: (messages: ChatMessage[]) => void) {
@@ -188,10 +211,15 @@ export class ResponseGenerator {
       {
         signal: this.abortSignal,
         clientId: this.clientId,
-        conversationId: this.conversationId,
+        conversationId: this.backendConversationId,
         onSessionCreated: this.onSessionCreated,
+        toolPolicies: this.toolPolicies,
+        toolAccess: this.toolAccess,
+        forkFrom: this.forkFrom,
       },
     )
+    // Only the branch's first request forks; later ones resume the branch
+    this.forkFrom = undefined
 
     // Create a new assistant message for the response if it doesn't exist
     if (this.responseMessages.at(-1)?.role !== 'assistant') {
@@ -314,6 +342,13 @@ export class ResponseGenerator {
               metadata: {
                 ...message.metadata,
                 usage: chunk.usage ?? message.metadata?.usage,
+                model: this.reportedModel(chunk) ?? message.metadata?.model,
+                checkpoint: chunk.checkpoint
+                  ? {
+                      conversationId: this.backendConversationId,
+                      checkpoint: chunk.checkpoint,
+                    }
+                  : message.metadata?.checkpoint,
               },
             }
           : message,
@@ -325,6 +360,22 @@ export class ResponseGenerator {
     }
   }
 
+  /**
+   * The backend reports which model actually ran alongside its usage (the
+   * 'backend-agent' model defers to the server default). Record that model so
+   * the usage can be priced.
+   */
+  private reportedModel(chunk: LLMResponseStreaming): ChatModel | undefined {
+    if (
+      this.model.providerType !== 'backend' ||
+      !chunk.usage ||
+      chunk.model === 'backend'
+    ) {
+      return undefined
+    }
+    return { ...this.model, model: chunk.model }
+  }
+
   private updateResponseMessages(
     updaterFunction: (messages: ChatMessage[]) => ChatMessage[],
   ) {
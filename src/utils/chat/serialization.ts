@@ -0,0 +1,84 @@
+import { App } from 'obsidian'
+
+import { ChatMessage, SerializedChatMessage } from '../../types/chat'
+import { Mentionable } from '../../types/mentionable'
+
+import { deserializeMentionable, serializeMentionable } from './mentionable'
+
+export const serializeChatMessage = (
+  message: ChatMessage,
+): SerializedChatMessage => {
+  switch (message.role) {
+    case 'user':
+      return {
+        role: 'user',
+        content: message.content,
+        promptContent: message.promptContent,
+        id: message.id,
+        mentionables: message.mentionables.map(serializeMentionable),
+        similaritySearchResults: message.similaritySearchResults,
+        toolMode: message.toolMode,
+        ragFilters: message.ragFilters,
+        queued: message.queued,
+      }
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        contentBlocks: message.contentBlocks,
+        reasoning: message.reasoning,
+        annotations: message.annotations,
+        toolCallRequests: message.toolCallRequests,
+        activities: message.activities,
+        id: message.id,
+        metadata: message.metadata,
+      }
+    case 'tool':
+      return {
+        role: 'tool',
+        toolCalls: message.toolCalls,
+        id: message.id,
+      }
+  }
+}
+
+export const deserializeChatMessage = (
+  message: SerializedChatMessage,
+  app: App,
+): ChatMessage => {
+  switch (message.role) {
+    case 'user': {
+      return {
+        role: 'user',
+        content: message.content,
+        promptContent: message.promptContent,
+        id: message.id,
+        mentionables: message.mentionables
+          .map((m) => deserializeMentionable(m, app))
+          .filter((m): m is Mentionable => m !== null),
+        similaritySearchResults: message.similaritySearchResults,
+        toolMode: message.toolMode,
+        ragFilters: message.ragFilters,
+        queued: message.queued,
+      }
+    }
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        contentBlocks: message.contentBlocks,
+        reasoning: message.reasoning,
+        annotations: message.annotations,
+        toolCallRequests: message.toolCallRequests,
+        activities: message.activities,
+        id: message.id,
+        metadata: message.metadata,
+      }
+    case 'tool':
+      return {
+        role: 'tool',
+        toolCalls: message.toolCalls,
+        id: message.id,
+      }
+  }
+}
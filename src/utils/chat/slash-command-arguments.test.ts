@@ -0,0 +1,100 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+import {
+  SlashCommandArgument,
+  parseArgumentHint,
+  parseSlashInvocation,
+  splitArguments,
+  validateArguments,
+} from './slash-command-arguments'
+
+// Shared with the backend, which runs them with npm run test:argument-hints
+const argumentHintCases = JSON.parse(
+  readFileSync(
+    join(__dirname, '../../../backend/test/argument-hint-cases.json'),
+    'utf8',
+  ),
+) as (
+  | { hint: string; arguments: SlashCommandArgument[] }
+  | { hint: string; error: string }
+)[]
+
+describe('parseArgumentHint', () => {
+  it('should read required, optional and typed arguments', () => {
+    expect(
+      parseArgumentHint('<week:number> [focus] [dry-run:boolean]'),
+    ).toEqual([
+      { name: 'week', type: 'number', required: true },
+      { name: 'focus', type: 'string', required: false },
+      { name: 'dry-run', type: 'boolean', required: false },
+    ])
+  })
+
+  it('should declare nothing for free-form hints', () => {
+    expect(parseArgumentHint('add a topic or leave empty')).toEqual([])
+    expect(parseArgumentHint(undefined)).toEqual([])
+  })
+
+  it.each(argumentHintCases)('should parse "$hint" like the backend', (c) => {
+    if ('error' in c) {
+      expect(() => parseArgumentHint(c.hint)).toThrow(c.error)
+    } else {
+      expect(parseArgumentHint(c.hint)).toEqual(c.arguments)
+    }
+  })
+})
+
+describe('parseSlashInvocation', () => {
+  it('should split the name from the arguments', () => {
+    expect(parseSlashInvocation('/weekly-review 42 health goals')).toEqual({
+      name: 'weekly-review',
+      rawArguments: '42 health goals',
+    })
+    expect(parseSlashInvocation('  /summarize')).toEqual({
+      name: 'summarize',
+      rawArguments: '',
+    })
+  })
+
+  it('should ignore messages that are not invocations', () => {
+    expect(parseSlashInvocation('Run /weekly-review')).toBeNull()
+    expect(parseSlashInvocation('/path/to/note.md')).toBeNull()
+  })
+})
+
+describe('splitArguments', () => {
+  it('should give the last argument the rest of the line', () => {
+    expect(splitArguments('42 health and sleep', 2)).toEqual([
+      '42',
+      'health and sleep',
+    ])
+  })
+
+  it('should honor quotes', () => {
+    expect(splitArguments('"Project X" 3 notes', 3)).toEqual([
+      'Project X',
+      '3',
+      'notes',
+    ])
+  })
+})
+
+describe('validateArguments', () => {
+  const args = parseArgumentHint('<week:number> [focus] [dry-run:boolean]')
+
+  it('should accept valid arguments', () => {
+    expect(validateArguments(args, '42')).toBeNull()
+    expect(validateArguments(args, '42 sleep yes')).toBeNull()
+  })
+
+  it('should report missing and mistyped arguments', () => {
+    expect(validateArguments(args, '')).toBe('Missing required argument <week>')
+    expect(validateArguments(args, 'last health')).toBe(
+      '<week> must be a number, got "last"',
+    )
+    expect(validateArguments(args, '42 sleep maybe')).toBe(
+      '<dry-run> must be true or false, got "maybe"',
+    )
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Arguments of skills and slash commands, declared by their `argument-hint`
+ * frontmatter: `<name>` is required, `[name]` optional, and `:number` or
+ * `:boolean` types the argument (default string), e.g.
+ *
+ *   argument-hint: <week:number> [focus]
+ *
+ * The backend parses the same syntax to build each skill's tool schema, and
+ * both are checked against backend/test/argument-hint-cases.json. Hints
+ * without <> or [] placeholders are free-form and declare nothing.
+ */
+
+export type SlashCommandArgumentType = 'string' | 'number' | 'boolean'
+
+export type SlashCommandArgument = {
+  name: string
+  type: SlashCommandArgumentType
+  required: boolean
+}
+
+const ARGUMENT_TYPES: SlashCommandArgumentType[] = [
+  'string',
+  'number',
+  'boolean',
+]
+
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no']
+
+/** Throws on a hint the backend would reject, so the skill is skipped on both sides */
+export function parseArgumentHint(
+  hint: string | undefined,
+): SlashCommandArgument[] {
+  if (!hint) return []
+
+  const args: SlashCommandArgument[] = []
+  for (const match of hint.matchAll(/<([^<>]+)>|\[([^[\]]+)\]/g)) {
+    const [name, type = 'string'] = (match[1] ?? match[2])
+      .split(':')
+      .map((part) => part.trim())
+    if (!/^[\w-]+$/.test(name)) {
+      throw new Error(`Invalid argument name "${name}" in argument-hint`)
+    }
+    if (!ARGUMENT_TYPES.includes(type as SlashCommandArgumentType)) {
+      throw new Error(
+        `Unknown type "${type}" for argument "${name}" (expected ${ARGUMENT_TYPES.join(', ')})`,
+      )
+    }
+    args.push({
+      name,
+      type: type as SlashCommandArgumentType,
+      required: match[1] !== undefined,
+    })
+  }
+  return args
+}
+
+/** `/name rest of the line` at the start of a message, or null */
+export function parseSlashInvocation(
+  text: string,
+): { name: string; rawArguments: string } | null {
+  const match = text.trimStart().match(/^\/([^\s/]+)(?:\s+([\s\S]*))?$/)
+  if (!match) return null
+  return { name: match[1], rawArguments: (match[2] ?? '').trim() }
+}
+
+/**
+ * Split raw input into at most `count` values. Values are separated by
+ * whitespace and may be "quoted"; the last one takes the rest of the line,
+ * so a trailing free-text argument needs no quotes.
+ */
+export function splitArguments(raw: string, count: number): string[] {
+  const values: string[] = []
+  let rest = raw.trim()
+  while (rest && values.length < count - 1) {
+    const match = rest.match(/^"([^"]*)"\s*|^(\S+)\s*/)
+    if (!match) break
+    values.push(match[1] ?? match[2])
+    rest = rest.slice(match[0].length)
+  }
+  if (rest && count > 0) {
+    values.push(rest.replace(/^"([^"]*)"$/, '$1'))
+  }
+  return values
+}
+
+/** A message describing the first invalid argument, or null if all are valid */
+export function validateArguments(
+  args: SlashCommandArgument[],
+  rawArguments: string,
+): string | null {
+  const values = splitArguments(rawArguments, args.length)
+  for (const [index, arg] of args.entries()) {
+    const value = values[index]
+    if (value === undefined) {
+      if (arg.required) return `Missing required argument <${arg.name}>`
+      continue
+    }
+    if (arg.type === 'number' && !Number.isFinite(Number(value))) {
+      return `<${arg.name}> must be a number, got "${value}"`
+    }
+    if (
+      arg.type === 'boolean' &&
+      !BOOLEAN_VALUES.includes(value.toLowerCase())
+    ) {
+      return `<${arg.name}> must be true or false, got "${value}"`
+    }
+  }
+  return null
+}
@@ -0,0 +1,46 @@
+import { ChatModel } from '../../types/chat-model.types'
+
+import { calculateLLMCost } from './price-calculator'
+
+const backendModel = (model: string): ChatModel => ({
+  providerType: 'backend',
+  providerId: 'backend',
+  id: 'backend-agent',
+  model,
+})
+
+describe('calculateLLMCost', () => {
+  it('should price backend usage by the reported model', () => {
+    const cost = calculateLLMCost({
+      model: backendModel('claude-sonnet-4-5'),
+      usage: {
+        prompt_tokens: 1_000_000,
+        completion_tokens: 1_000_000,
+        total_tokens: 2_000_000,
+      },
+    })
+    expect(cost).toBeCloseTo(3 + 15)
+  })
+
+  it('should discount cache reads and surcharge cache writes', () => {
+    const cost = calculateLLMCost({
+      model: backendModel('claude-sonnet-4-5'),
+      usage: {
+        prompt_tokens: 3_000_000,
+        completion_tokens: 0,
+        total_tokens: 3_000_000,
+        cache_creation_input_tokens: 1_000_000,
+        cache_read_input_tokens: 1_000_000,
+      },
+    })
+    expect(cost).toBeCloseTo(3 + 3 * 1.25 + 3 * 0.1)
+  })
+
+  it('should return null for the unresolved backend placeholder', () => {
+    const cost = calculateLLMCost({
+      model: backendModel('backend-agent'),
+      usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+    })
+    expect(cost).toBeNull()
+  })
+})
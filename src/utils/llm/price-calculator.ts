@@ -2,6 +2,10 @@ import { ANTHROPIC_PRICES, GEMINI_PRICES, OPENAI_PRICES } from '../../constants'
 import { ChatModel } from '../../types/chat-model.types'
 import { ResponseUsage } from '../../types/llm/response'
 
+// Anthropic prompt caching: writes cost 1.25x input, reads 0.1x input
+const CACHE_WRITE_MULTIPLIER = 1.25
+const CACHE_READ_MULTIPLIER = 0.1
+
 // Returns the cost in dollars. Returns null if the model is not supported.
 export const calculateLLMCost = ({
   model,
@@ -20,11 +24,18 @@ export const calculateLLMCost = ({
         1_000_000
       )
     }
-    case 'anthropic': {
+    case 'anthropic':
+    case 'backend': {
+      // The backend runs Claude; its metadata carries the model it reported
       const modelPricing = ANTHROPIC_PRICES[model.model]
       if (!modelPricing) return null
+      const cacheWrite = usage.cache_creation_input_tokens ?? 0
+      const cacheRead = usage.cache_read_input_tokens ?? 0
+      const uncachedInput = usage.prompt_tokens - cacheWrite - cacheRead
       return (
-        (usage.prompt_tokens * modelPricing.input +
+        (uncachedInput * modelPricing.input +
+          cacheWrite * modelPricing.input * CACHE_WRITE_MULTIPLIER +
+          cacheRead * modelPricing.input * CACHE_READ_MULTIPLIER +
           usage.completion_tokens * modelPricing.output) /
         1_000_000
       )
@@ -1,11 +1,19 @@
-import { getEncoding } from 'js-tiktoken'
+import { Tiktoken, getEncoding } from 'js-tiktoken'
 
 // TODO: Replace js-tiktoken with tiktoken library for better performance
 // Note: tiktoken uses WebAssembly, requiring esbuild configuration
 
+// Building the encoder parses its whole vocabulary, so it's done once
+let encoder: Tiktoken | null = null
+
 // Caution: tokenCount is computationally expensive for large inputs.
 // Frequent use, especially on large files, may significantly impact performance.
 export async function tokenCount(text: string): Promise<number> {
-  const encoder = getEncoding('cl100k_base')
+  return tokenCountSync(text)
+}
+
+// For callers that count many small pieces, e.g. text splitters
+export function tokenCountSync(text: string): number {
+  encoder ??= getEncoding('cl100k_base')
   return encoder.encode(text).length
 }